@@ -0,0 +1,115 @@
+/**
+ * Removes quoted history, signatures and legal disclaimers from a plain-text body,
+ * so LLM-facing output spends its length budget on what the sender actually wrote.
+ * Heuristic and conservative: forwarded content is kept, and a body that would end
+ * up empty is returned unchanged.
+ */
+
+/** "full" returns the body as sent; "new-content" strips quotes, signatures and disclaimers. */
+export type BodyMode = "full" | "new-content";
+
+export interface CleanedBody {
+  text: string;
+  /** Characters dropped from the (trimmed) original. */
+  removedChars: number;
+}
+
+/** Attribution lines that introduce a quoted reply ("On <date>, <name> wrote:") in common locales. */
+const ATTRIBUTION_PATTERNS = [
+  /^On\s.+\swrote:\s*$/i,
+  /^Am\s.+\sschrieb.*:\s*$/i,
+  /^Le\s.+\sa\s[ée]crit\s*:\s*$/i,
+  /^El\s.+\sescribi[óo]\s*:\s*$/i,
+  /^Op\s.+\sschreef.*:\s*$/i,
+];
+
+const ORIGINAL_MESSAGE = /^-{2,}\s*Original Message\s*-{2,}\s*$/i;
+const OUTLOOK_SEPARATOR = /^_{10,}\s*$/;
+const HEADER_FROM = /^\*?From:\*?\s/i;
+const HEADER_SENT = /^\*?(Sent|Date):\*?\s/i;
+const HEADER_TO_OR_SUBJECT = /^\*?(To|Subject):\*?\s/i;
+const FORWARD_MARKER = /forwarded message|begin forwarded message/i;
+
+const SIGNATURE_DELIMITER = /^--\s?$/;
+const MOBILE_FOOTER = /^(Sent from my [\w ]+|Sent from (Outlook|Mail|Yahoo Mail)\b.*|Get Outlook for (iOS|Android).*)$/i;
+const DISCLAIMER =
+  /^(CONFIDENTIALITY NOTICE|DISCLAIMER|IMPORTANT NOTICE|This (e-?mail|message)\b.*\b(confidential|intended (solely )?for)|The information (contained )?in this (e-?mail|message)\b)/i;
+
+const isQuoted = (line: string) => /^\s*>/.test(line);
+
+function attributionAt(lines: string[], i: number): number {
+  const line = lines[i].trim();
+  if (ATTRIBUTION_PATTERNS.some((p) => p.test(line))) return 1;
+  // Gmail wraps long attributions: "On Tue, Jan 2, 2024 at 10:00 AM Ann <ann@x>\nwrote:"
+  const next = lines[i + 1]?.trim() ?? "";
+  if (/^(On|Am|Le|El|Op)\s/.test(line) && next.length < 40 && ATTRIBUTION_PATTERNS.some((p) => p.test(`${line} ${next}`))) {
+    return 2;
+  }
+  return 0;
+}
+
+function isOutlookHeader(lines: string[], i: number): boolean {
+  if (!HEADER_FROM.test(lines[i].trim())) return false;
+  const block = lines.slice(i + 1, i + 6).map((l) => l.trim());
+  if (!block.some((l) => HEADER_SENT.test(l)) || !block.some((l) => HEADER_TO_OR_SUBJECT.test(l))) return false;
+  const before = lines.slice(Math.max(0, i - 3), i).join(" ");
+  return !FORWARD_MARKER.test(before);
+}
+
+/**
+ * Index where trailing quoted history starts, or -1. Attribution lines followed by
+ * interleaved answers are not a cut point; their quoted lines are dropped instead.
+ */
+function quotedHistoryStart(lines: string[], dropped: Set<number>): number {
+  for (let i = 0; i < lines.length; i += 1) {
+    const line = lines[i].trim();
+    if (ORIGINAL_MESSAGE.test(line)) return i;
+    if (isOutlookHeader(lines, i)) {
+      return i > 0 && OUTLOOK_SEPARATOR.test(lines[i - 1].trim()) ? i - 1 : i;
+    }
+    const span = attributionAt(lines, i);
+    if (span > 0) {
+      const rest = lines.slice(i + span).filter((l) => l.trim() && !SIGNATURE_DELIMITER.test(l.trim()));
+      const interleaved = rest.some(isQuoted) && rest.some((l) => !isQuoted(l));
+      if (!interleaved) return i;
+      for (let k = i; k < i + span; k += 1) dropped.add(k);
+    }
+  }
+  return -1;
+}
+
+/** Index where the signature, mobile footer or disclaimer starts (after some content), or -1. */
+function trailerStart(lines: string[], end: number): number {
+  let seenContent = false;
+  for (let i = 0; i < end; i += 1) {
+    const line = lines[i].trim();
+    if (seenContent && (SIGNATURE_DELIMITER.test(lines[i]) || MOBILE_FOOTER.test(line) || DISCLAIMER.test(line))) {
+      return i;
+    }
+    if (line && !isQuoted(line)) seenContent = true;
+  }
+  return -1;
+}
+
+/**
+ * Strip quoted replies (">" quoting, "On … wrote:" attributions, Outlook
+ * "From: … Sent: …" headers), signatures and disclaimers from plain text.
+ */
+export function cleanBodyText(text: string): CleanedBody {
+  const original = text.replace(/\r\n/g, "\n").trim();
+  const lines = original.split("\n");
+  const dropped = new Set<number>();
+
+  let end = quotedHistoryStart(lines, dropped);
+  if (end < 0) end = lines.length;
+  const trailer = trailerStart(lines, end);
+  if (trailer >= 0) end = trailer;
+
+  const kept = lines.slice(0, end).filter((line, i) => !dropped.has(i) && !isQuoted(line));
+  const cleaned = kept
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  if (!cleaned) return { text: original, removedChars: 0 };
+  return { text: cleaned, removedChars: original.length - cleaned.length };
+}
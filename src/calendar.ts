@@ -0,0 +1,706 @@
+/**
+ * Calendar invites: parses iCalendar (RFC 5545) VEVENTs from text/calendar parts
+ * (method, organizer, attendees with PARTSTAT, start/end resolved to UTC, recurrence,
+ * location and conference links) and lists upcoming invites in a folder by event
+ * date. TZIDs resolve through the IANA database when known, else through the
+ * invite's own VTIMEZONE definitions (Outlook's Windows zone names). Read-only.
+ */
+
+import type { ParsedMail } from "mailparser";
+import type { MessageStructureObject } from "imapflow";
+import type { ImapConfig, MailConfig } from "./config.js";
+import { withMailbox } from "./connection.js";
+import {
+  decodeText,
+  envelopeWithOptionalSnippet,
+  parseDateInput,
+  readLimited,
+  type ImapClientLike,
+  type MessageEnvelope,
+} from "./imap.js";
+
+export interface InviteTime {
+  /** UTC instant (ISO 8601); YYYY-MM-DD for all-day events; wall-clock time for floating times. */
+  date: string;
+  /** TZID the time was given in. */
+  timezone?: string;
+  /** Wall-clock time in `timezone` (YYYY-MM-DDTHH:mm:ss). */
+  local?: string;
+  allDay?: boolean;
+  /** No timezone given or resolvable: `date` is a wall-clock time. */
+  floating?: boolean;
+}
+
+export interface InvitePerson {
+  email?: string;
+  name?: string;
+}
+
+export interface InviteAttendee extends InvitePerson {
+  /** NEEDS-ACTION, ACCEPTED, DECLINED, TENTATIVE, DELEGATED. */
+  partstat?: string;
+  role?: string;
+  rsvp?: boolean;
+}
+
+export interface InviteEvent {
+  uid?: string;
+  sequence?: number;
+  /** TENTATIVE, CONFIRMED or CANCELLED. */
+  status?: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  organizer?: InvitePerson;
+  attendees: InviteAttendee[];
+  start?: InviteTime;
+  end?: InviteTime;
+  /** Set on an override of one occurrence of a recurring event. */
+  recurrenceId?: InviteTime;
+  recurrence?: { rule?: string; exdates?: string[] };
+  /** Next occurrence at/after the reference time (recurring events in upcoming mode). */
+  nextOccurrence?: InviteTime;
+  conferenceLinks: string[];
+}
+
+export interface CalendarInvite {
+  /** iTIP method: REQUEST, CANCEL, REPLY, PUBLISH, ... */
+  method?: string;
+  events: InviteEvent[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  name: string;
+  props: ContentLine[];
+  children: Component[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const MAX_RECURRENCE_STEPS = 2000;
+
+const CONFERENCE_PROPERTIES = [
+  "CONFERENCE",
+  "X-GOOGLE-CONFERENCE",
+  "X-MICROSOFT-SKYPETEAMSMEETINGURL",
+  "X-MICROSOFT-ONLINEMEETINGCONFLINK",
+  "URL",
+];
+const CONFERENCE_URL =
+  /https:\/\/[^\s<>"')\]]*(zoom\.us\/|meet\.google\.com\/|teams\.microsoft\.com\/|teams\.live\.com\/|webex\.com\/|whereby\.com\/|meet\.jit\.si\/|gotomeet(ing)?\.(com|me)\/|chime\.aws\/)[^\s<>"')\]]*/gi;
+
+function unfold(text: string): string[] {
+  return text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim());
+}
+
+/** Split a content line at separators outside double quotes. */
+function splitOutsideQuotes(text: string, separator: string, limit: number = Infinity): string[] {
+  const parts: string[] = [];
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < text.length && parts.length < limit - 1; i += 1) {
+    if (text[i] === '"') quoted = !quoted;
+    else if (text[i] === separator && !quoted) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+function parseContentLine(line: string): ContentLine | undefined {
+  const [head, value] = splitOutsideQuotes(line, ":", 2);
+  if (value === undefined) return undefined;
+  const [name, ...rawParams] = splitOutsideQuotes(head, ";");
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf("=");
+    if (eq > 0) params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value };
+}
+
+function parseComponents(text: string): Component[] {
+  const root: Component = { name: "", props: [], children: [] };
+  const stack = [root];
+  for (const line of unfold(text)) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+    const current = stack[stack.length - 1];
+    if (parsed.name === "BEGIN") {
+      const child: Component = { name: parsed.value.trim().toUpperCase(), props: [], children: [] };
+      current.children.push(child);
+      stack.push(child);
+    } else if (parsed.name === "END") {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.props.push(parsed);
+    }
+  }
+  return root.children;
+}
+
+function prop(component: Component, name: string): ContentLine | undefined {
+  return component.props.find((p) => p.name === name);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN\\;,])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+function textProp(component: Component, name: string): string | undefined {
+  const value = prop(component, name)?.value;
+  return value ? unescapeText(value).trim() : undefined;
+}
+
+function toPerson(line: ContentLine): InvitePerson {
+  const email = line.value.replace(/^mailto:/i, "").trim() || undefined;
+  return { email, name: line.params.CN || undefined };
+}
+
+// ---- Time zones ----
+
+/** Wall-clock fields encoded as if they were UTC, so date arithmetic stays simple. */
+type WallTime = number;
+
+/** UTC offset (minutes) in effect at a wall-clock time. */
+type ZoneResolver = (wall: WallTime) => number;
+
+const intlFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function intlFormatter(tzid: string): Intl.DateTimeFormat | null {
+  if (!intlFormatters.has(tzid)) {
+    let formatter: Intl.DateTimeFormat | null = null;
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: tzid,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      });
+    } catch {
+      // Not an IANA zone name.
+    }
+    intlFormatters.set(tzid, formatter);
+  }
+  return intlFormatters.get(tzid) ?? null;
+}
+
+function intlResolver(tzid: string): ZoneResolver | undefined {
+  const formatter = intlFormatter(tzid);
+  if (!formatter) return undefined;
+  const offsetAt = (instant: number): number => {
+    const parts = Object.fromEntries(formatter.formatToParts(new Date(instant)).map((p) => [p.type, p.value]));
+    const asUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+    return Math.round((asUtc - instant) / 60000);
+  };
+  // The offset at the wall time read as UTC is close enough to find the real instant's offset.
+  return (wall) => offsetAt(wall - offsetAt(wall) * 60000);
+}
+
+function parseUtcOffset(value: string | undefined): number | undefined {
+  const match = /^([+-])(\d{2})(\d{2})/.exec(value?.trim() ?? "");
+  if (!match) return undefined;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+function parseWall(value: string): WallTime | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?/.exec(value.trim());
+  if (!match) return undefined;
+  const [, y, mo, d, h = "0", mi = "0", s = "0"] = match;
+  return Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+}
+
+function parseRule(rule: string | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const part of (rule ?? "").split(";")) {
+    const eq = part.indexOf("=");
+    if (eq > 0) out[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).toUpperCase();
+  }
+  return out;
+}
+
+/** Day of month of the nth (negative: from the end) weekday in a month. */
+function nthWeekday(year: number, month: number, weekday: number, n: number): number {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+    return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+  }
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const last = new Date(Date.UTC(year, month, lastDay)).getUTCDay();
+  return lastDay - ((last - weekday + 7) % 7) + (n + 1) * 7;
+}
+
+interface ZoneOnset {
+  wall: WallTime;
+  offsetTo: number;
+}
+
+/** Resolver from a VTIMEZONE's STANDARD/DAYLIGHT observances (yearly rules by month and weekday). */
+function vtimezoneResolver(zone: Component): ZoneResolver | undefined {
+  const observances = zone.children.filter((c) => c.name === "STANDARD" || c.name === "DAYLIGHT");
+  if (observances.length === 0) return undefined;
+  const onsetsFor = (year: number): ZoneOnset[] =>
+    observances.flatMap((obs) => {
+      const start = parseWall(prop(obs, "DTSTART")?.value ?? "");
+      const offsetTo = parseUtcOffset(prop(obs, "TZOFFSETTO")?.value);
+      if (start === undefined || offsetTo === undefined) return [];
+      const rule = parseRule(prop(obs, "RRULE")?.value);
+      if (rule.FREQ !== "YEARLY" || !rule.BYMONTH) return [{ wall: start, offsetTo }];
+      const byDay = /^([+-]?\d)?([A-Z]{2})$/.exec(rule.BYDAY ?? "");
+      const month = Number(rule.BYMONTH) - 1;
+      const startDate = new Date(start);
+      const day = byDay
+        ? nthWeekday(year, month, WEEKDAYS.indexOf(byDay[2]), Number(byDay[1] ?? 1))
+        : startDate.getUTCDate();
+      const wall = Date.UTC(year, month, day, startDate.getUTCHours(), startDate.getUTCMinutes());
+      return wall >= start ? [{ wall, offsetTo }] : [];
+    });
+  const fallback = parseUtcOffset(prop(observances[0], "TZOFFSETFROM")?.value) ?? 0;
+  return (wall) => {
+    const year = new Date(wall).getUTCFullYear();
+    const onsets = [...onsetsFor(year - 1), ...onsetsFor(year)]
+      .filter((o) => o.wall <= wall)
+      .sort((a, b) => b.wall - a.wall);
+    return onsets[0]?.offsetTo ?? fallback;
+  };
+}
+
+function zoneResolver(tzid: string, zones: Map<string, Component>): ZoneResolver | undefined {
+  const vtimezone = zones.get(tzid);
+  return intlResolver(tzid.replace(/^\//, "")) ?? (vtimezone ? vtimezoneResolver(vtimezone) : undefined);
+}
+
+function formatWall(wall: WallTime): string {
+  return new Date(wall).toISOString().slice(0, 19);
+}
+
+interface ResolvedTime {
+  time: InviteTime;
+  wall: WallTime;
+  toUtc: (wall: WallTime) => number | undefined;
+}
+
+function parseTime(line: ContentLine | undefined, zones: Map<string, Component>): ResolvedTime | undefined {
+  if (!line) return undefined;
+  const value = line.value.trim();
+  const wall = parseWall(value);
+  if (wall === undefined) return undefined;
+  if (line.params.VALUE === "DATE" || /^\d{8}$/.test(value)) {
+    return { time: { date: formatWall(wall).slice(0, 10), allDay: true }, wall, toUtc: (w) => w };
+  }
+  if (value.endsWith("Z")) {
+    return { time: { date: new Date(wall).toISOString() }, wall, toUtc: (w) => w };
+  }
+  const tzid = line.params.TZID;
+  const resolver = tzid ? zoneResolver(tzid, zones) : undefined;
+  if (!resolver) {
+    return { time: { date: formatWall(wall), timezone: tzid, floating: true }, wall, toUtc: () => undefined };
+  }
+  const toUtc = (w: WallTime) => w - resolver(w) * 60000;
+  return { time: { date: new Date(toUtc(wall)).toISOString(), timezone: tzid, local: formatWall(wall) }, wall, toUtc };
+}
+
+function withWall(resolved: ResolvedTime, wall: WallTime): InviteTime {
+  if (resolved.time.allDay) return { date: formatWall(wall).slice(0, 10), allDay: true };
+  const utc = resolved.toUtc(wall);
+  if (utc === undefined) return { ...resolved.time, date: formatWall(wall) };
+  return { ...resolved.time, date: new Date(utc).toISOString(), ...(resolved.time.local ? { local: formatWall(wall) } : {}) };
+}
+
+/** ISO 8601 duration (P1DT2H30M) in milliseconds. */
+function parseDuration(value: string | undefined): number | undefined {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value?.trim() ?? "");
+  if (!match) return undefined;
+  const [, sign, w = "0", d = "0", h = "0", m = "0", s = "0"] = match;
+  const ms = ((+w * 7 + +d) * 24 * 3600 + +h * 3600 + +m * 60 + +s) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+// ---- Recurrence ----
+
+/** Whole periods of the rule's frequency (days, weeks, months, years) from start to target. */
+function periodsBetween(start: WallTime, target: WallTime, freq: string | undefined): number {
+  const a = new Date(start);
+  const b = new Date(target);
+  switch (freq) {
+    case "DAILY":
+      return Math.floor((target - start) / DAY_MS);
+    case "WEEKLY":
+      return Math.floor((target - start) / (7 * DAY_MS));
+    case "MONTHLY":
+      return (b.getUTCFullYear() - a.getUTCFullYear()) * 12 + b.getUTCMonth() - a.getUTCMonth();
+    case "YEARLY":
+      return b.getUTCFullYear() - a.getUTCFullYear();
+    default:
+      return 0;
+  }
+}
+
+/** Days of a month falling on a weekday (BYDAY without an ordinal). */
+function everyWeekday(year: number, month: number, weekday: number, lastDay: number): number[] {
+  const days: number[] = [];
+  for (let d = nthWeekday(year, month, weekday, 1); d <= lastDay; d += 7) days.push(d);
+  return days;
+}
+
+/**
+ * Candidate occurrence start times (wall clock) of an RRULE, in order. With `skipTo`,
+ * iteration starts at the period just before it instead of at DTSTART.
+ */
+function* recurrenceWalls(start: WallTime, rule: Record<string, string>, skipTo?: WallTime): Generator<WallTime> {
+  const interval = Math.max(1, Number(rule.INTERVAL ?? 1) || 1);
+  const s = new Date(start);
+  const timeOfDay = start - Date.UTC(s.getUTCFullYear(), s.getUTCMonth(), s.getUTCDate());
+  const byDay = (rule.BYDAY ?? "")
+    .split(",")
+    .map((d) => /^([+-]?\d+)?([A-Z]{2})$/.exec(d.trim()))
+    .filter((m): m is RegExpExecArray => m !== null && WEEKDAYS.includes(m[2]));
+  const byMonthDay = (rule.BYMONTHDAY ?? "")
+    .split(",")
+    .map(Number)
+    .filter((d) => Number.isInteger(d) && d !== 0);
+  const first = skipTo === undefined ? 0 : Math.max(0, Math.floor(periodsBetween(start, skipTo, rule.FREQ) / interval) - 1);
+  // COUNT series are walked from DTSTART, so they may need COUNT more steps.
+  const last = first + MAX_RECURRENCE_STEPS + (Number(rule.COUNT) || 0);
+
+  for (let step = first; step < last; step += 1) {
+    const k = step * interval;
+    switch (rule.FREQ) {
+      case "DAILY":
+        yield start + k * DAY_MS;
+        break;
+      case "WEEKLY": {
+        const days = byDay.length > 0 ? byDay.map((m) => WEEKDAYS.indexOf(m[2])) : [s.getUTCDay()];
+        // Weeks start on Monday (WKST default).
+        const weekStart = start - timeOfDay - ((s.getUTCDay() + 6) % 7) * DAY_MS + k * 7 * DAY_MS;
+        const walls = days.map((d) => weekStart + ((d + 6) % 7) * DAY_MS + timeOfDay).sort((a, b) => a - b);
+        for (const wall of walls) if (wall >= start) yield wall;
+        break;
+      }
+      case "MONTHLY": {
+        const month = s.getUTCMonth() + k;
+        const year = s.getUTCFullYear() + Math.floor(month / 12);
+        const m = ((month % 12) + 12) % 12;
+        const lastDay = new Date(Date.UTC(year, m + 1, 0)).getUTCDate();
+        // Negative BYMONTHDAY counts from the end of the month (-1 = last day).
+        const monthDays = byMonthDay.map((d) => (d < 0 ? lastDay + d + 1 : d));
+        let days = monthDays.length > 0 ? monthDays : [s.getUTCDate()];
+        if (byDay.length > 0) {
+          const weekdays = byDay.flatMap((d) =>
+            d[1]
+              ? [nthWeekday(year, m, WEEKDAYS.indexOf(d[2]), Number(d[1]))]
+              : everyWeekday(year, m, WEEKDAYS.indexOf(d[2]), lastDay)
+          );
+          // BYDAY together with BYMONTHDAY keeps the days matching both (e.g. Friday the 13th).
+          days = monthDays.length > 0 ? weekdays.filter((d) => monthDays.includes(d)) : weekdays;
+        }
+        const walls = [...new Set(days)]
+          .filter((d) => d >= 1 && d <= lastDay)
+          .map((d) => Date.UTC(year, m, d) + timeOfDay)
+          .sort((a, b) => a - b);
+        for (const wall of walls) if (wall >= start) yield wall;
+        break;
+      }
+      case "YEARLY": {
+        const wall = Date.UTC(s.getUTCFullYear() + k, s.getUTCMonth(), s.getUTCDate()) + timeOfDay;
+        if (new Date(wall).getUTCDate() === s.getUTCDate()) yield wall;
+        break;
+      }
+      default:
+        return;
+    }
+  }
+}
+
+/** First occurrence ending at/after `from` (or undefined when the series is over or unsupported). */
+function nextOccurrence(
+  start: ResolvedTime,
+  durationMs: number,
+  rule: Record<string, string>,
+  exdates: Set<string>,
+  from: number
+): InviteTime | undefined {
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const until = rule.UNTIL ? parseWall(rule.UNTIL) : undefined;
+  const untilUtc = until !== undefined && !rule.UNTIL.endsWith("Z") ? start.toUtc(until) ?? until : until;
+  // Without COUNT, earlier occurrences need not be counted, so start near `from`
+  // (a day early for the UTC/wall-clock offset, earlier still for running occurrences).
+  const skipTo = rule.COUNT ? undefined : from - durationMs - DAY_MS;
+  let seen = 0;
+  for (const wall of recurrenceWalls(start.wall, rule, skipTo)) {
+    seen += 1;
+    if (seen > count) return undefined;
+    const utc = start.toUtc(wall) ?? wall;
+    if (untilUtc !== undefined && utc > untilUtc) return undefined;
+    const time = withWall(start, wall);
+    if (exdates.has(time.date)) continue;
+    if (utc + durationMs >= from) return time;
+  }
+  return undefined;
+}
+
+// ---- Events ----
+
+function conferenceLinks(event: Component): string[] {
+  const links = new Set<string>();
+  for (const name of CONFERENCE_PROPERTIES) {
+    for (const line of event.props.filter((p) => p.name === name)) {
+      const value = unescapeText(line.value).trim();
+      if (/^https:\/\//i.test(value) && (name !== "URL" || value.match(CONFERENCE_URL))) links.add(value);
+    }
+  }
+  for (const text of [textProp(event, "LOCATION"), textProp(event, "DESCRIPTION")]) {
+    for (const match of text?.matchAll(CONFERENCE_URL) ?? []) links.add(match[0]);
+  }
+  return Array.from(links);
+}
+
+function toEvent(component: Component, zones: Map<string, Component>, upcomingFrom?: number): InviteEvent {
+  const start = parseTime(prop(component, "DTSTART"), zones);
+  const endLine = parseTime(prop(component, "DTEND") ?? prop(component, "DUE"), zones);
+  const duration = parseDuration(prop(component, "DURATION")?.value);
+  let end = endLine?.time;
+  if (!end && start && duration !== undefined) end = withWall(start, start.wall + duration);
+  const durationMs = start && endLine ? Math.max(0, endLine.wall - start.wall) : (duration ?? 0);
+
+  const rule = prop(component, "RRULE")?.value;
+  const exdates = component.props
+    .filter((p) => p.name === "EXDATE")
+    .flatMap((p) => p.value.split(",").map((v) => parseTime({ ...p, value: v }, zones)?.time.date))
+    .filter((d): d is string => Boolean(d));
+  const sequence = Number(prop(component, "SEQUENCE")?.value);
+
+  const event: InviteEvent = {
+    uid: textProp(component, "UID"),
+    sequence: Number.isFinite(sequence) ? sequence : undefined,
+    status: textProp(component, "STATUS")?.toUpperCase(),
+    summary: textProp(component, "SUMMARY") ?? "",
+    description: textProp(component, "DESCRIPTION"),
+    location: textProp(component, "LOCATION"),
+    organizer: prop(component, "ORGANIZER") ? toPerson(prop(component, "ORGANIZER")!) : undefined,
+    attendees: component.props
+      .filter((p) => p.name === "ATTENDEE")
+      .map((p) => ({
+        ...toPerson(p),
+        partstat: p.params.PARTSTAT?.toUpperCase(),
+        role: p.params.ROLE?.toUpperCase(),
+        rsvp: p.params.RSVP ? p.params.RSVP.toUpperCase() === "TRUE" : undefined,
+      })),
+    start: start?.time,
+    end,
+    recurrenceId: parseTime(prop(component, "RECURRENCE-ID"), zones)?.time,
+    recurrence: rule ? { rule, exdates: exdates.length > 0 ? exdates : undefined } : undefined,
+    conferenceLinks: conferenceLinks(component),
+  };
+  if (rule && start && upcomingFrom !== undefined) {
+    event.nextOccurrence = nextOccurrence(start, durationMs, parseRule(rule), new Set(exdates), upcomingFrom);
+  }
+  return event;
+}
+
+/**
+ * Parse an iCalendar document. With upcomingFrom, recurring events get their next
+ * occurrence at/after that time.
+ */
+export function parseCalendar(text: string, options: { upcomingFrom?: Date } = {}): CalendarInvite {
+  const calendars = parseComponents(text).filter((c) => c.name === "VCALENDAR");
+  const zones = new Map<string, Component>();
+  for (const calendar of calendars) {
+    for (const zone of calendar.children.filter((c) => c.name === "VTIMEZONE")) {
+      const tzid = prop(zone, "TZID")?.value.trim();
+      if (tzid) zones.set(tzid, zone);
+    }
+  }
+  const from = options.upcomingFrom?.getTime();
+  return {
+    method: calendars.map((c) => prop(c, "METHOD")?.value.trim().toUpperCase()).find(Boolean),
+    events: calendars.flatMap((c) => c.children.filter((e) => e.name === "VEVENT").map((e) => toEvent(e, zones, from))),
+  };
+}
+
+const CALENDAR_TYPES = new Set(["text/calendar", "application/ics"]);
+
+function isCalendarPart(contentType: string | undefined, filename: string | undefined): boolean {
+  return CALENDAR_TYPES.has(String(contentType ?? "").toLowerCase()) || /\.ics$/i.test(filename ?? "");
+}
+
+/** Invite carried by a parsed message (its text/calendar parts merged), if any. */
+export function inviteFromParsed(parsed: ParsedMail): CalendarInvite | undefined {
+  const parts = parsed.attachments.filter((a) => isCalendarPart(a.contentType, a.filename));
+  if (parts.length === 0) return undefined;
+  const invites = parts.map((part) => parseCalendar(part.content.toString("utf8")));
+  const seen = new Set<string>();
+  const events = invites
+    .flatMap((invite) => invite.events)
+    .filter((event) => {
+      const key = `${event.uid}|${event.recurrenceId?.date ?? ""}|${event.sequence ?? ""}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  return { method: invites.map((i) => i.method).find(Boolean), events };
+}
+
+// ---- Upcoming invites in a folder ----
+
+export interface UpcomingInvitesOptions {
+  /** Events ending at/after this time (ISO). Default: now. */
+  from?: string;
+  /** Events starting before this time (ISO). */
+  until?: string;
+  /** Only scan messages received on/after this date. Default: 90 days before `from`. */
+  since?: string;
+  /** Max invites returned. Default 20. */
+  limit?: number;
+  /** Scan at most this many messages (newest first). Default 500. */
+  maxMessages?: number;
+}
+
+export interface UpcomingInvite {
+  message: MessageEnvelope;
+  method?: string;
+  event: InviteEvent;
+  /** The event's start, or its next occurrence for recurring events. */
+  startsAt: InviteTime;
+}
+
+export interface UpcomingInvitesResult {
+  mailbox: string;
+  from: string;
+  until?: string;
+  scannedMessages: number;
+  invites: UpcomingInvite[];
+}
+
+const DEFAULT_UPCOMING_LIMIT = 20;
+const DEFAULT_SCAN_MESSAGES = 500;
+const DEFAULT_LOOKBACK_DAYS = 90;
+const FETCH_BATCH_SIZE = 200;
+
+function calendarParts(structure: MessageStructureObject | undefined): MessageStructureObject[] {
+  if (!structure) return [];
+  const own =
+    !structure.childNodes?.length &&
+    isCalendarPart(structure.type, structure.dispositionParameters?.filename ?? structure.parameters?.name)
+      ? [structure]
+      : [];
+  return [...own, ...(structure.childNodes ?? []).flatMap(calendarParts)];
+}
+
+/** Sort key (epoch ms) of an invite time; floating and all-day times are read as UTC. */
+function timeValue(time: InviteTime | undefined): number {
+  if (!time) return NaN;
+  return new Date(time.allDay ? `${time.date}T00:00:00Z` : time.floating ? `${time.date}Z` : time.date).getTime();
+}
+
+async function downloadPart(
+  client: ImapClientLike,
+  uid: number,
+  node: MessageStructureObject,
+  maxBytes: number
+): Promise<string | undefined> {
+  if (!client.download || !node.part) return undefined;
+  const download = await client.download(String(uid), node.part, {
+    uid: true,
+    maxBytes: maxBytes > 0 ? maxBytes + 1 : undefined,
+  });
+  if (!download?.content) return undefined;
+  try {
+    const data = await readLimited(download.content, maxBytes > 0 ? maxBytes : Infinity);
+    return decodeText(data, download.meta?.charset ?? node.parameters?.charset);
+  } catch {
+    return undefined; // Oversized calendar part: skip rather than fail the scan.
+  }
+}
+
+/**
+ * Invites in a folder whose events are still upcoming, ordered by event start (not
+ * message date). Later versions of an event (higher SEQUENCE, newer message)
+ * replace earlier ones, so cancellations show up as method CANCEL. Replies are
+ * left out. Read-only.
+ */
+export async function getUpcomingInvites(
+  config: ImapConfig,
+  mailConfig: MailConfig,
+  mailbox: string,
+  options: UpcomingInvitesOptions = {}
+): Promise<UpcomingInvitesResult> {
+  const from = parseDateInput("from", options.from) ?? new Date();
+  const until = parseDateInput("until", options.until);
+  const since = parseDateInput("since", options.since) ?? new Date(from.getTime() - DEFAULT_LOOKBACK_DAYS * DAY_MS);
+  const limit = Math.max(1, Math.floor(options.limit ?? DEFAULT_UPCOMING_LIMIT));
+  const maxMessages = Math.max(1, Math.floor(options.maxMessages ?? DEFAULT_SCAN_MESSAGES));
+
+  return withMailbox(config, mailbox, async (client) => {
+    const found = await client.search({ since }, { uid: true });
+    const uids = (found || []).slice().sort((a, b) => b - a).slice(0, maxMessages);
+    const latest = new Map<string, UpcomingInvite & { messageUid: number }>();
+
+    for (let i = 0; i < uids.length; i += FETCH_BATCH_SIZE) {
+      const batch = uids.slice(i, i + FETCH_BATCH_SIZE);
+      const candidates: Array<{ envelope: MessageEnvelope; parts: MessageStructureObject[] }> = [];
+      for await (const msg of client.fetch(batch, { uid: true, envelope: true, bodyStructure: true }, { uid: true })) {
+        const parts = calendarParts(msg.bodyStructure);
+        if (parts.length === 0) continue;
+        const envelope = await envelopeWithOptionalSnippet(msg, false, 0, {
+          path: client.mailbox?.path ?? mailbox,
+          uidValidity: client.mailbox?.uidValidity?.toString(),
+        });
+        candidates.push({ envelope, parts });
+      }
+      for (const { envelope, parts } of candidates) {
+        for (const node of parts) {
+          const text = await downloadPart(client, envelope.uid, node, mailConfig.maxAttachmentBytes);
+          if (!text) continue;
+          const invite = parseCalendar(text, { upcomingFrom: from });
+          if (invite.method === "REPLY") continue;
+          for (const event of invite.events) {
+            const startsAt = event.recurrence ? event.nextOccurrence : event.start;
+            if (!startsAt) continue;
+            const key = `${event.uid ?? `${envelope.uid}:${event.summary}`}|${event.recurrenceId?.date ?? ""}`;
+            const previous = latest.get(key);
+            const newer =
+              !previous ||
+              (event.sequence ?? 0) > (previous.event.sequence ?? 0) ||
+              ((event.sequence ?? 0) === (previous.event.sequence ?? 0) && envelope.uid > previous.messageUid);
+            if (newer) latest.set(key, { message: envelope, method: invite.method, event, startsAt, messageUid: envelope.uid });
+          }
+        }
+      }
+    }
+
+    const invites = Array.from(latest.values())
+      .filter(({ event, startsAt }) => {
+        const start = timeValue(startsAt);
+        const duration = event.end && event.start ? timeValue(event.end) - timeValue(event.start) : 0;
+        return start + Math.max(0, duration) >= from.getTime() && (!until || start < until.getTime());
+      })
+      .sort((a, b) => timeValue(a.startsAt) - timeValue(b.startsAt))
+      .slice(0, limit)
+      .map(({ messageUid: _messageUid, ...invite }) => invite);
+
+    return {
+      mailbox,
+      from: from.toISOString(),
+      until: until?.toISOString(),
+      scannedMessages: uids.length,
+      invites,
+    };
+  });
+}
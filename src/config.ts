@@ -1,8 +1,12 @@
 /**
  * Configuration for the MCP server and IMAP providers (including Proton Bridge).
- * Load from environment; see .env.example.
+ * Load from environment; see .env.example. Multiple accounts can be defined in a
+ * JSON/YAML file pointed to by MAIL_ACCOUNTS_FILE.
  */
 
+import { readFileSync } from "node:fs";
+import { parse as parseYaml } from "yaml";
+
 export interface ImapConfig {
   host: string;
   port: number;
@@ -11,6 +15,12 @@ export interface ImapConfig {
   tlsRejectUnauthorized: boolean;
   user: string;
   pass: string;
+  /** Max pooled connections per account. Defaults to 2. */
+  maxConnections?: number;
+  /** How often idle pooled connections send NOOP (ms). Defaults to 60000. */
+  keepaliveIntervalMs?: number;
+  /** Close pooled connections unused for this long (ms). Defaults to 600000. */
+  idleTimeoutMs?: number;
 }
 
 export interface MailConfig {
@@ -20,6 +30,86 @@ export interface MailConfig {
   maxResults: number;
   /** Max length of optional snippets returned in list/search outputs. */
   snippetLength: number;
+  /** Max decoded size of one attachment returned by mail_get_attachment (bytes). 0 = no limit. */
+  maxAttachmentBytes: number;
+  /** Token budget for one tool result (approximate); larger output is shaped. 0 = no limit. */
+  maxTokens: number;
+  /** Folders watched with IMAP IDLE for change notifications (MAIL_WATCH_FOLDERS). */
+  watchFolders: string[];
+}
+
+export interface WriteConfig {
+  /** Opt-in switch for mailbox-modifying tools (MAIL_ALLOW_WRITE=true). Off by default. */
+  allowWrite: boolean;
+  /** Folders that move/copy tools (and delete, for its Trash folder) may target. Empty = none. */
+  allowedTargetFolders: string[];
+  /** Opt-in switch for permanent deletion (MAIL_ALLOW_EXPUNGE=true). Off by default. */
+  allowExpunge: boolean;
+  /** Max messages a single write call may touch. */
+  maxMessagesPerCall: number;
+  /** Opt-in switch for mail_create_draft (MAIL_ALLOW_DRAFTS=true). Off by default. */
+  allowDrafts: boolean;
+  /** From address for drafts. Empty = IMAP_USER. */
+  draftFrom: string;
+}
+
+export interface IndexConfig {
+  /** Local full-text index on/off. Off unless MAIL_INDEX_DIR is set, so no mail is written to disk by default. */
+  enabled: boolean;
+  /** Directory holding index files (MAIL_INDEX_DIR). */
+  dir: string;
+  /** Folders mail_search_ranked covers when none are given. */
+  folders: string[];
+  /** Max body characters stored per message. */
+  maxBodyChars: number;
+  /** Max new messages fetched per folder per sync, so the first sync of a big folder stays bounded. */
+  syncBatchSize: number;
+}
+
+export interface CacheConfig {
+  /** Memory budget for cached message sources (MAIL_CACHE_MEMORY_BYTES). 0 = no caching. */
+  memoryBytes: number;
+  /** Optional on-disk store (MAIL_CACHE_DIR). Empty = memory only. */
+  dir: string;
+  /** Max bytes of message sources kept on disk (MAIL_CACHE_MAX_BYTES). */
+  maxDiskBytes: number;
+}
+
+export interface ExportConfig {
+  /** Batch export to files on/off. Off unless MAIL_EXPORT_DIR is set. */
+  enabled: boolean;
+  /** Root directory every batch export is written under (MAIL_EXPORT_DIR). */
+  dir: string;
+}
+
+export interface CursorConfig {
+  /** HMAC-sign pagination cursors with a per-process secret (MAIL_SIGN_CURSORS). */
+  sign: boolean;
+}
+
+export interface TransportConfig {
+  /** "stdio" (default) or "http" (streamable HTTP, for remote or shared use). */
+  transport: "stdio" | "http";
+  /** Bind address for HTTP. Defaults to localhost so nothing is exposed by accident. */
+  host: string;
+  port: number;
+  /** Bearer token every HTTP request must present (MCP_HTTP_TOKEN). */
+  token: string;
+  /** HTTP sessions with no request for this long are closed (MCP_HTTP_SESSION_IDLE_MS). */
+  sessionIdleMs?: number;
+}
+
+/** One named mailbox account with its own connection and output limits. */
+export interface AccountConfig {
+  name: string;
+  imap: ImapConfig;
+  mail: MailConfig;
+}
+
+export interface AccountsConfig {
+  accounts: AccountConfig[];
+  /** Account used when a tool call does not name one. */
+  defaultAccount: string;
 }
 
 function looksLikeIpAddress(value: string): boolean {
@@ -38,18 +128,27 @@ function env(name: string, defaultValue?: string): string {
   return v ?? "";
 }
 
-export function loadImapConfig(): ImapConfig {
-  const host = env("IMAP_HOST", "127.0.0.1");
-  const user = env("IMAP_USER", "");
+function positiveInt(raw: string, fallback: number): number {
+  const n = parseInt(raw, 10);
+  return Number.isNaN(n) || n < 1 ? fallback : n;
+}
+
+function isPlausibleImapUser(user: string, host: string): boolean {
   const normalizedUser = user.trim().toLowerCase();
   const normalizedHost = host.trim().toLowerCase();
-  if (
+  return !(
     normalizedUser === "localhost" ||
     looksLikeIpAddress(normalizedUser) ||
     normalizedUser === normalizedHost ||
     normalizedUser.startsWith("http://") ||
     normalizedUser.startsWith("https://")
-  ) {
+  );
+}
+
+export function loadImapConfig(): ImapConfig {
+  const host = env("IMAP_HOST", "127.0.0.1");
+  const user = env("IMAP_USER", "");
+  if (!isPlausibleImapUser(user, host)) {
     throw new Error(
       "Invalid IMAP_USER value. This must be your IMAP username/email " +
         "(e.g. you@proton.me), not IMAP_HOST or an IP/URL."
@@ -63,6 +162,9 @@ export function loadImapConfig(): ImapConfig {
     tlsRejectUnauthorized: env("IMAP_TLS_REJECT_UNAUTHORIZED", "false").toLowerCase() !== "false",
     user,
     pass: env("IMAP_PASS", ""),
+    maxConnections: positiveInt(env("IMAP_POOL_SIZE", "2"), 2),
+    keepaliveIntervalMs: positiveInt(env("IMAP_KEEPALIVE_MS", "60000"), 60000),
+    idleTimeoutMs: positiveInt(env("IMAP_IDLE_TIMEOUT_MS", "600000"), 600000),
   };
 }
 
@@ -70,12 +172,245 @@ export function loadMailConfig(): MailConfig {
   const rawBody = env("MAIL_MAX_BODY_LENGTH", "50000");
   const rawMaxResults = env("MAIL_MAX_RESULTS", "200");
   const rawSnippet = env("MAIL_SNIPPET_LENGTH", "400");
+  const rawAttachment = env("MAIL_MAX_ATTACHMENT_BYTES", "1048576");
+  const rawMaxTokens = env("MAIL_MAX_TOKENS", "0");
   const body = parseInt(rawBody, 10);
   const maxResults = parseInt(rawMaxResults, 10);
   const snippetLength = parseInt(rawSnippet, 10);
+  const maxAttachmentBytes = parseInt(rawAttachment, 10);
+  const maxTokens = parseInt(rawMaxTokens, 10);
   return {
     maxBodyLength: Number.isNaN(body) || body < 0 ? 50000 : body,
     maxResults: Number.isNaN(maxResults) || maxResults < 1 ? 200 : maxResults,
     snippetLength: Number.isNaN(snippetLength) || snippetLength < 0 ? 400 : snippetLength,
+    maxAttachmentBytes: Number.isNaN(maxAttachmentBytes) || maxAttachmentBytes < 0 ? 1048576 : maxAttachmentBytes,
+    maxTokens: Number.isNaN(maxTokens) || maxTokens < 0 ? 0 : maxTokens,
+    watchFolders: env("MAIL_WATCH_FOLDERS", "")
+      .split(",")
+      .map((f) => f.trim())
+      .filter(Boolean),
+  };
+}
+
+export function loadWriteConfig(): WriteConfig {
+  const rawMax = parseInt(env("MAIL_WRITE_MAX_MESSAGES", "50"), 10);
+  return {
+    allowWrite: env("MAIL_ALLOW_WRITE", "false").toLowerCase() === "true",
+    allowedTargetFolders: env("MAIL_WRITE_ALLOWED_FOLDERS", "")
+      .split(",")
+      .map((f) => f.trim())
+      .filter(Boolean),
+    allowExpunge: env("MAIL_ALLOW_EXPUNGE", "false").toLowerCase() === "true",
+    maxMessagesPerCall: Number.isNaN(rawMax) || rawMax < 1 ? 50 : rawMax,
+    allowDrafts: env("MAIL_ALLOW_DRAFTS", "false").toLowerCase() === "true",
+    draftFrom: env("MAIL_DRAFT_FROM", "").trim(),
+  };
+}
+
+export function loadIndexConfig(): IndexConfig {
+  const dir = env("MAIL_INDEX_DIR", "").trim();
+  const folders = env("MAIL_INDEX_FOLDERS", "INBOX")
+    .split(",")
+    .map((f) => f.trim())
+    .filter(Boolean);
+  return {
+    enabled: dir.length > 0,
+    dir,
+    folders: folders.length > 0 ? folders : ["INBOX"],
+    maxBodyChars: positiveInt(env("MAIL_INDEX_MAX_BODY_CHARS", "4000"), 4000),
+    syncBatchSize: positiveInt(env("MAIL_INDEX_SYNC_BATCH", "500"), 500),
   };
 }
+
+export function loadCacheConfig(): CacheConfig {
+  const memoryBytes = parseInt(env("MAIL_CACHE_MEMORY_BYTES", "16777216"), 10);
+  return {
+    memoryBytes: Number.isNaN(memoryBytes) || memoryBytes < 0 ? 16777216 : memoryBytes,
+    dir: env("MAIL_CACHE_DIR", "").trim(),
+    maxDiskBytes: positiveInt(env("MAIL_CACHE_MAX_BYTES", "268435456"), 268435456),
+  };
+}
+
+export function loadExportConfig(): ExportConfig {
+  const dir = env("MAIL_EXPORT_DIR", "").trim();
+  return { enabled: dir.length > 0, dir };
+}
+
+export function loadCursorConfig(): CursorConfig {
+  return { sign: env("MAIL_SIGN_CURSORS", "false").toLowerCase() === "true" };
+}
+
+function cliOption(argv: string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i += 1) {
+    if (argv[i] === `--${name}`) return argv[i + 1];
+    if (argv[i].startsWith(`--${name}=`)) return argv[i].slice(name.length + 3);
+  }
+  return undefined;
+}
+
+/**
+ * Transport selection: `--transport http` (or MCP_TRANSPORT=http) serves streamable
+ * HTTP; `--host`/`--port` override MCP_HTTP_HOST/MCP_HTTP_PORT.
+ */
+export function loadTransportConfig(argv: string[] = process.argv.slice(2)): TransportConfig {
+  const transport = (cliOption(argv, "transport") ?? env("MCP_TRANSPORT", "stdio")).trim().toLowerCase();
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Invalid transport: ${transport}. Use "stdio" or "http".`);
+  }
+  const token = env("MCP_HTTP_TOKEN", "").trim();
+  if (transport === "http" && token.length < 16) {
+    throw new Error(
+      "MCP_HTTP_TOKEN must be set (at least 16 characters) when using the HTTP transport. " +
+        "Generate one with: openssl rand -hex 32"
+    );
+  }
+  return {
+    transport,
+    host: (cliOption(argv, "host") ?? env("MCP_HTTP_HOST", "127.0.0.1")).trim(),
+    port: positiveInt(cliOption(argv, "port") ?? env("MCP_HTTP_PORT", "3000"), 3000),
+    token,
+    sessionIdleMs: positiveInt(env("MCP_HTTP_SESSION_IDLE_MS", "1800000"), 1800000),
+  };
+}
+
+type RawAccount = Record<string, unknown>;
+
+function readAccountsFile(path: string): unknown {
+  let text: string;
+  try {
+    text = readFileSync(path, "utf8");
+  } catch (err) {
+    throw new Error(`Cannot read MAIL_ACCOUNTS_FILE ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  try {
+    return /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Cannot parse MAIL_ACCOUNTS_FILE ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function optionalNumber(raw: RawAccount, key: string, min: number, problems: string[]): number | undefined {
+  const value = raw[key];
+  if (value == null) return undefined;
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    problems.push(`${key} must be an integer >= ${min}`);
+    return undefined;
+  }
+  return n;
+}
+
+function optionalBoolean(raw: RawAccount, key: string, problems: string[]): boolean | undefined {
+  const value = raw[key];
+  if (value == null) return undefined;
+  if (typeof value === "boolean") return value;
+  if (value === "true" || value === "false") return value === "true";
+  problems.push(`${key} must be true or false`);
+  return undefined;
+}
+
+/** Build one account from its file entry; problems are collected instead of thrown. */
+function parseAccount(raw: RawAccount, defaults: MailConfig, problems: string[]): AccountConfig {
+  const name = String(raw.name ?? "").trim();
+  const host = String(raw.host ?? "127.0.0.1").trim();
+  const user = String(raw.user ?? "").trim();
+  const passEnv = raw.passEnv == null ? undefined : String(raw.passEnv);
+  const pass = passEnv ? (process.env[passEnv] ?? "") : String(raw.pass ?? "");
+
+  if (!name) problems.push("name is required");
+  if (!user) problems.push("user is required");
+  else if (!isPlausibleImapUser(user, host)) {
+    problems.push("user must be the IMAP username/email, not the host or an IP/URL");
+  }
+  if (!pass) problems.push(passEnv ? `password env ${passEnv} is not set` : "pass or passEnv is required");
+
+  return {
+    name,
+    imap: {
+      host,
+      port: optionalNumber(raw, "port", 1, problems) ?? 1143,
+      secure: optionalBoolean(raw, "secure", problems) ?? false,
+      tlsRejectUnauthorized: optionalBoolean(raw, "tlsRejectUnauthorized", problems) ?? false,
+      user,
+      pass,
+      maxConnections: optionalNumber(raw, "poolSize", 1, problems) ?? 2,
+      keepaliveIntervalMs: optionalNumber(raw, "keepaliveMs", 1, problems) ?? 60000,
+      idleTimeoutMs: optionalNumber(raw, "idleTimeoutMs", 1, problems) ?? 600000,
+    },
+    mail: {
+      maxBodyLength: optionalNumber(raw, "maxBodyLength", 0, problems) ?? defaults.maxBodyLength,
+      maxResults: optionalNumber(raw, "maxResults", 1, problems) ?? defaults.maxResults,
+      snippetLength: optionalNumber(raw, "snippetLength", 0, problems) ?? defaults.snippetLength,
+      maxAttachmentBytes: optionalNumber(raw, "maxAttachmentBytes", 0, problems) ?? defaults.maxAttachmentBytes,
+      maxTokens: optionalNumber(raw, "maxTokens", 0, problems) ?? defaults.maxTokens,
+      watchFolders: [],
+    },
+  };
+}
+
+/**
+ * Load every configured account. Without MAIL_ACCOUNTS_FILE this is a single
+ * "default" account built from IMAP_* / MAIL_* env. Every account in the file is
+ * validated, and all problems are reported together, naming the account.
+ */
+export function loadAccountsConfig(path: string | undefined = process.env.MAIL_ACCOUNTS_FILE): AccountsConfig {
+  const mailDefaults = loadMailConfig();
+  if (!path || !path.trim()) {
+    return {
+      accounts: [{ name: "default", imap: loadImapConfig(), mail: mailDefaults }],
+      defaultAccount: "default",
+    };
+  }
+
+  const data = readAccountsFile(path.trim());
+  const rawAccounts = (data as { accounts?: unknown } | null)?.accounts;
+  if (!Array.isArray(rawAccounts) || rawAccounts.length === 0) {
+    throw new Error(`Invalid MAIL_ACCOUNTS_FILE ${path}: expected a non-empty "accounts" list`);
+  }
+
+  const errors: string[] = [];
+  const accounts = rawAccounts.map((raw, i) => {
+    const problems: string[] = [];
+    const account = parseAccount(
+      raw && typeof raw === "object" ? (raw as RawAccount) : {},
+      mailDefaults,
+      problems
+    );
+    const label = account.name ? `account "${account.name}"` : `account #${i + 1}`;
+    for (const problem of problems) errors.push(`${label}: ${problem}`);
+    return account;
+  });
+
+  const seen = new Set<string>();
+  for (const account of accounts) {
+    if (account.name && seen.has(account.name)) errors.push(`account "${account.name}": duplicate name`);
+    seen.add(account.name);
+  }
+
+  const rawDefault = (data as { defaultAccount?: unknown }).defaultAccount;
+  const defaultAccount = rawDefault == null ? accounts[0].name : String(rawDefault);
+  if (!accounts.some((a) => a.name === defaultAccount)) {
+    errors.push(`defaultAccount "${defaultAccount}" is not a configured account`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid MAIL_ACCOUNTS_FILE ${path}:\n- ${errors.join("\n- ")}`);
+  }
+  // Startup watchers (MAIL_WATCH_FOLDERS) apply to the default account.
+  accounts.find((a) => a.name === defaultAccount)!.mail.watchFolders = mailDefaults.watchFolders;
+  return { accounts, defaultAccount };
+}
+
+/**
+ * Pick the account a tool call targets (the default one when `name` is empty).
+ */
+export function resolveAccount(config: AccountsConfig, name?: string): AccountConfig {
+  const wanted = name?.trim() || config.defaultAccount;
+  const account = config.accounts.find((a) => a.name === wanted);
+  if (!account) {
+    throw new Error(
+      `Unknown account: ${wanted}. Configured accounts: ${config.accounts.map((a) => a.name).join(", ")}`
+    );
+  }
+  return account;
+}
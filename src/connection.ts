@@ -0,0 +1,319 @@
+/**
+ * Pooled, long-lived IMAP connections.
+ * Tool calls lease a logged-in client instead of paying a LOGIN handshake per call.
+ * Idle connections are kept alive with NOOP, closed after an idle timeout, and
+ * replaced transparently when the server drops them.
+ */
+
+import { ImapFlow } from "imapflow";
+import type { ImapConfig } from "./config.js";
+import { resolveMailbox } from "./folders.js";
+import type { ImapClientLike } from "./imap.js";
+
+type ImapClientFactory = (config: ImapConfig) => ImapClientLike;
+
+const DEFAULT_MAX_CONNECTIONS = 2;
+const DEFAULT_KEEPALIVE_INTERVAL_MS = 60_000;
+const DEFAULT_IDLE_TIMEOUT_MS = 10 * 60_000;
+
+interface PooledConnection {
+  client: ImapClientLike;
+  busy: boolean;
+  closed: boolean;
+  lastUsed: number;
+}
+
+interface Waiter {
+  resolve(conn: PooledConnection): void;
+  reject(err: unknown): void;
+}
+
+interface AccountPool {
+  config: ImapConfig;
+  connections: PooledConnection[];
+  /** Connections being opened (counted against maxConnections). */
+  pending: number;
+  waiters: Waiter[];
+  keepaliveTimer?: NodeJS.Timeout;
+}
+
+function defaultClientFactory(config: ImapConfig): ImapClientLike {
+  return new ImapFlow({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: {
+      user: config.user,
+      pass: config.pass,
+    },
+    // Accept self-signed cert for both direct TLS and STARTTLS (useful for local Bridge setups).
+    tls: { rejectUnauthorized: config.tlsRejectUnauthorized },
+    logger: false,
+  }) as unknown as ImapClientLike;
+}
+
+let clientFactory: ImapClientFactory = defaultClientFactory;
+const pools = new Map<string, AccountPool>();
+/** Pool key of each pooled client, so per-account state can be looked up from a lease. */
+const clientAccounts = new WeakMap<ImapClientLike, string>();
+
+export function __setClientFactoryForTests(factory?: ImapClientFactory): void {
+  clientFactory = factory ?? defaultClientFactory;
+  // Connections opened by a previous factory must not leak into the next test.
+  void closeAllConnections();
+}
+
+export function isConnectionError(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  const msg = err.message.toLowerCase();
+  const code = (err as Error & { code?: string }).code;
+  return (
+    msg.includes("connection not available") ||
+    msg.includes("connection closed") ||
+    code === "NoConnection" ||
+    code === "EConnectionClosed" ||
+    code === "ECONNRESET" ||
+    code === "EPIPE"
+  );
+}
+
+export async function safeLogout(client: ImapClientLike): Promise<void> {
+  try {
+    await client.logout();
+  } catch {
+    // Ignore: connection may already be closed (e.g. server BYE or timeout).
+  }
+}
+
+function poolKey(config: ImapConfig): string {
+  return `${config.user}@${config.host}:${config.port}:${config.secure ? "tls" : "plain"}`;
+}
+
+/** Account a pooled client belongs to (undefined for dedicated connections). */
+export function accountKeyOf(client: ImapClientLike): string | undefined {
+  return clientAccounts.get(client);
+}
+
+function positive(value: number | undefined, fallback: number): number {
+  return Number.isFinite(value) && (value ?? 0) > 0 ? Math.floor(value as number) : fallback;
+}
+
+function maxConnections(pool: AccountPool): number {
+  return positive(pool.config.maxConnections, DEFAULT_MAX_CONNECTIONS);
+}
+
+function isUsable(conn: PooledConnection): boolean {
+  return !conn.closed && conn.client.usable !== false;
+}
+
+function getPool(config: ImapConfig): AccountPool {
+  const key = poolKey(config);
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = { config, connections: [], pending: 0, waiters: [] };
+    pools.set(key, pool);
+  }
+  return pool;
+}
+
+function removeConnection(pool: AccountPool, conn: PooledConnection): void {
+  conn.closed = true;
+  pool.connections = pool.connections.filter((c) => c !== conn);
+  if (pool.connections.length === 0 && pool.keepaliveTimer) {
+    clearInterval(pool.keepaliveTimer);
+    pool.keepaliveTimer = undefined;
+  }
+}
+
+async function discardConnection(pool: AccountPool, conn: PooledConnection): Promise<void> {
+  removeConnection(pool, conn);
+  await safeLogout(conn.client);
+  serveWaiters(pool);
+}
+
+function ensureKeepalive(pool: AccountPool): void {
+  if (pool.keepaliveTimer) return;
+  const interval = positive(pool.config.keepaliveIntervalMs, DEFAULT_KEEPALIVE_INTERVAL_MS);
+  const idleTimeout = positive(pool.config.idleTimeoutMs, DEFAULT_IDLE_TIMEOUT_MS);
+  pool.keepaliveTimer = setInterval(() => {
+    const now = Date.now();
+    for (const conn of pool.connections.slice()) {
+      if (conn.busy) continue;
+      if (!isUsable(conn) || now - conn.lastUsed >= idleTimeout) {
+        void discardConnection(pool, conn);
+        continue;
+      }
+      if (!conn.client.noop) continue;
+      conn.busy = true;
+      conn.client
+        .noop()
+        .then(() => releaseConnection(pool, conn, false))
+        .catch(() => discardConnection(pool, conn));
+    }
+  }, interval);
+  // Keep-alive must never hold the process open on its own.
+  pool.keepaliveTimer.unref?.();
+}
+
+async function openConnection(pool: AccountPool): Promise<PooledConnection> {
+  pool.pending += 1;
+  const client = clientFactory(pool.config);
+  clientAccounts.set(client, poolKey(pool.config));
+  const conn: PooledConnection = { client, busy: true, closed: false, lastUsed: Date.now() };
+  try {
+    // Long-lived clients must handle async errors, otherwise EventEmitter throws.
+    client.on?.("error", () => {
+      removeConnection(pool, conn);
+      serveWaiters(pool);
+    });
+    client.on?.("close", () => {
+      removeConnection(pool, conn);
+      serveWaiters(pool);
+    });
+    await client.connect();
+  } catch (err) {
+    conn.closed = true;
+    await safeLogout(client);
+    throw err;
+  } finally {
+    pool.pending -= 1;
+  }
+  pool.connections.push(conn);
+  ensureKeepalive(pool);
+  return conn;
+}
+
+function takeIdleConnection(pool: AccountPool): PooledConnection | undefined {
+  for (const conn of pool.connections.slice()) {
+    if (conn.busy) continue;
+    if (!isUsable(conn)) {
+      void discardConnection(pool, conn);
+      continue;
+    }
+    conn.busy = true;
+    return conn;
+  }
+  return undefined;
+}
+
+function serveWaiters(pool: AccountPool): void {
+  while (pool.waiters.length > 0) {
+    const idle = takeIdleConnection(pool);
+    if (idle) {
+      pool.waiters.shift()?.resolve(idle);
+      continue;
+    }
+    if (pool.connections.length + pool.pending < maxConnections(pool)) {
+      const waiter = pool.waiters.shift() as Waiter;
+      openConnection(pool).then(waiter.resolve, waiter.reject);
+      continue;
+    }
+    return;
+  }
+}
+
+async function acquireConnection(pool: AccountPool): Promise<PooledConnection> {
+  const idle = takeIdleConnection(pool);
+  if (idle) return idle;
+  if (pool.connections.length + pool.pending < maxConnections(pool)) {
+    return openConnection(pool);
+  }
+  return new Promise<PooledConnection>((resolve, reject) => {
+    pool.waiters.push({ resolve, reject });
+  });
+}
+
+function releaseConnection(pool: AccountPool, conn: PooledConnection, touch: boolean = true): void {
+  conn.busy = false;
+  if (touch) conn.lastUsed = Date.now();
+  if (!isUsable(conn)) {
+    void discardConnection(pool, conn);
+    return;
+  }
+  serveWaiters(pool);
+}
+
+/**
+ * Run `fn` with a pooled, connected client. On connection loss the client is
+ * dropped and the operation is retried once on a fresh connection.
+ */
+export async function withClient<T>(config: ImapConfig, fn: (client: ImapClientLike) => Promise<T>): Promise<T> {
+  const pool = getPool(config);
+  for (let attempt = 0; ; attempt += 1) {
+    let conn: PooledConnection | undefined;
+    try {
+      conn = await acquireConnection(pool);
+      const result = await fn(conn.client);
+      releaseConnection(pool, conn);
+      return result;
+    } catch (err) {
+      if (conn && (isConnectionError(err) || !isUsable(conn))) {
+        await discardConnection(pool, conn);
+      } else if (conn) {
+        releaseConnection(pool, conn);
+      }
+      if (attempt === 0 && isConnectionError(err)) continue;
+      throw err;
+    }
+  }
+}
+
+/**
+ * Run `fn` with a pooled client while holding a lock on `mailbox` (read-only unless
+ * `readOnly: false` is passed by a write tool). Folder aliases like `@sent` are
+ * resolved first (see folders.ts).
+ * imapflow serializes mailbox locks per connection, so concurrent calls on
+ * the same lease queue instead of reselecting under each other.
+ */
+export async function withMailbox<T>(
+  config: ImapConfig,
+  mailbox: string,
+  fn: (client: ImapClientLike) => Promise<T>,
+  options: { readOnly?: boolean } = {}
+): Promise<T> {
+  return withClient(config, async (client) => {
+    const lock = await client.getMailboxLock(await resolveMailbox(client, mailbox), { readOnly: options.readOnly !== false });
+    try {
+      return await fn(client);
+    } finally {
+      lock.release();
+    }
+  });
+}
+
+/**
+ * Open a connection outside the pool for long-running work that would otherwise
+ * pin a pooled lease (e.g. IMAP IDLE watchers). The caller owns its lifecycle.
+ */
+export async function openDedicatedConnection(config: ImapConfig): Promise<ImapClientLike> {
+  const client = clientFactory(config);
+  // Same reason as pooled clients: unhandled 'error' events would crash the process.
+  client.on?.("error", () => undefined);
+  try {
+    await client.connect();
+  } catch (err) {
+    await safeLogout(client);
+    throw err;
+  }
+  return client;
+}
+
+/**
+ * Log out every pooled connection. Call on shutdown (e.g. when the MCP transport closes).
+ */
+export async function closeAllConnections(): Promise<void> {
+  const all = Array.from(pools.values());
+  pools.clear();
+  await Promise.all(
+    all.map(async (pool) => {
+      if (pool.keepaliveTimer) clearInterval(pool.keepaliveTimer);
+      pool.keepaliveTimer = undefined;
+      for (const waiter of pool.waiters.splice(0)) {
+        waiter.reject(new Error("IMAP connection pool closed"));
+      }
+      const connections = pool.connections.splice(0);
+      for (const conn of connections) conn.closed = true;
+      await Promise.all(connections.map((conn) => safeLogout(conn.client)));
+    })
+  );
+}
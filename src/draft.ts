@@ -0,0 +1,217 @@
+/**
+ * Draft composition: builds an RFC 5322 message and APPENDs it to the Drafts folder
+ * with the \Draft flag, so a human can review and send it from their own client.
+ * Never sends mail; requires MAIL_ALLOW_DRAFTS=true.
+ */
+
+import MailComposer from "nodemailer/lib/mail-composer/index.js";
+import type { AddressObject, ParsedMail } from "mailparser";
+import type { ImapConfig, WriteConfig } from "./config.js";
+import { withClient } from "./connection.js";
+import { findSpecialUseFolder } from "./folders.js";
+import { getParsedMessage, parsedToBodyText } from "./imap.js";
+
+export interface DraftInput {
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject?: string;
+  text: string;
+  html?: string;
+  /** Folder of the message being replied to. */
+  replyMailbox?: string;
+  /** UID of the message being replied to. */
+  replyUid?: number;
+  /** Also address the original To/Cc recipients (minus yourself). */
+  replyAll?: boolean;
+  /** Quote the original body below the reply. Defaults to true when replying. */
+  quoteOriginal?: boolean;
+}
+
+export interface DraftResult {
+  mailbox: string;
+  uid?: number;
+  messageId: string;
+  subject: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  inReplyTo?: string;
+  references?: string[];
+  size: number;
+}
+
+interface ReplyContext {
+  to: string[];
+  cc: string[];
+  subject: string;
+  inReplyTo?: string;
+  references: string[];
+  quoteHeader: string;
+  quotedText: string;
+}
+
+const ADDRESS_PATTERN = /[^\s@<>]+@[^\s@<>]+/;
+
+function assertDraftsEnabled(writeConfig: WriteConfig): void {
+  if (!writeConfig.allowDrafts) {
+    throw new Error("Draft creation is disabled. Set MAIL_ALLOW_DRAFTS=true to enable mail_create_draft.");
+  }
+}
+
+function normalizeAddressList(name: string, list: string[] | undefined): string[] {
+  const out = (list ?? []).map((v) => v.trim()).filter(Boolean);
+  for (const address of out) {
+    if (!ADDRESS_PATTERN.test(address)) throw new Error(`Invalid ${name} address: ${address}`);
+  }
+  return out;
+}
+
+function addressesOf(value: AddressObject | AddressObject[] | undefined): string[] {
+  if (!value) return [];
+  const objects = Array.isArray(value) ? value : [value];
+  return objects.flatMap((o) => o.value.map((a) => a.address ?? "")).filter(Boolean);
+}
+
+function bracket(id: string): string {
+  const trimmed = id.trim();
+  return trimmed.startsWith("<") ? trimmed : `<${trimmed}>`;
+}
+
+function replySubject(subject: string | undefined): string {
+  const s = (subject ?? "").trim();
+  return /^re:/i.test(s) ? s : `Re: ${s}`.trim();
+}
+
+function quoteText(text: string): string {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => (line.startsWith(">") ? `>${line}` : `> ${line}`))
+    .join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function dedupeAddresses(list: string[], exclude: string[]): string[] {
+  const seen = new Set(exclude.map((a) => a.toLowerCase()));
+  const out: string[] = [];
+  for (const address of list) {
+    const key = address.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(address);
+  }
+  return out;
+}
+
+function buildReplyContext(parsed: ParsedMail, self: string, replyAll: boolean): ReplyContext {
+  const from = addressesOf(parsed.from);
+  const replyTo = addressesOf(parsed.replyTo);
+  const to = dedupeAddresses(replyTo.length > 0 ? replyTo : from, [self]);
+  const cc = replyAll
+    ? dedupeAddresses([...addressesOf(parsed.to), ...addressesOf(parsed.cc)], [self, ...to])
+    : [];
+
+  const references: string[] = [];
+  if (Array.isArray(parsed.references)) references.push(...parsed.references.map(String));
+  else if (typeof parsed.references === "string") references.push(...parsed.references.split(/\s+/));
+  if (parsed.messageId) references.push(parsed.messageId);
+
+  const sender = parsed.from?.text ?? from[0] ?? "unknown sender";
+  const when = parsed.date ? parsed.date.toUTCString() : "an unknown date";
+  return {
+    to,
+    cc,
+    subject: replySubject(parsed.subject),
+    inReplyTo: parsed.messageId ? bracket(parsed.messageId) : undefined,
+    references: Array.from(new Set(references.filter(Boolean).map(bracket))),
+    quoteHeader: `On ${when}, ${sender} wrote:`,
+    quotedText: parsedToBodyText(parsed, 0),
+  };
+}
+
+/**
+ * Compose a draft (optionally as a reply to mailbox+UID) and APPEND it to the Drafts folder.
+ */
+export async function createDraft(
+  config: ImapConfig,
+  writeConfig: WriteConfig,
+  input: DraftInput
+): Promise<DraftResult> {
+  assertDraftsEnabled(writeConfig);
+  if (!input.text?.trim() && !input.html?.trim()) {
+    throw new Error("text or html body is required");
+  }
+  const from = writeConfig.draftFrom || config.user;
+  const self = ADDRESS_PATTERN.exec(from)?.[0] ?? from;
+
+  let reply: ReplyContext | undefined;
+  if (input.replyUid != null) {
+    if (!input.replyMailbox) throw new Error("replyMailbox is required when replyUid is set");
+    const original = await getParsedMessage(config, input.replyMailbox, input.replyUid);
+    if (!original) {
+      throw new Error(`Message not found: ${input.replyMailbox} UID ${input.replyUid}`);
+    }
+    reply = buildReplyContext(original.parsed, self, input.replyAll === true);
+  }
+
+  const to = normalizeAddressList("to", input.to?.length ? input.to : reply?.to);
+  const cc = normalizeAddressList("cc", input.cc?.length ? input.cc : reply?.cc);
+  const bcc = normalizeAddressList("bcc", input.bcc);
+  if (to.length === 0 && cc.length === 0 && bcc.length === 0) {
+    throw new Error("at least one recipient (to, cc or bcc) is required");
+  }
+  const subject = input.subject?.trim() || reply?.subject || "";
+
+  let text = input.text ?? "";
+  let html = input.html;
+  if (reply && input.quoteOriginal !== false && reply.quotedText) {
+    text = `${text}\n\n${reply.quoteHeader}\n${quoteText(reply.quotedText)}\n`;
+    if (html) {
+      html +=
+        `<p>${escapeHtml(reply.quoteHeader)}</p>` +
+        `<blockquote type="cite">${escapeHtml(reply.quotedText).replace(/\r?\n/g, "<br>")}</blockquote>`;
+    }
+  }
+
+  const node = new MailComposer({
+    from,
+    to,
+    cc,
+    bcc,
+    subject,
+    text,
+    html,
+    inReplyTo: reply?.inReplyTo,
+    references: reply?.references,
+    date: new Date(),
+  }).compile();
+  // Drafts are stored, not sent: keep Bcc so the human sees every recipient.
+  node.keepBcc = true;
+  const raw = await node.build();
+  const messageId = node.messageId();
+
+  return withClient(config, async (client) => {
+    const drafts = await findSpecialUseFolder(client, "\\Drafts");
+    if (!drafts) throw new Error("No Drafts folder found on the server");
+    if (!client.append) throw new Error("IMAP client does not support APPEND");
+    const res = await client.append(drafts, raw, ["\\Draft", "\\Seen"], new Date());
+    return {
+      mailbox: drafts,
+      uid: res ? res.uid : undefined,
+      messageId,
+      subject,
+      from,
+      to,
+      cc,
+      bcc,
+      inReplyTo: reply?.inReplyTo,
+      references: reply?.references,
+      size: raw.length,
+    };
+  });
+}
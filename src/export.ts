@@ -0,0 +1,353 @@
+/**
+ * Raw message export (mail_export): one message's RFC 822 source as .eml (text or
+ * base64), or a folder / search result written to an mbox file (mboxrd) or a
+ * Maildir directory under MAIL_EXPORT_DIR. Batch exports stream each message from
+ * the server straight to disk, so memory use does not grow with the folder.
+ * Read-only on the server.
+ */
+
+import { createWriteStream, type WriteStream } from "node:fs";
+import { mkdir, realpath, rename, stat } from "node:fs/promises";
+import { hostname } from "node:os";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import type { FetchMessageObject } from "imapflow";
+import type { ExportConfig, ImapConfig, MailConfig } from "./config.js";
+import { withMailbox } from "./connection.js";
+import {
+  buildAdvancedSearchQuery,
+  envelopeWithOptionalSnippet,
+  type AdvancedSearchCriteria,
+  type ImapClientLike,
+  type MessageEnvelope,
+} from "./imap.js";
+
+export type ExportFormat = "mbox" | "maildir";
+
+/** One message as .eml, returned inline. */
+export interface EmlExport {
+  message: MessageEnvelope;
+  filename: string;
+  size: number;
+  encoding: "text" | "base64";
+  text?: string;
+  base64?: string;
+}
+
+export interface BatchExportOptions {
+  format: ExportFormat;
+  /** Path relative to MAIL_EXPORT_DIR: the mbox file, or the Maildir directory. */
+  target: string;
+  /** Export exactly these UIDs instead of a search. */
+  uids?: number[];
+  /** Export the search result; without criteria or uids the whole folder is exported. */
+  criteria?: AdvancedSearchCriteria;
+  /** Stop after this many messages (oldest first). */
+  maxMessages?: number;
+}
+
+export interface BatchExportResult {
+  mailbox: string;
+  format: ExportFormat;
+  /** Written path, relative to MAIL_EXPORT_DIR. */
+  path: string;
+  matched: number;
+  exported: number;
+  /** Selected messages that were gone (expunged) by the time they were downloaded. */
+  skipped: number;
+  bytes: number;
+  truncated: boolean;
+}
+
+/** Envelope/flag fetches per round trip; sources are then downloaded one by one. */
+const EXPORT_BATCH = 100;
+
+const MAILDIR_FLAGS: [string, string][] = [
+  ["\\Draft", "D"],
+  ["\\Flagged", "F"],
+  ["\\Answered", "R"],
+  ["\\Seen", "S"],
+  ["\\Deleted", "T"],
+];
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+interface ExportSink {
+  /** Write one message; returns bytes written. */
+  add(msg: FetchMessageObject, content: AsyncIterable<Buffer | string>): Promise<number>;
+  close(): Promise<void>;
+}
+
+function isInside(root: string, path: string): boolean {
+  return path === root || path.startsWith(root + sep);
+}
+
+/**
+ * Resolve `target` under the export root. Rejects absolute paths, `..` escapes and
+ * symlinks (anywhere on the existing part of the path) that lead outside the root.
+ */
+export async function resolveExportPath(root: string, target: string): Promise<string> {
+  const trimmed = target.trim();
+  if (!trimmed) throw new Error("target is required: a path relative to MAIL_EXPORT_DIR");
+  if (isAbsolute(trimmed) || trimmed.includes("\0")) {
+    throw new Error(`target must be a relative path inside MAIL_EXPORT_DIR: ${target}`);
+  }
+  await mkdir(root, { recursive: true });
+  const realRoot = await realpath(root);
+  const full = resolve(realRoot, trimmed);
+  const rel = relative(realRoot, full);
+  if (!rel || rel === ".." || rel.startsWith(`..${sep}`) || isAbsolute(rel)) {
+    throw new Error(`target must stay inside MAIL_EXPORT_DIR: ${target}`);
+  }
+  for (let existing = full; isInside(realRoot, existing); existing = dirname(existing)) {
+    let real: string;
+    try {
+      real = await realpath(existing);
+    } catch {
+      continue;
+    }
+    if (!isInside(realRoot, real)) throw new Error(`target must stay inside MAIL_EXPORT_DIR: ${target}`);
+    break;
+  }
+  return full;
+}
+
+function asctime(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, " ")} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ${date.getUTCFullYear()}`
+  );
+}
+
+function receivedAt(msg: FetchMessageObject): Date {
+  const d = new Date(msg.internalDate ?? msg.envelope?.date ?? Date.now());
+  return Number.isNaN(d.getTime()) ? new Date() : d;
+}
+
+async function put(out: WriteStream, data: Buffer): Promise<void> {
+  if (data.length === 0) return;
+  if (!out.write(data)) {
+    await new Promise<void>((done, fail) => {
+      out.once("drain", done);
+      out.once("error", fail);
+    });
+  }
+}
+
+function finish(out: WriteStream): Promise<void> {
+  return new Promise((done, fail) => {
+    out.once("error", fail);
+    out.end(() => done());
+  });
+}
+
+function opened(out: WriteStream): Promise<void> {
+  return new Promise((done, fail) => {
+    out.once("open", () => done());
+    out.once("error", fail);
+  });
+}
+
+/**
+ * mboxrd body quoting: CRLF becomes LF and every line matching /^>*From / gains a
+ * leading ">". Works across chunk boundaries by holding back the unfinished last line.
+ */
+export function mboxrdEscaper(): { push(chunk: Buffer): Buffer; end(): Buffer } {
+  let carry = "";
+  const quote = (line: string) => (/^>*From /.test(line) ? `>${line}` : line);
+  return {
+    push(chunk) {
+      const lines = (carry + chunk.toString("latin1")).split("\n");
+      carry = lines.pop() ?? "";
+      if (lines.length === 0) return Buffer.alloc(0);
+      return Buffer.from(lines.map((l) => `${quote(l.replace(/\r$/, ""))}\n`).join(""), "latin1");
+    },
+    end() {
+      const rest = carry.replace(/\r$/, "");
+      carry = "";
+      return Buffer.from(rest ? `${quote(rest)}\n` : "", "latin1");
+    },
+  };
+}
+
+async function openMbox(path: string): Promise<ExportSink> {
+  await mkdir(dirname(path), { recursive: true });
+  // "wx": never overwrite an existing file.
+  const out = createWriteStream(path, { flags: "wx" });
+  await opened(out).catch((err: NodeJS.ErrnoException) => {
+    throw err.code === "EEXIST" ? new Error(`Export target already exists: ${path}`) : err;
+  });
+  return {
+    async add(msg, content) {
+      const sender = msg.envelope?.sender?.[0]?.address || msg.envelope?.from?.[0]?.address || "MAILER-DAEMON";
+      const escaper = mboxrdEscaper();
+      let bytes = 0;
+      const write = async (data: Buffer) => {
+        bytes += data.length;
+        await put(out, data);
+      };
+      await write(Buffer.from(`From ${sender.replace(/\s/g, "")} ${asctime(receivedAt(msg))}\n`, "latin1"));
+      for await (const chunk of content) {
+        await write(escaper.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk));
+      }
+      await write(escaper.end());
+      await write(Buffer.from("\n"));
+      return bytes;
+    },
+    close: () => finish(out),
+  };
+}
+
+async function openMaildir(path: string, uidValidity: string | undefined): Promise<ExportSink> {
+  const existing = await stat(path).catch(() => undefined);
+  if (existing && !existing.isDirectory()) throw new Error(`Export target is not a directory: ${path}`);
+  for (const sub of ["tmp", "new", "cur"]) await mkdir(join(path, sub), { recursive: true });
+  const host = hostname().replace(/\//g, "\\057").replace(/:/g, "\\072");
+  return {
+    async add(msg, content) {
+      const seconds = Math.floor(receivedAt(msg).getTime() / 1000);
+      const name = `${seconds}.U${msg.uid}V${uidValidity ?? "0"}.${host}`;
+      const flags = MAILDIR_FLAGS.filter(([flag]) => msg.flags?.has(flag))
+        .map(([, letter]) => letter)
+        .join("");
+      const tmp = join(path, "tmp", name);
+      const out = createWriteStream(tmp, { flags: "w" });
+      let bytes = 0;
+      for await (const chunk of content) {
+        const data = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+        bytes += data.length;
+        await put(out, data);
+      }
+      await finish(out);
+      // Delivery is the rename into cur/, so readers never see a half-written file.
+      await rename(tmp, join(path, "cur", `${name}:2,${flags}`));
+      return bytes;
+    },
+    close: async () => {},
+  };
+}
+
+/** Subject-based .eml file name, safe on common file systems. */
+function emlFilename(envelope: MessageEnvelope): string {
+  const base = (envelope.subject ?? "")
+    .replace(/[^\p{L}\p{N}._ -]+/gu, "")
+    .trim()
+    .replace(/\s+/g, "_")
+    .slice(0, 60);
+  return `${base || "message"}-${envelope.uid}.eml`;
+}
+
+/**
+ * One message's original source as .eml. `encoding` defaults to text when the source
+ * is valid UTF-8 and base64 otherwise. Capped by MAIL_MAX_ATTACHMENT_BYTES.
+ */
+export async function exportEml(
+  config: ImapConfig,
+  mailConfig: MailConfig,
+  mailbox: string,
+  uid: number,
+  encoding?: "text" | "base64"
+): Promise<EmlExport | null> {
+  return withMailbox(config, mailbox, async (client) => {
+    const msg = await client.fetchOne(String(uid), { envelope: true, uid: true, source: true }, { uid: true });
+    if (!msg || !msg.source) return null;
+    const max = mailConfig.maxAttachmentBytes;
+    if (max > 0 && msg.source.length > max) {
+      throw new Error(
+        `Message is ${msg.source.length} bytes, over the ${max}-byte limit (MAIL_MAX_ATTACHMENT_BYTES). ` +
+          'Export it to a file with format "mbox" or "maildir" instead.'
+      );
+    }
+    const envelope = await envelopeWithOptionalSnippet(msg, false, 0, {
+      path: client.mailbox?.path ?? mailbox,
+      uidValidity: client.mailbox?.uidValidity?.toString(),
+    });
+    let text: string | undefined;
+    if (encoding !== "base64") {
+      try {
+        text = new TextDecoder("utf-8", { fatal: true }).decode(msg.source);
+      } catch {
+        if (encoding === "text") text = msg.source.toString("latin1");
+      }
+    }
+    const base = { message: envelope, filename: emlFilename(envelope), size: msg.source.length };
+    return text != null
+      ? { ...base, encoding: "text", text }
+      : { ...base, encoding: "base64", base64: msg.source.toString("base64") };
+  });
+}
+
+async function selectUids(client: ImapClientLike, options: BatchExportOptions): Promise<number[]> {
+  if (options.uids) return options.uids;
+  const query = options.criteria ? buildAdvancedSearchQuery(options.criteria) : {};
+  const found = await client.search(Object.keys(query).length > 0 ? query : { all: true }, { uid: true });
+  return found || [];
+}
+
+/**
+ * Export a folder, a search result or a UID list to an mbox file or Maildir under
+ * the export root, oldest first. mbox targets must not exist yet; a Maildir target
+ * may, and new messages are added to it.
+ */
+export async function exportMessages(
+  config: ImapConfig,
+  exportConfig: ExportConfig,
+  mailbox: string,
+  options: BatchExportOptions
+): Promise<BatchExportResult> {
+  if (!exportConfig.enabled) throw new Error("Batch export is disabled: set MAIL_EXPORT_DIR");
+  if (options.format !== "mbox" && options.format !== "maildir") {
+    throw new Error(`Invalid format: ${String(options.format)}. Use "mbox" or "maildir".`);
+  }
+  const path = await resolveExportPath(exportConfig.dir, options.target);
+  const realRoot = await realpath(exportConfig.dir);
+
+  return withMailbox(config, mailbox, async (client) => {
+    if (!client.download) throw new Error("IMAP client does not support message download");
+    const all = [...new Set(await selectUids(client, options))].sort((a, b) => a - b);
+    const selected = options.maxMessages && options.maxMessages > 0 ? all.slice(0, options.maxMessages) : all;
+    const result: BatchExportResult = {
+      mailbox,
+      format: options.format,
+      path: relative(realRoot, path),
+      matched: all.length,
+      exported: 0,
+      skipped: 0,
+      bytes: 0,
+      truncated: selected.length < all.length,
+    };
+    const sink =
+      options.format === "mbox"
+        ? await openMbox(path)
+        : await openMaildir(path, client.mailbox?.uidValidity?.toString());
+    try {
+      for (let i = 0; i < selected.length; i += EXPORT_BATCH) {
+        const batch = selected.slice(i, i + EXPORT_BATCH);
+        // Collect metadata first: imapflow cannot run a download while a fetch is streaming.
+        const metas: FetchMessageObject[] = [];
+        for await (const msg of client.fetch(
+          batch,
+          { uid: true, envelope: true, flags: true, internalDate: true },
+          { uid: true }
+        )) {
+          metas.push(msg);
+        }
+        metas.sort((a, b) => a.uid - b.uid);
+        result.skipped += batch.length - metas.length;
+        for (const meta of metas) {
+          const download = await client.download(String(meta.uid), undefined, { uid: true });
+          if (!download?.content) {
+            result.skipped++;
+            continue;
+          }
+          result.bytes += await sink.add(meta, download.content);
+          result.exported++;
+        }
+      }
+    } finally {
+      await sink.close();
+    }
+    return result;
+  });
+}
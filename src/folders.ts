@@ -0,0 +1,134 @@
+/**
+ * Special-use folders (RFC 6154) and semantic folder aliases.
+ * Tools accept `@sent`, `@trash`, `@archive`, ... wherever they take a mailbox;
+ * aliases resolve through the server's special-use flags, then common folder
+ * names for servers that do not advertise them.
+ */
+
+import type { ImapClientLike, ImapListEntry, MailboxInfo } from "./imap.js";
+
+/** Folder tree node returned by listFolderTree. */
+export interface MailboxTreeNode extends MailboxInfo {
+  children: MailboxTreeNode[];
+}
+
+/** Special-use flags reported on folders and reachable through aliases. */
+export const SPECIAL_USES = ["\\Sent", "\\Drafts", "\\Trash", "\\Junk", "\\Archive", "\\All", "\\Flagged"] as const;
+
+/** Alias (without the leading "@") -> special-use flag. */
+const FOLDER_ALIASES: Record<string, string> = {
+  sent: "\\Sent",
+  drafts: "\\Drafts",
+  trash: "\\Trash",
+  junk: "\\Junk",
+  spam: "\\Junk",
+  archive: "\\Archive",
+  all: "\\All",
+  flagged: "\\Flagged",
+};
+
+/** Matched against the last path segment, so "[Gmail]/Sent Mail" counts as Sent. */
+const SPECIAL_USE_NAME_FALLBACKS: Record<string, RegExp> = {
+  "\\Trash": /^(trash|deleted items|deleted messages|bin)$/i,
+  "\\Drafts": /^drafts?$/i,
+  "\\Sent": /^sent( items| messages| mail)?$/i,
+  "\\Junk": /^(junk|junk e-?mail|spam|bulk mail)$/i,
+  "\\Archive": /^archives?$/i,
+  "\\All": /^all mail$/i,
+  "\\Flagged": /^(starred|flagged)$/i,
+};
+
+const UNSELECTABLE_FLAGS = ["\\noselect", "\\nonexistent"];
+
+/** Aliases accepted in place of a mailbox name, e.g. for tool descriptions. */
+export const FOLDER_ALIAS_NAMES = ["@inbox", ...Object.keys(FOLDER_ALIASES).map((a) => `@${a}`)];
+
+export function isFolderAlias(mailbox: string): boolean {
+  return mailbox.startsWith("@");
+}
+
+function isSelectable(entry: ImapListEntry): boolean {
+  const flags = Array.from(entry.flags ?? []).map((f) => f.toLowerCase());
+  return !UNSELECTABLE_FLAGS.some((f) => flags.includes(f));
+}
+
+/**
+ * Special-use flag of every folder in a LIST response. Folders the server flags win;
+ * a name fallback is only used for uses the server does not advertise at all.
+ */
+export function specialUseByPath(list: ImapListEntry[]): Map<string, { specialUse: string; inferred: boolean }> {
+  const out = new Map<string, { specialUse: string; inferred: boolean }>();
+  const advertised = new Set<string>();
+  for (const entry of list) {
+    if (entry.path && entry.specialUse) {
+      out.set(entry.path, { specialUse: entry.specialUse, inferred: false });
+      advertised.add(entry.specialUse);
+    }
+  }
+  for (const specialUse of SPECIAL_USES) {
+    if (advertised.has(specialUse)) continue;
+    const fallback = SPECIAL_USE_NAME_FALLBACKS[specialUse];
+    const match = list.find(
+      (m) => m.path && !out.has(m.path) && isSelectable(m) && fallback.test(String(m.name ?? m.path))
+    );
+    if (match?.path) out.set(match.path, { specialUse, inferred: true });
+  }
+  return out;
+}
+
+function findInList(list: ImapListEntry[], specialUse: string): string | undefined {
+  for (const [path, info] of specialUseByPath(list)) {
+    if (info.specialUse === specialUse) return path;
+  }
+  return undefined;
+}
+
+/**
+ * Find a folder path by RFC 6154 special-use flag, falling back to common folder names.
+ */
+export async function findSpecialUseFolder(
+  client: ImapClientLike,
+  specialUse: string
+): Promise<string | undefined> {
+  return findInList(await client.list(), specialUse);
+}
+
+/**
+ * Resolve a folder alias against an existing LIST response (see resolveMailbox).
+ */
+export function resolveMailboxInList(list: ImapListEntry[], mailbox: string): string {
+  if (!isFolderAlias(mailbox)) return mailbox;
+  const alias = mailbox.slice(1).toLowerCase();
+  if (alias === "inbox") return "INBOX";
+  const specialUse = FOLDER_ALIASES[alias];
+  if (!specialUse) {
+    throw new Error(`Unknown folder alias: ${mailbox}. Use one of ${FOLDER_ALIAS_NAMES.join(", ")}`);
+  }
+  const path = findInList(list, specialUse);
+  if (!path) throw new Error(`No folder found for ${mailbox} (no ${specialUse} folder or common name)`);
+  return path;
+}
+
+/**
+ * Resolve a folder alias (`@sent`, `@trash`, ...) to the folder path on this server.
+ * Anything that is not an alias is returned unchanged without a LIST round trip.
+ */
+export async function resolveMailbox(client: ImapClientLike, mailbox: string): Promise<string> {
+  if (!isFolderAlias(mailbox) || mailbox.toLowerCase() === "@inbox") return resolveMailboxInList([], mailbox);
+  return resolveMailboxInList(await client.list(), mailbox);
+}
+
+/**
+ * Nest folders under their parents. Folders whose parent is not listed stay at the top level.
+ */
+export function buildFolderTree(folders: MailboxInfo[]): MailboxTreeNode[] {
+  const nodes = new Map<string, MailboxTreeNode>();
+  for (const folder of folders) nodes.set(folder.path, { ...folder, children: [] });
+  const roots: MailboxTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent ? nodes.get(node.parent) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
@@ -0,0 +1,181 @@
+/**
+ * Streamable HTTP transport (MCP spec 2025-03-26) for running the server next to
+ * the IMAP endpoint while MCP clients connect remotely. Every request must carry
+ * the configured bearer token. Each MCP session gets its own Server instance, so
+ * per-client state (e.g. resource subscriptions) is not shared between clients.
+ * Sessions a client abandons without closing them are closed after an idle timeout.
+ */
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { TransportConfig } from "./config.js";
+
+export const MCP_HTTP_PATH = "/mcp";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  /** End of the last request (or start of a running one). */
+  lastActive: number;
+  /** Requests still open, including a GET event stream. */
+  inFlight: number;
+}
+
+export interface HttpServerHandle {
+  /** Address actually bound (useful with port 0). */
+  port: number;
+  /** Number of open MCP sessions. */
+  sessionCount(): number;
+  /** Close every session and stop listening. */
+  close(): Promise<void>;
+}
+
+function hasValidToken(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buf = typeof chunk === "string" ? Buffer.from(chunk) : (chunk as Buffer);
+    size += buf.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(buf);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * Serve MCP over streamable HTTP at MCP_HTTP_PATH. `createServer` is called once per
+ * initialize request; the returned Server is closed when its session ends, goes idle
+ * for `config.sessionIdleMs`, or never starts because initialize failed.
+ */
+export async function startHttpServer(config: TransportConfig, createServer: () => Server): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const idleMs = config.sessionIdleMs && config.sessionIdleMs > 0 ? config.sessionIdleMs : DEFAULT_SESSION_IDLE_MS;
+
+  const closeSession = (id: string, session: Session): void => {
+    sessions.delete(id);
+    void session.server.close().catch(() => undefined);
+  };
+
+  const sweepTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.inFlight === 0 && now - session.lastActive >= idleMs) closeSession(id, session);
+    }
+  }, Math.min(idleMs, MAX_SWEEP_INTERVAL_MS));
+  // The sweep must never hold the process open on its own.
+  sweepTimer.unref?.();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== MCP_HTTP_PATH) {
+      sendJsonRpcError(res, 404, "Not found");
+      return;
+    }
+    if (!hasValidToken(req, config.token)) {
+      sendJsonRpcError(res, 401, "Unauthorized", { "WWW-Authenticate": 'Bearer realm="imap-mail-mcp"' });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        sendJsonRpcError(res, 400, `Invalid request body: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      session.inFlight += 1;
+      session.lastActive = Date.now();
+      res.once("close", () => {
+        session.inFlight -= 1;
+        session.lastActive = Date.now();
+      });
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Missing mcp-session-id header (only initialize may start a session)");
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastActive: Date.now(), inFlight: 0 });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // Initialize failed before a session was registered: nothing else would close these.
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await server.close().catch(() => undefined);
+      }
+    }
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((err) => {
+      if (!res.headersSent) sendJsonRpcError(res, 500, err instanceof Error ? err.message : String(err));
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  const address = httpServer.address();
+
+  return {
+    port: typeof address === "object" && address ? address.port : config.port,
+    sessionCount: () => sessions.size,
+    async close() {
+      clearInterval(sweepTimer);
+      const open = Array.from(sessions.values());
+      sessions.clear();
+      await Promise.all(open.map((s) => s.server.close().catch(() => undefined)));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -1,26 +1,51 @@
 /**
- * Read-only IMAP client (compatible with Proton Bridge and standard IMAP servers).
- * Only list, fetch, and search — no write operations.
+ * IMAP read operations (compatible with Proton Bridge and standard IMAP servers):
+ * list, fetch, and search. ImapClientLike also carries the append/flag/move/delete
+ * calls used by the opt-in write and draft tools (write.ts, draft.ts); nothing in
+ * this module changes a mailbox.
  */
 
-import { ImapFlow } from "imapflow";
 import { simpleParser } from "mailparser";
 import type { Attachment, ParsedMail } from "mailparser";
 import type { FetchMessageObject, MessageStructureObject } from "imapflow";
 import type { ImapConfig, MailConfig } from "./config.js";
+import { withClient, withMailbox } from "./connection.js";
 import {
   clampLimit,
+  cursorScope,
   decodeCursor,
   encodeCursor,
   normalizeSort,
+  normalizeSortBy,
   paginateUids,
+  type CursorScope,
+  type SortBy,
   type SortOrder,
   toSnippet,
 } from "./query.js";
+import { combineSearchQueries, searchQueryToImap } from "./search-query.js";
+import type { BodyMode } from "./body-clean.js";
+import { renderBody, splitBodyBudget, toRichMessage, truncateBody, type RichMessageContent } from "./message-format.js";
+import { inviteFromParsed, type CalendarInvite } from "./calendar.js";
+import { attachSources, cachesSources, fetchMessageSource } from "./message-cache.js";
+import { sortedPage } from "./sort.js";
+import { buildFolderTree, resolveMailbox, specialUseByPath, type MailboxTreeNode } from "./folders.js";
+import { BULK_HEADER_NAMES, NOT_BULK_SEARCH, parseBulkHeaders } from "./subscriptions.js";
+import { attachmentUri, messageUri } from "./uri.js";
 
 export interface MailboxInfo {
   path: string;
   name: string;
+  /** Hierarchy delimiter, e.g. "/" or ".". */
+  delimiter?: string;
+  /** Path of the parent folder (omitted at the top level). */
+  parent?: string;
+  /** RFC 6154 special use, e.g. \Sent or \Trash. */
+  specialUse?: string;
+  /** True when specialUse was guessed from the folder name (the server advertises none). */
+  specialUseInferred?: boolean;
+  flags?: string[];
+  subscribed?: boolean;
   messages?: number;
   unseen?: number;
 }
@@ -33,12 +58,57 @@ export interface MessageEnvelope {
   date: string;
   messageId?: string;
   snippet?: string;
+  /** imap://message/... resource URI (see uri.ts). */
+  uri?: string;
+  /** Folder the message lives in (set by cross-folder search). */
+  mailbox?: string;
+  /** Account the message belongs to (set by cross-account search). */
+  account?: string;
+  /** Set on newsletters/mailing-list mail (List-Id, List-Unsubscribe or Precedence: bulk/list/junk). */
+  isBulk?: boolean;
+  /** List-Id of bulk mail, when present. */
+  listId?: string;
 }
 
 export interface MessageContent {
   envelope: MessageEnvelope;
-  /** Plain-text body (or stripped HTML). Truncated per config. */
+  /** Plain-text body (or converted HTML). Truncated per config. */
   bodyText: string;
+  /** Present with bodyMode "new-content". */
+  bodyMode?: BodyMode;
+  /** Characters of quoted history/signature removed (bodyMode "new-content"). */
+  removedChars?: number;
+  /** Calendar invite from the message's text/calendar parts. */
+  invite?: CalendarInvite;
+  /** IMAP flags, e.g. \Seen, \Flagged (kept current by the message cache). */
+  flags?: string[];
+}
+
+/** Most messages mail_get_messages returns per call. */
+export const MAX_BATCH_MESSAGES = 50;
+
+export interface BatchMessageOptions {
+  /** Fetch exactly these UIDs (in this order). */
+  uids?: number[];
+  /** Otherwise fetch the newest messages matching these filters. */
+  criteria?: AdvancedSearchCriteria;
+  /** Search mode: how many matches to return (default 20, max MAX_BATCH_MESSAGES). */
+  limit?: number;
+  format?: "text" | "rich";
+  bodyMode?: BodyMode;
+  /** Body characters shared by all messages (default and cap: maxBodyLength). */
+  bodyBudget?: number;
+}
+
+export interface BatchMessageResult {
+  mailbox: string;
+  messages: Array<MessageContent | RichMessageContent>;
+  /** Requested UIDs that do not exist (e.g. expunged). */
+  missingUids: number[];
+  /** Search mode: matches left out because of `limit`. */
+  moreMatches?: number;
+  /** Body budget the messages shared (0 = no limit). */
+  bodyBudget: number;
 }
 
 export interface MailboxStatus {
@@ -60,6 +130,19 @@ export interface MessageAttachmentInfo {
   contentId?: string;
   cid?: string;
   related?: boolean;
+  /** MIME part identifier (e.g. "2" or "1.2") for mail_get_attachment. Only set from BODYSTRUCTURE. */
+  part?: string;
+  /** imap://attachment/... resource URI (when part is known). */
+  uri?: string;
+}
+
+export interface AttachmentContent {
+  /** Always carries the part's imap://attachment/... resource URI. */
+  info: MessageAttachmentInfo & { uri: string };
+  /** "text" for text-like parts (decoded to UTF-8), "image" or "binary" for base64 data. */
+  kind: "text" | "image" | "binary";
+  text?: string;
+  base64?: string;
 }
 
 export type SearchCriteria = {
@@ -70,6 +153,8 @@ export type SearchCriteria = {
   since?: string; // ISO date
   before?: string;
   unseen?: boolean;
+  /** Gmail-like query string (see search-query.ts), ANDed with the other fields. */
+  q?: string;
 };
 
 export type FolderQueryField = "subject" | "body" | "from" | "to";
@@ -91,31 +176,46 @@ export interface AdvancedSearchCriteria {
   seen?: boolean;
   unseen?: boolean;
   messageId?: string;
+  /** Gmail-like query string (see search-query.ts), ANDed with the other fields. */
+  q?: string;
 }
 
 export interface ListQueryOptions {
   limit?: number;
   sort?: SortOrder;
+  /** Order by this key instead of UID (IMAP SORT or client-side, see sort.ts). */
+  sortBy?: SortBy;
   cursor?: string;
   includeSnippet?: boolean;
   maxResults?: number;
   snippetLength?: number;
+  /** Leave out bulk mail (see subscriptions.ts), filtered server-side before paging. */
+  excludeBulk?: boolean;
 }
 
 export interface PagedMessageEnvelopeResult {
   items: MessageEnvelope[];
   nextCursor?: string;
+  /** What this page's cursors are bound to, for building new ones (output shaping); not tool output. */
+  cursorScope?: CursorScope;
 }
 
 export interface ThreadContextResult {
   targetUid: number;
   items: MessageEnvelope[];
   nextCursor?: string;
+  /** See PagedMessageEnvelopeResult.cursorScope. */
+  cursorScope?: CursorScope;
 }
 
 export interface ImapListEntry {
   path?: string;
   name?: string;
+  delimiter?: string;
+  parentPath?: string;
+  specialUse?: string;
+  flags?: Set<string>;
+  subscribed?: boolean;
   status?: { messages?: number; unseen?: number };
 }
 
@@ -129,6 +229,24 @@ export interface ImapStatusResult {
   highestModseq?: bigint;
 }
 
+export interface ImapCopyResult {
+  destination?: string;
+  uidMap?: Map<number, number>;
+}
+
+export interface ImapDownloadMeta {
+  contentType?: string;
+  charset?: string;
+  disposition?: string;
+  filename?: string;
+}
+
+export interface ImapAppendResult {
+  destination?: string;
+  uid?: number;
+  uidValidity?: bigint;
+}
+
 export type ImapClientLike = {
   connect(): Promise<void>;
   logout(): Promise<void>;
@@ -138,7 +256,7 @@ export type ImapClientLike = {
   fetch(
     range: string | number[] | Record<string, unknown>,
     query: Record<string, unknown>,
-    options?: { uid?: boolean }
+    options?: { uid?: boolean; changedSince?: bigint }
   ): AsyncIterableIterator<FetchMessageObject>;
   fetchOne(
     range: string,
@@ -146,66 +264,42 @@ export type ImapClientLike = {
     options?: { uid?: boolean }
   ): Promise<FetchMessageObject | false>;
   status(path: string, query: Record<string, unknown>): Promise<ImapStatusResult>;
-  mailbox?: { exists?: number };
+  mailbox?: { exists?: number; path?: string; uidValidity?: bigint; highestModseq?: bigint };
+  /** False once the underlying socket is closed (imapflow). Missing means "assume usable". */
+  usable?: boolean;
+  noop?(): Promise<void>;
+  mailboxOpen?(path: string, options?: { readOnly?: boolean }): Promise<unknown>;
+  // Write operations (only used by opt-in write tools).
+  messageFlagsAdd?(range: number[], flags: string[], options?: { uid?: boolean }): Promise<boolean>;
+  messageFlagsRemove?(range: number[], flags: string[], options?: { uid?: boolean }): Promise<boolean>;
+  messageMove?(range: number[], destination: string, options?: { uid?: boolean }): Promise<ImapCopyResult | false>;
+  messageCopy?(range: number[], destination: string, options?: { uid?: boolean }): Promise<ImapCopyResult | false>;
+  messageDelete?(range: number[], options?: { uid?: boolean }): Promise<boolean>;
+  download?(
+    range: string,
+    part?: string,
+    options?: { uid?: boolean; maxBytes?: number }
+  ): Promise<{ meta?: ImapDownloadMeta; content?: AsyncIterable<Buffer | string> }>;
+  append?(path: string, content: string | Buffer, flags?: string[], idate?: Date): Promise<ImapAppendResult | false>;
+  on?(event: string, listener: (...args: unknown[]) => void): unknown;
+  /** Server capabilities (imapflow), e.g. "THREAD=REFERENCES". */
+  capabilities?: Map<string, unknown>;
+  /** Raw command execution (imapflow), for extensions it has no helper for (e.g. THREAD). */
+  exec?(
+    command: string,
+    attributes: unknown[],
+    options?: { untagged?: Record<string, (untagged: { attributes?: unknown[] }) => unknown> }
+  ): Promise<{ next?: () => void }>;
 };
 
-type ImapClientFactory = (config: ImapConfig) => ImapClientLike;
-
-function defaultClientFactory(config: ImapConfig): ImapClientLike {
-  return new ImapFlow({
-    host: config.host,
-    port: config.port,
-    secure: config.secure,
-    auth: {
-      user: config.user,
-      pass: config.pass,
-    },
-    // Accept self-signed cert for both direct TLS and STARTTLS (useful for local Bridge setups).
-    tls: { rejectUnauthorized: config.tlsRejectUnauthorized },
-    logger: false,
-  }) as unknown as ImapClientLike;
-}
-
-let clientFactory: ImapClientFactory = defaultClientFactory;
-
-export function __setClientFactoryForTests(factory?: ImapClientFactory): void {
-  clientFactory = factory ?? defaultClientFactory;
-}
-
-function getClient(config: ImapConfig): ImapClientLike {
-  return clientFactory(config);
-}
-
-function isConnectionError(err: unknown): boolean {
-  if (!(err instanceof Error)) return false;
-  const msg = err.message.toLowerCase();
-  const code = (err as Error & { code?: string }).code;
-  return (
-    msg.includes("connection not available") ||
-    msg.includes("connection closed") ||
-    code === "NoConnection" ||
-    code === "EConnectionClosed"
-  );
-}
-
-async function safeLogout(client: ImapClientLike): Promise<void> {
-  try {
-    await client.logout();
-  } catch {
-    // Ignore: connection may already be closed (e.g. server BYE or timeout).
-  }
-}
+export { __setClientFactoryForTests, closeAllConnections } from "./connection.js";
 
-function parsedToBodyText(parsed: ParsedMail, maxLength: number): string {
-  let text = parsed.text ?? "";
-  if (!text && parsed.html) {
-    // Strip tags for plain text
-    text = parsed.html.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
-  }
-  if (maxLength > 0 && text.length > maxLength) {
-    text = text.slice(0, maxLength) + "\n[... truncated]";
-  }
-  return text;
+/**
+ * Plain-text body (HTML converted when there is no text part), truncated to maxLength.
+ * "new-content" strips quoted history, signatures and disclaimers first (see body-clean.ts).
+ */
+export function parsedToBodyText(parsed: ParsedMail, maxLength: number, bodyMode: BodyMode = "full"): string {
+  return truncateBody(renderBody(parsed, bodyMode).text, maxLength);
 }
 
 /** Format envelope address array to string. */
@@ -214,7 +308,7 @@ function formatAddresses(arr: Array<{ address?: string; name?: string }> | undef
   return arr.map((a) => a.address ?? a.name ?? "").filter(Boolean).join(", ");
 }
 
-function parseDateInput(name: string, value: string | undefined): Date | undefined {
+export function parseDateInput(name: string, value: string | undefined): Date | undefined {
   if (!value) return undefined;
   const d = new Date(value);
   if (Number.isNaN(d.getTime())) {
@@ -223,7 +317,7 @@ function parseDateInput(name: string, value: string | undefined): Date | undefin
   return d;
 }
 
-function parseInclusiveEndDate(name: string, value: string | undefined): Date | undefined {
+export function parseInclusiveEndDate(name: string, value: string | undefined): Date | undefined {
   const d = parseDateInput(name, value);
   if (!d) return undefined;
   if (/^\d{4}-\d{2}-\d{2}$/.test(value ?? "")) {
@@ -233,17 +327,18 @@ function parseInclusiveEndDate(name: string, value: string | undefined): Date |
   return d;
 }
 
-function resolveListOptions(
+export function resolveListOptions(
   options: ListQueryOptions | undefined,
   defaults: { defaultLimit: number; maxResults: number; snippetLength: number }
 ): Required<Pick<ListQueryOptions, "limit" | "sort" | "includeSnippet" | "maxResults" | "snippetLength">> &
-  Pick<ListQueryOptions, "cursor"> {
+  Pick<ListQueryOptions, "cursor" | "sortBy"> {
   const maxResults = Number.isFinite(options?.maxResults)
     ? Math.max(1, Math.floor(options?.maxResults ?? defaults.maxResults))
     : defaults.maxResults;
   return {
     limit: clampLimit(options?.limit, maxResults, defaults.defaultLimit),
     sort: normalizeSort(options?.sort),
+    sortBy: normalizeSortBy(options?.sortBy),
     cursor: options?.cursor,
     includeSnippet: options?.includeSnippet === true,
     maxResults,
@@ -254,7 +349,7 @@ function resolveListOptions(
   };
 }
 
-function normalizeMessageId(value: string): string {
+export function normalizeMessageId(value: string): string {
   return value.trim().replace(/^<|>$/g, "");
 }
 
@@ -270,10 +365,24 @@ function collectReferenceIds(parsed: ParsedMail): string[] {
   return Array.from(out).filter(Boolean);
 }
 
-async function envelopeWithOptionalSnippet(
+interface MailboxRef {
+  path: string;
+  uidValidity?: string;
+}
+
+/** Identify the currently locked mailbox (for resource URIs). */
+function mailboxRef(client: ImapClientLike, mailbox: string): MailboxRef {
+  return {
+    path: client.mailbox?.path ?? mailbox,
+    uidValidity: client.mailbox?.uidValidity?.toString(),
+  };
+}
+
+export async function envelopeWithOptionalSnippet(
   msg: FetchMessageObject,
   includeSnippet: boolean,
-  snippetLength: number
+  snippetLength: number,
+  ref?: MailboxRef
 ): Promise<MessageEnvelope> {
   const e = msg.envelope;
   const subj = e?.subject;
@@ -285,30 +394,140 @@ async function envelopeWithOptionalSnippet(
     date: e?.date ? new Date(e.date).toISOString() : "",
     messageId: e?.messageId,
   };
+  if (ref && envelope.uid) envelope.uri = messageUri(ref.path, envelope.uid, ref.uidValidity);
+  const bulk = parseBulkHeaders(msg.headers);
+  if (bulk.isBulk) {
+    envelope.isBulk = true;
+    if (bulk.listId) envelope.listId = bulk.listId;
+  }
   if (includeSnippet && msg.source) {
     const parsed = await simpleParser(msg.source);
-    envelope.snippet = toSnippet(parsedToBodyText(parsed, snippetLength), snippetLength);
+    // Snippets show what the sender wrote, not the quoted thread below it.
+    envelope.snippet = toSnippet(parsedToBodyText(parsed, 0, "new-content"), snippetLength);
   }
   return envelope;
 }
 
-function sortEnvelopes(envelopes: MessageEnvelope[], sort: SortOrder): MessageEnvelope[] {
+export function sortEnvelopes(envelopes: MessageEnvelope[], sort: SortOrder): MessageEnvelope[] {
   return envelopes.sort((a, b) => (sort === "asc" ? a.uid - b.uid : b.uid - a.uid));
 }
 
-async function fetchEnvelopesByUids(
+/**
+ * What this page's cursors are bound to: the selected folder, its UIDVALIDITY, and
+ * the query (criteria plus sort settings) that produced the UIDs.
+ */
+function pageScope(
+  client: ImapClientLike,
+  mailbox: string,
+  opts: ReturnType<typeof resolveListOptions>,
+  query: Record<string, unknown>
+): CursorScope {
+  const ref = mailboxRef(client, mailbox);
+  return cursorScope(ref.path, ref.uidValidity, { ...query, sort: opts.sort, sortBy: opts.sortBy });
+}
+
+/**
+ * One page of envelopes for UIDs matched by a search: in UID order, or by `sortBy`
+ * with a keyed cursor. `query` describes the search for cursor binding.
+ */
+async function envelopePage(
+  client: ImapClientLike,
+  mailbox: string,
+  matched: number[],
+  opts: ReturnType<typeof resolveListOptions>,
+  query: Record<string, unknown>
+): Promise<PagedMessageEnvelopeResult> {
+  const scope = pageScope(client, mailbox, opts, query);
+  if (opts.sortBy) {
+    const page = await sortedPage(client, matched, {
+      sortBy: opts.sortBy,
+      sort: opts.sort,
+      limit: opts.limit,
+      cursor: opts.cursor,
+      scope,
+    });
+    const envelopes = await fetchEnvelopesByUids(client, mailbox, page.pageUids, opts.includeSnippet, opts.snippetLength);
+    const position = new Map(page.pageUids.map((uid, i) => [uid, i]));
+    return {
+      items: envelopes.sort((a, b) => (position.get(a.uid) ?? 0) - (position.get(b.uid) ?? 0)),
+      nextCursor: page.nextCursor,
+      cursorScope: scope,
+    };
+  }
+  const paged = paginateUids(matched, {
+    limit: opts.limit,
+    maxResults: opts.maxResults,
+    sort: opts.sort,
+    cursor: opts.cursor,
+    scope,
+  });
+  const envelopes = await fetchEnvelopesByUids(client, mailbox, paged.pageUids, opts.includeSnippet, opts.snippetLength);
+  return {
+    items: sortEnvelopes(envelopes, opts.sort),
+    nextCursor: paged.nextCursor,
+    cursorScope: scope,
+  };
+}
+
+/**
+ * Fetch messages for envelope output. Snippets need the source: it is fetched inline,
+ * or, when the message cache applies, taken from the cache with one batched fetch
+ * for the misses.
+ */
+async function fetchWithSnippetSources(
+  client: ImapClientLike,
+  mailbox: string,
+  range: string | number[],
+  query: Record<string, unknown>,
+  includeSnippet: boolean,
+  byUid: boolean
+): Promise<FetchMessageObject[]> {
+  const cached = includeSnippet && cachesSources(client);
+  const fullQuery = includeSnippet && !cached ? { ...query, source: true } : query;
+  const msgs: FetchMessageObject[] = [];
+  for await (const msg of client.fetch(range, fullQuery, { uid: byUid })) msgs.push(msg);
+  if (cached) await attachSources(client, mailbox, msgs);
+  return msgs;
+}
+
+/** Per-message metadata fetched alongside envelopes (RFC822.SIZE, FLAGS, BODYSTRUCTURE). */
+export interface EnvelopeMetadata {
+  size: number;
+  seen: boolean;
+  attachments: number;
+  /** Encoded size of the attachment parts. */
+  attachmentBytes: number;
+}
+
+/**
+ * Fetch envelopes for the given UIDs. With onMetadata, size/flags/structure are
+ * fetched too and reported per message without becoming envelope fields.
+ */
+export async function fetchEnvelopesByUids(
   client: ImapClientLike,
+  mailbox: string,
   uids: number[],
   includeSnippet: boolean,
-  snippetLength: number
+  snippetLength: number,
+  onMetadata?: (envelope: MessageEnvelope, metadata: EnvelopeMetadata) => void
 ): Promise<MessageEnvelope[]> {
   if (uids.length === 0) return [];
-  const query = includeSnippet
-    ? ({ envelope: true, uid: true, source: true } as const)
-    : ({ envelope: true, uid: true } as const);
+  const query: Record<string, unknown> = { envelope: true, uid: true, headers: BULK_HEADER_NAMES };
+  if (onMetadata) Object.assign(query, { size: true, flags: true, bodyStructure: true });
+  const ref = mailboxRef(client, mailbox);
   const envelopes: MessageEnvelope[] = [];
-  for await (const msg of client.fetch(uids, query, { uid: true })) {
-    envelopes.push(await envelopeWithOptionalSnippet(msg, includeSnippet, snippetLength));
+  for (const msg of await fetchWithSnippetSources(client, mailbox, uids, query, includeSnippet, true)) {
+    const envelope = await envelopeWithOptionalSnippet(msg, includeSnippet, snippetLength, ref);
+    envelopes.push(envelope);
+    if (onMetadata) {
+      const attachments = attachmentsFromBodyStructure(msg.bodyStructure);
+      onMetadata(envelope, {
+        size: msg.size ?? 0,
+        seen: msg.flags?.has("\\Seen") === true,
+        attachments: attachments.length,
+        attachmentBytes: attachments.reduce((sum, a) => sum + a.size, 0),
+      });
+    }
   }
   return envelopes;
 }
@@ -328,6 +547,79 @@ function attachmentFromStructureNode(node: MessageStructureObject): MessageAttac
     contentId,
     cid: contentId ? normalizeMessageId(contentId) : undefined,
     related: disposition === "inline",
+    part: node.part,
+  };
+}
+
+function findStructurePart(
+  structure: MessageStructureObject | undefined,
+  part: string
+): MessageStructureObject | undefined {
+  if (!structure) return undefined;
+  if (structure.part === part) return structure;
+  for (const child of structure.childNodes ?? []) {
+    const found = findStructurePart(child, part);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+const TEXT_LIKE_TYPES = new Set([
+  "application/json",
+  "application/xml",
+  "application/csv",
+  "application/ics",
+  "application/x-yaml",
+  "application/yaml",
+  "application/javascript",
+  "application/x-sh",
+  "application/sql",
+  "message/rfc822",
+  "message/delivery-status",
+]);
+const TEXT_LIKE_EXTENSIONS = /\.(txt|csv|tsv|json|ics|vcf|xml|ya?ml|md|log|eml|html?)$/i;
+
+function attachmentKind(contentType: string, filename: string): AttachmentContent["kind"] {
+  const type = contentType.toLowerCase();
+  if (type.startsWith("image/")) return "image";
+  if (type.startsWith("text/") || TEXT_LIKE_TYPES.has(type) || type.endsWith("+json") || type.endsWith("+xml")) {
+    return "text";
+  }
+  if (type === "application/octet-stream" && TEXT_LIKE_EXTENSIONS.test(filename)) return "text";
+  return "binary";
+}
+
+export function decodeText(data: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset || "utf-8").decode(data);
+  } catch {
+    // Unknown charset label: fall back to UTF-8 rather than failing the whole call.
+    return new TextDecoder("utf-8").decode(data);
+  }
+}
+
+export async function readLimited(stream: AsyncIterable<Buffer | string>, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of stream) {
+    const buf = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+    total += buf.length;
+    if (total > maxBytes) {
+      throw new Error(`Attachment exceeds MAIL_MAX_ATTACHMENT_BYTES (${maxBytes} bytes)`);
+    }
+    chunks.push(buf);
+  }
+  return Buffer.concat(chunks);
+}
+
+function structureNodeInfo(node: MessageStructureObject): MessageAttachmentInfo {
+  return {
+    filename: "",
+    contentType: node.type,
+    contentDisposition: node.disposition ?? "inline",
+    size: node.size ?? 0,
+    checksum: node.md5 ?? "",
+    part: node.part,
   };
 }
 
@@ -357,32 +649,38 @@ function attachmentToInfo(attachment: Attachment): MessageAttachmentInfo {
 }
 
 /**
- * List all mailboxes (folders). Read-only.
+ * List all mailboxes (folders) with hierarchy, special-use and subscription info. Read-only.
  */
 export async function listFolders(config: ImapConfig): Promise<MailboxInfo[]> {
-  const run = async (): Promise<MailboxInfo[]> => {
-    const client = getClient(config);
-    try {
-      await client.connect();
-      const list = await client.list({
-        statusQuery: { messages: true, unseen: true },
-      });
-      return list.map((m) => ({
-        path: String(m.path ?? ""),
+  return withClient(config, async (client) => {
+    const list = await client.list({
+      statusQuery: { messages: true, unseen: true },
+    });
+    const specialUses = specialUseByPath(list);
+    return list.map((m) => {
+      const path = String(m.path ?? "");
+      const special = specialUses.get(path);
+      return {
+        path,
         name: String(m.name ?? ""),
+        delimiter: m.delimiter,
+        parent: m.parentPath || undefined,
+        specialUse: special?.specialUse,
+        specialUseInferred: special?.inferred || undefined,
+        flags: m.flags ? Array.from(m.flags) : undefined,
+        subscribed: m.subscribed,
         messages: m.status?.messages,
         unseen: m.status?.unseen,
-      }));
-    } finally {
-      await safeLogout(client);
-    }
-  };
-  try {
-    return await run();
-  } catch (err) {
-    if (isConnectionError(err)) return await run();
-    throw err;
-  }
+      };
+    });
+  });
+}
+
+/**
+ * List all mailboxes nested under their parent folders. Read-only.
+ */
+export async function listFolderTree(config: ImapConfig): Promise<MailboxTreeNode[]> {
+  return buildFolderTree(await listFolders(config));
 }
 
 /**
@@ -399,67 +697,58 @@ export async function listMessagesPage(
     snippetLength: options?.snippetLength ?? 400,
   });
 
-  const run = async (): Promise<PagedMessageEnvelopeResult> => {
-    const client = getClient(config);
-    try {
-      await client.connect();
-      const lock = await client.getMailboxLock(mailbox, { readOnly: true });
-      try {
-        // Fast path for no-cursor list calls: fetch by sequence range instead of mailbox-wide UID search.
-        if (!opts.cursor) {
-          const total = client.mailbox?.exists ?? 0;
-          if (!total) return { items: [] };
-          const range =
-            opts.sort === "desc"
-              ? `${Math.max(1, total - opts.limit + 1)}:*`
-              : `1:${Math.min(total, opts.limit)}`;
-          const fetchQuery = opts.includeSnippet
-            ? ({ envelope: true, uid: true, source: true } as const)
-            : ({ envelope: true, uid: true } as const);
-          const envelopes: MessageEnvelope[] = [];
-          for await (const msg of client.fetch(range, fetchQuery, { uid: false })) {
-            envelopes.push(await envelopeWithOptionalSnippet(msg, opts.includeSnippet, opts.snippetLength));
-          }
-          const items = sortEnvelopes(envelopes, opts.sort);
-          const nextCursor = total > opts.limit && items.length > 0 ? encodeCursor(items[items.length - 1].uid) : undefined;
-          return { items, nextCursor };
-        }
-
-        const searchQuery: Record<string, unknown> = { all: true };
-        if (opts.cursor) {
-          const cursorUid = decodeCursor(opts.cursor);
-          if (cursorUid != null) {
-            searchQuery.uid = opts.sort === "asc" ? `${cursorUid + 1}:*` : `1:${Math.max(1, cursorUid - 1)}`;
-            delete searchQuery.all;
-          }
-        }
-
-        const matchedRaw = await client.search(searchQuery, { uid: true });
-        const matched = Array.isArray(matchedRaw) ? matchedRaw : [];
-        const paged = paginateUids(matched, {
-          limit: opts.limit,
-          maxResults: opts.maxResults,
-          sort: opts.sort,
-        });
-        const envelopes = await fetchEnvelopesByUids(client, paged.pageUids, opts.includeSnippet, opts.snippetLength);
-        return {
-          items: sortEnvelopes(envelopes, opts.sort),
-          nextCursor: paged.nextCursor,
-        };
-      } finally {
-        lock.release();
+  return withMailbox(config, mailbox, async (client) => {
+    const listQuery = { kind: "list", excludeBulk: options?.excludeBulk };
+    if (opts.sortBy) {
+      const matchedRaw = await client.search(withBulkFilter({ all: true }, options?.excludeBulk), { uid: true });
+      return envelopePage(client, mailbox, Array.isArray(matchedRaw) ? matchedRaw : [], opts, listQuery);
+    }
+    const scope = pageScope(client, mailbox, opts, listQuery);
+
+    // Fast path for no-cursor list calls: fetch by sequence range instead of mailbox-wide UID search.
+    if (!opts.cursor && !options?.excludeBulk) {
+      const total = client.mailbox?.exists ?? 0;
+      if (!total) return { items: [] };
+      const range =
+        opts.sort === "desc"
+          ? `${Math.max(1, total - opts.limit + 1)}:*`
+          : `1:${Math.min(total, opts.limit)}`;
+      const fetchQuery = { envelope: true, uid: true, headers: BULK_HEADER_NAMES };
+      const ref = mailboxRef(client, mailbox);
+      const envelopes: MessageEnvelope[] = [];
+      for (const msg of await fetchWithSnippetSources(client, mailbox, range, fetchQuery, opts.includeSnippet, false)) {
+        envelopes.push(await envelopeWithOptionalSnippet(msg, opts.includeSnippet, opts.snippetLength, ref));
       }
-    } finally {
-      await safeLogout(client);
+      const items = sortEnvelopes(envelopes, opts.sort);
+      const nextCursor =
+        total > opts.limit && items.length > 0 ? encodeCursor(items[items.length - 1].uid, scope) : undefined;
+      return { items, nextCursor, cursorScope: scope };
     }
-  };
 
-  try {
-    return await run();
-  } catch (err) {
-    if (isConnectionError(err)) return await run();
-    throw err;
-  }
+    const searchQuery: Record<string, unknown> = { all: true };
+    if (opts.cursor) {
+      const cursorUid = decodeCursor(opts.cursor, scope);
+      if (cursorUid != null) {
+        searchQuery.uid = opts.sort === "asc" ? `${cursorUid + 1}:*` : `1:${Math.max(1, cursorUid - 1)}`;
+        delete searchQuery.all;
+      }
+    }
+
+    const matchedRaw = await client.search(withBulkFilter(searchQuery, options?.excludeBulk), { uid: true });
+    const matched = Array.isArray(matchedRaw) ? matchedRaw : [];
+    const paged = paginateUids(matched, {
+      limit: opts.limit,
+      maxResults: opts.maxResults,
+      sort: opts.sort,
+      scope,
+    });
+    const envelopes = await fetchEnvelopesByUids(client, mailbox, paged.pageUids, opts.includeSnippet, opts.snippetLength);
+    return {
+      items: sortEnvelopes(envelopes, opts.sort),
+      nextCursor: paged.nextCursor,
+      cursorScope: scope,
+    };
+  });
 }
 
 /**
@@ -481,43 +770,135 @@ export async function getMessage(
   config: ImapConfig,
   mailConfig: MailConfig,
   mailbox: string,
-  uid: number
+  uid: number,
+  bodyMode: BodyMode = "full"
 ): Promise<MessageContent | null> {
-  const run = async (): Promise<MessageContent | null> => {
-    const client = getClient(config);
-    try {
-      await client.connect();
-      const lock = await client.getMailboxLock(mailbox, { readOnly: true });
-      try {
-        const msg = await client.fetchOne(
-          String(uid),
-          {
-            envelope: true,
-            uid: true,
-            source: true,
-          },
-          { uid: true }
-        );
-        if (!msg || !msg.source) return null;
-        const parsed = await simpleParser(msg.source);
-        const envelope = await envelopeWithOptionalSnippet(msg, false, mailConfig.snippetLength);
-        return {
+  const found = await getParsedMessage(config, mailbox, uid);
+  if (!found) return null;
+  const body = renderBody(found.parsed, bodyMode);
+  const invite = inviteFromParsed(found.parsed);
+  return {
+    envelope: found.envelope,
+    bodyText: truncateBody(body.text, mailConfig.maxBodyLength),
+    ...(bodyMode === "new-content" ? { bodyMode, removedChars: body.removedChars } : {}),
+    ...(invite ? { invite } : {}),
+    flags: found.flags,
+  };
+}
+
+/**
+ * Fetch one message with structured addresses, selected headers and a Markdown body.
+ */
+export async function getRichMessage(
+  config: ImapConfig,
+  mailConfig: MailConfig,
+  mailbox: string,
+  uid: number,
+  bodyMode: BodyMode = "full"
+): Promise<RichMessageContent | null> {
+  const found = await getParsedMessage(config, mailbox, uid);
+  if (!found) return null;
+  const invite = inviteFromParsed(found.parsed);
+  const rich = toRichMessage(found.envelope, found.parsed, mailConfig.maxBodyLength, bodyMode);
+  return { ...rich, ...(invite ? { invite } : {}), flags: found.flags };
+}
+
+/**
+ * Fetch several messages in one UID FETCH (cache hits skip the server) with the body
+ * budget split fairly between them. Read-only.
+ */
+export async function getMessages(
+  config: ImapConfig,
+  mailConfig: MailConfig,
+  mailbox: string,
+  options: BatchMessageOptions
+): Promise<BatchMessageResult> {
+  const requested = Array.from(new Set(options.uids ?? []));
+  if (requested.length > MAX_BATCH_MESSAGES) {
+    throw new Error(`At most ${MAX_BATCH_MESSAGES} uids per call`);
+  }
+  if (!options.uids && !options.criteria) throw new Error("Pass uids or search criteria");
+  const bodyMode = options.bodyMode ?? "full";
+  const limit = Math.min(MAX_BATCH_MESSAGES, Math.max(1, Math.floor(options.limit ?? 20)));
+  const cap = mailConfig.maxBodyLength;
+  let budget = cap;
+  if (options.bodyBudget && options.bodyBudget > 0) {
+    budget = cap > 0 ? Math.min(Math.floor(options.bodyBudget), cap) : Math.floor(options.bodyBudget);
+  }
+
+  return withMailbox(config, mailbox, async (client) => {
+    let uids = requested;
+    let moreMatches: number | undefined;
+    if (!options.uids) {
+      const query = buildAdvancedSearchQuery(options.criteria ?? {});
+      const found = await client.search(Object.keys(query).length > 0 ? query : { all: true }, { uid: true });
+      const matched = (found || []).sort((a, b) => b - a);
+      uids = matched.slice(0, limit);
+      moreMatches = matched.length - uids.length;
+    }
+    if (uids.length === 0) return { mailbox, messages: [], missingUids: [], moreMatches, bodyBudget: budget };
+
+    const fetchQuery = { uid: true, envelope: true, flags: true };
+    const byUid = new Map<number, FetchMessageObject>();
+    for (const msg of await fetchWithSnippetSources(client, mailbox, uids, fetchQuery, true, true)) {
+      if (msg.source) byUid.set(msg.uid, msg);
+    }
+
+    const ref = mailboxRef(client, mailbox);
+    const rendered: Array<{ content: MessageContent | RichMessageContent; body: string }> = [];
+    for (const uid of uids) {
+      const msg = byUid.get(uid);
+      if (!msg?.source) continue;
+      const parsed = await simpleParser(msg.source);
+      const envelope = await envelopeWithOptionalSnippet(msg, false, 0, ref);
+      const invite = inviteFromParsed(parsed);
+      const extras = { ...(invite ? { invite } : {}), flags: [...(msg.flags ?? [])] };
+      if (options.format === "rich") {
+        const rich = toRichMessage(envelope, parsed, 0, bodyMode);
+        rendered.push({ content: { ...rich, ...extras }, body: rich.body });
+      } else {
+        const body = renderBody(parsed, bodyMode);
+        const content: MessageContent = {
           envelope,
-          bodyText: parsedToBodyText(parsed, mailConfig.maxBodyLength),
+          bodyText: body.text,
+          ...(bodyMode === "new-content" ? { bodyMode, removedChars: body.removedChars } : {}),
+          ...extras,
         };
-      } finally {
-        lock.release();
+        rendered.push({ content, body: body.text });
       }
-    } finally {
-      await safeLogout(client);
     }
-  };
-  try {
-    return await run();
-  } catch (err) {
-    if (isConnectionError(err)) return await run();
-    throw err;
-  }
+
+    const allowed = splitBodyBudget(rendered.map((r) => r.body.length), budget);
+    const messages = rendered.map(({ content, body }, i) => {
+      const text = allowed[i] < body.length ? truncateBody(body, Math.max(1, allowed[i])) : body;
+      return "bodyText" in content ? { ...content, bodyText: text } : { ...content, body: text };
+    });
+    return {
+      mailbox,
+      messages,
+      missingUids: options.uids ? uids.filter((uid) => !byUid.has(uid)) : [],
+      moreMatches,
+      bodyBudget: budget,
+    };
+  });
+}
+
+/**
+ * Fetch and parse one message source by mailbox and UID. Read-only.
+ * Shared by getMessage and tools that need headers/body of an existing message (e.g. reply drafts).
+ */
+export async function getParsedMessage(
+  config: ImapConfig,
+  mailbox: string,
+  uid: number
+): Promise<{ envelope: MessageEnvelope; parsed: ParsedMail; flags: string[] } | null> {
+  return withMailbox(config, mailbox, async (client) => {
+    const msg = await fetchMessageSource(client, mailbox, uid);
+    if (!msg) return null;
+    const parsed = await simpleParser(msg.source);
+    const envelope = await envelopeWithOptionalSnippet(msg, false, 0, mailboxRef(client, mailbox));
+    return { envelope, parsed, flags: [...(msg.flags ?? [])] };
+  });
 }
 
 /**
@@ -535,49 +916,22 @@ export async function searchMailPage(
     snippetLength: options?.snippetLength ?? 400,
   });
 
-  const run = async (): Promise<PagedMessageEnvelopeResult> => {
-    const client = getClient(config);
-    try {
-      await client.connect();
-      const lock = await client.getMailboxLock(mailbox, { readOnly: true });
-      try {
-        const query: Record<string, unknown> = {};
-        if (criteria.from) query.from = criteria.from;
-        if (criteria.to) query.to = criteria.to;
-        if (criteria.subject) query.subject = criteria.subject;
-        if (criteria.body) query.body = criteria.body;
-        if (criteria.since) query.since = parseDateInput("since", criteria.since);
-        if (criteria.before) query.before = parseDateInput("before", criteria.before);
-        if (criteria.unseen === true) query.seen = false;
-
-        const matchedRaw = await client.search(query, { uid: true });
-        const matched = Array.isArray(matchedRaw) ? matchedRaw : [];
-        const paged = paginateUids(matched, {
-          limit: opts.limit,
-          maxResults: opts.maxResults,
-          sort: opts.sort,
-          cursor: opts.cursor,
-        });
-
-        const envelopes = await fetchEnvelopesByUids(client, paged.pageUids, opts.includeSnippet, opts.snippetLength);
-        return {
-          items: sortEnvelopes(envelopes, opts.sort),
-          nextCursor: paged.nextCursor,
-        };
-      } finally {
-        lock.release();
-      }
-    } finally {
-      await safeLogout(client);
-    }
-  };
-
-  try {
-    return await run();
-  } catch (err) {
-    if (isConnectionError(err)) return await run();
-    throw err;
-  }
+  return withMailbox(config, mailbox, async (client) => {
+    const query: Record<string, unknown> = {};
+    if (criteria.from) query.from = criteria.from;
+    if (criteria.to) query.to = criteria.to;
+    if (criteria.subject) query.subject = criteria.subject;
+    if (criteria.body) query.body = criteria.body;
+    if (criteria.since) query.since = parseDateInput("since", criteria.since);
+    if (criteria.before) query.before = parseDateInput("before", criteria.before);
+    if (criteria.unseen === true) query.seen = false;
+
+    const matchedRaw = await client.search(withBulkFilter(withQueryString(query, criteria.q), options?.excludeBulk), {
+      uid: true,
+    });
+    const matched = Array.isArray(matchedRaw) ? matchedRaw : [];
+    return envelopePage(client, mailbox, matched, opts, { kind: "search", criteria, excludeBulk: options?.excludeBulk });
+  });
 }
 
 /**
@@ -593,6 +947,62 @@ export async function searchMail(
   return out.items;
 }
 
+/** AND the "no bulk markers" search onto a query when excludeBulk is set. */
+export function withBulkFilter(query: Record<string, unknown>, excludeBulk: boolean | undefined): Record<string, unknown> {
+  return excludeBulk ? combineSearchQueries([query, NOT_BULK_SEARCH]) : query;
+}
+
+/** AND a `q` query string (if any) onto a field-based search query. */
+function withQueryString(query: Record<string, unknown>, q: string | undefined): Record<string, unknown> {
+  if (!q?.trim()) return query;
+  return combineSearchQueries([query, searchQueryToImap(q)]);
+}
+
+/**
+ * Translate advanced search criteria into an imapflow search query (AND semantics).
+ * Throws on invalid dates or contradictory filters.
+ */
+export function buildAdvancedSearchQuery(criteria: AdvancedSearchCriteria): Record<string, unknown> {
+  if (criteria.seen === true && criteria.unseen === true) {
+    throw new Error("seen and unseen cannot both be true");
+  }
+
+  const query: Record<string, unknown> = {};
+  if (criteria.keyword) query.text = criteria.keyword;
+  if (criteria.sender) query.from = criteria.sender;
+  if (criteria.receiver) query.to = criteria.receiver;
+  if (criteria.cc) query.cc = criteria.cc;
+  if (criteria.bcc) query.bcc = criteria.bcc;
+  if (criteria.subject) query.subject = criteria.subject;
+  if (criteria.body) query.body = criteria.body;
+  if (criteria.seen === true) query.seen = true;
+  if (criteria.unseen === true) query.seen = false;
+  if (criteria.messageId) query.header = { "message-id": criteria.messageId };
+
+  const receivedOn = parseDateInput("date", criteria.date);
+  const receivedSince = parseDateInput("dateFrom", criteria.dateFrom);
+  const receivedBefore = parseInclusiveEndDate("dateTo", criteria.dateTo);
+  const sentOn = parseDateInput("sentDate", criteria.sentDate);
+  const sentSince = parseDateInput("sentDateFrom", criteria.sentDateFrom);
+  const sentBefore = parseInclusiveEndDate("sentDateTo", criteria.sentDateTo);
+
+  if (receivedOn) query.on = receivedOn;
+  if (receivedSince) query.since = receivedSince;
+  if (receivedBefore) query.before = receivedBefore;
+  if (sentOn) query.sentOn = sentOn;
+  if (sentSince) query.sentSince = sentSince;
+  if (sentBefore) query.sentBefore = sentBefore;
+
+  if (receivedSince && receivedBefore && receivedSince >= receivedBefore) {
+    throw new Error("dateFrom must be earlier than or equal to dateTo");
+  }
+  if (sentSince && sentBefore && sentSince >= sentBefore) {
+    throw new Error("sentDateFrom must be earlier than or equal to sentDateTo");
+  }
+
+  return withQueryString(query, criteria.q);
+}
+
 /**
  * Advanced multi-filter search in a mailbox. Returns matching envelopes.
  * Combines provided filters with AND semantics (standard IMAP search behavior).
@@ -609,77 +1019,12 @@ export async function searchMailAdvancedPage(
     snippetLength: options?.snippetLength ?? 400,
   });
 
-  const run = async (): Promise<PagedMessageEnvelopeResult> => {
-    const client = getClient(config);
-    try {
-      await client.connect();
-      const lock = await client.getMailboxLock(mailbox, { readOnly: true });
-      try {
-        if (criteria.seen === true && criteria.unseen === true) {
-          throw new Error("seen and unseen cannot both be true");
-        }
-
-        const query: Record<string, unknown> = {};
-        if (criteria.keyword) query.text = criteria.keyword;
-        if (criteria.sender) query.from = criteria.sender;
-        if (criteria.receiver) query.to = criteria.receiver;
-        if (criteria.cc) query.cc = criteria.cc;
-        if (criteria.bcc) query.bcc = criteria.bcc;
-        if (criteria.subject) query.subject = criteria.subject;
-        if (criteria.body) query.body = criteria.body;
-        if (criteria.seen === true) query.seen = true;
-        if (criteria.unseen === true) query.seen = false;
-        if (criteria.messageId) query.header = { "message-id": criteria.messageId };
-
-        const receivedOn = parseDateInput("date", criteria.date);
-        const receivedSince = parseDateInput("dateFrom", criteria.dateFrom);
-        const receivedBefore = parseInclusiveEndDate("dateTo", criteria.dateTo);
-        const sentOn = parseDateInput("sentDate", criteria.sentDate);
-        const sentSince = parseDateInput("sentDateFrom", criteria.sentDateFrom);
-        const sentBefore = parseInclusiveEndDate("sentDateTo", criteria.sentDateTo);
-
-        if (receivedOn) query.on = receivedOn;
-        if (receivedSince) query.since = receivedSince;
-        if (receivedBefore) query.before = receivedBefore;
-        if (sentOn) query.sentOn = sentOn;
-        if (sentSince) query.sentSince = sentSince;
-        if (sentBefore) query.sentBefore = sentBefore;
-
-        if (receivedSince && receivedBefore && receivedSince >= receivedBefore) {
-          throw new Error("dateFrom must be earlier than or equal to dateTo");
-        }
-        if (sentSince && sentBefore && sentSince >= sentBefore) {
-          throw new Error("sentDateFrom must be earlier than or equal to sentDateTo");
-        }
-
-        const matchedRaw = await client.search(query, { uid: true });
-        const matched = Array.isArray(matchedRaw) ? matchedRaw : [];
-        const paged = paginateUids(matched, {
-          limit: opts.limit,
-          maxResults: opts.maxResults,
-          sort: opts.sort,
-          cursor: opts.cursor,
-        });
-
-        const envelopes = await fetchEnvelopesByUids(client, paged.pageUids, opts.includeSnippet, opts.snippetLength);
-        return {
-          items: sortEnvelopes(envelopes, opts.sort),
-          nextCursor: paged.nextCursor,
-        };
-      } finally {
-        lock.release();
-      }
-    } finally {
-      await safeLogout(client);
-    }
-  };
-
-  try {
-    return await run();
-  } catch (err) {
-    if (isConnectionError(err)) return await run();
-    throw err;
-  }
+  return withMailbox(config, mailbox, async (client) => {
+    const query = withBulkFilter(buildAdvancedSearchQuery(criteria), options?.excludeBulk);
+    const matchedRaw = await client.search(query, { uid: true });
+    const matched = Array.isArray(matchedRaw) ? matchedRaw : [];
+    return envelopePage(client, mailbox, matched, opts, { kind: "advanced", criteria, excludeBulk: options?.excludeBulk });
+  });
 }
 
 /**
@@ -702,37 +1047,66 @@ export async function getMailboxStatus(
   config: ImapConfig,
   mailbox: string
 ): Promise<MailboxStatus> {
-  const run = async (): Promise<MailboxStatus> => {
-    const client = getClient(config);
-    try {
-      await client.connect();
-      const status = await client.status(mailbox, {
-        messages: true,
-        unseen: true,
-        recent: true,
-        uidNext: true,
-        uidValidity: true,
-        highestModseq: true,
-      });
-      return {
-        path: String(status.path ?? mailbox),
-        messages: status.messages ?? 0,
-        unseen: status.unseen ?? 0,
-        recent: status.recent ?? 0,
-        uidNext: status.uidNext,
-        uidValidity: status.uidValidity?.toString(),
-        highestModseq: status.highestModseq?.toString(),
-      };
-    } finally {
-      await safeLogout(client);
+  return withClient(config, async (client) => {
+    const status = await client.status(await resolveMailbox(client, mailbox), {
+      messages: true,
+      unseen: true,
+      recent: true,
+      uidNext: true,
+      uidValidity: true,
+      highestModseq: true,
+    });
+    return {
+      path: String(status.path ?? mailbox),
+      messages: status.messages ?? 0,
+      unseen: status.unseen ?? 0,
+      recent: status.recent ?? 0,
+      uidNext: status.uidNext,
+      uidValidity: status.uidValidity?.toString(),
+      highestModseq: status.highestModseq?.toString(),
+    };
+  });
+}
+
+/**
+ * List messages whose UID is greater than `afterUid` (oldest first). Read-only.
+ * Used to report mail that arrived after a known uidNext.
+ */
+export async function listMessagesAfterUid(
+  config: ImapConfig,
+  mailbox: string,
+  afterUid: number,
+  options?: ListQueryOptions
+): Promise<PagedMessageEnvelopeResult> {
+  const opts = resolveListOptions(
+    { ...options, sort: "asc" },
+    {
+      defaultLimit: 50,
+      maxResults: options?.maxResults ?? 200,
+      snippetLength: options?.snippetLength ?? 400,
     }
-  };
-  try {
-    return await run();
-  } catch (err) {
-    if (isConnectionError(err)) return await run();
-    throw err;
-  }
+  );
+  const floor = Math.max(0, Math.floor(afterUid));
+
+  return withMailbox(config, mailbox, async (client) => {
+    // "N:*" always matches the highest UID even when it is below N, so filter client-side too.
+    const matchedRaw = await client.search({ uid: `${floor + 1}:*` }, { uid: true });
+    const matched = (Array.isArray(matchedRaw) ? matchedRaw : []).filter((uid) => uid > floor);
+    const scope = pageScope(client, mailbox, opts, { kind: "after", afterUid: floor });
+    const paged = paginateUids(matched, {
+      limit: opts.limit,
+      maxResults: opts.maxResults,
+      sort: "asc",
+      cursor: opts.cursor,
+      scope,
+    });
+    const envelopes = await fetchEnvelopesByUids(client, mailbox, paged.pageUids, opts.includeSnippet, opts.snippetLength);
+    return {
+      items: sortEnvelopes(envelopes, "asc"),
+      nextCursor: paged.nextCursor,
+      cursorScope: scope,
+    };
+  });
 }
 
 /**
@@ -766,35 +1140,85 @@ export async function listAttachments(
   mailbox: string,
   uid: number
 ): Promise<MessageAttachmentInfo[] | null> {
-  const run = async (): Promise<MessageAttachmentInfo[] | null> => {
-    const client = getClient(config);
-    try {
-      await client.connect();
-      const lock = await client.getMailboxLock(mailbox, { readOnly: true });
-      try {
-        const metaMsg = await client.fetchOne(String(uid), { uid: true, bodyStructure: true }, { uid: true });
-        if (!metaMsg) return null;
-
-        const fromStructure = attachmentsFromBodyStructure(metaMsg.bodyStructure);
-        if (metaMsg.bodyStructure) return fromStructure;
-
-        const sourceMsg = await client.fetchOne(String(uid), { uid: true, source: true }, { uid: true });
-        if (!sourceMsg || !sourceMsg.source) return [];
-        const parsed = await simpleParser(sourceMsg.source);
-        return parsed.attachments.map(attachmentToInfo);
-      } finally {
-        lock.release();
-      }
-    } finally {
-      await safeLogout(client);
-    }
-  };
-  try {
-    return await run();
-  } catch (err) {
-    if (isConnectionError(err)) return await run();
-    throw err;
+  return withMailbox(config, mailbox, async (client) => {
+    const metaMsg = await client.fetchOne(String(uid), { uid: true, bodyStructure: true }, { uid: true });
+    if (!metaMsg) return null;
+
+    const ref = mailboxRef(client, mailbox);
+    const fromStructure = attachmentsFromBodyStructure(metaMsg.bodyStructure).map((info) =>
+      info.part ? { ...info, uri: attachmentUri(ref.path, uid, info.part, ref.uidValidity) } : info
+    );
+    if (metaMsg.bodyStructure) return fromStructure;
+
+    const sourceMsg = await client.fetchOne(String(uid), { uid: true, source: true }, { uid: true });
+    if (!sourceMsg || !sourceMsg.source) return [];
+    const parsed = await simpleParser(sourceMsg.source);
+    return parsed.attachments.map(attachmentToInfo);
+  });
+}
+
+/**
+ * Download one attachment part by MIME part ID, capped at mailConfig.maxAttachmentBytes. Read-only.
+ * Text-like parts are decoded to UTF-8; images and other binaries are returned as base64.
+ */
+export async function getAttachment(
+  config: ImapConfig,
+  mailConfig: MailConfig,
+  mailbox: string,
+  uid: number,
+  part: string
+): Promise<AttachmentContent | null> {
+  const partId = part.trim();
+  if (!/^\d+(\.\d+)*$/.test(partId)) {
+    throw new Error(`Invalid part: ${part}. Use a part ID from mail_list_attachments, e.g. "2" or "1.2".`);
   }
+  const maxBytes = mailConfig.maxAttachmentBytes;
+
+  return withMailbox(config, mailbox, async (client) => {
+    const metaMsg = await client.fetchOne(String(uid), { uid: true, bodyStructure: true }, { uid: true });
+    if (!metaMsg) return null;
+
+    const node = findStructurePart(metaMsg.bodyStructure, partId);
+    if (metaMsg.bodyStructure && !node) {
+      throw new Error(`Part ${partId} not found in ${mailbox} UID ${uid}`);
+    }
+    if (node?.childNodes?.length) {
+      throw new Error(`Part ${partId} is a multipart container, not an attachment`);
+    }
+    // BODYSTRUCTURE size is the encoded size; base64 decodes to roughly 3/4 of it.
+    const estimated = node?.size ? (node.encoding === "base64" ? Math.floor((node.size * 3) / 4) : node.size) : 0;
+    if (maxBytes > 0 && estimated > maxBytes) {
+      throw new Error(
+        `Attachment is about ${estimated} bytes, over MAIL_MAX_ATTACHMENT_BYTES (${maxBytes} bytes)`
+      );
+    }
+
+    if (!client.download) throw new Error("IMAP client does not support part download");
+    const download = await client.download(String(uid), partId, {
+      uid: true,
+      maxBytes: maxBytes > 0 ? maxBytes + 1 : undefined,
+    });
+    if (!download?.content) return null;
+    const data = await readLimited(download.content, maxBytes > 0 ? maxBytes : Infinity);
+
+    const info: MessageAttachmentInfo = node
+      ? { ...(attachmentFromStructureNode(node) ?? structureNodeInfo(node)), size: data.length }
+      : {
+          filename: download.meta?.filename || "",
+          contentType: download.meta?.contentType ?? "application/octet-stream",
+          contentDisposition: download.meta?.disposition ?? "attachment",
+          size: data.length,
+          checksum: "",
+          part: partId,
+        };
+    const ref = mailboxRef(client, mailbox);
+    const withUri = { ...info, uri: attachmentUri(ref.path, uid, partId, ref.uidValidity) };
+    const kind = attachmentKind(withUri.contentType, withUri.filename);
+    if (kind === "text") {
+      return { info: withUri, kind, text: decodeText(data, download.meta?.charset ?? node?.parameters?.charset) };
+    }
+    return { info: withUri, kind, base64: data.toString("base64") };
+  });
 }
 
 /**
@@ -822,46 +1246,23 @@ export async function queryByFolderPage(
   );
   if (safeFields.length === 0) return { items: [] };
 
-  const run = async (): Promise<PagedMessageEnvelopeResult> => {
-    const client = getClient(config);
-    try {
-      await client.connect();
-      const lock = await client.getMailboxLock(mailbox, { readOnly: true });
-      try {
-        const uidSet = new Set<number>();
-        for (const field of safeFields) {
-          const searchObject = { [field]: q };
-          const uidsRaw = await client.search(searchObject, { uid: true });
-          if (Array.isArray(uidsRaw)) {
-            for (const foundUid of uidsRaw) uidSet.add(foundUid);
-          }
-        }
-
-        const paged = paginateUids(Array.from(uidSet), {
-          limit: opts.limit,
-          maxResults: opts.maxResults,
-          sort: opts.sort,
-          cursor: opts.cursor,
-        });
-        const envelopes = await fetchEnvelopesByUids(client, paged.pageUids, opts.includeSnippet, opts.snippetLength);
-        return {
-          items: sortEnvelopes(envelopes, opts.sort),
-          nextCursor: paged.nextCursor,
-        };
-      } finally {
-        lock.release();
+  return withMailbox(config, mailbox, async (client) => {
+    const uidSet = new Set<number>();
+    for (const field of safeFields) {
+      const searchObject = withBulkFilter({ [field]: q }, options?.excludeBulk);
+      const uidsRaw = await client.search(searchObject, { uid: true });
+      if (Array.isArray(uidsRaw)) {
+        for (const foundUid of uidsRaw) uidSet.add(foundUid);
       }
-    } finally {
-      await safeLogout(client);
     }
-  };
 
-  try {
-    return await run();
-  } catch (err) {
-    if (isConnectionError(err)) return await run();
-    throw err;
-  }
+    return envelopePage(client, mailbox, Array.from(uidSet), opts, {
+      kind: "query",
+      q,
+      fields: safeFields,
+      excludeBulk: options?.excludeBulk,
+    });
+  });
 }
 
 /**
@@ -899,70 +1300,51 @@ export async function getThreadContext(
     }
   );
 
-  const run = async (): Promise<ThreadContextResult | null> => {
-    const client = getClient(config);
-    try {
-      await client.connect();
-      const lock = await client.getMailboxLock(mailbox, { readOnly: true });
-      try {
-        const target = await client.fetchOne(
-          String(uid),
-          { uid: true, envelope: true, source: true },
-          { uid: true }
-        );
-        if (!target || !target.source) return null;
-
-        const parsedTarget = await simpleParser(target.source);
-        const relatedIds = new Set<string>(collectReferenceIds(parsedTarget));
-        if (target.envelope?.messageId) {
-          relatedIds.add(normalizeMessageId(target.envelope.messageId));
-        }
-        if (target.envelope?.inReplyTo) {
-          relatedIds.add(normalizeMessageId(target.envelope.inReplyTo));
-        }
-
-        const uidSet = new Set<number>([uid]);
-        for (const id of relatedIds) {
-          const bracketed = `<${id}>`;
-          const query = {
-            or: [
-              { header: { "message-id": bracketed } },
-              { header: { references: bracketed } },
-              { header: { "in-reply-to": bracketed } },
-            ],
-          };
-          const matchesRaw = await client.search(query, { uid: true });
-          if (Array.isArray(matchesRaw)) {
-            for (const foundUid of matchesRaw) uidSet.add(foundUid);
-          }
-        }
-
-        const paged = paginateUids(Array.from(uidSet), {
-          limit: opts.limit,
-          maxResults: opts.maxResults,
-          sort: opts.sort,
-          cursor: opts.cursor,
-        });
-        const envelopes = await fetchEnvelopesByUids(client, paged.pageUids, opts.includeSnippet, opts.snippetLength);
-        return {
-          targetUid: uid,
-          items: sortEnvelopes(envelopes, opts.sort),
-          nextCursor: paged.nextCursor,
-        };
-      } finally {
-        lock.release();
+  return withMailbox(config, mailbox, async (client) => {
+    const target = await fetchMessageSource(client, mailbox, uid);
+    if (!target) return null;
+
+    const parsedTarget = await simpleParser(target.source);
+    const relatedIds = new Set<string>(collectReferenceIds(parsedTarget));
+    if (target.envelope?.messageId) {
+      relatedIds.add(normalizeMessageId(target.envelope.messageId));
+    }
+    if (target.envelope?.inReplyTo) {
+      relatedIds.add(normalizeMessageId(target.envelope.inReplyTo));
+    }
+
+    const uidSet = new Set<number>([uid]);
+    for (const id of relatedIds) {
+      const bracketed = `<${id}>`;
+      const query = {
+        or: [
+          { header: { "message-id": bracketed } },
+          { header: { references: bracketed } },
+          { header: { "in-reply-to": bracketed } },
+        ],
+      };
+      const matchesRaw = await client.search(query, { uid: true });
+      if (Array.isArray(matchesRaw)) {
+        for (const foundUid of matchesRaw) uidSet.add(foundUid);
       }
-    } finally {
-      await safeLogout(client);
     }
-  };
 
-  try {
-    return await run();
-  } catch (err) {
-    if (isConnectionError(err)) return await run();
-    throw err;
-  }
+    const scope = pageScope(client, mailbox, opts, { kind: "thread", uid });
+    const paged = paginateUids(Array.from(uidSet), {
+      limit: opts.limit,
+      maxResults: opts.maxResults,
+      sort: opts.sort,
+      cursor: opts.cursor,
+      scope,
+    });
+    const envelopes = await fetchEnvelopesByUids(client, mailbox, paged.pageUids, opts.includeSnippet, opts.snippetLength);
+    return {
+      targetUid: uid,
+      items: sortEnvelopes(envelopes, opts.sort),
+      nextCursor: paged.nextCursor,
+      cursorScope: scope,
+    };
+  });
 }
 
 export function clampToolLimit(limit: unknown, mailConfig: MailConfig, defaultLimit: number = 50): number {
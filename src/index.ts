@@ -5,37 +5,76 @@
  */
 
 import "dotenv/config";
+import { randomBytes } from "node:crypto";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  type CallToolRequest,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { loadImapConfig, loadMailConfig } from "./config.js";
+import {
+  loadAccountsConfig,
+  loadCacheConfig,
+  loadCursorConfig,
+  loadExportConfig,
+  loadIndexConfig,
+  loadTransportConfig,
+  loadWriteConfig,
+  resolveAccount,
+  type MailConfig,
+} from "./config.js";
+import { MCP_HTTP_PATH, startHttpServer, type HttpServerHandle } from "./http.js";
+import * as calendar from "./calendar.js";
+import * as exporter from "./export.js";
 import * as imap from "./imap.js";
+import * as mailIndex from "./mail-index.js";
+import * as mailboxStats from "./mailbox-stats.js";
+import * as messageCache from "./message-cache.js";
+import { shapeOutput, type Continuation } from "./output-shape.js";
+import { configureCursorSigning, type CursorScope } from "./query.js";
+import * as resources from "./resources.js";
+import * as searchAll from "./search-all.js";
+import * as security from "./security.js";
+import * as subscriptions from "./subscriptions.js";
+import * as threading from "./threading.js";
+import { RESOURCE_TEMPLATES, folderUri, parseResourceUri } from "./uri.js";
+import * as draft from "./draft.js";
+import * as watch from "./watch.js";
+import * as write from "./write.js";
 
-const IMAP_CONFIG = loadImapConfig();
-const MAIL_CONFIG = loadMailConfig();
-
-const server = new Server(
-  {
-    name: "imap-mail-mcp",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+const ACCOUNTS_CONFIG = loadAccountsConfig();
+// Resources and folder watchers serve the default account.
+const DEFAULT_ACCOUNT = resolveAccount(ACCOUNTS_CONFIG);
+const IMAP_CONFIG = DEFAULT_ACCOUNT.imap;
+const MAIL_CONFIG = DEFAULT_ACCOUNT.mail;
+const WRITE_CONFIG = loadWriteConfig();
+const INDEX_CONFIG = loadIndexConfig();
+const EXPORT_CONFIG = loadExportConfig();
+messageCache.configureMessageCache(loadCacheConfig());
+// The secret lives only in this process: cursors stop validating after a restart.
+configureCursorSigning(loadCursorConfig().sign ? randomBytes(32) : undefined);
+const TRANSPORT_CONFIG = loadTransportConfig();
 
 const COMMON_LIST_OPTIONS_SCHEMA = {
   sort: {
     type: "string",
     enum: ["asc", "desc"],
-    description: "Sort by UID (default: desc/newest-first)",
+    description: "Sort direction, by UID unless sortBy is set (default: desc/newest-first)",
     default: "desc",
   },
+  sortBy: {
+    type: "string",
+    enum: ["arrival", "date", "from", "subject", "size", "to"],
+    description:
+      "Order by arrival (internal date), date (Date header), sender/recipient mailbox, base subject or size " +
+      "instead of UID. Uses IMAP SORT when the server supports it; cursors keep the order stable across pages.",
+  },
   cursor: {
     type: "string",
     description: "Opaque pagination cursor from previous response",
@@ -50,207 +89,676 @@ const COMMON_LIST_OPTIONS_SCHEMA = {
     description: "Return {items,nextCursor} instead of raw array",
     default: false,
   },
+  excludeBulk: {
+    type: "boolean",
+    description: "Leave out newsletters and mailing-list mail (List-Id, List-Unsubscribe, Precedence: bulk/list)",
+    default: false,
+  },
+} as const;
+
+const QUERY_STRING_SCHEMA = {
+  type: "string",
+  description:
+    "Gmail-like query, ANDed with the other filters. Supports OR, -/NOT, (grouping), \"quoted phrases\" and " +
+    "from: to: cc: bcc: subject: body: after: before: on: newer_than:7d older_than:1y is:unread|read|flagged|answered|draft " +
+    "has:attachment larger:1M smaller:500K msgid: keyword:. Example: from:alice OR from:bob -subject:newsletter is:unread",
+} as const;
+
+const ADVANCED_SEARCH_CRITERIA_SCHEMA = {
+  q: QUERY_STRING_SCHEMA,
+  keyword: { type: "string", description: "Match any text in headers and body" },
+  sender: { type: "string", description: "Sender contains (alias for from)" },
+  receiver: { type: "string", description: "Receiver contains (alias for to)" },
+  subject: { type: "string", description: "Subject contains" },
+  body: { type: "string", description: "Body contains" },
+  cc: { type: "string", description: "CC contains" },
+  bcc: { type: "string", description: "BCC contains" },
+  date: { type: "string", description: "Received on date (ISO, e.g. 2026-02-21)" },
+  dateFrom: { type: "string", description: "Received since date/time (ISO)" },
+  dateTo: { type: "string", description: "Received until date/time (ISO). Date-only is inclusive." },
+  sentDate: { type: "string", description: "Sent on date (ISO)" },
+  sentDateFrom: { type: "string", description: "Sent since date/time (ISO)" },
+  sentDateTo: { type: "string", description: "Sent until date/time (ISO). Date-only is inclusive." },
+  seen: { type: "boolean", description: "Only read messages" },
+  unseen: { type: "boolean", description: "Only unread messages" },
+  messageId: { type: "string", description: "Message-ID header contains" },
+} as const;
+
+const WRITE_UIDS_SCHEMA = {
+  type: "array",
+  description: "Message UIDs to change (capped per call by MAIL_WRITE_MAX_MESSAGES)",
+  items: { type: "number" },
+} as const;
+
+const DRY_RUN_SCHEMA = {
+  type: "boolean",
+  description: "Report what would change without modifying the mailbox",
+  default: false,
 } as const;
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+/** Only listed when MAIL_ALLOW_WRITE=true. */
+const WRITE_TOOLS = [
+  {
+    name: "mail_set_flags",
+    description:
+      "Add/remove flags on messages, e.g. mark read (add \\Seen), unread (remove \\Seen), flag/unflag (\\Flagged). Supports dryRun.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        mailbox: { type: "string", description: "Folder name" },
+        uids: WRITE_UIDS_SCHEMA,
+        add: { type: "array", description: "Flags to add", items: { type: "string" } },
+        remove: { type: "array", description: "Flags to remove", items: { type: "string" } },
+        dryRun: DRY_RUN_SCHEMA,
+      },
+      required: ["mailbox", "uids"],
+    },
+  },
+  {
+    name: "mail_move_messages",
+    description: "Move messages to another folder (must be in MAIL_WRITE_ALLOWED_FOLDERS). Supports dryRun.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        mailbox: { type: "string", description: "Source folder" },
+        uids: WRITE_UIDS_SCHEMA,
+        destination: { type: "string", description: "Target folder, e.g. Archive" },
+        dryRun: DRY_RUN_SCHEMA,
+      },
+      required: ["mailbox", "uids", "destination"],
+    },
+  },
+  {
+    name: "mail_copy_messages",
+    description: "Copy messages to another folder (must be in MAIL_WRITE_ALLOWED_FOLDERS). Supports dryRun.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        mailbox: { type: "string", description: "Source folder" },
+        uids: WRITE_UIDS_SCHEMA,
+        destination: { type: "string", description: "Target folder" },
+        dryRun: DRY_RUN_SCHEMA,
+      },
+      required: ["mailbox", "uids", "destination"],
+    },
+  },
+  {
+    name: "mail_delete_messages",
+    description:
+      "Move messages to Trash (must be in MAIL_WRITE_ALLOWED_FOLDERS), or expunge them with permanent=true " +
+      "(needs MAIL_ALLOW_EXPUNGE=true). Supports dryRun.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        mailbox: { type: "string", description: "Folder name" },
+        uids: WRITE_UIDS_SCHEMA,
+        permanent: {
+          type: "boolean",
+          description: "Expunge instead of moving to Trash (cannot be undone)",
+          default: false,
+        },
+        dryRun: DRY_RUN_SCHEMA,
+      },
+      required: ["mailbox", "uids"],
+    },
+  },
+];
+
+const WRITE_TOOL_NAMES = new Set(WRITE_TOOLS.map((t) => t.name));
+
+/** Only listed when MAIL_ALLOW_DRAFTS=true. */
+const DRAFT_TOOL = {
+  name: "mail_create_draft",
+  description:
+    "Create a draft in the Drafts folder for a human to review and send. Never sends mail. " +
+    "Set replyMailbox+replyUid to reply (derives recipients, Re: subject, In-Reply-To/References and quotes the original).",
+  inputSchema: {
+    type: "object",
+    properties: {
+      to: { type: "array", description: "Recipient addresses (defaults to the original sender when replying)", items: { type: "string" } },
+      cc: { type: "array", description: "CC addresses", items: { type: "string" } },
+      bcc: { type: "array", description: "BCC addresses", items: { type: "string" } },
+      subject: { type: "string", description: "Subject (defaults to Re: original subject when replying)" },
+      text: { type: "string", description: "Plain-text body" },
+      html: { type: "string", description: "Optional HTML body" },
+      replyMailbox: { type: "string", description: "Folder of the message being replied to" },
+      replyUid: { type: "number", description: "UID of the message being replied to" },
+      replyAll: { type: "boolean", description: "Include original To/Cc recipients", default: false },
+      quoteOriginal: { type: "boolean", description: "Quote the original message below the reply", default: true },
+    },
+    required: ["text"],
+  },
+};
+
+/** Only listed when MAIL_INDEX_DIR is set. */
+const RANKED_SEARCH_TOOL = {
+  name: "mail_search_ranked",
+  description:
+    "Relevance-ranked (BM25) full-text search over a local index of headers and body text, with highlighted snippets. " +
+    "Faster than IMAP BODY search on large folders. Syncs new/expunged mail before searching.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "Words to search for, e.g. \"acme invoice march\"" },
+      folders: {
+        type: "array",
+        description: "Folders to search (default: MAIL_INDEX_FOLDERS)",
+        items: { type: "string" },
+      },
+      limit: { type: "number", description: "Max results (default 20, capped globally)", default: 20 },
+      sync: {
+        type: "boolean",
+        description: "Sync the index with the server first (default true). false = search the index as-is.",
+        default: true,
+      },
+    },
+    required: ["query"],
+  },
+};
+
+const ACCOUNT_SCHEMA = {
+  type: "string",
+  description: `Account to use (default: ${ACCOUNTS_CONFIG.defaultAccount}). See mail_list_accounts.`,
+  enum: ACCOUNTS_CONFIG.accounts.map((acct) => acct.name),
+};
+
+const LIST_ACCOUNTS_TOOL = {
+  name: "mail_list_accounts",
+  description: "List configured mail accounts. Pass `account` to any other tool to target one of them.",
+  inputSchema: { type: "object", properties: {} },
+};
+
+const MAX_TOKENS_SCHEMA = {
+  type: "number",
+  description:
+    "Approximate token budget for this result. Larger output is shaped (compact JSON, shorter snippets, " +
+    "terse lines, fewer items with a nextCursor) and reports how in `shaped`. Capped by MAIL_MAX_TOKENS.",
+};
+
+/** Add the optional `account` and `maxTokens` parameters to every mailbox tool. */
+function withCommonParams<T extends { inputSchema: { properties: Record<string, unknown> } }>(tools: T[]): T[] {
+  return tools.map((tool) => ({
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, account: ACCOUNT_SCHEMA, maxTokens: MAX_TOKENS_SCHEMA },
+    },
+  }));
+}
+
+async function listTools() {
   return {
     tools: [
-      {
-        name: "mail_list_folders",
-        description: "List all mail folders (mailboxes). Use this to see INBOX, Sent, etc.",
-        inputSchema: {
-          type: "object",
-          properties: {},
+      LIST_ACCOUNTS_TOOL,
+      ...withCommonParams([
+        {
+          name: "mail_list_folders",
+          description:
+            "List all mail folders (mailboxes) with special use (\\Sent, \\Trash, ...), parent and subscription state. " +
+            "Use this to see INBOX, Sent, etc. Any mailbox argument also accepts aliases like @sent, @trash or @archive.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              tree: {
+                type: "boolean",
+                description: "Nest folders under their parents (children arrays) instead of a flat list",
+                default: false,
+              },
+            },
+          },
         },
-      },
-      {
-        name: "mail_list_messages",
-        description:
-          "List recent messages in a folder (envelope only by default). Supports sort/cursor/snippet options.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            mailbox: {
-              type: "string",
-              description: "Folder name, e.g. INBOX or Sent",
+        {
+          name: "mail_list_messages",
+          description:
+            "List recent messages in a folder (envelope only by default). Supports sort/cursor/snippet options.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: {
+                type: "string",
+                description: "Folder name or alias, e.g. INBOX, Sent or @sent",
+              },
+              limit: {
+                type: "number",
+                description: "Max number of messages to return (default 50, capped globally)",
+                default: 50,
+              },
+              ...COMMON_LIST_OPTIONS_SCHEMA,
             },
-            limit: {
-              type: "number",
-              description: "Max number of messages to return (default 50, capped globally)",
-              default: 50,
+            required: ["mailbox"],
+          },
+        },
+        {
+          name: "mail_get_message",
+          description:
+            "Fetch one full message by folder and UID (envelope + body text). " +
+            "format=rich adds names, cc/bcc/reply-to, list/authentication headers and a Markdown body.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name" },
+              uid: { type: "number", description: "Message UID from mail_list_messages or mail_search" },
+              format: {
+                type: "string",
+                enum: ["text", "rich"],
+                description: "text (default): envelope + plain-text body; rich: structured headers + Markdown body",
+                default: "text",
+              },
+              bodyMode: {
+                type: "string",
+                enum: ["full", "new-content"],
+                description:
+                  "full (default): body as sent; new-content: drop quoted replies, signatures and disclaimers (reports removedChars)",
+                default: "full",
+              },
             },
-            ...COMMON_LIST_OPTIONS_SCHEMA,
+            required: ["mailbox", "uid"],
           },
-          required: ["mailbox"],
         },
-      },
-      {
-        name: "mail_get_message",
-        description: "Fetch one full message by folder and UID (envelope + body text).",
-        inputSchema: {
-          type: "object",
-          properties: {
-            mailbox: { type: "string", description: "Folder name" },
-            uid: { type: "number", description: "Message UID from mail_list_messages or mail_search" },
+        {
+          name: "mail_get_messages",
+          description:
+            "Fetch several full messages in one call: exact `uids` or the newest matches of mail_search_advanced filters. " +
+            "Bodies share one character budget split fairly (short messages stay whole); reports missingUids. " +
+            "Same format/bodyMode options as mail_get_message.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name" },
+              uids: {
+                type: "array",
+                description: `Message UIDs (at most ${imap.MAX_BATCH_MESSAGES})`,
+                items: { type: "number" },
+              },
+              limit: {
+                type: "number",
+                description: `Search mode: newest matches to fetch (default 20, max ${imap.MAX_BATCH_MESSAGES})`,
+                default: 20,
+              },
+              format: {
+                type: "string",
+                enum: ["text", "rich"],
+                description: "text (default): envelope + plain-text body; rich: structured headers + Markdown body",
+                default: "text",
+              },
+              bodyMode: {
+                type: "string",
+                enum: ["full", "new-content"],
+                description: "full (default) or new-content (drop quoted replies, signatures and disclaimers)",
+                default: "full",
+              },
+              bodyBudget: {
+                type: "number",
+                description: "Total body characters across all messages (default and cap: MAIL_MAX_BODY_LENGTH)",
+              },
+              ...ADVANCED_SEARCH_CRITERIA_SCHEMA,
+            },
+            required: ["mailbox"],
           },
-          required: ["mailbox", "uid"],
         },
-      },
-      {
-        name: "mail_search",
-        description:
-          "Convenience folder search by basic fields. Prefer mail_search_advanced for richer filters and agent reliability.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            mailbox: { type: "string", description: "Folder to search (e.g. INBOX)" },
-            from: { type: "string", description: "Sender contains" },
-            to: { type: "string", description: "Recipient contains" },
-            subject: { type: "string", description: "Subject contains" },
-            body: { type: "string", description: "Body contains" },
-            since: { type: "string", description: "Date since (ISO)" },
-            before: { type: "string", description: "Date before (ISO)" },
-            unseen: { type: "boolean", description: "Only unread" },
-            limit: { type: "number", description: "Max results (default 50, capped globally)", default: 50 },
-            ...COMMON_LIST_OPTIONS_SCHEMA,
+        {
+          name: "mail_search",
+          description:
+            "Convenience folder search by basic fields. Prefer mail_search_advanced for richer filters and agent reliability.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder to search (e.g. INBOX)" },
+              from: { type: "string", description: "Sender contains" },
+              to: { type: "string", description: "Recipient contains" },
+              subject: { type: "string", description: "Subject contains" },
+              body: { type: "string", description: "Body contains" },
+              since: { type: "string", description: "Date since (ISO)" },
+              before: { type: "string", description: "Date before (ISO)" },
+              unseen: { type: "boolean", description: "Only unread" },
+              q: QUERY_STRING_SCHEMA,
+              limit: { type: "number", description: "Max results (default 50, capped globally)", default: 50 },
+              ...COMMON_LIST_OPTIONS_SCHEMA,
+            },
+            required: ["mailbox"],
           },
-          required: ["mailbox"],
         },
-      },
-      {
-        name: "mail_search_advanced",
-        description:
-          "Primary advanced search tool: keyword, sender/receiver, subject/body, date/date-range, sent-date-range, read state, message-id.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            mailbox: { type: "string", description: "Folder to search (e.g. INBOX)" },
-            keyword: { type: "string", description: "Match any text in headers and body" },
-            sender: { type: "string", description: "Sender contains (alias for from)" },
-            receiver: { type: "string", description: "Receiver contains (alias for to)" },
-            subject: { type: "string", description: "Subject contains" },
-            body: { type: "string", description: "Body contains" },
-            cc: { type: "string", description: "CC contains" },
-            bcc: { type: "string", description: "BCC contains" },
-            date: { type: "string", description: "Received on date (ISO, e.g. 2026-02-21)" },
-            dateFrom: { type: "string", description: "Received since date/time (ISO)" },
-            dateTo: { type: "string", description: "Received until date/time (ISO). Date-only is inclusive." },
-            sentDate: { type: "string", description: "Sent on date (ISO)" },
-            sentDateFrom: { type: "string", description: "Sent since date/time (ISO)" },
-            sentDateTo: { type: "string", description: "Sent until date/time (ISO). Date-only is inclusive." },
-            seen: { type: "boolean", description: "Only read messages" },
-            unseen: { type: "boolean", description: "Only unread messages" },
-            messageId: { type: "string", description: "Message-ID header contains" },
-            limit: { type: "number", description: "Max results (default 50, capped globally)", default: 50 },
-            ...COMMON_LIST_OPTIONS_SCHEMA,
+        {
+          name: "mail_search_advanced",
+          description:
+            "Primary advanced search tool: keyword, sender/receiver, subject/body, date/date-range, sent-date-range, read state, message-id.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder to search (e.g. INBOX)" },
+              ...ADVANCED_SEARCH_CRITERIA_SCHEMA,
+              limit: { type: "number", description: "Max results (default 50, capped globally)", default: 50 },
+              ...COMMON_LIST_OPTIONS_SCHEMA,
+            },
+            required: ["mailbox"],
           },
-          required: ["mailbox"],
         },
-      },
-      {
-        name: "mail_get_mailbox_status",
-        description: "Get message counters for one folder (messages, unseen, recent, UID metadata).",
-        inputSchema: {
-          type: "object",
-          properties: {
-            mailbox: { type: "string", description: "Folder name, e.g. INBOX" },
+        {
+          name: "mail_search_all",
+          description:
+            "Search several folders at once with the mail_search_advanced filters; results are merged newest-first and tagged with their mailbox. " +
+            "Searches every folder except Trash/Junk unless includeFolders is given.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              ...ADVANCED_SEARCH_CRITERIA_SCHEMA,
+              includeFolders: {
+                type: "array",
+                description: "Only search these folders (default: all except Trash and Junk)",
+                items: { type: "string" },
+              },
+              excludeFolders: { type: "array", description: "Folders to skip", items: { type: "string" } },
+              accounts: {
+                type: "array",
+                description: "Search these accounts instead of one (\"*\" = all); results are also tagged with their account",
+                items: { type: "string" },
+              },
+              limit: { type: "number", description: "Max results (default 50, capped globally)", default: 50 },
+              sort: {
+                type: "string",
+                enum: ["asc", "desc"],
+                description: "Sort by date (default: desc/newest-first)",
+                default: "desc",
+              },
+              cursor: {
+                type: "string",
+                description: "Opaque pagination cursor from previous mail_search_all response",
+              },
+              includeSnippet: COMMON_LIST_OPTIONS_SCHEMA.includeSnippet,
+              excludeBulk: COMMON_LIST_OPTIONS_SCHEMA.excludeBulk,
+            },
           },
-          required: ["mailbox"],
         },
-      },
-      {
-        name: "mail_list_unread",
-        description:
-          "List unread messages in a folder (envelope only by default). Supports sort/cursor/snippet options.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            mailbox: { type: "string", description: "Folder name, e.g. INBOX" },
-            limit: {
-              type: "number",
-              description: "Max number of unread messages to return (default 50, capped globally)",
-              default: 50,
+        {
+          name: "mail_get_mailbox_status",
+          description: "Get message counters for one folder (messages, unseen, recent, UID metadata).",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name, e.g. INBOX" },
             },
-            ...COMMON_LIST_OPTIONS_SCHEMA,
+            required: ["mailbox"],
           },
-          required: ["mailbox"],
         },
-      },
-      {
-        name: "mail_list_attachments",
-        description: "List attachment metadata for one message by folder and UID (no binary download).",
-        inputSchema: {
-          type: "object",
-          properties: {
-            mailbox: { type: "string", description: "Folder name" },
-            uid: { type: "number", description: "Message UID from mail_list_messages or mail_search" },
+        {
+          name: "mail_mailbox_stats",
+          description:
+            "Aggregate one folder for inbox reviews: top senders/domains, messages per day/week, unread by age, " +
+            "largest messages and attachment-heavy senders. Fetches metadata only, no message bodies.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name, e.g. INBOX" },
+              since: { type: "string", description: "Only messages received on/after this date (YYYY-MM-DD)" },
+              before: { type: "string", description: "Only messages received before this date (YYYY-MM-DD)" },
+              top: { type: "number", description: "Entries per ranking (default 10, max 100)" },
+            },
+            required: ["mailbox"],
           },
-          required: ["mailbox", "uid"],
         },
-      },
-      {
-        name: "mail_query_by_folder",
-        description:
-          "Convenience free-text query in one folder. Prefer mail_search_advanced for canonical searches.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            mailbox: { type: "string", description: "Folder name, e.g. INBOX" },
-            query: { type: "string", description: "Free-text query to match" },
-            fields: {
-              type: "array",
-              description: "Fields to search. Defaults to subject, body, from, to.",
-              items: {
+        {
+          name: "mail_list_subscriptions",
+          description:
+            "Find newsletters and mailing lists in a folder (List-Id, List-Unsubscribe, Precedence headers), grouped by " +
+            "list/sender with frequency, last-received date, read ratio and unsubscribe URL/mailto. Does not unsubscribe.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name, e.g. INBOX" },
+              since: { type: "string", description: "Only messages received on/after this date (YYYY-MM-DD)" },
+              before: { type: "string", description: "Only messages received before this date (YYYY-MM-DD)" },
+              limit: { type: "number", description: "Max subscriptions to return (default 50, capped by MAIL_MAX_RESULTS)" },
+            },
+            required: ["mailbox"],
+          },
+        },
+        {
+          name: "mail_get_invites",
+          description:
+            "Calendar invites (iCalendar VEVENTs): with `uid`, the invite in that message; without, upcoming invites in " +
+            "the folder ordered by event date. Reports method (REQUEST/CANCEL), summary, organizer, attendees with " +
+            "PARTSTAT, start/end in UTC with the original timezone, recurrence, location and conference links.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name, e.g. INBOX" },
+              uid: { type: "number", description: "Message UID (omit to list upcoming invites)" },
+              from: { type: "string", description: "Upcoming mode: events ending at/after this time (ISO, default now)" },
+              until: { type: "string", description: "Upcoming mode: events starting before this time (ISO)" },
+              since: {
                 type: "string",
-                enum: ["subject", "body", "from", "to"],
+                description: "Upcoming mode: only scan messages received since this date (default 90 days before `from`)",
               },
+              limit: { type: "number", description: "Upcoming mode: max invites (default 20)" },
             },
-            limit: {
-              type: "number",
-              description: "Max results (default 50, capped globally)",
-              default: 50,
+            required: ["mailbox"],
+          },
+        },
+        {
+          name: "mail_export",
+          description:
+            "Export original RFC 822 sources. format \"eml\" (default): one message by `uid`, returned inline as text or " +
+            "base64. format \"mbox\" or \"maildir\": a folder, a search result (mail_search_advanced filters) or `uids` " +
+            "streamed to `target` under MAIL_EXPORT_DIR; reports counts and bytes written.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name" },
+              format: {
+                type: "string",
+                enum: ["eml", "mbox", "maildir"],
+                description: "eml = one message inline; mbox/maildir = batch export to a file/directory",
+                default: "eml",
+              },
+              uid: { type: "number", description: "eml: message UID" },
+              encoding: {
+                type: "string",
+                enum: ["text", "base64"],
+                description: "eml: text or base64 (default: text when the source is valid UTF-8)",
+              },
+              target: {
+                type: "string",
+                description: "mbox/maildir: path relative to MAIL_EXPORT_DIR (mbox file must not exist yet)",
+              },
+              uids: { type: "array", description: "mbox/maildir: export exactly these UIDs", items: { type: "number" } },
+              maxMessages: { type: "number", description: "mbox/maildir: stop after this many messages (oldest first)" },
+              ...ADVANCED_SEARCH_CRITERIA_SCHEMA,
             },
-            ...COMMON_LIST_OPTIONS_SCHEMA,
+            required: ["mailbox"],
           },
-          required: ["mailbox", "query"],
         },
-      },
-      {
-        name: "mail_get_thread_context",
-        description:
-          "Get related messages in the same thread context using Message-ID/References/In-Reply-To. Includes snippets by default.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            mailbox: { type: "string", description: "Folder name" },
-            uid: { type: "number", description: "Message UID to anchor thread context" },
-            limit: {
-              type: "number",
-              description: "Max related messages to return (default 20, capped globally)",
-              default: 20,
+        {
+          name: "mail_analyze_message",
+          description:
+            "Security analysis of one message from its source (no network lookups): SPF/DKIM/DMARC verdicts from " +
+            "Authentication-Results/Received-SPF, From display name and domain vs Reply-To and Return-Path, lookalike " +
+            "domains (punycode, homoglyphs), HTML links whose text shows a different domain than the href, and risky " +
+            "attachment types. Returns riskScore (0-100), riskLevel and weighted reasons.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name" },
+              uid: { type: "number", description: "Message UID" },
             },
-            sort: {
-              type: "string",
-              enum: ["asc", "desc"],
-              description: "Sort by UID (default: desc/newest-first)",
-              default: "desc",
+            required: ["mailbox", "uid"],
+          },
+        },
+        {
+          name: "mail_cache_stats",
+          description:
+            "Message cache counters: hits/misses (memory and disk), CHANGEDSINCE flag refreshes, UIDVALIDITY " +
+            "invalidations, evictions, and memory/disk bytes used against their limits.",
+          inputSchema: { type: "object", properties: {} },
+        },
+        {
+          name: "mail_list_unread",
+          description:
+            "List unread messages in a folder (envelope only by default). Supports sort/cursor/snippet options.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name, e.g. INBOX" },
+              limit: {
+                type: "number",
+                description: "Max number of unread messages to return (default 50, capped globally)",
+                default: 50,
+              },
+              ...COMMON_LIST_OPTIONS_SCHEMA,
             },
-            cursor: {
-              type: "string",
-              description: "Opaque pagination cursor from previous thread-context response",
+            required: ["mailbox"],
+          },
+        },
+        {
+          name: "mail_list_attachments",
+          description:
+            "List attachment metadata for one message by folder and UID, including part IDs for mail_get_attachment.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name" },
+              uid: { type: "number", description: "Message UID from mail_list_messages or mail_search" },
             },
-            includeSnippet: {
-              type: "boolean",
-              description: "Include short plain-text snippet per message (default true)",
-              default: true,
+            required: ["mailbox", "uid"],
+          },
+        },
+        {
+          name: "mail_get_attachment",
+          description:
+            "Download one attachment by folder, UID and part ID (from mail_list_attachments). " +
+            "Text-like files (text/*, CSV, JSON, ICS, ...) are returned as text, images as image content, other files as base64. Size-capped.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name" },
+              uid: { type: "number", description: "Message UID" },
+              part: { type: "string", description: "MIME part ID from mail_list_attachments, e.g. \"2\"" },
             },
+            required: ["mailbox", "uid", "part"],
           },
-          required: ["mailbox", "uid"],
         },
-      },
+        {
+          name: "mail_wait_for_new_mail",
+          description:
+            "Wait until new messages arrive in a folder (IMAP IDLE when the folder is watched, polling otherwise). " +
+            "Returns envelopes with UID > sinceUid, or timedOut=true. Pass lastUid as sinceUid on the next call.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name, e.g. INBOX" },
+              sinceUid: {
+                type: "number",
+                description: "Report messages with UID greater than this (default: only mail arriving after the call)",
+              },
+              timeoutMs: {
+                type: "number",
+                description: `Max time to wait in milliseconds (default 30000, max ${watch.MAX_WAIT_TIMEOUT_MS})`,
+                default: 30000,
+              },
+              limit: { type: "number", description: "Max messages to return (default 50, capped globally)", default: 50 },
+              includeSnippet: {
+                type: "boolean",
+                description: "Include short plain-text snippet per message",
+                default: false,
+              },
+            },
+            required: ["mailbox"],
+          },
+        },
+        {
+          name: "mail_query_by_folder",
+          description:
+            "Convenience free-text query in one folder. Prefer mail_search_advanced for canonical searches.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name, e.g. INBOX" },
+              query: { type: "string", description: "Free-text query to match" },
+              fields: {
+                type: "array",
+                description: "Fields to search. Defaults to subject, body, from, to.",
+                items: {
+                  type: "string",
+                  enum: ["subject", "body", "from", "to"],
+                },
+              },
+              limit: {
+                type: "number",
+                description: "Max results (default 50, capped globally)",
+                default: 50,
+              },
+              ...COMMON_LIST_OPTIONS_SCHEMA,
+            },
+            required: ["mailbox", "query"],
+          },
+        },
+        {
+          name: "mail_get_thread_context",
+          description:
+            "Get related messages in the same thread context using Message-ID/References/In-Reply-To. Includes snippets by default.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder name" },
+              uid: { type: "number", description: "Message UID to anchor thread context" },
+              limit: {
+                type: "number",
+                description: "Max related messages to return (default 20, capped globally)",
+                default: 20,
+              },
+              sort: {
+                type: "string",
+                enum: ["asc", "desc"],
+                description: "Sort by UID (default: desc/newest-first)",
+                default: "desc",
+              },
+              cursor: {
+                type: "string",
+                description: "Opaque pagination cursor from previous thread-context response",
+              },
+              includeSnippet: {
+                type: "boolean",
+                description: "Include short plain-text snippet per message (default true)",
+                default: true,
+              },
+            },
+            required: ["mailbox", "uid"],
+          },
+        },
+        {
+          name: "mail_get_conversation",
+          description:
+            "Reconstruct the whole conversation around a message across folders (default: its folder, INBOX, Sent, Archive). Returns messages in chronological order with depth/parent, copies of the same Message-ID deduplicated, and a reply tree.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              mailbox: { type: "string", description: "Folder of the anchor message" },
+              uid: { type: "number", description: "UID of the anchor message" },
+              folders: {
+                type: "array",
+                items: { type: "string" },
+                description: "Folders to walk instead of the defaults (the anchor folder is always included)",
+              },
+              includeBodies: {
+                type: "boolean",
+                description: "Include plain-text body per message (default false)",
+                default: false,
+              },
+              limit: {
+                type: "number",
+                description: "Max messages to collect (default 50, capped globally)",
+                default: 50,
+              },
+            },
+            required: ["mailbox", "uid"],
+          },
+        },
+        ...(WRITE_CONFIG.allowWrite ? WRITE_TOOLS : []),
+        ...(WRITE_CONFIG.allowDrafts ? [DRAFT_TOOL] : []),
+        ...(INDEX_CONFIG.enabled ? [RANKED_SEARCH_TOOL] : []),
+      ]),
     ],
   };
-});
+}
 
 function toOptString(v: unknown): string | undefined {
   if (v == null) return undefined;
@@ -258,34 +766,115 @@ function toOptString(v: unknown): string | undefined {
   return s.length > 0 ? s : undefined;
 }
 
-function buildListOptions(a: Record<string, unknown>, defaultLimit: number): imap.ListQueryOptions {
+function buildListOptions(
+  a: Record<string, unknown>,
+  mailConfig: MailConfig,
+  defaultLimit: number
+): imap.ListQueryOptions {
   const sortRaw = toOptString(a.sort);
   const sort = sortRaw === "asc" ? "asc" : "desc";
-  const limit = imap.clampToolLimit(a.limit, MAIL_CONFIG, defaultLimit);
+  const limit = imap.clampToolLimit(a.limit, mailConfig, defaultLimit);
   return {
     limit,
     sort,
+    sortBy: toOptString(a.sortBy) as imap.ListQueryOptions["sortBy"],
     cursor: toOptString(a.cursor),
     includeSnippet: a.includeSnippet === true,
-    maxResults: MAIL_CONFIG.maxResults,
-    snippetLength: MAIL_CONFIG.snippetLength,
+    excludeBulk: a.excludeBulk === true,
+    maxResults: mailConfig.maxResults,
+    snippetLength: mailConfig.snippetLength,
+  };
+}
+
+function advancedCriteriaFromArgs(a: Record<string, unknown>): imap.AdvancedSearchCriteria {
+  return {
+    keyword: toOptString(a.keyword),
+    sender: toOptString(a.sender),
+    receiver: toOptString(a.receiver),
+    subject: toOptString(a.subject),
+    body: toOptString(a.body),
+    cc: toOptString(a.cc),
+    bcc: toOptString(a.bcc),
+    date: toOptString(a.date),
+    dateFrom: toOptString(a.dateFrom),
+    dateTo: toOptString(a.dateTo),
+    sentDate: toOptString(a.sentDate),
+    sentDateFrom: toOptString(a.sentDateFrom),
+    sentDateTo: toOptString(a.sentDateTo),
+    seen: a.seen === true ? true : undefined,
+    unseen: a.unseen === true ? true : undefined,
+    messageId: toOptString(a.messageId),
+    q: toOptString(a.q),
+  };
+}
+
+const ADVANCED_FILTER_REQUIRED =
+  "provide at least one filter (q, keyword, sender, receiver, subject, body, date/date range, seen/unseen, or messageId)";
+
+function hasAdvancedFilter(criteria: imap.AdvancedSearchCriteria): boolean {
+  return Object.values(criteria).some((v) => v != null);
+}
+
+function toOptStringList(v: unknown): string[] | undefined {
+  const list = Array.isArray(v) ? v.map((x) => String(x).trim()) : toOptString(v)?.split(",").map((x) => x.trim());
+  const out = list?.filter(Boolean);
+  return out && out.length > 0 ? out : undefined;
+}
+
+/**
+ * JSON tool result. `cursorScope` never reaches the client: callToolShaped strips it
+ * and uses it to bind the cursors output shaping creates.
+ */
+function scopedResult(output: unknown, cursorScope: CursorScope | undefined) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(output, null, 2) }],
+    isError: false,
+    cursorScope,
   };
 }
 
-function pageOrItems(
-  page: imap.PagedMessageEnvelopeResult,
-  returnPage: boolean
-): imap.PagedMessageEnvelopeResult | imap.MessageEnvelope[] {
-  return returnPage ? page : page.items;
+function pageResult(page: imap.PagedMessageEnvelopeResult, returnPage: boolean) {
+  const { cursorScope, ...rest } = page;
+  return scopedResult(returnPage ? rest : rest.items, cursorScope);
 }
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+async function callTool(request: CallToolRequest) {
   const { name, arguments: args } = request.params;
   const a = (args as Record<string, unknown>) ?? {};
 
   try {
+    if (
+      (WRITE_TOOL_NAMES.has(name) && !WRITE_CONFIG.allowWrite) ||
+      (name === DRAFT_TOOL.name && !WRITE_CONFIG.allowDrafts) ||
+      (name === RANKED_SEARCH_TOOL.name && !INDEX_CONFIG.enabled)
+    ) {
+      return {
+        content: [{ type: "text" as const, text: `Unknown tool: ${name}` }],
+        isError: true,
+      };
+    }
+
+    if (name === "mail_list_accounts") {
+      const accounts = ACCOUNTS_CONFIG.accounts.map((acct) => ({
+        name: acct.name,
+        user: acct.imap.user,
+        host: acct.imap.host,
+        port: acct.imap.port,
+        secure: acct.imap.secure,
+        default: acct.name === ACCOUNTS_CONFIG.defaultAccount,
+        maxResults: acct.mail.maxResults,
+        maxBodyLength: acct.mail.maxBodyLength,
+      }));
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(accounts, null, 2) }],
+        isError: false,
+      };
+    }
+
+    const account = resolveAccount(ACCOUNTS_CONFIG, toOptString(a.account));
+
     if (name === "mail_list_folders") {
-      const folders = await imap.listFolders(IMAP_CONFIG);
+      const folders = a.tree === true ? await imap.listFolderTree(account.imap) : await imap.listFolders(account.imap);
       return {
         content: [
           {
@@ -299,13 +888,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
     if (name === "mail_list_messages") {
       const mailbox = String(a.mailbox ?? "");
-      const options = buildListOptions(a, 50);
-      const page = await imap.listMessagesPage(IMAP_CONFIG, mailbox, options);
-      const out = pageOrItems(page, a.returnPage === true || options.cursor != null);
-      return {
-        content: [{ type: "text" as const, text: JSON.stringify(out, null, 2) }],
-        isError: false,
-      };
+      const options = buildListOptions(a, account.mail, 50);
+      const page = await imap.listMessagesPage(account.imap, mailbox, options);
+      return pageResult(page, a.returnPage === true || options.cursor != null);
     }
 
     if (name === "mail_get_message") {
@@ -317,7 +902,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           isError: true,
         };
       }
-      const msg = await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, mailbox, uid);
+      const bodyMode = a.bodyMode === "new-content" ? "new-content" : "full";
+      const msg =
+        a.format === "rich"
+          ? await imap.getRichMessage(account.imap, account.mail, mailbox, uid, bodyMode)
+          : await imap.getMessage(account.imap, account.mail, mailbox, uid, bodyMode);
       if (!msg) {
         return {
           content: [{ type: "text" as const, text: `Message not found: ${mailbox} UID ${uid}` }],
@@ -330,9 +919,38 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
+    if (name === "mail_get_messages") {
+      const mailbox = String(a.mailbox ?? "");
+      if (a.uids != null && (!Array.isArray(a.uids) || !a.uids.every((u) => Number.isInteger(u) && u > 0))) {
+        return {
+          content: [{ type: "text" as const, text: "Error: uids must be an array of positive integers" }],
+          isError: true,
+        };
+      }
+      const criteria = advancedCriteriaFromArgs(a);
+      if (a.uids == null && !hasAdvancedFilter(criteria)) {
+        return {
+          content: [{ type: "text" as const, text: "Error: pass uids or at least one search filter" }],
+          isError: true,
+        };
+      }
+      const result = await imap.getMessages(account.imap, account.mail, mailbox, {
+        uids: a.uids as number[] | undefined,
+        criteria: a.uids == null ? criteria : undefined,
+        limit: typeof a.limit === "number" ? a.limit : undefined,
+        format: a.format === "rich" ? "rich" : "text",
+        bodyMode: a.bodyMode === "new-content" ? "new-content" : "full",
+        bodyBudget: typeof a.bodyBudget === "number" ? a.bodyBudget : undefined,
+      });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        isError: false,
+      };
+    }
+
     if (name === "mail_search") {
       const mailbox = String(a.mailbox ?? "");
-      const options = buildListOptions(a, 50);
+      const options = buildListOptions(a, account.mail, 50);
       const criteria: imap.SearchCriteria = {
         from: toOptString(a.from),
         to: toOptString(a.to),
@@ -341,93 +959,233 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         since: toOptString(a.since),
         before: toOptString(a.before),
         unseen: a.unseen === true,
+        q: toOptString(a.q),
       };
-      const page = await imap.searchMailPage(IMAP_CONFIG, mailbox, criteria, options);
-      const out = pageOrItems(page, a.returnPage === true || options.cursor != null);
-      return {
-        content: [{ type: "text" as const, text: JSON.stringify(out, null, 2) }],
-        isError: false,
-      };
+      const page = await imap.searchMailPage(account.imap, mailbox, criteria, options);
+      return pageResult(page, a.returnPage === true || options.cursor != null);
     }
 
     if (name === "mail_search_advanced") {
       const mailbox = String(a.mailbox ?? "");
-      const options = buildListOptions(a, 50);
-      const criteria: imap.AdvancedSearchCriteria = {
-        keyword: toOptString(a.keyword),
-        sender: toOptString(a.sender),
-        receiver: toOptString(a.receiver),
-        subject: toOptString(a.subject),
-        body: toOptString(a.body),
-        cc: toOptString(a.cc),
-        bcc: toOptString(a.bcc),
-        date: toOptString(a.date),
-        dateFrom: toOptString(a.dateFrom),
-        dateTo: toOptString(a.dateTo),
-        sentDate: toOptString(a.sentDate),
-        sentDateFrom: toOptString(a.sentDateFrom),
-        sentDateTo: toOptString(a.sentDateTo),
-        seen: a.seen === true ? true : undefined,
-        unseen: a.unseen === true ? true : undefined,
-        messageId: toOptString(a.messageId),
-      };
+      const options = buildListOptions(a, account.mail, 50);
+      const criteria = advancedCriteriaFromArgs(a);
+      if (!hasAdvancedFilter(criteria)) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${ADVANCED_FILTER_REQUIRED}` }],
+          isError: true,
+        };
+      }
+
+      const page = await imap.searchMailAdvancedPage(account.imap, mailbox, criteria, options);
+      return pageResult(page, a.returnPage === true || options.cursor != null);
+    }
 
-      const hasFilter =
-        criteria.keyword != null ||
-        criteria.sender != null ||
-        criteria.receiver != null ||
-        criteria.subject != null ||
-        criteria.body != null ||
-        criteria.cc != null ||
-        criteria.bcc != null ||
-        criteria.date != null ||
-        criteria.dateFrom != null ||
-        criteria.dateTo != null ||
-        criteria.sentDate != null ||
-        criteria.sentDateFrom != null ||
-        criteria.sentDateTo != null ||
-        criteria.seen === true ||
-        criteria.unseen === true ||
-        criteria.messageId != null;
-      if (!hasFilter) {
+    if (name === "mail_search_all") {
+      const options = buildListOptions(a, account.mail, 50);
+      const criteria = advancedCriteriaFromArgs(a);
+      if (!hasAdvancedFilter(criteria)) {
         return {
-          content: [{
-            type: "text" as const,
-            text:
-              "Error: provide at least one filter (keyword, sender, receiver, subject, body, date/date range, seen/unseen, or messageId)",
-          }],
+          content: [{ type: "text" as const, text: `Error: ${ADVANCED_FILTER_REQUIRED}` }],
           isError: true,
         };
       }
+      const searchOptions = {
+        ...options,
+        includeFolders: toOptStringList(a.includeFolders),
+        excludeFolders: toOptStringList(a.excludeFolders),
+      };
+      const accountNames = toOptStringList(a.accounts);
+      const targets = accountNames?.includes("*")
+        ? ACCOUNTS_CONFIG.accounts
+        : accountNames?.map((n) => resolveAccount(ACCOUNTS_CONFIG, n));
+      const result = targets
+        ? await searchAll.searchAllAccounts(
+            targets.map((acct) => ({ name: acct.name, config: acct.imap })),
+            criteria,
+            searchOptions
+          )
+        : await searchAll.searchAllMailboxes(account.imap, criteria, searchOptions);
+      const { cursorScope, ...output } = result;
+      return scopedResult(output, cursorScope);
+    }
 
-      const page = await imap.searchMailAdvancedPage(IMAP_CONFIG, mailbox, criteria, options);
-      const out = pageOrItems(page, a.returnPage === true || options.cursor != null);
+    if (name === "mail_search_ranked") {
+      const query = String(a.query ?? "").trim();
+      if (!query) {
+        return {
+          content: [{ type: "text" as const, text: "Error: query must be a non-empty string" }],
+          isError: true,
+        };
+      }
+      const result = await mailIndex.searchRanked(account.imap, INDEX_CONFIG, query, {
+        folders: toOptStringList(a.folders),
+        limit: imap.clampToolLimit(a.limit, account.mail, 20),
+        snippetLength: account.mail.snippetLength,
+        sync: a.sync !== false,
+      });
       return {
-        content: [{ type: "text" as const, text: JSON.stringify(out, null, 2) }],
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
         isError: false,
       };
     }
 
     if (name === "mail_get_mailbox_status") {
       const mailbox = String(a.mailbox ?? "");
-      const status = await imap.getMailboxStatus(IMAP_CONFIG, mailbox);
+      const status = await imap.getMailboxStatus(account.imap, mailbox);
       return {
         content: [{ type: "text" as const, text: JSON.stringify(status, null, 2) }],
         isError: false,
       };
     }
 
-    if (name === "mail_list_unread") {
+    if (name === "mail_mailbox_stats") {
+      const mailbox = String(a.mailbox ?? "");
+      const top = typeof a.top === "number" && a.top > 0 ? Math.min(100, Math.floor(a.top)) : undefined;
+      const stats = await mailboxStats.getMailboxStats(account.imap, mailbox, {
+        since: toOptString(a.since),
+        before: toOptString(a.before),
+        top,
+      });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(stats, null, 2) }],
+        isError: false,
+      };
+    }
+
+    if (name === "mail_list_subscriptions") {
+      const mailbox = String(a.mailbox ?? "");
+      const result = await subscriptions.listSubscriptions(account.imap, mailbox, {
+        since: toOptString(a.since),
+        before: toOptString(a.before),
+        limit: imap.clampToolLimit(a.limit, account.mail, 50),
+      });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        isError: false,
+      };
+    }
+
+    if (name === "mail_get_invites") {
+      const mailbox = String(a.mailbox ?? "");
+      if (a.uid != null) {
+        const uid = Number(a.uid);
+        if (!uid) {
+          return {
+            content: [{ type: "text" as const, text: "Error: uid must be a number" }],
+            isError: true,
+          };
+        }
+        const found = await imap.getParsedMessage(account.imap, mailbox, uid);
+        if (!found) {
+          return {
+            content: [{ type: "text" as const, text: `Message not found: ${mailbox} UID ${uid}` }],
+            isError: true,
+          };
+        }
+        const invite = calendar.inviteFromParsed(found.parsed);
+        if (!invite) {
+          return {
+            content: [{ type: "text" as const, text: `No calendar invite in ${mailbox} UID ${uid}` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify({ message: found.envelope, ...invite }, null, 2) }],
+          isError: false,
+        };
+      }
+      const result = await calendar.getUpcomingInvites(account.imap, account.mail, mailbox, {
+        from: toOptString(a.from),
+        until: toOptString(a.until),
+        since: toOptString(a.since),
+        limit: imap.clampToolLimit(a.limit, account.mail, 20),
+      });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        isError: false,
+      };
+    }
+
+    if (name === "mail_export") {
+      const mailbox = String(a.mailbox ?? "");
+      const format = String(a.format ?? "eml");
+      if (format === "eml") {
+        const uid = Number(a.uid);
+        if (!uid) {
+          return {
+            content: [{ type: "text" as const, text: "Error: uid must be a number" }],
+            isError: true,
+          };
+        }
+        const encoding = a.encoding === "text" || a.encoding === "base64" ? a.encoding : undefined;
+        const result = await exporter.exportEml(account.imap, account.mail, mailbox, uid, encoding);
+        if (!result) {
+          return {
+            content: [{ type: "text" as const, text: `Message not found: ${mailbox} UID ${uid}` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+          isError: false,
+        };
+      }
+      if (a.uids != null && (!Array.isArray(a.uids) || !a.uids.every((u) => Number.isInteger(u) && u > 0))) {
+        return {
+          content: [{ type: "text" as const, text: "Error: uids must be an array of positive integers" }],
+          isError: true,
+        };
+      }
+      const criteria = advancedCriteriaFromArgs(a);
+      const result = await exporter.exportMessages(account.imap, EXPORT_CONFIG, mailbox, {
+        format: format as exporter.ExportFormat,
+        target: String(a.target ?? ""),
+        uids: a.uids as number[] | undefined,
+        criteria: hasAdvancedFilter(criteria) ? criteria : undefined,
+        maxMessages: typeof a.maxMessages === "number" && a.maxMessages > 0 ? Math.floor(a.maxMessages) : undefined,
+      });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        isError: false,
+      };
+    }
+
+    if (name === "mail_analyze_message") {
       const mailbox = String(a.mailbox ?? "");
-      const options = buildListOptions(a, 50);
-      const page = await imap.listUnreadMessagesPage(IMAP_CONFIG, mailbox, options);
-      const out = pageOrItems(page, a.returnPage === true || options.cursor != null);
+      const uid = Number(a.uid);
+      if (!uid) {
+        return {
+          content: [{ type: "text" as const, text: "Error: uid must be a number" }],
+          isError: true,
+        };
+      }
+      const result = await security.analyzeMessage(account.imap, mailbox, uid);
+      if (!result) {
+        return {
+          content: [{ type: "text" as const, text: `Message not found: ${mailbox} UID ${uid}` }],
+          isError: true,
+        };
+      }
       return {
-        content: [{ type: "text" as const, text: JSON.stringify(out, null, 2) }],
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
         isError: false,
       };
     }
 
+    if (name === "mail_cache_stats") {
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(messageCache.getCacheStats(), null, 2) }],
+        isError: false,
+      };
+    }
+
+    if (name === "mail_list_unread") {
+      const mailbox = String(a.mailbox ?? "");
+      const options = buildListOptions(a, account.mail, 50);
+      const page = await imap.listUnreadMessagesPage(account.imap, mailbox, options);
+      return pageResult(page, a.returnPage === true || options.cursor != null);
+    }
+
     if (name === "mail_list_attachments") {
       const mailbox = String(a.mailbox ?? "");
       const uid = Number(a.uid);
@@ -437,7 +1195,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           isError: true,
         };
       }
-      const attachments = await imap.listAttachments(IMAP_CONFIG, mailbox, uid);
+      const attachments = await imap.listAttachments(account.imap, mailbox, uid);
       if (!attachments) {
         return {
           content: [{ type: "text" as const, text: `Message not found: ${mailbox} UID ${uid}` }],
@@ -450,6 +1208,74 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       };
     }
 
+    if (name === "mail_get_attachment") {
+      const mailbox = String(a.mailbox ?? "");
+      const uid = Number(a.uid);
+      if (!uid) {
+        return {
+          content: [{ type: "text" as const, text: "Error: uid must be a number" }],
+          isError: true,
+        };
+      }
+      const part = String(a.part ?? "");
+      const attachment = await imap.getAttachment(account.imap, account.mail, mailbox, uid, part);
+      if (!attachment) {
+        return {
+          content: [{ type: "text" as const, text: `Message not found: ${mailbox} UID ${uid}` }],
+          isError: true,
+        };
+      }
+      const { info } = attachment;
+      const meta = { type: "text" as const, text: JSON.stringify(info, null, 2) };
+      if (attachment.kind === "text") {
+        return {
+          content: [meta, { type: "text" as const, text: attachment.text ?? "" }],
+          isError: false,
+        };
+      }
+      if (attachment.kind === "image") {
+        return {
+          content: [meta, { type: "image" as const, data: attachment.base64 ?? "", mimeType: info.contentType }],
+          isError: false,
+        };
+      }
+      return {
+        content: [
+          meta,
+          {
+            type: "resource" as const,
+            resource: {
+              uri: info.uri,
+              mimeType: info.contentType,
+              blob: attachment.base64 ?? "",
+            },
+          },
+        ],
+        isError: false,
+      };
+    }
+
+    if (name === "mail_wait_for_new_mail") {
+      const mailbox = String(a.mailbox ?? "");
+      const sinceUid = a.sinceUid == null ? undefined : Number(a.sinceUid);
+      if (sinceUid != null && !Number.isFinite(sinceUid)) {
+        return {
+          content: [{ type: "text" as const, text: "Error: sinceUid must be a number" }],
+          isError: true,
+        };
+      }
+      const options = buildListOptions({ ...a, sort: "asc", cursor: undefined }, account.mail, 50);
+      const result = await watch.waitForNewMail(account.imap, mailbox, {
+        ...options,
+        sinceUid,
+        timeoutMs: a.timeoutMs == null ? undefined : Number(a.timeoutMs),
+      });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        isError: false,
+      };
+    }
+
     if (name === "mail_query_by_folder") {
       const mailbox = String(a.mailbox ?? "");
       const query = String(a.query ?? "").trim();
@@ -467,13 +1293,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               v === "subject" || v === "body" || v === "from" || v === "to"
             )
         : undefined;
-      const options = buildListOptions(a, 50);
-      const page = await imap.queryByFolderPage(IMAP_CONFIG, mailbox, query, fields, options);
-      const out = pageOrItems(page, a.returnPage === true || options.cursor != null);
-      return {
-        content: [{ type: "text" as const, text: JSON.stringify(out, null, 2) }],
-        isError: false,
-      };
+      const options = buildListOptions(a, account.mail, 50);
+      const page = await imap.queryByFolderPage(account.imap, mailbox, query, fields, options);
+      return pageResult(page, a.returnPage === true || options.cursor != null);
     }
 
     if (name === "mail_get_thread_context") {
@@ -492,17 +1314,112 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           includeSnippet: a.includeSnippet == null ? true : a.includeSnippet,
           limit: a.limit == null ? 20 : a.limit,
         },
+        account.mail,
         20
       );
-      const thread = await imap.getThreadContext(IMAP_CONFIG, mailbox, uid, options);
+      const thread = await imap.getThreadContext(account.imap, mailbox, uid, options);
       if (!thread) {
         return {
           content: [{ type: "text" as const, text: `Message not found: ${mailbox} UID ${uid}` }],
           isError: true,
         };
       }
+      const { cursorScope, ...output } = thread;
+      return scopedResult(output, cursorScope);
+    }
+
+    if (name === "mail_get_conversation") {
+      const mailbox = String(a.mailbox ?? "");
+      const uid = Number(a.uid);
+      if (!uid) {
+        return {
+          content: [{ type: "text" as const, text: "Error: uid must be a number" }],
+          isError: true,
+        };
+      }
+      const conversation = await threading.getConversation(account.imap, account.mail, mailbox, uid, {
+        folders: toOptStringList(a.folders),
+        includeBodies: a.includeBodies === true,
+        limit: imap.clampToolLimit(a.limit, account.mail, 50),
+      });
+      if (!conversation) {
+        return {
+          content: [{ type: "text" as const, text: `Message not found: ${mailbox} UID ${uid}` }],
+          isError: true,
+        };
+      }
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(conversation, null, 2) }],
+        isError: false,
+      };
+    }
+
+    if (name === "mail_set_flags") {
+      const mailbox = String(a.mailbox ?? "");
+      const result = await write.setFlags(
+        account.imap,
+        WRITE_CONFIG,
+        mailbox,
+        a.uids,
+        {
+          add: Array.isArray(a.add) ? a.add.map(String) : undefined,
+          remove: Array.isArray(a.remove) ? a.remove.map(String) : undefined,
+        },
+        a.dryRun === true
+      );
       return {
-        content: [{ type: "text" as const, text: JSON.stringify(thread, null, 2) }],
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        isError: false,
+      };
+    }
+
+    if (name === "mail_move_messages" || name === "mail_copy_messages") {
+      const mailbox = String(a.mailbox ?? "");
+      const destination = String(a.destination ?? "").trim();
+      const transfer = name === "mail_move_messages" ? write.moveMessages : write.copyMessages;
+      const result = await transfer(account.imap, WRITE_CONFIG, mailbox, a.uids, destination, a.dryRun === true);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        isError: false,
+      };
+    }
+
+    if (name === "mail_delete_messages") {
+      const mailbox = String(a.mailbox ?? "");
+      const result = await write.deleteMessages(account.imap, WRITE_CONFIG, mailbox, a.uids, {
+        permanent: a.permanent === true,
+        dryRun: a.dryRun === true,
+      });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        isError: false,
+      };
+    }
+
+    if (name === "mail_create_draft") {
+      const toList = (v: unknown): string[] | undefined =>
+        Array.isArray(v) ? v.map(String) : toOptString(v)?.split(",");
+      const replyUid = a.replyUid == null ? undefined : Number(a.replyUid);
+      if (replyUid != null && !replyUid) {
+        return {
+          content: [{ type: "text" as const, text: "Error: replyUid must be a number" }],
+          isError: true,
+        };
+      }
+      const result = await draft.createDraft(account.imap, WRITE_CONFIG, {
+        to: toList(a.to),
+        cc: toList(a.cc),
+        bcc: toList(a.bcc),
+        subject: toOptString(a.subject),
+        text: String(a.text ?? ""),
+        html: toOptString(a.html),
+        replyMailbox: toOptString(a.replyMailbox),
+        replyUid,
+        replyAll: a.replyAll === true,
+        quoteOriginal: a.quoteOriginal !== false,
+      });
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
         isError: false,
       };
     }
@@ -523,11 +1440,172 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+/** How each paginated tool can be resumed when output shaping drops trailing items. */
+const SHAPE_CONTINUATIONS: Record<string, Continuation> = {
+  mail_list_messages: "uid",
+  mail_search: "uid",
+  mail_search_advanced: "uid",
+  mail_list_unread: "uid",
+  mail_query_by_folder: "uid",
+  mail_get_thread_context: "uid",
+  mail_search_all: "folder",
+};
+
+/** Per-call maxTokens, capped by the account's MAIL_MAX_TOKENS (0 = no budget). */
+function effectiveMaxTokens(a: Record<string, unknown>, mailConfig: MailConfig): number {
+  const requested = typeof a.maxTokens === "number" && a.maxTokens > 0 ? Math.floor(a.maxTokens) : 0;
+  const cap = mailConfig.maxTokens;
+  if (requested && cap) return Math.min(requested, cap);
+  return requested || cap;
+}
+
+/** Run a tool and fit its JSON output into the token budget. */
+async function callToolShaped(request: CallToolRequest) {
+  const called = await callTool(request);
+  const cursorScope = "cursorScope" in called ? called.cursorScope : undefined;
+  const result = { content: called.content, isError: called.isError };
+  const [content, ...rest] = result.content;
+  if (result.isError || rest.length > 0 || content?.type !== "text") return result;
+
+  const a = (request.params.arguments as Record<string, unknown>) ?? {};
+  let maxTokens: number;
+  let value: unknown;
+  try {
+    maxTokens = effectiveMaxTokens(a, resolveAccount(ACCOUNTS_CONFIG, toOptString(a.account)).mail);
+    if (maxTokens <= 0) return result;
+    value = JSON.parse(content.text);
+  } catch {
+    return result;
+  }
+  const shaped = shapeOutput(value, {
+    maxTokens,
+    // Keyed sortBy cursors need the sort key, which shaped items no longer carry.
+    continuation: a.sortBy ? undefined : SHAPE_CONTINUATIONS[request.params.name],
+    cursor: toOptString(a.cursor),
+    scope: cursorScope,
+  });
+  return { ...result, content: [{ type: "text" as const, text: shaped.text }] };
+}
+
+const configuredWatchFolders = new Set(MAIL_CONFIG.watchFolders.map((f) => folderUri(f)));
+/** Folder URIs each connected session subscribed to via resources/subscribe. */
+const sessionSubscriptions = new Set<Set<string>>();
+
+function subscribableFolder(uri: string): string {
+  const target = parseResourceUri(uri);
+  if (target.kind !== "folder") {
+    throw new Error(`Only folder resources can be subscribed to: ${uri}`);
+  }
+  return target.mailbox;
+}
+
+/** Stop watching a folder once no session subscribes to it and it is not watched from startup. */
+async function releaseFolder(mailbox: string): Promise<void> {
+  const uri = folderUri(mailbox);
+  if (configuredWatchFolders.has(uri)) return;
+  for (const subscribed of sessionSubscriptions) {
+    if (subscribed.has(uri)) return;
+  }
+  await watch.unwatchMailbox(mailbox);
+}
+
+/**
+ * Build one MCP server with all handlers. stdio uses a single instance; the HTTP
+ * transport creates one per session so subscriptions stay per client.
+ */
+function createServer(onClose?: () => void): Server {
+  const server = new Server(
+    {
+      name: "imap-mail-mcp",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        logging: {},
+      },
+    }
+  );
+  const subscribedFolders = new Set<string>();
+  sessionSubscriptions.add(subscribedFolders);
+
+  server.setRequestHandler(ListToolsRequestSchema, listTools);
+  server.setRequestHandler(CallToolRequestSchema, callToolShaped);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: await resources.listResources(IMAP_CONFIG) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: [...RESOURCE_TEMPLATES] };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: await resources.readResource(IMAP_CONFIG, MAIL_CONFIG, request.params.uri) };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const mailbox = subscribableFolder(request.params.uri);
+    subscribedFolders.add(folderUri(mailbox));
+    await watch.watchMailbox(IMAP_CONFIG, mailbox);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const mailbox = subscribableFolder(request.params.uri);
+    subscribedFolders.delete(folderUri(mailbox));
+    await releaseFolder(mailbox);
+    return {};
+  });
+
+  const stopListening = watch.onMailboxChange((change) => {
+    const uri = folderUri(change.mailbox);
+    if (subscribedFolders.has(uri)) void server.sendResourceUpdated({ uri }).catch(() => undefined);
+    void server.sendLoggingMessage({ level: "info", logger: "mail-watch", data: change }).catch(() => undefined);
+  });
+
+  server.onclose = () => {
+    stopListening();
+    sessionSubscriptions.delete(subscribedFolders);
+    for (const uri of subscribedFolders) {
+      const target = parseResourceUri(uri);
+      if (target.kind === "folder") void releaseFolder(target.mailbox).catch(() => undefined);
+    }
+    onClose?.();
+  };
+  return server;
+}
+
+let shuttingDown = false;
+let httpServer: HttpServerHandle | undefined;
+
+async function shutdown(): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  await httpServer?.close();
+  await watch.stopAllWatchers();
+  await imap.closeAllConnections();
+  process.exit(0);
+}
 
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  process.on("SIGINT", () => void shutdown());
+  process.on("SIGTERM", () => void shutdown());
+  if (TRANSPORT_CONFIG.transport === "http") {
+    httpServer = await startHttpServer(TRANSPORT_CONFIG, () => createServer());
+    console.error(`imap-mail-mcp listening on http://${TRANSPORT_CONFIG.host}:${httpServer.port}${MCP_HTTP_PATH}`);
+  } else {
+    // Pooled IMAP connections outlive tool calls; log them out when the client goes away.
+    const server = createServer(() => void shutdown());
+    process.stdin.on("end", () => void shutdown());
+    await server.connect(new StdioServerTransport());
+  }
+  for (const mailbox of MAIL_CONFIG.watchFolders) {
+    void watch.watchMailbox(IMAP_CONFIG, mailbox);
+  }
 }
 
 main().catch((err) => {
@@ -0,0 +1,383 @@
+/**
+ * Optional local full-text index for ranked search (mail_search_ranked).
+ * Pure JS: one JSON file per folder under MAIL_INDEX_DIR holding headers and truncated
+ * body text; the inverted index is rebuilt in memory on load. Disabled unless
+ * MAIL_INDEX_DIR is set.
+ *
+ * Sync is incremental: STATUS (UIDVALIDITY/UIDNEXT/HIGHESTMODSEQ/MESSAGES) decides whether
+ * anything changed, a UID SEARCH ALL diff finds new and expunged messages, and a
+ * UIDVALIDITY change discards the folder's index and rebuilds it.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { simpleParser } from "mailparser";
+import type { ImapConfig, IndexConfig } from "./config.js";
+import { withClient, withMailbox } from "./connection.js";
+import { isFolderAlias, resolveMailboxInList } from "./folders.js";
+import { envelopeWithOptionalSnippet, getMailboxStatus, parsedToBodyText, type MessageEnvelope } from "./imap.js";
+import { messageUri } from "./uri.js";
+
+interface IndexedDoc {
+  uid: number;
+  subject: string;
+  from: string;
+  to: string;
+  date: string;
+  messageId?: string;
+  body: string;
+}
+
+interface FolderIndexFile {
+  version: 1;
+  mailbox: string;
+  uidValidity?: string;
+  uidNext?: number;
+  highestModseq?: string;
+  messages?: number;
+  /** New messages not fetched yet because of syncBatchSize. */
+  pending: number;
+  docs: IndexedDoc[];
+}
+
+interface FolderIndex {
+  path: string;
+  file: FolderIndexFile;
+  docs: Map<number, IndexedDoc>;
+  /** term -> uid -> term frequency */
+  postings: Map<string, Map<number, number>>;
+  lengths: Map<number, number>;
+}
+
+export interface FolderSyncState {
+  mailbox: string;
+  indexed: number;
+  /** New messages still waiting to be indexed (synced on later calls). */
+  pending: number;
+  added: number;
+  pruned: number;
+  /** True when UIDVALIDITY changed and the folder index was rebuilt. */
+  rebuilt: boolean;
+  error?: string;
+}
+
+export interface RankedMessage extends MessageEnvelope {
+  mailbox: string;
+  score: number;
+  /** Excerpt around the best match, with matched words wrapped in **. */
+  snippet: string;
+}
+
+export interface RankedSearchResult {
+  query: string;
+  items: RankedMessage[];
+  folders: FolderSyncState[];
+}
+
+export interface RankedSearchOptions {
+  folders?: string[];
+  limit?: number;
+  snippetLength?: number;
+  /** Sync folders with the server before searching (default true). */
+  sync?: boolean;
+}
+
+const FETCH_CHUNK_SIZE = 50;
+const SUBJECT_WEIGHT = 2;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const loaded = new Map<string, FolderIndex>();
+const inFlight = new Map<string, Promise<FolderSyncState>>();
+
+/** Lowercased, diacritic-free word tokens (length >= 2). */
+export function tokenize(text: string): string[] {
+  const words = text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter((w) => w.length >= 2);
+}
+
+function assertEnabled(indexConfig: IndexConfig): void {
+  if (!indexConfig.enabled) {
+    throw new Error("Local search index is disabled. Set MAIL_INDEX_DIR to enable mail_search_ranked.");
+  }
+}
+
+function indexPath(config: ImapConfig, indexConfig: IndexConfig, mailbox: string): string {
+  const account = encodeURIComponent(`${config.user}@${config.host}:${config.port}`);
+  return join(indexConfig.dir, account, `${encodeURIComponent(mailbox)}.json`);
+}
+
+function emptyFile(mailbox: string): FolderIndexFile {
+  return { version: 1, mailbox, pending: 0, docs: [] };
+}
+
+function docTokens(doc: IndexedDoc): string[] {
+  const subject = tokenize(doc.subject);
+  const weighted: string[] = [];
+  for (let i = 0; i < SUBJECT_WEIGHT; i += 1) weighted.push(...subject);
+  return [...weighted, ...tokenize(doc.from), ...tokenize(doc.to), ...tokenize(doc.body)];
+}
+
+function addToPostings(index: FolderIndex, doc: IndexedDoc): void {
+  const tokens = docTokens(doc);
+  index.lengths.set(doc.uid, tokens.length);
+  const counts = new Map<string, number>();
+  for (const t of tokens) counts.set(t, (counts.get(t) ?? 0) + 1);
+  for (const [term, tf] of counts) {
+    let posting = index.postings.get(term);
+    if (!posting) {
+      posting = new Map();
+      index.postings.set(term, posting);
+    }
+    posting.set(doc.uid, tf);
+  }
+}
+
+function buildIndex(path: string, file: FolderIndexFile): FolderIndex {
+  const index: FolderIndex = { path, file, docs: new Map(), postings: new Map(), lengths: new Map() };
+  for (const doc of file.docs) {
+    index.docs.set(doc.uid, doc);
+    addToPostings(index, doc);
+  }
+  return index;
+}
+
+function removeFromPostings(index: FolderIndex, uid: number): void {
+  const doc = index.docs.get(uid);
+  if (!doc) return;
+  for (const term of new Set(docTokens(doc))) {
+    const posting = index.postings.get(term);
+    posting?.delete(uid);
+    if (posting && posting.size === 0) index.postings.delete(term);
+  }
+  index.docs.delete(uid);
+  index.lengths.delete(uid);
+}
+
+async function loadIndex(path: string, mailbox: string): Promise<FolderIndex> {
+  const cached = loaded.get(path);
+  if (cached) return cached;
+  let file = emptyFile(mailbox);
+  try {
+    const raw = JSON.parse(await readFile(path, "utf8")) as FolderIndexFile;
+    if (raw?.version === 1 && Array.isArray(raw.docs)) file = raw;
+  } catch {
+    // Missing or unreadable index file: start from scratch.
+  }
+  const index = buildIndex(path, file);
+  loaded.set(path, index);
+  return index;
+}
+
+async function saveIndex(index: FolderIndex): Promise<void> {
+  index.file.docs = Array.from(index.docs.values()).sort((a, b) => a.uid - b.uid);
+  await mkdir(dirname(index.path), { recursive: true });
+  const tmp = `${index.path}.tmp`;
+  await writeFile(tmp, JSON.stringify(index.file), { encoding: "utf8", mode: 0o600 });
+  await rename(tmp, index.path);
+}
+
+async function runSync(
+  config: ImapConfig,
+  indexConfig: IndexConfig,
+  mailbox: string
+): Promise<FolderSyncState> {
+  const path = indexPath(config, indexConfig, mailbox);
+  let index = await loadIndex(path, mailbox);
+  const status = await getMailboxStatus(config, mailbox);
+
+  let rebuilt = false;
+  if (index.file.uidValidity != null && index.file.uidValidity !== status.uidValidity) {
+    index = buildIndex(path, emptyFile(mailbox));
+    loaded.set(path, index);
+    rebuilt = true;
+  }
+
+  const file = index.file;
+  const unchanged =
+    !rebuilt &&
+    file.uidValidity === status.uidValidity &&
+    file.uidNext === status.uidNext &&
+    file.highestModseq === status.highestModseq &&
+    file.messages === status.messages &&
+    file.pending === 0;
+  if (unchanged) {
+    return { mailbox, indexed: index.docs.size, pending: 0, added: 0, pruned: 0, rebuilt };
+  }
+
+  const { added, pruned, pending } = await withMailbox(config, mailbox, async (client) => {
+    const allRaw = await client.search({ all: true }, { uid: true });
+    const all = Array.isArray(allRaw) ? allRaw : [];
+    const current = new Set(all);
+
+    let prunedCount = 0;
+    for (const uid of Array.from(index.docs.keys())) {
+      if (!current.has(uid)) {
+        removeFromPostings(index, uid);
+        prunedCount += 1;
+      }
+    }
+
+    // Newest first, so recent mail becomes searchable before the backlog is done.
+    const missing = all.filter((uid) => !index.docs.has(uid)).sort((a, b) => b - a);
+    const batch = missing.slice(0, indexConfig.syncBatchSize);
+    let addedCount = 0;
+    for (let i = 0; i < batch.length; i += FETCH_CHUNK_SIZE) {
+      const chunk = batch.slice(i, i + FETCH_CHUNK_SIZE);
+      for await (const msg of client.fetch(chunk, { uid: true, envelope: true, source: true }, { uid: true })) {
+        if (!msg.uid || !msg.source || index.docs.has(msg.uid)) continue;
+        const envelope = await envelopeWithOptionalSnippet(msg, false, 0);
+        const parsed = await simpleParser(msg.source);
+        const doc: IndexedDoc = {
+          uid: msg.uid,
+          subject: envelope.subject,
+          from: envelope.from,
+          to: envelope.to,
+          date: envelope.date,
+          messageId: envelope.messageId,
+          body: parsedToBodyText(parsed, indexConfig.maxBodyChars),
+        };
+        index.docs.set(doc.uid, doc);
+        addToPostings(index, doc);
+        addedCount += 1;
+      }
+    }
+    return { added: addedCount, pruned: prunedCount, pending: missing.length - batch.length };
+  });
+
+  file.uidValidity = status.uidValidity;
+  file.uidNext = status.uidNext;
+  file.highestModseq = status.highestModseq;
+  file.messages = status.messages;
+  file.pending = pending;
+  await saveIndex(index);
+  return { mailbox, indexed: index.docs.size, pending, added, pruned, rebuilt };
+}
+
+/**
+ * Bring one folder's index up to date with the server.
+ */
+export async function syncFolderIndex(
+  config: ImapConfig,
+  indexConfig: IndexConfig,
+  mailbox: string
+): Promise<FolderSyncState> {
+  assertEnabled(indexConfig);
+  const path = indexPath(config, indexConfig, mailbox);
+  const running = inFlight.get(path);
+  if (running) return running;
+  const promise = runSync(config, indexConfig, mailbox).finally(() => inFlight.delete(path));
+  inFlight.set(path, promise);
+  return promise;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function highlightSnippet(doc: IndexedDoc, terms: string[], maxLength: number): string {
+  const text = (doc.body || doc.subject).replace(/\s+/g, " ").trim();
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`, "giu");
+  const first = pattern.exec(text);
+  pattern.lastIndex = 0;
+  const start = first ? Math.max(0, first.index - Math.floor(maxLength / 4)) : 0;
+  let excerpt = text.slice(start, start + maxLength);
+  excerpt = excerpt.replace(pattern, "**$1**");
+  return `${start > 0 ? "..." : ""}${excerpt}${start + maxLength < text.length ? "..." : ""}`;
+}
+
+/**
+ * BM25-ranked search over the local index of one or more folders.
+ */
+export async function searchRanked(
+  config: ImapConfig,
+  indexConfig: IndexConfig,
+  query: string,
+  options: RankedSearchOptions = {}
+): Promise<RankedSearchResult> {
+  assertEnabled(indexConfig);
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) throw new Error("query must contain at least one word");
+  const requested = options.folders && options.folders.length > 0 ? options.folders : indexConfig.folders;
+  // Index files are keyed by folder path, so aliases must not get an index of their own.
+  const folders = requested.some(isFolderAlias)
+    ? await withClient(config, async (client) => {
+        const list = await client.list();
+        return requested.map((f) => resolveMailboxInList(list, f));
+      })
+    : requested;
+  const limit = Math.max(1, Math.floor(options.limit ?? 20));
+  const snippetLength = Math.max(40, Math.floor(options.snippetLength ?? 200));
+
+  const states: FolderSyncState[] = [];
+  const indexes: Array<{ mailbox: string; index: FolderIndex }> = [];
+  for (const mailbox of folders) {
+    try {
+      if (options.sync !== false) {
+        states.push(await syncFolderIndex(config, indexConfig, mailbox));
+      }
+      const index = await loadIndex(indexPath(config, indexConfig, mailbox), mailbox);
+      if (options.sync === false) {
+        states.push({ mailbox, indexed: index.docs.size, pending: index.file.pending, added: 0, pruned: 0, rebuilt: false });
+      }
+      indexes.push({ mailbox, index });
+    } catch (err) {
+      states.push({
+        mailbox,
+        indexed: 0,
+        pending: 0,
+        added: 0,
+        pruned: 0,
+        rebuilt: false,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  // Collection statistics span all searched folders so scores are comparable.
+  let totalDocs = 0;
+  let totalLength = 0;
+  const df = new Map<string, number>();
+  for (const { index } of indexes) {
+    totalDocs += index.docs.size;
+    for (const len of index.lengths.values()) totalLength += len;
+    for (const term of terms) df.set(term, (df.get(term) ?? 0) + (index.postings.get(term)?.size ?? 0));
+  }
+  const avgLength = totalDocs > 0 ? totalLength / totalDocs : 0;
+
+  const scored: Array<{ mailbox: string; index: FolderIndex; uid: number; score: number }> = [];
+  for (const { mailbox, index } of indexes) {
+    const scores = new Map<number, number>();
+    for (const term of terms) {
+      const posting = index.postings.get(term);
+      if (!posting) continue;
+      const n = df.get(term) ?? 0;
+      const idf = Math.log(1 + (totalDocs - n + 0.5) / (n + 0.5));
+      for (const [uid, tf] of posting) {
+        const len = index.lengths.get(uid) ?? 0;
+        const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * len) / (avgLength || 1));
+        scores.set(uid, (scores.get(uid) ?? 0) + (idf * tf * (BM25_K1 + 1)) / norm);
+      }
+    }
+    for (const [uid, score] of scores) scored.push({ mailbox, index, uid, score });
+  }
+  scored.sort((a, b) => b.score - a.score || b.uid - a.uid);
+
+  const items = scored.slice(0, limit).map(({ mailbox, index, uid, score }): RankedMessage => {
+    const doc = index.docs.get(uid) as IndexedDoc;
+    return {
+      uid,
+      subject: doc.subject,
+      from: doc.from,
+      to: doc.to,
+      date: doc.date,
+      messageId: doc.messageId,
+      uri: messageUri(mailbox, uid, index.file.uidValidity),
+      mailbox,
+      score: Math.round(score * 1000) / 1000,
+      snippet: highlightSnippet(doc, terms, snippetLength),
+    };
+  });
+
+  return { query, items, folders: states };
+}
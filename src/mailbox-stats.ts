@@ -0,0 +1,217 @@
+/**
+ * Mailbox analytics for inbox reviews: top senders and domains, volume per day and
+ * week, unread mail by age, largest messages and attachment-heavy senders. Built
+ * from batched envelope/size/flags/structure fetches; message sources are never
+ * downloaded. Read-only.
+ */
+
+import type { ImapConfig } from "./config.js";
+import { withMailbox } from "./connection.js";
+import { fetchEnvelopesByUids, parseDateInput, type EnvelopeMetadata, type MessageEnvelope } from "./imap.js";
+
+export interface MailboxStatsOptions {
+  /** Only messages received on or after this date (ISO). */
+  since?: string;
+  /** Only messages received before this date (ISO). */
+  before?: string;
+  /** Entries per ranking (top senders, largest messages, ...). Default 10. */
+  top?: number;
+  /** Analyze at most this many messages (newest first). Default 5000. */
+  maxMessages?: number;
+  /** Reference time for unread age buckets (tests). */
+  now?: Date;
+}
+
+export interface SenderCount {
+  address: string;
+  count: number;
+  unread: number;
+}
+
+export interface AttachmentSender {
+  address: string;
+  messages: number;
+  attachments: number;
+  attachmentBytes: number;
+}
+
+export interface LargeMessage {
+  uid: number;
+  uri?: string;
+  from: string;
+  subject: string;
+  date: string;
+  size: number;
+}
+
+export interface MailboxStats {
+  mailbox: string;
+  since?: string;
+  before?: string;
+  /** Messages analyzed. */
+  messages: number;
+  /** Messages matching the range; larger than `messages` when truncated. */
+  matched: number;
+  truncated: boolean;
+  unread: number;
+  totalBytes: number;
+  topSenders: SenderCount[];
+  topDomains: Array<{ domain: string; count: number }>;
+  perDay: Array<{ date: string; count: number }>;
+  /** Weeks start on Monday (UTC). */
+  perWeek: Array<{ week: string; count: number }>;
+  unreadByAge: Array<{ bucket: string; count: number }>;
+  largestMessages: LargeMessage[];
+  attachmentHeavySenders: AttachmentSender[];
+}
+
+const FETCH_BATCH_SIZE = 500;
+const DEFAULT_TOP = 10;
+const DEFAULT_MAX_MESSAGES = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Unread age buckets, upper bound in days (exclusive). */
+const AGE_BUCKETS: Array<{ bucket: string; maxDays: number }> = [
+  { bucket: "<1d", maxDays: 1 },
+  { bucket: "1-7d", maxDays: 7 },
+  { bucket: "7-30d", maxDays: 30 },
+  { bucket: "30-90d", maxDays: 90 },
+  { bucket: ">90d", maxDays: Infinity },
+];
+
+interface Analyzed {
+  envelope: MessageEnvelope;
+  metadata: EnvelopeMetadata;
+}
+
+/** First address of a formatted envelope address list, lower-cased. */
+function senderAddress(from: string): string {
+  return (from.split(",")[0] ?? "").trim().toLowerCase() || "(unknown)";
+}
+
+function senderDomain(address: string): string {
+  const at = address.lastIndexOf("@");
+  return at >= 0 ? address.slice(at + 1) : "(unknown)";
+}
+
+function weekStart(date: Date): string {
+  const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+  return monday.toISOString().slice(0, 10);
+}
+
+function countBy<T>(values: T[], key: (value: T) => string | undefined): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const k = key(value);
+    if (k) counts.set(k, (counts.get(k) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function sortedSeries<K extends string>(counts: Map<string, number>, name: K): Array<Record<K, string> & { count: number }> {
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, count]) => ({ [name]: k, count }) as Record<K, string> & { count: number });
+}
+
+function summarize(mailbox: string, messages: Analyzed[], matched: number, options: MailboxStatsOptions): MailboxStats {
+  const top = options.top ?? DEFAULT_TOP;
+  const now = (options.now ?? new Date()).getTime();
+
+  const senders = new Map<string, SenderCount>();
+  const attachmentSenders = new Map<string, AttachmentSender>();
+  const unreadAges = new Map<string, number>(AGE_BUCKETS.map(({ bucket }) => [bucket, 0]));
+  for (const { envelope, metadata } of messages) {
+    const address = senderAddress(envelope.from);
+    const sender = senders.get(address) ?? { address, count: 0, unread: 0 };
+    sender.count += 1;
+    if (!metadata.seen) sender.unread += 1;
+    senders.set(address, sender);
+
+    if (metadata.attachments > 0) {
+      const heavy = attachmentSenders.get(address) ?? { address, messages: 0, attachments: 0, attachmentBytes: 0 };
+      heavy.messages += 1;
+      heavy.attachments += metadata.attachments;
+      heavy.attachmentBytes += metadata.attachmentBytes;
+      attachmentSenders.set(address, heavy);
+    }
+
+    if (!metadata.seen && envelope.date) {
+      const ageDays = (now - new Date(envelope.date).getTime()) / DAY_MS;
+      const { bucket } = AGE_BUCKETS.find((b) => ageDays < b.maxDays) ?? AGE_BUCKETS[AGE_BUCKETS.length - 1];
+      unreadAges.set(bucket, (unreadAges.get(bucket) ?? 0) + 1);
+    }
+  }
+
+  const byCountThenName = (a: { address: string; count: number }, b: { address: string; count: number }) =>
+    b.count - a.count || a.address.localeCompare(b.address);
+  const domains = countBy(messages, (m) => senderDomain(senderAddress(m.envelope.from)));
+  const dated = messages.filter((m) => m.envelope.date);
+
+  return {
+    mailbox,
+    since: options.since,
+    before: options.before,
+    messages: messages.length,
+    matched,
+    truncated: matched > messages.length,
+    unread: messages.filter((m) => !m.metadata.seen).length,
+    totalBytes: messages.reduce((sum, m) => sum + m.metadata.size, 0),
+    topSenders: Array.from(senders.values()).sort(byCountThenName).slice(0, top),
+    topDomains: Array.from(domains.entries())
+      .map(([domain, count]) => ({ domain, count }))
+      .sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain))
+      .slice(0, top),
+    perDay: sortedSeries(countBy(dated, (m) => m.envelope.date.slice(0, 10)), "date"),
+    perWeek: sortedSeries(countBy(dated, (m) => weekStart(new Date(m.envelope.date))), "week"),
+    unreadByAge: Array.from(unreadAges.entries()).map(([bucket, count]) => ({ bucket, count })),
+    largestMessages: messages
+      .slice()
+      .sort((a, b) => b.metadata.size - a.metadata.size || b.envelope.uid - a.envelope.uid)
+      .slice(0, top)
+      .map(({ envelope, metadata }) => ({
+        uid: envelope.uid,
+        uri: envelope.uri,
+        from: envelope.from,
+        subject: envelope.subject,
+        date: envelope.date,
+        size: metadata.size,
+      })),
+    attachmentHeavySenders: Array.from(attachmentSenders.values())
+      .sort((a, b) => b.attachmentBytes - a.attachmentBytes || a.address.localeCompare(b.address))
+      .slice(0, top),
+  };
+}
+
+/**
+ * Aggregate statistics for one folder, optionally limited to a received-date range.
+ * Analyzes the newest `maxMessages` matches. Read-only.
+ */
+export async function getMailboxStats(
+  config: ImapConfig,
+  mailbox: string,
+  options: MailboxStatsOptions = {}
+): Promise<MailboxStats> {
+  const query: Record<string, unknown> = {};
+  const since = parseDateInput("since", options.since);
+  const before = parseDateInput("before", options.before);
+  if (since) query.since = since;
+  if (before) query.before = before;
+  if (!since && !before) query.all = true;
+  const maxMessages = Math.max(1, Math.floor(options.maxMessages ?? DEFAULT_MAX_MESSAGES));
+
+  return withMailbox(config, mailbox, async (client) => {
+    const found = await client.search(query, { uid: true });
+    const uids = (found || []).slice().sort((a, b) => b - a);
+    const selected = uids.slice(0, maxMessages);
+    const analyzed: Analyzed[] = [];
+    for (let i = 0; i < selected.length; i += FETCH_BATCH_SIZE) {
+      const batch = selected.slice(i, i + FETCH_BATCH_SIZE);
+      await fetchEnvelopesByUids(client, mailbox, batch, false, 0, (envelope, metadata) => {
+        analyzed.push({ envelope, metadata });
+      });
+    }
+    return summarize(mailbox, analyzed, uids.length, options);
+  });
+}
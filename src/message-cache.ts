@@ -0,0 +1,404 @@
+/**
+ * Message source cache. Sources are immutable for a given mailbox + UIDVALIDITY +
+ * UID, so getMessage, getThreadContext and snippets reuse them instead of
+ * downloading `source` again. Bodies are stored content-addressed (SHA-256) in a
+ * memory LRU and, when MAIL_CACHE_DIR is set, on disk bounded by MAIL_CACHE_MAX_BYTES.
+ *
+ * A UIDVALIDITY change drops the folder's entries. Flags are the only mutable part:
+ * when the folder's HIGHESTMODSEQ moved, one CONDSTORE `FETCH ... (CHANGEDSINCE m)`
+ * refreshes the cached ones and a UID SEARCH prunes expunged UIDs. Without CONDSTORE
+ * a hit still costs a flags-only fetch, which is much smaller than the source.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { FetchMessageObject } from "imapflow";
+import type { CacheConfig } from "./config.js";
+import { accountKeyOf } from "./connection.js";
+import type { ImapClientLike } from "./imap.js";
+
+type Envelope = FetchMessageObject["envelope"];
+
+interface CacheEntry {
+  folder: string;
+  uid: number;
+  hash: string;
+  size: number;
+  envelope?: Envelope;
+  flags: string[];
+  lastUsed: number;
+}
+
+interface FolderState {
+  uidValidity: string;
+  highestModseq?: string;
+}
+
+interface CacheIndexFile {
+  version: 1;
+  folders: Record<string, FolderState>;
+  entries: Record<string, CacheEntry>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Hits served from disk (included in hits). */
+  diskHits: number;
+  /** Cached messages whose flags a CHANGEDSINCE fetch updated. */
+  flagRefreshes: number;
+  /** Folders dropped because their UIDVALIDITY changed. */
+  invalidations: number;
+  evictions: number;
+  entries: number;
+  memory: { bytes: number; maxBytes: number; sources: number };
+  disk: { enabled: boolean; bytes: number; maxBytes: number; sources: number };
+}
+
+/** Message fetched through the cache, shaped like an imapflow fetch result. */
+export type CachedMessage = FetchMessageObject & { source: Buffer };
+
+const DEFAULT_CONFIG: CacheConfig = { memoryBytes: 16 * 1024 * 1024, dir: "", maxDiskBytes: 256 * 1024 * 1024 };
+
+let config: CacheConfig = DEFAULT_CONFIG;
+const entries = new Map<string, CacheEntry>();
+const folders = new Map<string, FolderState>();
+/** hash -> source, in least-recently-used order. */
+const memory = new Map<string, Buffer>();
+let memoryBytes = 0;
+let diskBytes = 0;
+let loaded: Promise<void> | undefined;
+let saving: Promise<void> = Promise.resolve();
+const stats = { hits: 0, misses: 0, diskHits: 0, flagRefreshes: 0, invalidations: 0, evictions: 0 };
+
+/** Apply cache settings and start empty (index.ts calls this once at startup; tests use it to reset). */
+export function configureMessageCache(next: CacheConfig = DEFAULT_CONFIG): void {
+  config = next;
+  entries.clear();
+  folders.clear();
+  memory.clear();
+  memoryBytes = 0;
+  diskBytes = 0;
+  loaded = undefined;
+  saving = Promise.resolve();
+  for (const key of Object.keys(stats) as (keyof typeof stats)[]) stats[key] = 0;
+}
+
+export function getCacheStats(): CacheStats {
+  const diskSources = config.dir ? new Set([...entries.values()].map((e) => e.hash)).size : 0;
+  return {
+    ...stats,
+    entries: entries.size,
+    memory: { bytes: memoryBytes, maxBytes: config.memoryBytes, sources: memory.size },
+    disk: { enabled: config.dir !== "", bytes: diskBytes, maxBytes: config.maxDiskBytes, sources: diskSources },
+  };
+}
+
+function enabled(): boolean {
+  return config.memoryBytes > 0 || config.dir !== "";
+}
+
+function folderKey(client: ImapClientLike, mailbox: string): string | undefined {
+  const account = accountKeyOf(client);
+  return account ? JSON.stringify([account, client.mailbox?.path ?? mailbox]) : undefined;
+}
+
+function entryKey(folder: string, uidValidity: string, uid: number): string {
+  return `${folder}#${uidValidity}#${uid}`;
+}
+
+function objectPath(hash: string): string {
+  return join(config.dir, "objects", hash.slice(0, 2), hash);
+}
+
+/** Compact UID set for IMAP commands, e.g. [1,2,3,7] -> "1:3,7". */
+function uidSequence(uids: number[]): string {
+  const sorted = [...new Set(uids)].sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j++;
+    parts.push(i === j ? String(sorted[i]) : `${sorted[i]}:${sorted[j]}`);
+    i = j;
+  }
+  return parts.join(",");
+}
+
+function ensureLoaded(): Promise<void> {
+  if (!config.dir) return Promise.resolve();
+  loaded ??= (async () => {
+    try {
+      const file = JSON.parse(await readFile(join(config.dir, "index.json"), "utf8")) as CacheIndexFile;
+      if (file.version !== 1) return;
+      for (const [key, state] of Object.entries(file.folders ?? {})) folders.set(key, state);
+      for (const [key, entry] of Object.entries(file.entries ?? {})) entries.set(key, entry);
+      const sizes = new Map([...entries.values()].map((e) => [e.hash, e.size]));
+      diskBytes = [...sizes.values()].reduce((sum, n) => sum + n, 0);
+    } catch {
+      // Missing or unreadable index: start empty; orphaned objects are overwritten or evicted later.
+    }
+  })();
+  return loaded;
+}
+
+function persist(): Promise<void> {
+  if (!config.dir) return Promise.resolve();
+  const dir = config.dir;
+  const file: CacheIndexFile = {
+    version: 1,
+    folders: Object.fromEntries(folders),
+    entries: Object.fromEntries(entries),
+  };
+  saving = saving
+    .catch(() => undefined)
+    .then(async () => {
+      await mkdir(dir, { recursive: true });
+      const path = join(dir, "index.json");
+      await writeFile(`${path}.tmp`, JSON.stringify(file), { mode: 0o600 });
+      await rename(`${path}.tmp`, path);
+    });
+  return saving;
+}
+
+function isReferenced(hash: string): boolean {
+  for (const entry of entries.values()) if (entry.hash === hash) return true;
+  return false;
+}
+
+/** Forget one entry; its source goes too once no other entry (e.g. a copy) shares it. */
+async function dropEntry(key: string): Promise<void> {
+  const entry = entries.get(key);
+  if (!entry) return;
+  entries.delete(key);
+  if (isReferenced(entry.hash)) return;
+  const cached = memory.get(entry.hash);
+  if (cached) {
+    memory.delete(entry.hash);
+    memoryBytes -= cached.length;
+  }
+  if (config.dir) {
+    diskBytes -= entry.size;
+    await unlink(objectPath(entry.hash)).catch(() => undefined);
+  }
+}
+
+function remember(hash: string, source: Buffer): void {
+  if (config.memoryBytes <= 0 || source.length > config.memoryBytes) return;
+  const existing = memory.get(hash);
+  if (existing) {
+    memory.delete(hash);
+    memory.set(hash, existing);
+    return;
+  }
+  memory.set(hash, source);
+  memoryBytes += source.length;
+  for (const [oldest, buf] of memory) {
+    if (memoryBytes <= config.memoryBytes) break;
+    memory.delete(oldest);
+    memoryBytes -= buf.length;
+    stats.evictions++;
+    // Memory only: the entry is useless without its source.
+    if (!config.dir) {
+      for (const [key, entry] of entries) if (entry.hash === oldest) entries.delete(key);
+    }
+  }
+}
+
+async function evictDisk(): Promise<void> {
+  if (diskBytes <= config.maxDiskBytes) return;
+  const byAge = [...entries].sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+  for (const [key] of byAge) {
+    if (diskBytes <= config.maxDiskBytes) break;
+    await dropEntry(key);
+    stats.evictions++;
+  }
+}
+
+async function readSource(entry: CacheEntry): Promise<{ source: Buffer; fromDisk: boolean } | undefined> {
+  const inMemory = memory.get(entry.hash);
+  if (inMemory) {
+    remember(entry.hash, inMemory);
+    return { source: inMemory, fromDisk: false };
+  }
+  if (!config.dir) return undefined;
+  try {
+    const source = await readFile(objectPath(entry.hash));
+    if (createHash("sha256").update(source).digest("hex") !== entry.hash) return undefined;
+    remember(entry.hash, source);
+    return { source, fromDisk: true };
+  } catch {
+    return undefined;
+  }
+}
+
+function restoreEnvelope(envelope: Envelope): Envelope {
+  // Dates come back from the JSON index as strings.
+  return envelope?.date ? { ...envelope, date: new Date(envelope.date) } : envelope;
+}
+
+/**
+ * Check the folder against the cache before a lookup: a new UIDVALIDITY drops it,
+ * a moved HIGHESTMODSEQ refreshes cached flags (CHANGEDSINCE) and prunes expunged
+ * UIDs. Returns the folder's key and whether cached flags are current.
+ */
+async function syncFolder(
+  client: ImapClientLike,
+  mailbox: string
+): Promise<{ folder: string; uidValidity: string; current: boolean } | undefined> {
+  const uidValidity = client.mailbox?.uidValidity?.toString();
+  const folder = folderKey(client, mailbox);
+  if (!enabled() || !uidValidity || !folder) return undefined;
+  await ensureLoaded();
+  const modseq = client.mailbox?.highestModseq?.toString();
+  const state = folders.get(folder);
+  if (!state || state.uidValidity !== uidValidity) {
+    if (state) {
+      stats.invalidations++;
+      for (const [key, entry] of [...entries]) if (entry.folder === folder) await dropEntry(key);
+    }
+    folders.set(folder, { uidValidity, highestModseq: modseq });
+    await persist();
+    return { folder, uidValidity, current: modseq != null };
+  }
+  if (!modseq) return { folder, uidValidity, current: false };
+  if (state.highestModseq === modseq) return { folder, uidValidity, current: true };
+
+  const cached = [...entries].filter(([, e]) => e.folder === folder);
+  if (cached.length > 0 && state.highestModseq) {
+    const byUid = new Map(cached.map(([key, e]) => [e.uid, key]));
+    const range = uidSequence([...byUid.keys()]);
+    for await (const msg of client.fetch(
+      range,
+      { uid: true, flags: true },
+      { uid: true, changedSince: BigInt(state.highestModseq) }
+    )) {
+      const entry = entries.get(byUid.get(msg.uid) ?? "");
+      if (!entry) continue;
+      entry.flags = [...(msg.flags ?? [])];
+      stats.flagRefreshes++;
+    }
+    // CHANGEDSINCE does not report expunges; drop cached UIDs the server no longer has.
+    const present = new Set((await client.search({ uid: range }, { uid: true })) || []);
+    for (const [uid, key] of byUid) if (!present.has(uid)) await dropEntry(key);
+  } else if (cached.length > 0) {
+    for (const [key] of cached) await dropEntry(key);
+  }
+  state.highestModseq = modseq;
+  await persist();
+  return { folder, uidValidity, current: true };
+}
+
+/** Cache one fetched source. The caller persists the index once for the whole batch. */
+async function store(folder: string, uidValidity: string, msg: CachedMessage): Promise<void> {
+  const hash = createHash("sha256").update(msg.source).digest("hex");
+  const key = entryKey(folder, uidValidity, msg.uid);
+  const fresh = !isReferenced(hash);
+  entries.set(key, {
+    folder,
+    uid: msg.uid,
+    hash,
+    size: msg.source.length,
+    envelope: msg.envelope,
+    flags: [...(msg.flags ?? [])],
+    lastUsed: Date.now(),
+  });
+  remember(hash, msg.source);
+  if (config.dir) {
+    if (fresh) {
+      const path = objectPath(hash);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, msg.source, { mode: 0o600 });
+      diskBytes += msg.source.length;
+    }
+    await evictDisk();
+  }
+}
+
+/**
+ * Envelope, flags and source of one message in the locked mailbox, from the cache
+ * when possible. Returns null when the message does not exist.
+ */
+export async function fetchMessageSource(
+  client: ImapClientLike,
+  mailbox: string,
+  uid: number
+): Promise<CachedMessage | null> {
+  const scope = await syncFolder(client, mailbox);
+  if (scope) {
+    const key = entryKey(scope.folder, scope.uidValidity, uid);
+    const entry = entries.get(key);
+    const found = entry ? await readSource(entry) : undefined;
+    if (entry && found) {
+      if (!scope.current) {
+        // No usable HIGHESTMODSEQ: confirm the message still exists and read its flags.
+        const fresh = await client.fetchOne(String(uid), { uid: true, flags: true }, { uid: true });
+        if (!fresh) {
+          await dropEntry(key);
+          return null;
+        }
+        entry.flags = [...(fresh.flags ?? [])];
+      }
+      entry.lastUsed = Date.now();
+      stats.hits++;
+      if (found.fromDisk) stats.diskHits++;
+      return { seq: 0, uid, envelope: restoreEnvelope(entry.envelope), flags: new Set(entry.flags), source: found.source };
+    }
+    if (entry) await dropEntry(key);
+    stats.misses++;
+  }
+  const msg = await client.fetchOne(
+    String(uid),
+    { uid: true, envelope: true, flags: true, source: true },
+    { uid: true }
+  );
+  if (!msg || !msg.source) return null;
+  const out = msg as CachedMessage;
+  if (scope) {
+    await store(scope.folder, scope.uidValidity, out);
+    await persist();
+  }
+  return out;
+}
+
+/** True when snippet sources for the locked mailbox should come through the cache. */
+export function cachesSources(client: ImapClientLike): boolean {
+  return enabled() && client.mailbox?.uidValidity != null && accountKeyOf(client) != null;
+}
+
+/**
+ * Fill `source` of already-fetched messages (their envelopes prove they exist):
+ * hits from the cache, misses in one batched fetch that is then cached.
+ */
+export async function attachSources(client: ImapClientLike, mailbox: string, msgs: FetchMessageObject[]): Promise<void> {
+  const scope = await syncFolder(client, mailbox);
+  if (!scope) return;
+  const missing = new Map<number, FetchMessageObject>();
+  for (const msg of msgs) {
+    const entry = entries.get(entryKey(scope.folder, scope.uidValidity, msg.uid));
+    const found = entry ? await readSource(entry) : undefined;
+    if (entry && found) {
+      entry.lastUsed = Date.now();
+      msg.source = found.source;
+      stats.hits++;
+      if (found.fromDisk) stats.diskHits++;
+    } else {
+      missing.set(msg.uid, msg);
+      stats.misses++;
+    }
+  }
+  if (missing.size === 0) return;
+  const fetched: CachedMessage[] = [];
+  for await (const msg of client.fetch(
+    [...missing.keys()],
+    { uid: true, envelope: true, flags: true, source: true },
+    { uid: true }
+  )) {
+    if (!msg.source) continue;
+    const target = missing.get(msg.uid);
+    if (target) target.source = msg.source;
+    fetched.push(msg as CachedMessage);
+  }
+  for (const msg of fetched) await store(scope.folder, scope.uidValidity, msg);
+  if (fetched.length > 0) await persist();
+}
@@ -0,0 +1,286 @@
+/**
+ * Message body and header rendering: HTML to plain text (default output) and to
+ * Markdown (rich format), plus structured addresses and selected raw headers.
+ */
+
+import { convert } from "html-to-text";
+import TurndownService from "turndown";
+import type { AddressObject, ParsedMail } from "mailparser";
+import { cleanBodyText, type BodyMode, type CleanedBody } from "./body-clean.js";
+import type { CalendarInvite } from "./calendar.js";
+import type { MessageEnvelope } from "./imap.js";
+
+export interface MessageAddress {
+  name?: string;
+  address?: string;
+}
+
+/** mail_get_message output with format "rich". */
+export interface RichMessageContent {
+  uid: number;
+  uri?: string;
+  messageId?: string;
+  subject: string;
+  date: string;
+  from: MessageAddress[];
+  to: MessageAddress[];
+  cc: MessageAddress[];
+  bcc: MessageAddress[];
+  replyTo: MessageAddress[];
+  inReplyTo?: string;
+  references?: string[];
+  /** Selected raw headers (lower-case names); repeated headers are joined with newlines. */
+  headers: Record<string, string>;
+  /** "markdown" when the message has an HTML part, otherwise "text". */
+  bodyFormat: "markdown" | "text";
+  body: string;
+  /** Present with bodyMode "new-content". */
+  bodyMode?: BodyMode;
+  /** Characters of quoted history/signature removed (bodyMode "new-content"). */
+  removedChars?: number;
+  /** Calendar invite from the message's text/calendar parts. */
+  invite?: CalendarInvite;
+  /** IMAP flags, e.g. \Seen, \Flagged. */
+  flags?: string[];
+}
+
+/** Raw headers worth showing to an LLM (mailing-list handling, sender authentication). */
+export const RICH_HEADER_NAMES = [
+  "list-id",
+  "list-unsubscribe",
+  "list-unsubscribe-post",
+  "authentication-results",
+];
+
+const DROPPED_ELEMENTS: TurndownService.Filter = ["script", "style", "head", "title", "meta", "noscript"];
+
+/** Quoted-reply and signature containers added by common webmail/desktop clients. */
+const QUOTED_HTML_SELECTORS = [
+  "div.gmail_quote",
+  "blockquote.gmail_quote",
+  'blockquote[type="cite"]',
+  "div.gmail_signature",
+  "div.moz-cite-prefix",
+  "div.moz-signature",
+  "div.yahoo_quoted",
+  "blockquote.protonmail_quote",
+  "div.protonmail_signature_block",
+];
+
+const PLAIN_TEXT_SELECTORS = [
+  { selector: "a", options: { hideLinkHrefIfSameAsText: true } },
+  { selector: "img", format: "skip" },
+  { selector: "table", format: "dataTable", options: { uppercaseHeaderCells: false } },
+  ...["h1", "h2", "h3", "h4", "h5", "h6"].map((selector) => ({ selector, options: { uppercase: false } })),
+];
+
+const STRIPPED_TEXT_SELECTORS = [
+  ...PLAIN_TEXT_SELECTORS,
+  ...QUOTED_HTML_SELECTORS.map((selector) => ({ selector, format: "skip" })),
+];
+
+/**
+ * Convert HTML to readable plain text (links kept as "text [url]", tables aligned).
+ * With stripQuotes, quoted-reply and signature containers are left out.
+ */
+export function htmlToPlainText(html: string, options: { stripQuotes?: boolean } = {}): string {
+  const selectors = options.stripQuotes ? STRIPPED_TEXT_SELECTORS : PLAIN_TEXT_SELECTORS;
+  return convert(html, { wordwrap: false, selectors }).trim();
+}
+
+type DomNode = TurndownService.Node & Element;
+
+function closestTable(node: Node): DomNode | undefined {
+  for (let p = node.parentNode; p; p = p.parentNode) {
+    if (p.nodeName === "TABLE") return p as DomNode;
+  }
+  return undefined;
+}
+
+/**
+ * Only real data tables become Markdown tables. Email layouts nest tables or use
+ * single-column tables for positioning; those are flattened into blocks.
+ */
+function isDataTable(table: DomNode | undefined): boolean {
+  if (!table || table.querySelector("table")) return false;
+  return Array.from(table.querySelectorAll("tr")).some((row) => row.querySelectorAll("td, th").length > 1);
+}
+
+function cellText(content: string): string {
+  return content.replace(/\s*\n+\s*/g, " ").replace(/\|/g, "\\|").trim();
+}
+
+function createTurndown(stripQuotes: boolean): TurndownService {
+  const service = new TurndownService({
+    headingStyle: "atx",
+    codeBlockStyle: "fenced",
+    bulletListMarker: "-",
+  });
+  service.remove(DROPPED_ELEMENTS);
+  if (stripQuotes) {
+    const quoted = QUOTED_HTML_SELECTORS.join(", ");
+    service.remove((node) => (node as DomNode).matches?.(quoted) === true);
+  }
+  service.addRule("tableCell", {
+    filter: ["th", "td"],
+    replacement: (content, node) =>
+      isDataTable(closestTable(node)) ? ` ${cellText(content)} |` : `\n\n${content}\n\n`,
+  });
+  service.addRule("tableRow", {
+    filter: "tr",
+    replacement: (content, node) => {
+      const table = closestTable(node);
+      if (!isDataTable(table)) return `\n\n${content}\n\n`;
+      const row = `|${content}\n`;
+      if (table?.querySelector("tr") !== node) return row;
+      const cells = (node as DomNode).querySelectorAll("td, th").length;
+      return `${row}|${" --- |".repeat(cells)}\n`;
+    },
+  });
+  service.addRule("tableSection", {
+    filter: ["thead", "tbody", "tfoot"],
+    replacement: (content) => content,
+  });
+  service.addRule("table", {
+    filter: "table",
+    replacement: (content, node) => (isDataTable(node as DomNode) ? `\n\n${content.trim()}\n\n` : `\n\n${content}\n\n`),
+  });
+  return service;
+}
+
+const turndownServices = new Map<boolean, TurndownService>();
+
+/**
+ * Convert HTML to Markdown, keeping links, lists and data tables and dropping
+ * script/style (and quoted-reply containers with stripQuotes).
+ */
+export function htmlToMarkdown(html: string, options: { stripQuotes?: boolean } = {}): string {
+  const stripQuotes = options.stripQuotes === true;
+  let service = turndownServices.get(stripQuotes);
+  if (!service) {
+    service = createTurndown(stripQuotes);
+    turndownServices.set(stripQuotes, service);
+  }
+  return service
+    .turndown(html)
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * True when the message has no text/plain part: mailparser then fills `text` with its
+ * own html-to-text output (same converter, default options) instead of leaving it empty.
+ */
+function textFromHtml(parsed: ParsedMail, html: string): boolean {
+  if (!html) return false;
+  if (!parsed.text) return true;
+  const contentType = parsed.headers?.get("content-type") as { value?: string } | undefined;
+  if (contentType?.value?.toLowerCase() === "text/html") return true;
+  return parsed.text === convert(html);
+}
+
+/**
+ * Body of a parsed message as plain text (or Markdown), cleaned for "new-content".
+ * A real text/plain part is used as is; HTML-only mail goes through htmlToPlainText.
+ * removedChars is measured against the same rendering in "full" mode.
+ */
+export function renderBody(parsed: ParsedMail, bodyMode: BodyMode, markdown: boolean = false): CleanedBody {
+  const html = typeof parsed.html === "string" ? parsed.html : "";
+  const htmlOnly = textFromHtml(parsed, html);
+  const render = (stripQuotes: boolean) => {
+    if (markdown && html) return htmlToMarkdown(html, { stripQuotes });
+    if (parsed.text && !htmlOnly) return parsed.text.trim();
+    return html ? htmlToPlainText(html, { stripQuotes }) : "";
+  };
+  const full = render(false);
+  if (bodyMode === "full") return { text: full, removedChars: 0 };
+  const cleaned = cleanBodyText(render(true));
+  return { text: cleaned.text, removedChars: Math.max(0, full.length - cleaned.text.length) };
+}
+
+/** Cut text to maxLength (0 = no limit), marking the cut. */
+export function truncateBody(text: string, maxLength: number): string {
+  return maxLength > 0 && text.length > maxLength ? text.slice(0, maxLength) + "\n[... truncated]" : text;
+}
+
+/**
+ * Split a shared character budget (0 = no limit) across bodies of the given lengths.
+ * Max-min fair: short bodies are kept whole and what they leave over goes to the longer ones.
+ */
+export function splitBodyBudget(lengths: number[], budget: number): number[] {
+  if (budget <= 0) return [...lengths];
+  const out = new Array<number>(lengths.length).fill(0);
+  const order = lengths.map((_, i) => i).sort((a, b) => lengths[a] - lengths[b]);
+  let remaining = budget;
+  order.forEach((index, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    out[index] = Math.min(lengths[index], share);
+    remaining -= out[index];
+  });
+  return out;
+}
+
+function toAddresses(field: AddressObject | AddressObject[] | undefined): MessageAddress[] {
+  const out: MessageAddress[] = [];
+  const visit = (entries: AddressObject["value"]) => {
+    for (const entry of entries) {
+      if (entry.group) {
+        visit(entry.group);
+        continue;
+      }
+      out.push({ name: entry.name || undefined, address: entry.address || undefined });
+    }
+  };
+  for (const obj of Array.isArray(field) ? field : field ? [field] : []) visit(obj.value);
+  return out;
+}
+
+function selectedHeaders(parsed: ParsedMail): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const { key, line } of parsed.headerLines ?? []) {
+    if (!RICH_HEADER_NAMES.includes(key)) continue;
+    const value = line
+      .slice(line.indexOf(":") + 1)
+      .replace(/\r?\n[ \t]+/g, " ")
+      .trim();
+    out[key] = out[key] ? `${out[key]}\n${value}` : value;
+  }
+  return out;
+}
+
+/**
+ * Build the rich representation of a parsed message. The body is Markdown when
+ * the message has HTML, otherwise its plain text; truncated to maxLength.
+ */
+export function toRichMessage(
+  envelope: MessageEnvelope,
+  parsed: ParsedMail,
+  maxLength: number,
+  bodyMode: BodyMode = "full"
+): RichMessageContent {
+  const html = typeof parsed.html === "string" ? parsed.html : "";
+  const body = renderBody(parsed, bodyMode, true);
+  const references = Array.isArray(parsed.references)
+    ? parsed.references
+    : parsed.references
+      ? [parsed.references]
+      : undefined;
+  return {
+    uid: envelope.uid,
+    uri: envelope.uri,
+    messageId: envelope.messageId,
+    subject: envelope.subject,
+    date: envelope.date,
+    from: toAddresses(parsed.from),
+    to: toAddresses(parsed.to),
+    cc: toAddresses(parsed.cc),
+    bcc: toAddresses(parsed.bcc),
+    replyTo: toAddresses(parsed.replyTo),
+    inReplyTo: parsed.inReplyTo,
+    references,
+    headers: selectedHeaders(parsed),
+    bodyFormat: html ? "markdown" : "text",
+    body: truncateBody(body.text, maxLength),
+    ...(bodyMode === "new-content" ? { bodyMode, removedChars: body.removedChars } : {}),
+  };
+}
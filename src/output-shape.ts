@@ -0,0 +1,279 @@
+/**
+ * Token-budget output shaping. Tool results are serialized as pretty JSON unless
+ * that exceeds the budget; then, in order: compact JSON, shorter snippets, fewer
+ * optional fields, a terse line-per-message text format, and finally fewer items
+ * (with a nextCursor where the tool's pagination allows continuing). Lists of full
+ * messages (mail_get_messages) keep their bodies instead: the shared body budget
+ * shrinks until they fit. The response reports what was done in `shaped`.
+ */
+
+import { splitBodyBudget, truncateBody } from "./message-format.js";
+import { decodeFolderCursor, encodeCursor, encodeFolderCursor, scopeOfCursor, type CursorScope } from "./query.js";
+
+/** How a tool's results can be continued after trailing items are dropped. */
+export type Continuation = "uid" | "folder";
+
+export interface ShapeOptions {
+  maxTokens: number;
+  continuation?: Continuation;
+  /** Cursor the call was made with (needed to rebuild folder cursors). */
+  cursor?: string;
+  /** Query binding of the tool's page, so new cursors are accepted by its next call. */
+  scope?: CursorScope;
+}
+
+export interface ShapeReport {
+  maxTokens: number;
+  /** Estimated tokens of the unshaped (pretty JSON) output. */
+  originalTokens: number;
+  /**
+   * Steps applied, in order, e.g. "compact-json", "snippets:100", "terse-format", "dropped-items:12",
+   * or "body-budget:4000" for message lists.
+   */
+  steps: string[];
+  /** True when even the most compact form exceeds the budget. */
+  overBudget?: boolean;
+}
+
+export interface ShapedOutput {
+  text: string;
+  shaped?: ShapeReport;
+}
+
+type Item = Record<string, unknown>;
+
+const SNIPPET_STEPS = [160, 80, 0];
+const OPTIONAL_ITEM_FIELDS = ["uri", "messageId", "to", "copies", "score"];
+const LIST_KEYS = ["items", "messages"];
+const MIN_TRUNCATED_STRING = 200;
+
+/**
+ * Approximate token count (roughly GPT/Llama BPE): runs of letters or digits cost
+ * one token per ~4 characters, every other non-space character costs one. It
+ * over-counts JSON punctuation slightly, which errs on the safe side.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu)) {
+    const word = match[0];
+    tokens += word.length === 1 ? 1 : Math.ceil(word.length / 4);
+  }
+  return tokens;
+}
+
+function fits(text: string, maxTokens: number): boolean {
+  return estimateTokens(text) <= maxTokens;
+}
+
+function listKey(value: Item): string | undefined {
+  return LIST_KEYS.find((key) => Array.isArray(value[key]));
+}
+
+function trimSnippets(items: Item[], length: number): Item[] {
+  return items.map((item) => {
+    if (typeof item.snippet !== "string") return item;
+    const { snippet, ...rest } = item;
+    if (length === 0) return rest;
+    return { ...rest, snippet: snippet.length > length ? `${snippet.slice(0, length)}...` : snippet };
+  });
+}
+
+function dropOptionalFields(items: Item[]): Item[] {
+  return items.map((item) => {
+    const out = { ...item };
+    for (const field of OPTIONAL_ITEM_FIELDS) delete out[field];
+    return out;
+  });
+}
+
+/** Rich-format addresses are `{ name, address }` arrays; envelopes already carry a string. */
+function addressText(value: unknown): string {
+  if (!Array.isArray(value)) return String(value ?? "");
+  return value
+    .map((a: { name?: string; address?: string }) => (a.name && a.address ? `${a.name} <${a.address}>` : a.address ?? a.name ?? ""))
+    .join(", ");
+}
+
+function terseLine(item: Item): string {
+  // Text-format messages nest the envelope next to their body.
+  const e = item.envelope && typeof item.envelope === "object" ? { ...item, ...(item.envelope as Item) } : item;
+  const where = [e.account, e.mailbox].filter((v) => typeof v === "string" && v).join(":");
+  const date = typeof e.date === "string" ? e.date.slice(0, 16).replace("T", " ") : "";
+  const fields = [String(e.uid ?? ""), date, addressText(e.from), String(e.subject ?? "")];
+  return (where ? `${where} ` : "") + fields.join(" | ");
+}
+
+function terseText(page: Item, key: string, items: Item[], report: ShapeReport): string {
+  const header = `[shaped to fit maxTokens=${report.maxTokens}: ${report.steps.join(", ")}]`;
+  const lines = [header];
+  if (typeof page.nextCursor === "string") lines.push(`nextCursor: ${page.nextCursor}`);
+  lines.push(`${key}: uid | date | from | subject`);
+  for (const item of items) lines.push(terseLine(item));
+  return lines.join("\n");
+}
+
+function folderKey(item: Item): string {
+  return item.account ? `${item.account}:${item.mailbox}` : String(item.mailbox ?? "");
+}
+
+/** Cursor continuing right after the last kept item, or undefined if the tool cannot resume there. */
+function continuationCursor(kept: Item[], dropped: Item[], options: ShapeOptions, original?: string): string | undefined {
+  if (dropped.length === 0) return original;
+  const scope = options.scope ?? scopeOfCursor(original ?? options.cursor);
+  if (options.continuation === "uid") {
+    const last = kept[kept.length - 1]?.uid;
+    return typeof last === "number" ? encodeCursor(last, scope) : undefined;
+  }
+  if (options.continuation === "folder") {
+    const previous = decodeFolderCursor(options.cursor, scope) ?? { positions: {}, done: [], uidValidity: {} };
+    const next = original ? decodeFolderCursor(original, scope) : undefined;
+    const positions = { ...previous.positions };
+    for (const item of kept) {
+      // Same date key the cross-folder merge orders by.
+      const date = Date.parse(String(item.date ?? ""));
+      if (typeof item.uid !== "number") continue;
+      positions[folderKey(item)] = { uid: item.uid, date: Number.isNaN(date) ? 0 : date };
+    }
+    const reopened = new Set(dropped.map(folderKey));
+    const done = (next?.done ?? previous.done).filter((f) => !reopened.has(f));
+    const uidValidity = { ...previous.uidValidity, ...next?.uidValidity };
+    return encodeFolderCursor({ positions, done, uidValidity }, scope);
+  }
+  return undefined;
+}
+
+function shapeList(value: Item, key: string, options: ShapeOptions, report: ShapeReport): ShapedOutput {
+  let items = value[key] as Item[];
+  const withReport = (page: Item): string => JSON.stringify({ ...page, shaped: report });
+
+  for (const length of SNIPPET_STEPS) {
+    if (!items.some((item) => typeof item.snippet === "string" && item.snippet.length > length)) continue;
+    items = trimSnippets(items, length);
+    report.steps.push(length === 0 ? "dropped-snippets" : `snippets:${length}`);
+    const text = withReport({ ...value, [key]: items });
+    if (fits(text, options.maxTokens)) return { text, shaped: report };
+  }
+
+  items = dropOptionalFields(items);
+  report.steps.push(`dropped-fields:${OPTIONAL_ITEM_FIELDS.join("/")}`);
+  let text = withReport({ ...value, [key]: items });
+  if (fits(text, options.maxTokens)) return { text, shaped: report };
+
+  report.steps.push("terse-format");
+  text = terseText(value, key, items, report);
+  if (fits(text, options.maxTokens)) return { text, shaped: report };
+
+  // Drop trailing items until the terse form fits (keeping at least one).
+  const originalCursor = typeof value.nextCursor === "string" ? value.nextCursor : undefined;
+  const allItems = items;
+  let keep = allItems.length;
+  while (keep > 1 && !fits(text, options.maxTokens)) {
+    keep = Math.max(1, Math.floor(keep * 0.75));
+    const kept = allItems.slice(0, keep);
+    const nextCursor = continuationCursor(kept, allItems.slice(keep), options, originalCursor);
+    const steps = report.steps.filter((s) => !s.startsWith("dropped-items"));
+    steps.push(`dropped-items:${allItems.length - keep}${nextCursor ? "" : " (no cursor: narrow the query)"}`);
+    report.steps = steps;
+    text = terseText({ ...value, nextCursor }, key, kept, report);
+  }
+  if (!fits(text, options.maxTokens)) report.overBudget = true;
+  return { text, shaped: report };
+}
+
+function bodyField(item: Item): "bodyText" | "body" | undefined {
+  if (typeof item.bodyText === "string") return "bodyText";
+  if (typeof item.body === "string") return "body";
+  return undefined;
+}
+
+/**
+ * Lists of full messages: shrink the body budget the messages share (split the way
+ * mail_get_messages splits it) instead of dropping bodies for terse lines.
+ */
+function shapeBodies(value: Item, key: string, options: ShapeOptions, report: ShapeReport): ShapedOutput {
+  const items = value[key] as Item[];
+  const bodies = items.map((item) => {
+    const field = bodyField(item);
+    return field ? (item[field] as string) : "";
+  });
+  const total = bodies.reduce((sum, body) => sum + body.length, 0);
+  const floor = Math.min(total, MIN_TRUNCATED_STRING * items.length);
+  let budget = total;
+  let text = JSON.stringify({ ...value, shaped: report });
+  for (let round = 0; round < 20 && budget > floor && !fits(text, options.maxTokens); round += 1) {
+    const excess = estimateTokens(text) - options.maxTokens;
+    // ~3 characters per token for prose; overshoot a little to converge quickly.
+    budget = Math.max(floor, budget - excess * 3 - 50);
+    const allowed = splitBodyBudget(bodies.map((body) => body.length), budget);
+    const shaped = items.map((item, i) => {
+      const field = bodyField(item);
+      if (!field || allowed[i] >= bodies[i].length) return item;
+      return { ...item, [field]: truncateBody(bodies[i], Math.max(1, allowed[i])) };
+    });
+    report.steps = [...report.steps.filter((s) => !s.startsWith("body-budget:")), `body-budget:${budget}`];
+    const page = { ...value, [key]: shaped, ...(typeof value.bodyBudget === "number" ? { bodyBudget: budget } : {}) };
+    text = JSON.stringify({ ...page, shaped: report });
+  }
+  if (!fits(text, options.maxTokens)) report.overBudget = true;
+  return { text, shaped: report };
+}
+
+function longestString(value: unknown, path: string[] = []): { path: string[]; length: number } | undefined {
+  if (typeof value === "string") return { path, length: value.length };
+  if (!value || typeof value !== "object") return undefined;
+  let best: { path: string[]; length: number } | undefined;
+  for (const [k, v] of Object.entries(value)) {
+    const found = longestString(v, [...path, k]);
+    if (found && (!best || found.length > best.length)) best = found;
+  }
+  return best;
+}
+
+function setPath(value: unknown, path: string[], text: string): void {
+  let target = value as Record<string, unknown>;
+  for (const k of path.slice(0, -1)) target = target[k] as Record<string, unknown>;
+  target[path[path.length - 1]] = text;
+}
+
+/** Shorten the longest string fields (e.g. bodyText) until the compact JSON fits. */
+function shapeStrings(value: Item, options: ShapeOptions, report: ShapeReport): ShapedOutput {
+  const copy = JSON.parse(JSON.stringify(value)) as Item;
+  const truncated = new Set<string>();
+  let text = JSON.stringify({ ...copy, shaped: report });
+  for (let round = 0; round < 20 && !fits(text, options.maxTokens); round += 1) {
+    const longest = longestString(copy);
+    if (!longest || longest.length <= MIN_TRUNCATED_STRING) break;
+    const current = longest.path.reduce<unknown>((v, k) => (v as Record<string, unknown>)[k], copy) as string;
+    const excess = estimateTokens(text) - options.maxTokens;
+    // ~3 characters per token for prose; overshoot a little to converge quickly.
+    const target = Math.max(MIN_TRUNCATED_STRING, current.length - excess * 3 - 50);
+    setPath(copy, longest.path, `${current.slice(0, target)}\n[... truncated to fit maxTokens]`);
+    truncated.add(longest.path.join("."));
+    report.steps = [...report.steps.filter((s) => !s.startsWith("truncated:")), `truncated:${[...truncated].join("/")}`];
+    text = JSON.stringify({ ...copy, shaped: report });
+  }
+  if (!fits(text, options.maxTokens)) report.overBudget = true;
+  return { text, shaped: report };
+}
+
+/**
+ * Serialize a tool result within `options.maxTokens` (0 = no budget: pretty JSON).
+ */
+export function shapeOutput(value: unknown, options: ShapeOptions): ShapedOutput {
+  const pretty = JSON.stringify(value, null, 2);
+  if (options.maxTokens <= 0 || fits(pretty, options.maxTokens)) return { text: pretty };
+
+  const report: ShapeReport = { maxTokens: options.maxTokens, originalTokens: estimateTokens(pretty), steps: [] };
+  // Arrays of envelopes are wrapped so the report (and a cursor) can travel with them.
+  const page: Item = Array.isArray(value) ? { items: value } : (value as Item);
+  if (!page || typeof page !== "object") return { text: pretty };
+
+  report.steps.push("compact-json");
+  const compact = JSON.stringify({ ...page, shaped: report });
+  if (fits(compact, options.maxTokens)) return { text: compact, shaped: report };
+
+  const key = listKey(page);
+  if (!key) return shapeStrings(page, options, report);
+  const items = page[key] as Item[];
+  return items.some((item) => bodyField(item)) ? shapeBodies(page, key, options, report) : shapeList(page, key, options, report);
+}
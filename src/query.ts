@@ -1,3 +1,5 @@
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
 export type SortOrder = "asc" | "desc";
 
 export interface PaginationInput {
@@ -5,6 +7,8 @@ export interface PaginationInput {
   limit?: number;
   maxResults?: number;
   sort?: SortOrder;
+  /** Binds nextCursor to the query and checks the incoming cursor against it. */
+  scope?: CursorScope;
 }
 
 export interface PaginationResult {
@@ -18,6 +22,18 @@ export function normalizeSort(sort: unknown): SortOrder {
   return sort === "asc" ? "asc" : "desc";
 }
 
+/** Sort keys for `sortBy` (RFC 5256 SORT criteria). Without one, results are in UID order. */
+export const SORT_KEYS = ["arrival", "date", "from", "subject", "size", "to"] as const;
+export type SortBy = (typeof SORT_KEYS)[number];
+
+export function normalizeSortBy(value: unknown): SortBy | undefined {
+  if (value == null || value === "" || value === "uid") return undefined;
+  if (!SORT_KEYS.includes(value as SortBy)) {
+    throw new Error(`Invalid sortBy: ${String(value)}. Use one of ${SORT_KEYS.join(", ")}`);
+  }
+  return value as SortBy;
+}
+
 export function clampLimit(
   value: unknown,
   maxResults: number,
@@ -30,25 +46,194 @@ export function clampLimit(
   return Math.min(normalized, cap);
 }
 
-export function encodeCursor(uid: number): string {
-  return Buffer.from(String(uid), "utf8").toString("base64url");
+/**
+ * What a cursor is bound to: the mailbox (or "*" across folders), its UIDVALIDITY and
+ * a hash of the normalized criteria and sort settings. Decoding with a scope rejects
+ * cursors from another query or from before a UIDVALIDITY change.
+ */
+export interface CursorScope {
+  mailbox: string;
+  uidValidity?: string;
+  queryHash: string;
 }
 
-export function decodeCursor(cursor: string | undefined): number | undefined {
-  if (!cursor) return undefined;
-  let decoded: string;
+interface CursorPayload {
+  m?: string;
+  v?: string;
+  q?: string;
+  p: unknown;
+}
+
+let cursorSecret: Buffer | undefined;
+
+/**
+ * Sign cursors with an HMAC (e.g. a random per-process secret) or stop signing
+ * (no argument). Signed cursors fail to decode once the secret changes.
+ */
+export function configureCursorSigning(secret?: Buffer | string): void {
+  cursorSecret = secret == null || secret.length === 0 ? undefined : Buffer.from(secret);
+}
+
+/** Drop empty values and sort keys so equivalent criteria hash the same. */
+function normalizeForHash(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string") return value.trim();
+  if (Array.isArray(value)) return value.map(normalizeForHash);
+  if (!value || typeof value !== "object") return value;
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    const v = normalizeForHash((value as Record<string, unknown>)[key]);
+    if (v == null || v === "" || v === false || (Array.isArray(v) && v.length === 0)) continue;
+    out[key] = v;
+  }
+  return out;
+}
+
+export function cursorScope(mailbox: string, uidValidity: string | undefined, query: unknown): CursorScope {
+  const queryHash = createHash("sha256")
+    .update(JSON.stringify(normalizeForHash(query) ?? null))
+    .digest("base64url")
+    .slice(0, 16);
+  return { mailbox, uidValidity, queryHash };
+}
+
+function sign(body: string): string {
+  return createHmac("sha256", cursorSecret as Buffer).update(body).digest("base64url");
+}
+
+function sealCursor(position: unknown, scope?: CursorScope): string {
+  const payload: CursorPayload = scope
+    ? { m: scope.mailbox, v: scope.uidValidity, q: scope.queryHash, p: position }
+    : { p: position };
+  const body = Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+  return cursorSecret ? `${body}.${sign(body)}` : body;
+}
+
+function readCursor(cursor: string): CursorPayload {
+  const [body, signature, ...rest] = cursor.split(".");
+  if (rest.length > 0 || !body) throw new Error("Invalid cursor value");
+  if (cursorSecret) {
+    const expected = Buffer.from(sign(body));
+    const given = Buffer.from(signature ?? "");
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      throw new Error("Invalid cursor signature: it was altered or issued before a restart, restart pagination");
+    }
+  }
+  let raw: unknown;
   try {
-    decoded = Buffer.from(cursor, "base64url").toString("utf8").trim();
+    raw = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
   } catch {
     throw new Error("Invalid cursor value");
   }
-  const n = Number(decoded);
-  if (!Number.isInteger(n) || n <= 0) {
+  if (!raw || typeof raw !== "object" || !("p" in raw)) throw new Error("Invalid cursor value");
+  return raw as CursorPayload;
+}
+
+/** Verify a cursor (signature, and binding when `scope` is given) and return its position. */
+function openCursor(cursor: string, scope?: CursorScope): unknown {
+  const payload = readCursor(cursor);
+  if (scope) {
+    if (payload.m !== scope.mailbox || payload.q !== scope.queryHash) {
+      throw new Error("Invalid cursor: cursor belongs to a different query");
+    }
+    if (payload.v !== scope.uidValidity) throw new Error("Invalid cursor: mailbox was reset, restart pagination");
+  }
+  return payload.p;
+}
+
+/**
+ * Binding of an existing cursor, for issuing a new position in the same query
+ * (e.g. when output shaping drops items). Undefined for unbound cursors.
+ */
+export function scopeOfCursor(cursor: string | undefined): CursorScope | undefined {
+  if (!cursor) return undefined;
+  const payload = readCursor(cursor);
+  if (payload.m == null || payload.q == null) return undefined;
+  return { mailbox: payload.m, uidValidity: payload.v, queryHash: payload.q };
+}
+
+export function encodeCursor(uid: number, scope?: CursorScope): string {
+  return sealCursor(uid, scope);
+}
+
+export function decodeCursor(cursor: string | undefined, scope?: CursorScope): number | undefined {
+  if (!cursor) return undefined;
+  const n = openCursor(cursor, scope);
+  if (typeof n !== "number" || !Number.isInteger(n) || n <= 0) {
     throw new Error("Invalid cursor value");
   }
   return n;
 }
 
+/** Last message already returned from one folder, in date order (ties by UID). */
+export interface FolderPosition {
+  uid: number;
+  /** Date sort key in milliseconds (Date header, else internal date). */
+  date: number;
+}
+
+/**
+ * Cross-folder cursor: the position reached in each folder, folders with no further
+ * matches, and the UIDVALIDITY each folder had so a reset folder is detected.
+ */
+export interface FolderCursor {
+  positions: Record<string, FolderPosition>;
+  done: string[];
+  uidValidity: Record<string, string>;
+}
+
+export function encodeFolderCursor(cursor: FolderCursor, scope?: CursorScope): string {
+  const positions = Object.fromEntries(Object.entries(cursor.positions).map(([f, p]) => [f, [p.date, p.uid]]));
+  return sealCursor({ p: positions, d: cursor.done, v: cursor.uidValidity }, scope);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+}
+
+export function decodeFolderCursor(cursor: string | undefined, scope?: CursorScope): FolderCursor | undefined {
+  if (!cursor) return undefined;
+  const obj = openCursor(cursor, scope) as { p?: unknown; d?: unknown; v?: unknown } | null;
+  if (!obj || !isRecord(obj.p) || !Array.isArray(obj.d) || !isRecord(obj.v)) {
+    throw new Error("Invalid cursor value");
+  }
+  const positions: Record<string, FolderPosition> = {};
+  for (const [folder, position] of Object.entries(obj.p)) {
+    const [date, uid] = Array.isArray(position) ? position : [];
+    if (typeof date !== "number" || !Number.isFinite(date)) throw new Error("Invalid cursor value");
+    if (typeof uid !== "number" || !Number.isInteger(uid) || uid <= 0) throw new Error("Invalid cursor value");
+    positions[folder] = { uid, date };
+  }
+  if (obj.d.some((f) => typeof f !== "string")) throw new Error("Invalid cursor value");
+  if (Object.values(obj.v).some((v) => typeof v !== "string")) throw new Error("Invalid cursor value");
+  return { positions, done: obj.d as string[], uidValidity: obj.v as Record<string, string> };
+}
+
+/**
+ * Cursor for `sortBy` pages: the sort key and UID of the last message returned, so
+ * the next page starts after that position even if messages arrive or are expunged.
+ */
+export interface SortCursor {
+  sortBy: SortBy;
+  key: string | number;
+  uid: number;
+}
+
+export function encodeSortCursor(cursor: SortCursor, scope?: CursorScope): string {
+  return sealCursor({ s: cursor.sortBy, k: cursor.key, u: cursor.uid }, scope);
+}
+
+export function decodeSortCursor(cursor: string | undefined, sortBy: SortBy, scope?: CursorScope): SortCursor | undefined {
+  if (!cursor) return undefined;
+  const obj = openCursor(cursor, scope) as { s?: unknown; k?: unknown; u?: unknown } | null;
+  if (!obj || typeof obj !== "object" || (typeof obj.k !== "string" && typeof obj.k !== "number")) {
+    throw new Error("Invalid cursor value");
+  }
+  if (typeof obj.u !== "number" || !Number.isInteger(obj.u) || obj.u <= 0) throw new Error("Invalid cursor value");
+  if (obj.s !== sortBy) throw new Error(`Cursor was created for sortBy ${String(obj.s)}, not ${sortBy}`);
+  return { sortBy, key: obj.k, uid: obj.u };
+}
+
 export function paginateUids(
   matchedUids: number[],
   input: PaginationInput = {}
@@ -56,7 +241,7 @@ export function paginateUids(
   const sort = normalizeSort(input.sort);
   const limit = clampLimit(input.limit, input.maxResults ?? 200, 50);
   const uniqueAsc = Array.from(new Set(matchedUids)).filter((v) => v > 0).sort((a, b) => a - b);
-  const cursorUid = decodeCursor(input.cursor);
+  const cursorUid = decodeCursor(input.cursor, input.scope);
 
   let ordered = sort === "asc" ? uniqueAsc : uniqueAsc.slice().reverse();
   if (cursorUid != null) {
@@ -65,7 +250,8 @@ export function paginateUids(
 
   const pageUids = ordered.slice(0, limit);
   const hasMore = ordered.length > pageUids.length;
-  const nextCursor = hasMore && pageUids.length > 0 ? encodeCursor(pageUids[pageUids.length - 1]) : undefined;
+  const nextCursor =
+    hasMore && pageUids.length > 0 ? encodeCursor(pageUids[pageUids.length - 1], input.scope) : undefined;
   return { pageUids, nextCursor, sort, limit };
 }
 
@@ -0,0 +1,87 @@
+/**
+ * MCP resources: folders, messages and attachments exposed as imap:// URIs.
+ * Reads go through the same read-only functions as the tools.
+ */
+
+import type { ImapConfig, MailConfig } from "./config.js";
+import * as imap from "./imap.js";
+import { folderUri, parseResourceUri } from "./uri.js";
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export type McpResourceContents =
+  | { uri: string; mimeType?: string; text: string }
+  | { uri: string; mimeType?: string; blob: string };
+
+const FOLDER_PREVIEW_LIMIT = 20;
+
+/**
+ * List folders as resources. Messages and attachments are reachable via resource templates.
+ */
+export async function listResources(config: ImapConfig): Promise<McpResource[]> {
+  const folders = await imap.listFolders(config);
+  return folders.map((f) => ({
+    uri: folderUri(f.path),
+    name: f.path,
+    description:
+      f.messages != null ? `${f.messages} messages, ${f.unseen ?? 0} unseen` : undefined,
+    mimeType: "application/json",
+  }));
+}
+
+function assertSameUidValidity(requested: string | undefined, actualUri: string | undefined, uri: string): void {
+  if (!requested || !actualUri) return;
+  const actual = parseResourceUri(actualUri).uidValidity;
+  if (actual && actual !== requested) {
+    throw new Error(
+      `Mailbox UIDVALIDITY changed (${requested} -> ${actual}); UIDs in ${uri} are no longer valid. List the folder again.`
+    );
+  }
+}
+
+/**
+ * Read one imap:// resource. Message resources return the same JSON as mail_get_message.
+ */
+export async function readResource(
+  config: ImapConfig,
+  mailConfig: MailConfig,
+  uri: string
+): Promise<McpResourceContents[]> {
+  const target = parseResourceUri(uri);
+
+  if (target.kind === "folder") {
+    const status = await imap.getMailboxStatus(config, target.mailbox);
+    const recent = await imap.listMessagesPage(config, target.mailbox, {
+      limit: FOLDER_PREVIEW_LIMIT,
+      maxResults: mailConfig.maxResults,
+      snippetLength: mailConfig.snippetLength,
+    });
+    return [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify({ status, recent: recent.items, nextCursor: recent.nextCursor }, null, 2),
+      },
+    ];
+  }
+
+  const uid = target.uid as number;
+  if (target.kind === "message") {
+    const msg = await imap.getMessage(config, mailConfig, target.mailbox, uid);
+    if (!msg) throw new Error(`Message not found: ${target.mailbox} UID ${uid}`);
+    assertSameUidValidity(target.uidValidity, msg.envelope.uri, uri);
+    return [{ uri, mimeType: "application/json", text: JSON.stringify(msg, null, 2) }];
+  }
+
+  const attachment = await imap.getAttachment(config, mailConfig, target.mailbox, uid, target.part as string);
+  if (!attachment) throw new Error(`Message not found: ${target.mailbox} UID ${uid}`);
+  assertSameUidValidity(target.uidValidity, attachment.info.uri, uri);
+  const mimeType = attachment.info.contentType;
+  if (attachment.kind === "text") return [{ uri, mimeType, text: attachment.text ?? "" }];
+  return [{ uri, mimeType, blob: attachment.base64 ?? "" }];
+}
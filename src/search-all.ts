@@ -0,0 +1,312 @@
+/**
+ * Cross-folder search: runs the same advanced search in every selected folder and
+ * merges the results by date. Each folder's matches are ordered by date (UID SORT,
+ * or fetched date keys), so mail with low UIDs (imported or moved) is not skipped.
+ * Pagination uses a composite cursor holding one position per folder (see
+ * FolderCursor in query.ts). searchAllAccounts does the same over several accounts.
+ * Read-only.
+ */
+
+import type { ImapConfig } from "./config.js";
+import { withClient, withMailbox } from "./connection.js";
+import { resolveMailboxInList } from "./folders.js";
+import {
+  buildAdvancedSearchQuery,
+  fetchEnvelopesByUids,
+  resolveListOptions,
+  withBulkFilter,
+  type AdvancedSearchCriteria,
+  type ImapListEntry,
+  type ListQueryOptions,
+  type MessageEnvelope,
+} from "./imap.js";
+import {
+  cursorScope,
+  decodeFolderCursor,
+  encodeFolderCursor,
+  type CursorScope,
+  type FolderPosition,
+  type SortOrder,
+} from "./query.js";
+import { sortedPositions } from "./sort.js";
+
+export interface SearchAllOptions extends ListQueryOptions {
+  /** Only search these folders. Default: every selectable folder except Trash and Junk. */
+  includeFolders?: string[];
+  /** Never search these folders (applied after includeFolders). */
+  excludeFolders?: string[];
+}
+
+export interface SearchAllResult {
+  items: MessageEnvelope[];
+  nextCursor?: string;
+  /** Folders that were searched for this page ("account:folder" for cross-account search). */
+  folders: string[];
+  /** Folders whose search failed; results from the other folders are still returned. */
+  errors?: Array<{ account?: string; mailbox: string; error: string }>;
+  /** What this search's cursors are bound to, for building new ones (output shaping); not tool output. */
+  cursorScope?: CursorScope;
+}
+
+/** One account searched by searchAllAccounts. */
+export interface SearchAccount {
+  name: string;
+  config: ImapConfig;
+}
+
+interface SearchTarget {
+  /** Cursor key and label: the mailbox, prefixed with "account:" across accounts. */
+  key: string;
+  account?: string;
+  config: ImapConfig;
+  mailbox: string;
+}
+
+interface FolderCandidates {
+  target: SearchTarget;
+  /** Next matches after the cursor position, in date order for the requested sort. */
+  candidates: MessageEnvelope[];
+  hasMore: boolean;
+  uidValidity?: string;
+}
+
+const DEFAULT_EXCLUDED_SPECIAL_USE = new Set(["\\Trash", "\\Junk"]);
+const UNSELECTABLE_FLAGS = ["\\noselect", "\\nonexistent"];
+
+function isSameFolder(a: string, b: string): boolean {
+  if (a.toUpperCase() === "INBOX" && b.toUpperCase() === "INBOX") return true;
+  return a === b;
+}
+
+function isSelectable(entry: ImapListEntry): boolean {
+  const flags = Array.from(entry.flags ?? []).map((f) => f.toLowerCase());
+  return !UNSELECTABLE_FLAGS.some((f) => flags.includes(f));
+}
+
+/**
+ * Resolve which folders a cross-folder search covers.
+ */
+export async function resolveSearchFolders(
+  config: ImapConfig,
+  includeFolders?: string[],
+  excludeFolders?: string[]
+): Promise<string[]> {
+  const entries = await withClient(config, (client) => client.list());
+  const selectable = entries.filter((e) => e.path && isSelectable(e));
+
+  let folders: string[];
+  if (includeFolders && includeFolders.length > 0) {
+    folders = includeFolders.map((requested) => {
+      const name = resolveMailboxInList(entries, requested);
+      const match = selectable.find((e) => isSameFolder(String(e.path), name));
+      if (!match) throw new Error(`Folder not found: ${name}`);
+      return String(match.path);
+    });
+  } else {
+    folders = selectable
+      .filter((e) => !DEFAULT_EXCLUDED_SPECIAL_USE.has(e.specialUse ?? ""))
+      .map((e) => String(e.path));
+  }
+
+  const excluded = (excludeFolders ?? []).map((name) => resolveMailboxInList(entries, name));
+  return Array.from(new Set(folders)).filter((f) => !excluded.some((x) => isSameFolder(f, x)));
+}
+
+function dateValue(envelope: MessageEnvelope): number {
+  const t = Date.parse(envelope.date);
+  return Number.isNaN(t) ? 0 : t;
+}
+
+/**
+ * k-way merge by date. Each folder's candidates are already in date order, so what a
+ * page consumes from a folder is always a prefix and the cursor only needs its last position.
+ */
+function mergeByDate(streams: FolderCandidates[], limit: number, sort: SortOrder): { items: MessageEnvelope[]; consumed: number[] } {
+  const consumed = streams.map(() => 0);
+  const items: MessageEnvelope[] = [];
+  while (items.length < limit) {
+    let best = -1;
+    for (let i = 0; i < streams.length; i += 1) {
+      const head = streams[i].candidates[consumed[i]];
+      if (!head) continue;
+      if (best < 0) {
+        best = i;
+        continue;
+      }
+      const current = dateValue(streams[best].candidates[consumed[best]]);
+      const candidate = dateValue(head);
+      if (sort === "asc" ? candidate < current : candidate > current) best = i;
+    }
+    if (best < 0) break;
+    items.push(streams[best].candidates[consumed[best]]);
+    consumed[best] += 1;
+  }
+  return { items, consumed };
+}
+
+async function addSnippets(
+  streams: FolderCandidates[],
+  consumed: number[],
+  snippetLength: number
+): Promise<void> {
+  for (let i = 0; i < streams.length; i += 1) {
+    const { target, candidates } = streams[i];
+    const list = candidates.slice(0, consumed[i]);
+    if (list.length === 0) continue;
+    const withSnippets = await withMailbox(target.config, target.mailbox, (client) =>
+      fetchEnvelopesByUids(client, target.mailbox, list.map((m) => m.uid), true, snippetLength)
+    );
+    const snippets = new Map(withSnippets.map((m) => [m.uid, m.snippet]));
+    for (const item of list) item.snippet = snippets.get(item.uid);
+  }
+}
+
+async function searchTargets(
+  targets: SearchTarget[],
+  criteria: AdvancedSearchCriteria,
+  options: SearchAllOptions,
+  resolveErrors: Array<{ account?: string; mailbox: string; error: string }> = []
+): Promise<SearchAllResult> {
+  const opts = resolveListOptions(options, {
+    defaultLimit: 50,
+    maxResults: options.maxResults ?? 200,
+    snippetLength: options.snippetLength ?? 400,
+  });
+  const query = withBulkFilter(buildAdvancedSearchQuery(criteria), options.excludeBulk);
+  // Bound to the search, not to one folder: each folder's UIDVALIDITY is not tracked here.
+  const accounts = new Set([...targets, ...resolveErrors].map((t) => t.account).filter((a) => a != null));
+  const scope = cursorScope("*", undefined, {
+    kind: "search-all",
+    criteria,
+    excludeBulk: options.excludeBulk,
+    includeFolders: options.includeFolders,
+    excludeFolders: options.excludeFolders,
+    accounts: Array.from(accounts).sort(),
+    sort: opts.sort,
+  });
+  const cursor = decodeFolderCursor(opts.cursor, scope);
+
+  const streams: FolderCandidates[] = [];
+  const errors = [...resolveErrors];
+  const searched: string[] = [];
+  const resetFolders: string[] = [];
+  for (const target of targets) {
+    const { key, account, mailbox } = target;
+    if (cursor?.done.includes(key)) continue;
+    searched.push(key);
+    const after = cursor?.positions[key];
+    try {
+      const stream = await withMailbox(target.config, mailbox, async (client) => {
+        const uidValidity = client.mailbox?.uidValidity?.toString();
+        const previousValidity = cursor?.uidValidity[key];
+        if (previousValidity != null && previousValidity !== uidValidity) {
+          resetFolders.push(key);
+          return undefined;
+        }
+        const matchedRaw = await client.search(query, { uid: true });
+        // No folder can contribute more than one page, so take at most `limit` per folder.
+        const { positions, hasMore } = await sortedPositions(client, Array.isArray(matchedRaw) ? matchedRaw : [], {
+          sortBy: "date",
+          sort: opts.sort,
+          limit: opts.limit,
+          after: after ? { key: after.date, uid: after.uid } : undefined,
+        });
+        const envelopes = new Map(
+          (await fetchEnvelopesByUids(client, mailbox, positions.map((p) => p.uid), false, 0)).map((e) => [e.uid, e])
+        );
+        const candidates: MessageEnvelope[] = [];
+        for (const { uid, key: date } of positions) {
+          const e = envelopes.get(uid);
+          if (!e) continue;
+          // Without a Date header the internal date orders the message; show that date.
+          if (!e.date) e.date = new Date(date).toISOString();
+          e.mailbox = mailbox;
+          if (account) e.account = account;
+          candidates.push(e);
+        }
+        return { target, candidates, hasMore, uidValidity };
+      });
+      if (stream) streams.push(stream);
+    } catch (err) {
+      errors.push({ account, mailbox, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  if (resetFolders.length > 0) {
+    throw new Error(`Invalid cursor: mailbox was reset, restart pagination (${resetFolders.join(", ")})`);
+  }
+
+  const { items, consumed } = mergeByDate(streams, opts.limit, opts.sort);
+  if (opts.includeSnippet && items.length > 0) await addSnippets(streams, consumed, opts.snippetLength);
+
+  const positions: Record<string, FolderPosition> = { ...(cursor?.positions ?? {}) };
+  const done = [...(cursor?.done ?? [])];
+  const uidValidity = { ...(cursor?.uidValidity ?? {}) };
+  let hasMore = false;
+  streams.forEach((stream, i) => {
+    const taken = consumed[i];
+    const key = stream.target.key;
+    if (stream.uidValidity != null) uidValidity[key] = stream.uidValidity;
+    if (taken > 0) {
+      const last = stream.candidates[taken - 1];
+      positions[key] = { uid: last.uid, date: dateValue(last) };
+    }
+    if (taken >= stream.candidates.length && !stream.hasMore) {
+      delete positions[key];
+      done.push(key);
+    } else {
+      hasMore = true;
+    }
+  });
+
+  return {
+    items,
+    nextCursor: hasMore ? encodeFolderCursor({ positions, done, uidValidity }, scope) : undefined,
+    folders: searched,
+    errors: errors.length > 0 ? errors : undefined,
+    cursorScope: scope,
+  };
+}
+
+/**
+ * Search several folders with AdvancedSearchCriteria and merge the results by date.
+ * Each envelope is tagged with its mailbox.
+ */
+export async function searchAllMailboxes(
+  config: ImapConfig,
+  criteria: AdvancedSearchCriteria,
+  options: SearchAllOptions = {}
+): Promise<SearchAllResult> {
+  buildAdvancedSearchQuery(criteria); // validate before listing folders
+  const folders = await resolveSearchFolders(config, options.includeFolders, options.excludeFolders);
+  return searchTargets(
+    folders.map((mailbox) => ({ key: mailbox, config, mailbox })),
+    criteria,
+    options
+  );
+}
+
+/**
+ * Search the folders of several accounts and merge the results by date. Each
+ * envelope is tagged with its account and mailbox. An account whose folders
+ * cannot be listed is reported in `errors` instead of failing the whole search.
+ */
+export async function searchAllAccounts(
+  accounts: SearchAccount[],
+  criteria: AdvancedSearchCriteria,
+  options: SearchAllOptions = {}
+): Promise<SearchAllResult> {
+  buildAdvancedSearchQuery(criteria); // validate before listing folders
+  const targets: SearchTarget[] = [];
+  const errors: Array<{ account?: string; mailbox: string; error: string }> = [];
+  for (const account of accounts) {
+    try {
+      const folders = await resolveSearchFolders(account.config, options.includeFolders, options.excludeFolders);
+      for (const mailbox of folders) {
+        targets.push({ key: `${account.name}:${mailbox}`, account: account.name, config: account.config, mailbox });
+      }
+    } catch (err) {
+      errors.push({ account: account.name, mailbox: "*", error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return searchTargets(targets, criteria, options, errors);
+}
@@ -0,0 +1,370 @@
+/**
+ * Gmail-like search query language compiled to imapflow search objects.
+ *
+ *   from:alice OR from:bob -subject:newsletter after:2026-01-01 has:attachment is:unread larger:1M
+ *
+ * Terms next to each other are ANDed; OR binds tighter than AND (as in Gmail), so the
+ * query above is (from:alice OR from:bob) AND NOT subject:newsletter AND ...
+ * Parentheses group, `-term` / `NOT term` negate, values may be "quoted".
+ */
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "term"; field?: string; value: string; pos: number };
+
+export type ImapSearchObject = Record<string, unknown>;
+
+type TokenType = "word" | "lparen" | "rparen" | "or" | "and" | "not";
+
+interface Token {
+  type: TokenType;
+  pos: number;
+  /** Source text of the token (for error messages). */
+  text: string;
+  field?: string;
+  value?: string;
+}
+
+const TEXT_FIELDS: Record<string, string> = {
+  from: "from",
+  to: "to",
+  cc: "cc",
+  bcc: "bcc",
+  subject: "subject",
+  body: "body",
+  text: "text",
+};
+
+const IS_VALUES: Record<string, ImapSearchObject> = {
+  unread: { seen: false },
+  unseen: { seen: false },
+  read: { seen: true },
+  seen: { seen: true },
+  starred: { flagged: true },
+  flagged: { flagged: true },
+  unstarred: { flagged: false },
+  unflagged: { flagged: false },
+  answered: { answered: true },
+  replied: { answered: true },
+  unanswered: { answered: false },
+  draft: { draft: true },
+};
+
+const SIZE_UNITS: Record<string, number> = { "": 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+const DURATION_DAYS: Record<string, number> = { d: 1, w: 7, m: 30, y: 365 };
+
+const KNOWN_FIELDS = [
+  ...Object.keys(TEXT_FIELDS),
+  "after",
+  "since",
+  "before",
+  "on",
+  "older_than",
+  "newer_than",
+  "is",
+  "has",
+  "larger",
+  "smaller",
+  "msgid",
+  "rfc822msgid",
+  "message-id",
+  "keyword",
+  "label",
+];
+
+function syntaxError(query: string, pos: number, message: string): Error {
+  const column = pos + 1;
+  return new Error(`Query syntax error at column ${column}: ${message}\n  ${query}\n  ${" ".repeat(pos)}^`);
+}
+
+function readQuoted(query: string, start: number): { value: string; end: number } {
+  // `start` points at the opening quote.
+  let value = "";
+  let i = start + 1;
+  while (i < query.length) {
+    const ch = query[i];
+    if (ch === "\\" && i + 1 < query.length) {
+      value += query[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === '"') return { value, end: i + 1 };
+    value += ch;
+    i += 1;
+  }
+  throw syntaxError(query, start, "unterminated quoted string");
+}
+
+function isBoundary(ch: string | undefined): boolean {
+  return ch == null || /\s/.test(ch) || ch === "(" || ch === ")";
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const ch = query[i];
+    if (/\s/.test(ch)) {
+      i += 1;
+      continue;
+    }
+    if (ch === "(" || ch === ")") {
+      tokens.push({ type: ch === "(" ? "lparen" : "rparen", pos: i, text: ch });
+      i += 1;
+      continue;
+    }
+    if (ch === "-" && (query[i + 1] === "(" || !isBoundary(query[i + 1]))) {
+      tokens.push({ type: "not", pos: i, text: "-" });
+      i += 1;
+      continue;
+    }
+    if (ch === '"') {
+      const { value, end } = readQuoted(query, i);
+      tokens.push({ type: "word", pos: i, text: query.slice(i, end), value });
+      i = end;
+      continue;
+    }
+
+    const start = i;
+    while (!isBoundary(query[i]) && query[i] !== ":" && query[i] !== '"') i += 1;
+    const head = query.slice(start, i);
+    if (query[i] === ":") {
+      const valueStart = i + 1;
+      let value: string;
+      let end: number;
+      if (query[valueStart] === '"') {
+        ({ value, end } = readQuoted(query, valueStart));
+      } else {
+        end = valueStart;
+        while (!isBoundary(query[end])) end += 1;
+        value = query.slice(valueStart, end);
+      }
+      tokens.push({ type: "word", pos: start, text: query.slice(start, end), field: head.toLowerCase(), value });
+      i = end;
+      continue;
+    }
+    if (query[i] === '"') {
+      throw syntaxError(query, i, "unexpected quote inside a word; quote the whole term instead");
+    }
+    const type: TokenType = head === "OR" ? "or" : head === "AND" ? "and" : head === "NOT" ? "not" : "word";
+    tokens.push({ type, pos: start, text: head, value: type === "word" ? head : undefined });
+  }
+  return tokens;
+}
+
+function isTermEnd(token: Token | undefined): boolean {
+  return !token || token.type === "rparen" || token.type === "or" || token.type === "and";
+}
+
+/**
+ * Parse a query string into an AST. Throws an Error whose message points at the offending token.
+ */
+export function parseSearchQuery(query: string): QueryNode {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) throw new Error("Query is empty");
+  let index = 0;
+  const peek = (): Token | undefined => tokens[index];
+  const next = (): Token | undefined => tokens[index++];
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    for (;;) {
+      const token = peek();
+      if (!token || token.type === "rparen") break;
+      if (token.type === "and") {
+        if (children.length === 0) throw syntaxError(query, token.pos, "AND needs a term on its left");
+        next();
+        if (isTermEnd(peek())) throw syntaxError(query, peek()?.pos ?? query.length, "AND needs a term on its right");
+        continue;
+      }
+      if (token.type === "or") throw syntaxError(query, token.pos, "OR needs a term on its left");
+      children.push(parseOr());
+    }
+    if (children.length === 0) throw syntaxError(query, peek()?.pos ?? query.length, "expected a search term");
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseUnary()];
+    while (peek()?.type === "or") {
+      const or = next() as Token;
+      if (isTermEnd(peek())) throw syntaxError(query, peek()?.pos ?? or.pos, "OR needs a term on its right");
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token?.type !== "not") return parsePrimary();
+    next();
+    if (isTermEnd(peek())) {
+      throw syntaxError(query, peek()?.pos ?? token.pos, `"${token.text}" must be followed by a term`);
+    }
+    return { type: "not", child: parseUnary() };
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = next();
+    if (!token) throw syntaxError(query, query.length, "expected a search term");
+    if (token.type === "lparen") {
+      if (peek()?.type === "rparen") throw syntaxError(query, token.pos, "empty parentheses");
+      const inner = parseAnd();
+      if (next()?.type !== "rparen") throw syntaxError(query, token.pos, "unclosed parenthesis");
+      return inner;
+    }
+    if (token.type === "rparen") throw syntaxError(query, token.pos, "unmatched closing parenthesis");
+    if (token.type !== "word") throw syntaxError(query, token.pos, `unexpected "${token.text}"`);
+    return { type: "term", field: token.field, value: token.value ?? "", pos: token.pos };
+  };
+
+  const root = parseAnd();
+  const extra = peek();
+  if (extra) {
+    const message = extra.type === "rparen" ? "unmatched closing parenthesis" : `unexpected "${extra.text}"`;
+    throw syntaxError(query, extra.pos, message);
+  }
+  return root;
+}
+
+function parseDateValue(query: string, pos: number, field: string, value: string): Date {
+  const normalized = value.replace(/\//g, "-");
+  const d = /^\d{4}-\d{1,2}-\d{1,2}$/.test(normalized) ? new Date(`${normalized}T00:00:00.000Z`) : new Date(NaN);
+  if (Number.isNaN(d.getTime())) {
+    throw syntaxError(query, pos, `${field}: expects a date like 2026-01-31, got "${value}"`);
+  }
+  return d;
+}
+
+function parseSize(query: string, pos: number, field: string, value: string): number {
+  const m = /^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i.exec(value);
+  if (!m) throw syntaxError(query, pos, `${field}: expects a size like 500K or 1M, got "${value}"`);
+  return Math.floor(Number(m[1]) * SIZE_UNITS[m[2].toLowerCase()]);
+}
+
+function relativeDate(query: string, pos: number, field: string, value: string): Date {
+  const m = /^(\d+)([dwmy])$/i.exec(value);
+  if (!m) throw syntaxError(query, pos, `${field}: expects a duration like 7d, 2w, 3m or 1y, got "${value}"`);
+  const days = Number(m[1]) * DURATION_DAYS[m[2].toLowerCase()];
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
+
+function compileTerm(query: string, node: Extract<QueryNode, { type: "term" }>): ImapSearchObject {
+  const { field, value, pos } = node;
+  if (field == null) return { text: value };
+  if (!value) throw syntaxError(query, pos, `${field}: is missing a value`);
+
+  if (TEXT_FIELDS[field]) return { [TEXT_FIELDS[field]]: value };
+  switch (field) {
+    case "after":
+    case "since":
+      return { since: parseDateValue(query, pos, field, value) };
+    case "before":
+      return { before: parseDateValue(query, pos, field, value) };
+    case "on":
+      return { on: parseDateValue(query, pos, field, value) };
+    case "newer_than":
+      return { since: relativeDate(query, pos, field, value) };
+    case "older_than":
+      return { before: relativeDate(query, pos, field, value) };
+    case "is": {
+      const flags = IS_VALUES[value.toLowerCase()];
+      if (!flags) {
+        throw syntaxError(query, pos, `unknown is: value "${value}" (use ${Object.keys(IS_VALUES).join(", ")})`);
+      }
+      return { ...flags };
+    }
+    case "has":
+      if (value.toLowerCase() !== "attachment") {
+        throw syntaxError(query, pos, `unknown has: value "${value}" (only has:attachment is supported)`);
+      }
+      // IMAP SEARCH cannot see MIME structure; multipart/mixed is the usual attachment container.
+      return { header: { "content-type": "multipart/mixed" } };
+    case "larger":
+      return { larger: parseSize(query, pos, field, value) };
+    case "smaller":
+      return { smaller: parseSize(query, pos, field, value) };
+    case "msgid":
+    case "rfc822msgid":
+    case "message-id":
+      return { header: { "message-id": value } };
+    case "keyword":
+    case "label":
+      return { keyword: value };
+    default:
+      throw syntaxError(
+        query,
+        pos,
+        `unknown field "${field}:" (known: ${KNOWN_FIELDS.join(", ")}). Quote the term to search for it as text.`
+      );
+  }
+}
+
+/** Wrap a multi-key object so it compiles to exactly one IMAP search key. */
+function single(obj: ImapSearchObject): ImapSearchObject {
+  const keys = Object.keys(obj);
+  if (keys.length <= 1) return obj;
+  return andOf(keys.map((k) => ({ [k]: obj[k] })));
+}
+
+function negate(obj: ImapSearchObject): ImapSearchObject {
+  const keys = Object.keys(obj);
+  if (keys.length === 1 && keys[0] === "not") return obj.not as ImapSearchObject;
+  return { not: single(obj) };
+}
+
+/**
+ * AND of single-key objects as ONE search key. imapflow emits no parentheses, so
+ * inside OR/NOT an AND has to be written as NOT (OR (NOT a) (NOT b)).
+ */
+function andOf(parts: ImapSearchObject[]): ImapSearchObject {
+  if (parts.length === 1) return parts[0];
+  return { not: { or: parts.map(negate) } };
+}
+
+function compileNode(query: string, node: QueryNode): ImapSearchObject {
+  switch (node.type) {
+    case "term":
+      return single(compileTerm(query, node));
+    case "not":
+      return negate(compileNode(query, node.child));
+    case "or":
+      return { or: node.children.map((c) => compileNode(query, c)) };
+    case "and":
+      return andOf(node.children.map((c) => compileNode(query, c)));
+  }
+}
+
+/**
+ * AND several search objects together. Objects are merged into one top-level object
+ * (IMAP ANDs top-level keys) when their keys do not collide.
+ */
+export function combineSearchQueries(queries: ImapSearchObject[]): ImapSearchObject {
+  const parts = queries.flatMap((q) => Object.keys(q).map((k) => ({ [k]: q[k] })));
+  const merged: ImapSearchObject = {};
+  for (const part of parts) {
+    const [key] = Object.keys(part);
+    if (key in merged) return andOf(parts.map(single));
+    merged[key] = part[key];
+  }
+  return merged;
+}
+
+/**
+ * Compile a parsed query into an imapflow search object.
+ */
+export function compileSearchQuery(node: QueryNode, query: string = ""): ImapSearchObject {
+  if (node.type === "and") {
+    return combineSearchQueries(node.children.map((c) => compileNode(query, c)));
+  }
+  return compileNode(query, node);
+}
+
+/**
+ * Parse and compile a query string in one step.
+ */
+export function searchQueryToImap(query: string): ImapSearchObject {
+  return compileSearchQuery(parseSearchQuery(query), query);
+}
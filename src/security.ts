@@ -0,0 +1,507 @@
+/**
+ * Offline security analysis of one message (mail_analyze_message): SPF/DKIM/DMARC
+ * verdicts from Authentication-Results / Received-SPF, sender consistency (From
+ * display name and domain vs Reply-To and Return-Path), lookalike domains
+ * (punycode, homoglyphs, digit swaps of well-known brands), HTML links whose text
+ * names a different domain than their href, and risky attachment types. Signals
+ * are weighted into a 0-100 risk score. Uses only the message source; no DNS.
+ */
+
+import { domainToUnicode } from "node:url";
+import { Parser } from "htmlparser2";
+import type { AddressObject, ParsedMail } from "mailparser";
+import type { ImapConfig } from "./config.js";
+import { getParsedMessage, type MessageEnvelope } from "./imap.js";
+
+export interface AuthCheck {
+  result: string;
+  domain?: string;
+  selector?: string;
+  policy?: string;
+}
+
+export interface AuthenticationSummary {
+  /** Header the verdicts were read from; the topmost one, added by the receiving server. */
+  source?: "authentication-results" | "received-spf";
+  authservId?: string;
+  spf?: AuthCheck;
+  dkim: AuthCheck[];
+  dmarc?: AuthCheck;
+}
+
+export interface SenderSummary {
+  from?: string;
+  displayName?: string;
+  fromDomain?: string;
+  replyTo?: string;
+  replyToDomain?: string;
+  returnPath?: string;
+  returnPathDomain?: string;
+}
+
+export interface LookalikeDomain {
+  domain: string;
+  /** Unicode form of a punycode (xn--) domain. */
+  unicode?: string;
+  /** The well-known domain or brand it imitates, when known. */
+  looksLike?: string;
+  reason: string;
+}
+
+export interface LinkInfo {
+  href: string;
+  text: string;
+  hrefDomain?: string;
+  /** Domain named by the anchor text, when the text looks like a URL or host name. */
+  textDomain?: string;
+  mismatch: boolean;
+}
+
+export interface AttachmentRisk {
+  filename: string;
+  contentType: string;
+  size: number;
+  risk: "high" | "medium";
+  reason: string;
+}
+
+export interface RiskReason {
+  signal: string;
+  weight: number;
+  detail: string;
+}
+
+export interface SecurityAnalysis {
+  riskScore: number;
+  riskLevel: "low" | "medium" | "high";
+  reasons: RiskReason[];
+  authentication: AuthenticationSummary;
+  sender: SenderSummary;
+  lookalikeDomains: LookalikeDomain[];
+  links: { total: number; mismatched: number; truncated: boolean; items: LinkInfo[] };
+  attachments: AttachmentRisk[];
+}
+
+/** Max links listed in the result; `total` still counts all of them. */
+const MAX_LISTED_LINKS = 100;
+
+/** Well-known, frequently impersonated brands and the domains they really send from. */
+const BRAND_DOMAINS: Record<string, string[]> = {
+  paypal: ["paypal.com"],
+  apple: ["apple.com", "icloud.com"],
+  microsoft: ["microsoft.com", "office.com", "outlook.com", "live.com", "office365.com"],
+  google: ["google.com", "gmail.com", "youtube.com"],
+  amazon: ["amazon.com", "amazonses.com"],
+  netflix: ["netflix.com"],
+  facebook: ["facebook.com", "facebookmail.com", "meta.com"],
+  linkedin: ["linkedin.com"],
+  docusign: ["docusign.com", "docusign.net"],
+  dropbox: ["dropbox.com", "dropboxmail.com"],
+  dhl: ["dhl.com", "dhl.de"],
+  fedex: ["fedex.com"],
+  ups: ["ups.com"],
+};
+
+/** Cyrillic/Greek letters rendered like Latin ones, and ASCII digit/letter swaps. */
+const CONFUSABLES: Record<string, string> = {
+  "а": "a", "е": "e", "о": "o", "р": "p", "с": "c", "у": "y", "х": "x", "і": "i", "ј": "j",
+  "ԁ": "d", "ѕ": "s", "ӏ": "l", "һ": "h", "ԛ": "q", "ԝ": "w", "ο": "o", "α": "a", "ν": "v",
+  "ι": "i", "κ": "k", "ρ": "p", "τ": "t", "υ": "u", "ε": "e", "0": "o", "1": "l", "3": "e",
+  "5": "s",
+};
+
+const HIGH_RISK_EXTENSIONS = new Set([
+  "exe", "scr", "com", "pif", "bat", "cmd", "js", "jse", "vbs", "vbe", "wsf", "wsh", "hta",
+  "msi", "msp", "jar", "ps1", "lnk", "cpl", "reg", "dll", "chm", "iso", "img", "vhd", "vhdx",
+  "appx", "msix",
+]);
+
+const MEDIUM_RISK_EXTENSIONS = new Set([
+  "html", "htm", "shtml", "svg", "docm", "xlsm", "pptm", "dotm", "xlam", "one", "zip", "rar",
+  "7z", "ace", "gz",
+]);
+
+/** Second-level labels that form a public suffix with a two-letter TLD (co.uk, com.au, ...). */
+const SECOND_LEVEL_SUFFIXES = new Set(["co", "com", "net", "org", "gov", "ac", "edu", "ne", "or"]);
+
+const HOST_TEXT = /^(?:[a-z][a-z0-9+.-]*:\/\/)?((?:[\p{L}\p{N}-]+\.)+[\p{L}]{2,}|xn--[a-z0-9-]+(?:\.[a-z0-9-]+)+)(?::\d+)?(?:[/?#]\S*)?$/iu;
+
+function headerValues(parsed: ParsedMail, name: string): string[] {
+  return (parsed.headerLines ?? [])
+    .filter((h) => h.key === name)
+    .map((h) =>
+      h.line
+        .slice(h.line.indexOf(":") + 1)
+        .replace(/\r?\n[ \t]+/g, " ")
+        .trim()
+    );
+}
+
+function firstAddress(field: AddressObject | AddressObject[] | undefined): { address?: string; name?: string } {
+  const obj = Array.isArray(field) ? field[0] : field;
+  const entry = obj?.value?.[0];
+  return { address: entry?.address || undefined, name: entry?.name || undefined };
+}
+
+function domainOf(address: string | undefined): string | undefined {
+  const at = address?.lastIndexOf("@") ?? -1;
+  if (!address || at < 0) return undefined;
+  return address.slice(at + 1).toLowerCase().replace(/[>.]+$/, "") || undefined;
+}
+
+function hostOf(href: string): string | undefined {
+  try {
+    const url = new URL(href);
+    return url.hostname ? url.hostname.toLowerCase().replace(/^\[|\]$/g, "") : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Organizational domain (registrable part) of a host name. Approximation without the
+ * Public Suffix List: the last two labels, or three under suffixes like co.uk.
+ */
+export function organizationalDomain(domain: string): string {
+  const labels = domain.toLowerCase().replace(/\.$/, "").split(".");
+  if (labels.length <= 2) return labels.join(".");
+  const tld = labels[labels.length - 1];
+  const second = labels[labels.length - 2];
+  const keep = tld.length === 2 && SECOND_LEVEL_SUFFIXES.has(second) ? 3 : 2;
+  return labels.slice(-keep).join(".");
+}
+
+function sameOrganization(a: string | undefined, b: string | undefined): boolean {
+  return !a || !b || organizationalDomain(a) === organizationalDomain(b);
+}
+
+function isIpHost(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":");
+}
+
+/** Strip RFC 5322 comments, returning them separately (DMARC puts p=... in one). */
+function splitComments(value: string): { text: string; comments: string } {
+  let text = "";
+  let comments = "";
+  let depth = 0;
+  let quoted = false;
+  for (const ch of value) {
+    if (ch === '"' && depth === 0) quoted = !quoted;
+    if (!quoted && ch === "(") {
+      depth++;
+      if (depth === 1) continue;
+    }
+    if (!quoted && ch === ")" && depth > 0) {
+      depth--;
+      if (depth === 0) {
+        comments += " ";
+        continue;
+      }
+    }
+    if (depth > 0) comments += ch;
+    else text += ch;
+  }
+  return { text, comments };
+}
+
+function parseAuthenticationResults(value: string): AuthenticationSummary {
+  const out: AuthenticationSummary = { source: "authentication-results", dkim: [] };
+  const segments = value.split(";");
+  const head = segments.shift() ?? "";
+  out.authservId = splitComments(head).text.trim().split(/\s+/)[0] || undefined;
+  for (const segment of segments) {
+    const { text, comments } = splitComments(segment);
+    const method = /^\s*([a-z0-9-]+)\s*=\s*([a-z]+)/i.exec(text);
+    if (!method) continue;
+    const props: Record<string, string> = {};
+    for (const m of text.matchAll(/([a-z]+\.[a-z-]+)\s*=\s*("[^"]*"|[^\s;]+)/gi)) {
+      props[m[1].toLowerCase()] = m[2].replace(/^"|"$/g, "");
+    }
+    const result = method[2].toLowerCase();
+    switch (method[1].toLowerCase()) {
+      case "spf":
+        out.spf ??= { result, domain: domainOf(props["smtp.mailfrom"]) ?? props["smtp.helo"]?.toLowerCase() };
+        break;
+      case "dkim":
+        out.dkim.push({
+          result,
+          domain: props["header.d"]?.toLowerCase() ?? domainOf(props["header.i"]),
+          selector: props["header.s"],
+        });
+        break;
+      case "dmarc":
+        out.dmarc ??= {
+          result,
+          domain: props["header.from"]?.toLowerCase(),
+          policy: /\bp=([a-z]+)/i.exec(comments)?.[1]?.toLowerCase(),
+        };
+        break;
+    }
+  }
+  return out;
+}
+
+function parseReceivedSpf(value: string): AuthCheck | undefined {
+  const result = /^\s*([a-z]+)/i.exec(value)?.[1]?.toLowerCase();
+  if (!result) return undefined;
+  const envelopeFrom = /\benvelope-from=("?)([^\s;"]+)\1/i.exec(value)?.[2];
+  return { result, domain: domainOf(envelopeFrom) ?? envelopeFrom?.toLowerCase() };
+}
+
+/**
+ * SPF/DKIM/DMARC verdicts. Only the topmost Authentication-Results header is used:
+ * lower ones may have been inserted by the sender. Received-SPF fills in SPF when the
+ * results header has none.
+ */
+export function parseAuthentication(parsed: ParsedMail): AuthenticationSummary {
+  const results = headerValues(parsed, "authentication-results").find((v) => /=/.test(v));
+  const out: AuthenticationSummary = results ? parseAuthenticationResults(results) : { dkim: [] };
+  if (!out.spf) {
+    const received = headerValues(parsed, "received-spf")[0];
+    const spf = received ? parseReceivedSpf(received) : undefined;
+    if (spf) {
+      out.spf = spf;
+      out.source ??= "received-spf";
+    }
+  }
+  return out;
+}
+
+function skeleton(label: string): string {
+  let out = "";
+  for (const ch of label.toLowerCase()) out += CONFUSABLES[ch] ?? ch;
+  return out.replace(/rn/g, "m").replace(/vv/g, "w");
+}
+
+function brandOf(domain: string): string | undefined {
+  const org = organizationalDomain(domain);
+  for (const [brand, domains] of Object.entries(BRAND_DOMAINS)) {
+    if (domains.includes(org) || org.split(".")[0] === brand) return brand;
+  }
+  return undefined;
+}
+
+/** Check one domain for punycode, mixed scripts and look-alikes of well-known brands. */
+export function checkLookalike(domain: string): LookalikeDomain | undefined {
+  const unicode = domain.includes("xn--") ? domainToUnicode(domain) || undefined : undefined;
+  const shown = unicode ?? domain;
+  const org = organizationalDomain(shown);
+  const label = org.split(".")[0];
+  const brand = Object.keys(BRAND_DOMAINS).find((b) => b !== label && skeleton(label) === b);
+  if (brand) {
+    return { domain, unicode, looksLike: BRAND_DOMAINS[brand][0], reason: `imitates ${brand} with look-alike characters` };
+  }
+  if (/[^\x00-\x7f]/.test(shown)) {
+    const mixed = /[a-z]/i.test(label) && /[^\x00-\x7f]/.test(label);
+    const ascii = skeleton(label);
+    return {
+      domain,
+      unicode,
+      looksLike: mixed && /^[a-z0-9-]+$/.test(ascii) ? org.replace(label, ascii) : undefined,
+      reason: mixed ? "mixes Latin and non-Latin letters" : "internationalized (punycode) domain",
+    };
+  }
+  return undefined;
+}
+
+/** Links (<a href>) of an HTML body with their visible text. */
+export function extractHtmlLinks(html: string): LinkInfo[] {
+  const links: LinkInfo[] = [];
+  let current: { href: string; text: string } | undefined;
+  const finish = () => {
+    if (!current) return;
+    const text = current.text.replace(/\s+/g, " ").trim().slice(0, 200);
+    const hrefDomain = hostOf(current.href);
+    const textHost = HOST_TEXT.exec(text)?.[1]?.toLowerCase();
+    const textDomain = textHost ? hostOf(`http://${textHost}`) ?? textHost : undefined;
+    links.push({
+      href: current.href,
+      text,
+      hrefDomain,
+      textDomain,
+      mismatch: textDomain != null && (hrefDomain == null || !sameOrganization(textDomain, hrefDomain)),
+    });
+    current = undefined;
+  };
+  const parser = new Parser(
+    {
+      onopentag(name, attribs) {
+        if (name !== "a") return;
+        finish();
+        if (attribs.href) current = { href: attribs.href.trim(), text: "" };
+      },
+      ontext(text) {
+        if (current) current.text += text;
+      },
+      onclosetag(name) {
+        if (name === "a") finish();
+      },
+    },
+    { decodeEntities: true }
+  );
+  parser.write(html);
+  parser.end();
+  finish();
+  return links;
+}
+
+function textLinks(text: string): LinkInfo[] {
+  return [...text.matchAll(/https?:\/\/[^\s<>"')\]]+/gi)].map((m) => ({
+    href: m[0],
+    text: m[0],
+    hrefDomain: hostOf(m[0]),
+    mismatch: false,
+  }));
+}
+
+/** Flag executable, script, disk image, macro and HTML attachments, and disguised names. */
+export function classifyAttachment(filename: string, contentType: string, size: number): AttachmentRisk | undefined {
+  if (filename.includes("\u202e")) {
+    return { filename, contentType, size, risk: "high", reason: "right-to-left override hides the real extension" };
+  }
+  const parts = filename.toLowerCase().trim().split(".");
+  const ext = parts.length > 1 ? parts[parts.length - 1] : "";
+  const inner = parts.length > 2 ? parts[parts.length - 2] : "";
+  if (HIGH_RISK_EXTENSIONS.has(ext)) {
+    const reason = /^(pdf|docx?|xlsx?|pptx?|txt|jpe?g|png|gif|rtf|csv)$/.test(inner)
+      ? `double extension .${inner}.${ext} disguises an executable`
+      : `.${ext} can run code when opened`;
+    return { filename, contentType, size, risk: "high", reason };
+  }
+  if (MEDIUM_RISK_EXTENSIONS.has(ext)) {
+    const reason = /^(zip|rar|7z|ace|gz)$/.test(ext)
+      ? `.${ext} archive can hide executables from scanners`
+      : /m$/.test(ext) || ext === "xlam"
+        ? `.${ext} can contain macros`
+        : `.${ext} can carry scripts or credential forms`;
+    return { filename, contentType, size, risk: "medium", reason };
+  }
+  return undefined;
+}
+
+/** Analyze a parsed message. Pure; mail_analyze_message wraps it with a fetch. */
+export function analyzeParsedMessage(parsed: ParsedMail): SecurityAnalysis {
+  const reasons: RiskReason[] = [];
+  const add = (signal: string, weight: number, detail: string) => {
+    if (!reasons.some((r) => r.signal === signal)) reasons.push({ signal, weight, detail });
+  };
+
+  const authentication = parseAuthentication(parsed);
+  const { spf, dkim, dmarc } = authentication;
+  if (dmarc && ["fail", "permerror"].includes(dmarc.result)) {
+    add("dmarc-fail", 30, `DMARC ${dmarc.result}${dmarc.domain ? ` for ${dmarc.domain}` : ""}${dmarc.policy ? ` (p=${dmarc.policy})` : ""}`);
+  }
+  if (spf?.result === "fail") add("spf-fail", 15, `SPF fail${spf.domain ? ` for ${spf.domain}` : ""}`);
+  else if (spf?.result === "softfail") add("spf-softfail", 8, `SPF softfail${spf.domain ? ` for ${spf.domain}` : ""}`);
+  if (dkim.length > 0 && !dkim.some((d) => d.result === "pass")) {
+    add("dkim-fail", 10, `no passing DKIM signature (${dkim.map((d) => d.result).join(", ")})`);
+  }
+  if (!spf && dkim.length === 0 && !dmarc) {
+    add("no-authentication", 5, "no Authentication-Results or Received-SPF header");
+  }
+
+  const from = firstAddress(parsed.from);
+  const replyTo = firstAddress(parsed.replyTo);
+  const returnPath = /<([^<>]*)>/.exec(headerValues(parsed, "return-path")[0] ?? "")?.[1] || undefined;
+  const sender: SenderSummary = {
+    from: from.address,
+    displayName: from.name,
+    fromDomain: domainOf(from.address),
+    replyTo: replyTo.address,
+    replyToDomain: domainOf(replyTo.address),
+    returnPath,
+    returnPathDomain: domainOf(returnPath),
+  };
+  const fromDomain = sender.fromDomain;
+
+  if (from.name && fromDomain) {
+    const named = domainOf(/\S+@\S+/.exec(from.name)?.[0]) ?? HOST_TEXT.exec(from.name.trim())?.[1];
+    if (named && !sameOrganization(named.toLowerCase(), fromDomain)) {
+      add("display-name-spoof", 25, `display name "${from.name}" names ${named.toLowerCase()} but the address is at ${fromDomain}`);
+    }
+    const nameKey = from.name.toLowerCase().replace(/[^a-z]/g, "");
+    const brand = Object.keys(BRAND_DOMAINS).find((b) => b.length > 3 && nameKey.includes(b));
+    if (brand && brandOf(fromDomain) !== brand) {
+      add("brand-impersonation", 20, `display name mentions ${brand} but the address is at ${fromDomain}`);
+    }
+  }
+  if (sender.replyToDomain && !sameOrganization(sender.replyToDomain, fromDomain)) {
+    add("reply-to-mismatch", 15, `replies go to ${sender.replyToDomain}, not ${fromDomain ?? "the sender"}`);
+  }
+  if (sender.returnPathDomain && !sameOrganization(sender.returnPathDomain, fromDomain)) {
+    add("return-path-mismatch", 5, `bounces go to ${sender.returnPathDomain}, not ${fromDomain ?? "the sender"}`);
+  }
+
+  const allLinks =
+    typeof parsed.html === "string" && parsed.html ? extractHtmlLinks(parsed.html) : textLinks(parsed.text ?? "");
+  const mismatched = allLinks.filter((l) => l.mismatch);
+  if (mismatched.length > 0) {
+    const first = mismatched[0];
+    add(
+      "link-text-mismatch",
+      25,
+      `${mismatched.length} link(s) show one domain but go to another, e.g. "${first.textDomain}" -> ${first.hrefDomain ?? first.href}`
+    );
+  }
+  const ipLink = allLinks.find((l) => l.hrefDomain && isIpHost(l.hrefDomain));
+  if (ipLink) add("ip-address-link", 15, `link to a bare IP address: ${ipLink.href}`);
+  const scriptLink = allLinks.find((l) => /^(javascript|data|vbscript):/i.test(l.href));
+  if (scriptLink) add("script-link", 20, `link with ${scriptLink.href.split(":")[0].toLowerCase()}: scheme`);
+
+  const domains = new Set<string>();
+  for (const d of [fromDomain, sender.replyToDomain, sender.returnPathDomain]) if (d) domains.add(d);
+  for (const l of allLinks) if (l.hrefDomain && !isIpHost(l.hrefDomain)) domains.add(l.hrefDomain);
+  const lookalikeDomains: LookalikeDomain[] = [];
+  for (const domain of domains) {
+    const found = checkLookalike(domain);
+    if (found) lookalikeDomains.push(found);
+  }
+  const imitation = lookalikeDomains.find((l) => l.looksLike);
+  if (imitation) {
+    add("lookalike-domain", 30, `${imitation.unicode ?? imitation.domain} ${imitation.reason}`);
+  } else if (lookalikeDomains.length > 0) {
+    add("idn-domain", 10, `${lookalikeDomains[0].unicode ?? lookalikeDomains[0].domain} ${lookalikeDomains[0].reason}`);
+  }
+
+  const attachments: AttachmentRisk[] = [];
+  for (const att of parsed.attachments ?? []) {
+    const risk = classifyAttachment(att.filename ?? "", att.contentType ?? "", att.size ?? 0);
+    if (risk) attachments.push(risk);
+  }
+  const high = attachments.filter((a) => a.risk === "high");
+  const medium = attachments.filter((a) => a.risk === "medium");
+  if (high.length > 0) add("dangerous-attachment", 40, high.map((a) => `${a.filename}: ${a.reason}`).join("; "));
+  if (medium.length > 0) add("risky-attachment", 15, medium.map((a) => `${a.filename}: ${a.reason}`).join("; "));
+
+  reasons.sort((a, b) => b.weight - a.weight);
+  const riskScore = Math.min(100, reasons.reduce((sum, r) => sum + r.weight, 0));
+  return {
+    riskScore,
+    riskLevel: riskScore >= 60 ? "high" : riskScore >= 25 ? "medium" : "low",
+    reasons,
+    authentication,
+    sender,
+    lookalikeDomains,
+    links: {
+      total: allLinks.length,
+      mismatched: mismatched.length,
+      truncated: allLinks.length > MAX_LISTED_LINKS,
+      items: allLinks.slice(0, MAX_LISTED_LINKS),
+    },
+    attachments,
+  };
+}
+
+/**
+ * Fetch one message like getMessage does and analyze it. Read-only.
+ * Returns null when the message does not exist.
+ */
+export async function analyzeMessage(
+  config: ImapConfig,
+  mailbox: string,
+  uid: number
+): Promise<({ message: MessageEnvelope } & SecurityAnalysis) | null> {
+  const found = await getParsedMessage(config, mailbox, uid);
+  if (!found) return null;
+  return { message: found.envelope, ...analyzeParsedMessage(found.parsed) };
+}
@@ -0,0 +1,237 @@
+/**
+ * `sortBy` ordering (arrival, date, from, subject, size, to) with RFC 5256 semantics.
+ * Uses UID SORT when the server advertises SORT; otherwise fetches only the fields
+ * the key needs and sorts client-side. Ties are broken by UID either way, and pages
+ * continue from a keyed cursor (see SortCursor in query.ts).
+ */
+
+import type { FetchMessageObject } from "imapflow";
+import type { ImapClientLike } from "./imap.js";
+import {
+  decodeSortCursor,
+  encodeSortCursor,
+  type CursorScope,
+  type SortBy,
+  type SortOrder,
+} from "./query.js";
+
+export interface SortedPageInput {
+  sortBy: SortBy;
+  sort: SortOrder;
+  limit: number;
+  cursor?: string;
+  scope?: CursorScope;
+}
+
+export interface SortedPage {
+  pageUids: number[];
+  nextCursor?: string;
+}
+
+export type SortKey = string | number;
+
+/** A message's place in a sorted listing: its sort key, ties broken by UID. */
+export interface SortPosition {
+  key: SortKey;
+  uid: number;
+}
+
+const SORT_CRITERIA: Record<SortBy, string> = {
+  arrival: "ARRIVAL",
+  date: "DATE",
+  from: "FROM",
+  subject: "SUBJECT",
+  size: "SIZE",
+  to: "TO",
+};
+
+const FETCH_QUERIES: Record<SortBy, Record<string, unknown>> = {
+  arrival: { uid: true, internalDate: true },
+  // DATE falls back to the internal date when the Date header is missing.
+  date: { uid: true, envelope: true, internalDate: true },
+  from: { uid: true, envelope: true },
+  subject: { uid: true, envelope: true },
+  size: { uid: true, size: true },
+  to: { uid: true, envelope: true },
+};
+
+/**
+ * RFC 5256 base subject: without reply/forward prefixes, [blob] tags and trailing
+ * "(fwd)", lower-cased for i;ascii-casemap comparison.
+ */
+export function baseSubject(subject: string): string {
+  let s = subject.replace(/\s+/g, " ").trim();
+  for (;;) {
+    const before = s;
+    s = s.replace(/\s*\(fwd\)$/i, "").trim();
+    s = s.replace(/^(\[[^[\]]*\]\s*)*(re|fwd?)\s*(\[[^[\]]*\])?\s*:\s*/i, "").trim();
+    s = s.replace(/^\[[^[\]]*\]\s*(?=\S)/, "").trim();
+    const wrapped = /^\[fwd:\s*(.*)\]$/i.exec(s);
+    if (wrapped) s = wrapped[1].trim();
+    if (s === before) break;
+  }
+  return s.toLowerCase();
+}
+
+function mailboxPart(list: Array<{ address?: string }> | undefined): string {
+  const address = list?.[0]?.address ?? "";
+  return (address.includes("@") ? address.slice(0, address.lastIndexOf("@")) : address).toLowerCase();
+}
+
+function time(value: Date | string | undefined): number | undefined {
+  if (!value) return undefined;
+  const t = new Date(value).getTime();
+  return Number.isNaN(t) ? undefined : t;
+}
+
+/** Sort key of one fetched message (fetched with the fields FETCH_QUERIES asks for). */
+export function sortKeyOf(msg: FetchMessageObject, sortBy: SortBy): SortKey {
+  switch (sortBy) {
+    case "arrival":
+      return time(msg.internalDate) ?? 0;
+    case "date":
+      return time(msg.envelope?.date) ?? time(msg.internalDate) ?? 0;
+    case "from":
+      return mailboxPart(msg.envelope?.from);
+    case "to":
+      return mailboxPart(msg.envelope?.to);
+    case "subject":
+      return baseSubject(String(msg.envelope?.subject ?? ""));
+    case "size":
+      return msg.size ?? 0;
+  }
+}
+
+/** Ascending (key, UID) order; strings compare by code unit like i;ascii-casemap. */
+function compare(a: SortPosition, b: SortPosition): number {
+  if (a.key !== b.key) {
+    if (typeof a.key === "number" && typeof b.key === "number") return a.key - b.key;
+    return String(a.key) < String(b.key) ? -1 : 1;
+  }
+  return a.uid - b.uid;
+}
+
+async function fetchSortKeys(client: ImapClientLike, uids: number[], sortBy: SortBy): Promise<Map<number, SortKey>> {
+  const keys = new Map<number, SortKey>();
+  if (uids.length === 0) return keys;
+  for await (const msg of client.fetch(uids, FETCH_QUERIES[sortBy], { uid: true })) {
+    keys.set(msg.uid, sortKeyOf(msg, sortBy));
+  }
+  return keys;
+}
+
+/** Compact UID set for a search key, e.g. "1:4,7,9:12". */
+function uidSet(uids: number[]): string {
+  const sorted = Array.from(new Set(uids)).sort((a, b) => a - b);
+  const parts: string[] = [];
+  for (let i = 0; i < sorted.length; i += 1) {
+    let j = i;
+    while (j + 1 < sorted.length && sorted[j + 1] === sorted[j] + 1) j += 1;
+    parts.push(i === j ? String(sorted[i]) : `${sorted[i]}:${sorted[j]}`);
+    i = j;
+  }
+  return parts.join(",");
+}
+
+/** UIDs in ascending server SORT order, or undefined when the server has no SORT. */
+async function serverSort(client: ImapClientLike, uids: number[], sortBy: SortBy): Promise<number[] | undefined> {
+  if (!client.exec || !client.capabilities?.has("SORT")) return undefined;
+  const sorted: number[] = [];
+  const response = await client.exec(
+    "UID SORT",
+    [
+      [{ type: "ATOM", value: SORT_CRITERIA[sortBy] }],
+      { type: "ATOM", value: "UTF-8" },
+      { type: "ATOM", value: "UID" },
+      { type: "SEQUENCE", value: uidSet(uids) },
+    ],
+    {
+      untagged: {
+        SORT: (untagged) => {
+          for (const attr of untagged.attributes ?? []) {
+            const n = Number((attr as { value?: unknown })?.value);
+            if (Number.isInteger(n) && n > 0) sorted.push(n);
+          }
+        },
+      },
+    }
+  );
+  response.next?.();
+  return sorted;
+}
+
+function isAfter(entry: SortPosition, cursor: SortPosition, sort: SortOrder): boolean {
+  const order = compare(entry, cursor);
+  return sort === "asc" ? order > 0 : order < 0;
+}
+
+/**
+ * `matched` UIDs after `after` in `sortBy` order, with the keys fetched on the way
+ * (all of them without server SORT). With server SORT only the cursor message's
+ * position is needed; if it was expunged, keys are fetched to find where to start.
+ */
+async function orderAfter(
+  client: ImapClientLike,
+  matched: number[],
+  sortBy: SortBy,
+  sort: SortOrder,
+  after: SortPosition | undefined
+): Promise<{ ordered: number[]; keys?: Map<number, SortKey> }> {
+  const unique = Array.from(new Set(matched)).filter((uid) => uid > 0);
+  if (unique.length === 0) return { ordered: [] };
+
+  const server = await serverSort(client, unique, sortBy);
+  if (server) {
+    // Some servers answer with UIDs outside the requested set; keep only matches.
+    const wanted = new Set(unique);
+    const ordered = server.filter((uid) => wanted.has(uid));
+    if (sort === "desc") ordered.reverse();
+    if (!after) return { ordered };
+    const index = ordered.indexOf(after.uid);
+    if (index >= 0) return { ordered: ordered.slice(index + 1) };
+    const keys = await fetchSortKeys(client, ordered, sortBy);
+    return {
+      ordered: ordered.filter((uid) => {
+        const key = keys.get(uid);
+        return key != null && isAfter({ key, uid }, after, sort);
+      }),
+      keys,
+    };
+  }
+  const keys = await fetchSortKeys(client, unique, sortBy);
+  const entries = Array.from(keys.entries(), ([uid, key]) => ({ uid, key })).sort(compare);
+  if (sort === "desc") entries.reverse();
+  return { ordered: entries.filter((e) => !after || isAfter(e, after, sort)).map((e) => e.uid), keys };
+}
+
+/** One page of `matched` UIDs ordered by `sortBy`, continuing from an encoded cursor. */
+export async function sortedPage(client: ImapClientLike, matched: number[], input: SortedPageInput): Promise<SortedPage> {
+  const cursor = decodeSortCursor(input.cursor, input.sortBy, input.scope);
+  const { ordered, keys } = await orderAfter(client, matched, input.sortBy, input.sort, cursor);
+  const pageUids = ordered.slice(0, input.limit);
+  if (ordered.length <= pageUids.length || pageUids.length === 0) return { pageUids };
+  const last = pageUids[pageUids.length - 1];
+  const key = keys?.get(last) ?? (await fetchSortKeys(client, [last], input.sortBy)).get(last) ?? "";
+  return { pageUids, nextCursor: encodeSortCursor({ sortBy: input.sortBy, key, uid: last }, input.scope) };
+}
+
+/**
+ * Up to `limit` positions (UID and sort key) of `matched` after `after`, in `sortBy`
+ * order, for callers that keep their own cursor (e.g. one position per folder).
+ */
+export async function sortedPositions(
+  client: ImapClientLike,
+  matched: number[],
+  input: { sortBy: SortBy; sort: SortOrder; limit: number; after?: SortPosition }
+): Promise<{ positions: SortPosition[]; hasMore: boolean }> {
+  const { ordered, keys } = await orderAfter(client, matched, input.sortBy, input.sort, input.after);
+  const pageUids = ordered.slice(0, input.limit);
+  const missing = pageUids.filter((uid) => !keys?.has(uid));
+  const fetched = missing.length > 0 ? await fetchSortKeys(client, missing, input.sortBy) : undefined;
+  const positions = pageUids.flatMap((uid) => {
+    const key = keys?.get(uid) ?? fetched?.get(uid);
+    // Expunged between SORT and FETCH.
+    return key == null ? [] : [{ uid, key }];
+  });
+  return { positions, hasMore: ordered.length > pageUids.length };
+}
@@ -0,0 +1,233 @@
+/**
+ * Newsletter and mailing-list detection from List-Id, List-Unsubscribe(-Post) and
+ * Precedence headers, plus mail_list_subscriptions, which groups bulk mail in a
+ * folder by list/sender with frequency, read ratio and unsubscribe targets.
+ * Unsubscribing itself is left to the user. Read-only.
+ */
+
+import type { ImapConfig } from "./config.js";
+import { withMailbox } from "./connection.js";
+import { combineSearchQueries } from "./search-query.js";
+import { parseDateInput, type ImapClientLike } from "./imap.js";
+
+/** Headers that mark bulk mail; fetched with every envelope. */
+export const BULK_HEADER_NAMES = ["list-id", "list-unsubscribe", "list-unsubscribe-post", "precedence"];
+
+const BULK_PRECEDENCE = new Set(["bulk", "list", "junk"]);
+
+/** IMAP search for messages carrying any bulk marker (the same ones isBulk checks). */
+export const BULK_SEARCH = {
+  or: [
+    { header: { "list-id": true } },
+    { header: { "list-unsubscribe": true } },
+    ...[...BULK_PRECEDENCE].map((precedence) => ({ header: { precedence } })),
+  ],
+};
+
+/** IMAP search for messages carrying no bulk marker (excludeBulk). */
+export const NOT_BULK_SEARCH = { not: BULK_SEARCH };
+
+export interface BulkHeaders {
+  isBulk: boolean;
+  /** List identifier without the display name, e.g. "news.example.com". */
+  listId?: string;
+  listUnsubscribe?: string;
+  listUnsubscribePost?: string;
+  precedence?: string;
+}
+
+export interface UnsubscribeInfo {
+  /** https/http unsubscribe URL from List-Unsubscribe. */
+  url?: string;
+  /** mailto: unsubscribe address from List-Unsubscribe. */
+  mailto?: string;
+  /** RFC 8058 one-click unsubscribe (POST to `url`) is supported. */
+  oneClick: boolean;
+}
+
+export interface SubscriptionSummary {
+  /** List-Id, or the sender address for bulk mail without one. */
+  key: string;
+  listId?: string;
+  sender: string;
+  senderName?: string;
+  messages: number;
+  unread: number;
+  /** Share of messages already read (0..1). */
+  readRatio: number;
+  /** Average over the span between first and last message (at least one week). */
+  messagesPerWeek: number;
+  firstReceived: string;
+  lastReceived: string;
+  lastSubject: string;
+  unsubscribe?: UnsubscribeInfo;
+}
+
+export interface ListSubscriptionsOptions {
+  since?: string;
+  before?: string;
+  /** Scan at most this many bulk messages (newest first). Default 2000. */
+  maxMessages?: number;
+  /** Return at most this many subscriptions. Default 50. */
+  limit?: number;
+}
+
+export interface ListSubscriptionsResult {
+  mailbox: string;
+  /** Bulk messages scanned. */
+  scanned: number;
+  /** Bulk messages matching the range; larger than `scanned` when truncated. */
+  matched: number;
+  truncated: boolean;
+  subscriptions: SubscriptionSummary[];
+}
+
+const FETCH_BATCH_SIZE = 500;
+const DEFAULT_MAX_MESSAGES = 2000;
+const DEFAULT_LIMIT = 50;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** First value of each header in a raw header block (names lower-cased, folding undone). */
+function parseHeaderBlock(headers: Buffer | undefined): Map<string, string> {
+  const out = new Map<string, string>();
+  if (!headers) return out;
+  const text = headers.toString("utf8").replace(/\r?\n[ \t]+/g, " ");
+  for (const line of text.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!out.has(name)) out.set(name, line.slice(colon + 1).trim());
+  }
+  return out;
+}
+
+/** Bulk markers from a fetched header block (see BULK_HEADER_NAMES). */
+export function parseBulkHeaders(headers: Buffer | undefined): BulkHeaders {
+  const values = parseHeaderBlock(headers);
+  const rawListId = values.get("list-id");
+  const listId = rawListId ? (/<([^>]+)>/.exec(rawListId)?.[1] ?? rawListId).trim() : undefined;
+  const listUnsubscribe = values.get("list-unsubscribe");
+  const precedence = values.get("precedence")?.toLowerCase();
+  return {
+    isBulk: Boolean(listId || listUnsubscribe || (precedence && BULK_PRECEDENCE.has(precedence))),
+    listId: listId || undefined,
+    listUnsubscribe,
+    listUnsubscribePost: values.get("list-unsubscribe-post"),
+    precedence,
+  };
+}
+
+/** Unsubscribe targets from List-Unsubscribe ("<mailto:...>, <https://...>") and List-Unsubscribe-Post. */
+export function parseUnsubscribe(listUnsubscribe: string | undefined, listUnsubscribePost?: string): UnsubscribeInfo | undefined {
+  if (!listUnsubscribe) return undefined;
+  const targets = Array.from(listUnsubscribe.matchAll(/<([^>]+)>/g), (m) => m[1].trim());
+  const url = targets.find((t) => /^https?:\/\//i.test(t));
+  const mailto = targets.find((t) => /^mailto:/i.test(t));
+  if (!url && !mailto) return undefined;
+  return {
+    url,
+    mailto,
+    oneClick: Boolean(url && /List-Unsubscribe=One-Click/i.test(listUnsubscribePost ?? "")),
+  };
+}
+
+interface BulkMessage {
+  uid: number;
+  from: string;
+  fromName?: string;
+  subject: string;
+  date: number;
+  seen: boolean;
+  bulk: BulkHeaders;
+}
+
+async function fetchBulkMessages(client: ImapClientLike, uids: number[]): Promise<BulkMessage[]> {
+  const out: BulkMessage[] = [];
+  for (let i = 0; i < uids.length; i += FETCH_BATCH_SIZE) {
+    const batch = uids.slice(i, i + FETCH_BATCH_SIZE);
+    const query = { uid: true, envelope: true, flags: true, headers: BULK_HEADER_NAMES };
+    for await (const msg of client.fetch(batch, query, { uid: true })) {
+      const sender = msg.envelope?.from?.[0];
+      const subject = msg.envelope?.subject;
+      out.push({
+        uid: msg.uid ?? 0,
+        from: (sender?.address ?? sender?.name ?? "").toLowerCase(),
+        fromName: sender?.name || undefined,
+        subject: Array.isArray(subject) ? subject.join(" ") : String(subject ?? ""),
+        date: msg.envelope?.date ? new Date(msg.envelope.date).getTime() : 0,
+        seen: msg.flags?.has("\\Seen") === true,
+        bulk: parseBulkHeaders(msg.headers),
+      });
+    }
+  }
+  return out;
+}
+
+function summarize(messages: BulkMessage[]): SubscriptionSummary[] {
+  const groups = new Map<string, BulkMessage[]>();
+  for (const message of messages) {
+    if (!message.bulk.isBulk) continue;
+    const key = message.bulk.listId ?? message.from;
+    groups.set(key, [...(groups.get(key) ?? []), message]);
+  }
+
+  return Array.from(groups.entries()).map(([key, group]) => {
+    group.sort((a, b) => b.date - a.date || b.uid - a.uid);
+    const latest = group[0];
+    const first = group[group.length - 1].date;
+    const unread = group.filter((m) => !m.seen).length;
+    const weeks = Math.max(1, (latest.date - first) / WEEK_MS);
+    // The newest message that still advertises an unsubscribe target wins.
+    const unsubscribe = group
+      .map((m) => parseUnsubscribe(m.bulk.listUnsubscribe, m.bulk.listUnsubscribePost))
+      .find(Boolean);
+    return {
+      key,
+      listId: latest.bulk.listId,
+      sender: latest.from,
+      senderName: latest.fromName,
+      messages: group.length,
+      unread,
+      readRatio: Math.round(((group.length - unread) / group.length) * 100) / 100,
+      messagesPerWeek: Math.round((group.length / weeks) * 10) / 10,
+      firstReceived: first ? new Date(first).toISOString() : "",
+      lastReceived: latest.date ? new Date(latest.date).toISOString() : "",
+      lastSubject: latest.subject,
+      unsubscribe,
+    };
+  });
+}
+
+/**
+ * Group the bulk mail of one folder by list (or sender) with frequency, last-received
+ * date, read ratio and unsubscribe targets; most frequent first. Read-only.
+ */
+export async function listSubscriptions(
+  config: ImapConfig,
+  mailbox: string,
+  options: ListSubscriptionsOptions = {}
+): Promise<ListSubscriptionsResult> {
+  const range: Record<string, unknown> = {};
+  const since = parseDateInput("since", options.since);
+  const before = parseDateInput("before", options.before);
+  if (since) range.since = since;
+  if (before) range.before = before;
+  const maxMessages = Math.max(1, Math.floor(options.maxMessages ?? DEFAULT_MAX_MESSAGES));
+  const limit = Math.max(1, Math.floor(options.limit ?? DEFAULT_LIMIT));
+
+  return withMailbox(config, mailbox, async (client) => {
+    const found = await client.search(combineSearchQueries([range, BULK_SEARCH]), { uid: true });
+    const uids = (found || []).slice().sort((a, b) => b - a);
+    const scanned = await fetchBulkMessages(client, uids.slice(0, maxMessages));
+    const subscriptions = summarize(scanned)
+      .sort((a, b) => b.messages - a.messages || b.lastReceived.localeCompare(a.lastReceived))
+      .slice(0, limit);
+    return {
+      mailbox,
+      scanned: scanned.length,
+      matched: uids.length,
+      truncated: uids.length > scanned.length,
+      subscriptions,
+    };
+  });
+}
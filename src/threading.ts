@@ -0,0 +1,431 @@
+/**
+ * Conversation reconstruction: collects a thread transitively across folders
+ * (the anchor's folder, INBOX, Sent and Archive by default) and threads it with
+ * the JWZ algorithm (https://www.jwz.org/doc/threading.html). When a folder's
+ * server advertises THREAD=REFERENCES, its server-side threads are used to find
+ * extra members. Read-only.
+ */
+
+import type { FetchMessageObject } from "imapflow";
+import type { ImapConfig, MailConfig } from "./config.js";
+import { withClient, withMailbox } from "./connection.js";
+import { findSpecialUseFolder, resolveMailbox } from "./folders.js";
+import {
+  envelopeWithOptionalSnippet,
+  getMessage,
+  normalizeMessageId,
+  type ImapClientLike,
+  type MessageEnvelope,
+} from "./imap.js";
+
+/** Input to the JWZ threader. */
+export interface ThreadInput {
+  /** Unique key of the message (normalized Message-ID when present). */
+  key: string;
+  messageId?: string;
+  /** References chain, oldest first, with In-Reply-To appended when missing. */
+  references: string[];
+  /** Epoch ms used to order siblings. */
+  date: number;
+}
+
+export interface ThreadTreeNode {
+  /** Message key; for placeholders, the referenced Message-ID. */
+  key: string;
+  /** True for messages that are referenced but were not found in any searched folder. */
+  missing?: boolean;
+  depth: number;
+  children: ThreadTreeNode[];
+}
+
+export interface MessageLocation {
+  mailbox: string;
+  uid: number;
+}
+
+export interface ConversationMessage extends MessageEnvelope {
+  mailbox: string;
+  depth: number;
+  /** Message-ID of the parent in the thread tree (may be a missing message). */
+  parentMessageId?: string;
+  /** Other folders holding a copy of the same Message-ID. */
+  copies?: MessageLocation[];
+  bodyText?: string;
+}
+
+export interface ConversationTreeNode {
+  messageId?: string;
+  mailbox?: string;
+  uid?: number;
+  subject?: string;
+  date?: string;
+  missing?: boolean;
+  depth: number;
+  children: ConversationTreeNode[];
+}
+
+export interface ConversationResult {
+  anchor: MessageLocation;
+  folders: string[];
+  /** Folders where THREAD=REFERENCES was used. */
+  serverThreadedFolders: string[];
+  /** True when the message cap was hit; the conversation may be incomplete. */
+  truncated: boolean;
+  /** All messages in chronological order. */
+  messages: ConversationMessage[];
+  tree: ConversationTreeNode[];
+}
+
+export interface ConversationOptions {
+  /** Folders to search (default: anchor folder, INBOX, Sent, Archive). */
+  folders?: string[];
+  /** Max distinct messages to collect. */
+  limit?: number;
+  includeBodies?: boolean;
+}
+
+interface Container {
+  id: string;
+  message?: ThreadInput;
+  parent?: Container;
+  children: Container[];
+}
+
+interface CollectedMessage {
+  envelope: MessageEnvelope;
+  location: MessageLocation;
+  copies: MessageLocation[];
+  input: ThreadInput;
+}
+
+const DEFAULT_CONVERSATION_LIMIT = 50;
+const MAX_ROUNDS = 10;
+const IDS_PER_SEARCH = 10;
+
+function isAncestor(candidate: Container, node: Container): boolean {
+  for (let p = node.parent; p; p = p.parent) {
+    if (p === candidate) return true;
+  }
+  return false;
+}
+
+function link(parent: Container, child: Container): void {
+  if (child.parent) child.parent.children = child.parent.children.filter((c) => c !== child);
+  child.parent = parent;
+  parent.children.push(child);
+}
+
+function earliestDate(c: Container): number {
+  if (c.message) return c.message.date;
+  const dates = c.children.map(earliestDate);
+  return dates.length > 0 ? Math.min(...dates) : 0;
+}
+
+/** JWZ step 4: drop empty leaves and promote the children of empty containers. */
+function pruneEmpty(containers: Container[], isRoot: boolean): Container[] {
+  const out: Container[] = [];
+  for (const c of containers) {
+    c.children = pruneEmpty(c.children, false);
+    for (const child of c.children) child.parent = c;
+    if (c.message) {
+      out.push(c);
+    } else if (c.children.length === 0) {
+      continue;
+    } else if (!isRoot || c.children.length === 1) {
+      for (const child of c.children) child.parent = undefined;
+      out.push(...c.children);
+    } else {
+      out.push(c);
+    }
+  }
+  return out;
+}
+
+function toTree(c: Container, depth: number): ThreadTreeNode {
+  const children = c.children
+    .slice()
+    .sort((a, b) => earliestDate(a) - earliestDate(b))
+    .map((child) => toTree(child, depth + 1));
+  return c.message
+    ? { key: c.message.key, depth, children }
+    : { key: c.id, missing: true, depth, children };
+}
+
+/**
+ * Thread messages with the JWZ algorithm (without subject grouping: members are
+ * already connected through Message-ID references). Returns root nodes, oldest first.
+ */
+export function threadMessages(messages: ThreadInput[]): ThreadTreeNode[] {
+  const table = new Map<string, Container>();
+  const containerFor = (id: string): Container => {
+    let c = table.get(id);
+    if (!c) {
+      c = { id, children: [] };
+      table.set(id, c);
+    }
+    return c;
+  };
+
+  for (const msg of messages) {
+    const self = containerFor(msg.messageId ?? msg.key);
+    if (self.message) continue;
+    self.message = msg;
+
+    let prev: Container | undefined;
+    for (const ref of msg.references) {
+      const current = containerFor(ref);
+      if (prev && !current.parent && current !== prev && !isAncestor(current, prev)) link(prev, current);
+      prev = current;
+    }
+    if (prev && prev !== self && !isAncestor(self, prev)) {
+      link(prev, self);
+    } else if (self.parent && !prev) {
+      self.parent.children = self.parent.children.filter((c) => c !== self);
+      self.parent = undefined;
+    }
+  }
+
+  const roots = pruneEmpty(
+    Array.from(table.values()).filter((c) => !c.parent),
+    true
+  );
+  return roots.sort((a, b) => earliestDate(a) - earliestDate(b)).map((r) => toTree(r, 0));
+}
+
+function parseReferencesHeader(headers: Buffer | undefined): string[] {
+  if (!headers) return [];
+  const text = headers.toString("utf8").replace(/\r?\n[ \t]+/g, " ");
+  const line = /^references:(.*)$/im.exec(text)?.[1] ?? "";
+  return (line.match(/<[^>]+>/g) ?? []).map(normalizeMessageId);
+}
+
+function threadInputFor(msg: FetchMessageObject, key: string, messageId: string | undefined): ThreadInput {
+  const references = parseReferencesHeader(msg.headers);
+  const inReplyTo = msg.envelope?.inReplyTo ? normalizeMessageId(msg.envelope.inReplyTo) : undefined;
+  if (inReplyTo && references[references.length - 1] !== inReplyTo) references.push(inReplyTo);
+  const date = msg.envelope?.date ? new Date(msg.envelope.date).getTime() : 0;
+  return {
+    key,
+    messageId,
+    references: references.filter((r) => r !== messageId),
+    date: Number.isNaN(date) ? 0 : date,
+  };
+}
+
+/** Parse an untagged THREAD response into groups of UIDs, one per thread. */
+function threadGroups(attributes: unknown[] | undefined): number[][] {
+  const flatten = (value: unknown, out: number[]): void => {
+    if (Array.isArray(value)) {
+      for (const v of value) flatten(v, out);
+      return;
+    }
+    const n = Number((value as { value?: unknown })?.value);
+    if (Number.isInteger(n) && n > 0) out.push(n);
+  };
+  return (attributes ?? []).filter(Array.isArray).map((thread) => {
+    const uids: number[] = [];
+    flatten(thread, uids);
+    return uids;
+  });
+}
+
+async function serverThreads(client: ImapClientLike): Promise<number[][] | undefined> {
+  if (!client.exec || !client.capabilities?.has("THREAD=REFERENCES")) return undefined;
+  const groups: number[][] = [];
+  const response = await client.exec(
+    "UID THREAD",
+    [
+      { type: "ATOM", value: "REFERENCES" },
+      { type: "ATOM", value: "UTF-8" },
+      { type: "ATOM", value: "ALL" },
+    ],
+    {
+      untagged: {
+        THREAD: (untagged) => {
+          groups.push(...threadGroups(untagged.attributes));
+        },
+      },
+    }
+  );
+  response.next?.();
+  return groups;
+}
+
+function searchQueryForIds(ids: string[]): Record<string, unknown> {
+  return {
+    or: ids.flatMap((id) => {
+      const bracketed = `<${id}>`;
+      return [
+        { header: { "message-id": bracketed } },
+        { header: { references: bracketed } },
+        { header: { "in-reply-to": bracketed } },
+      ];
+    }),
+  };
+}
+
+async function resolveConversationFolders(
+  config: ImapConfig,
+  mailbox: string,
+  folders?: string[]
+): Promise<{ anchor: string; folders: string[] }> {
+  const picked = await withClient(config, async (client) => {
+    const requested =
+      folders && folders.length > 0
+        ? [mailbox, ...folders]
+        : [
+            mailbox,
+            "INBOX",
+            (await findSpecialUseFolder(client, "\\Sent")) ?? "",
+            (await findSpecialUseFolder(client, "\\Archive")) ?? "",
+          ];
+    // Resolve aliases up front so "@sent" and the Sent default are not walked twice.
+    return Promise.all(requested.map((f) => (f ? resolveMailbox(client, f) : f)));
+  });
+  const out: string[] = [];
+  for (const f of picked) {
+    if (!f || out.some((o) => o === f || (o.toUpperCase() === "INBOX" && f.toUpperCase() === "INBOX"))) continue;
+    out.push(f);
+  }
+  return { anchor: picked[0], folders: out };
+}
+
+/**
+ * Reconstruct the full conversation around one message, across folders.
+ */
+export async function getConversation(
+  config: ImapConfig,
+  mailConfig: MailConfig,
+  mailbox: string,
+  uid: number,
+  options: ConversationOptions = {}
+): Promise<ConversationResult | null> {
+  const limit = Math.max(1, Math.floor(options.limit ?? DEFAULT_CONVERSATION_LIMIT));
+  // The anchor is fetched, keyed and reported under its resolved path, like every walked folder.
+  const { anchor, folders } = await resolveConversationFolders(config, mailbox, options.folders);
+
+  const collected = new Map<string, CollectedMessage>();
+  const seenLocations = new Set<string>();
+  const knownIds = new Set<string>();
+  let frontier: string[] = [];
+  const serverThreaded = new Set<string>();
+  const threadCache = new Map<string, number[][] | undefined>();
+  let truncated = false;
+
+  const addMessage = async (folder: string, msg: FetchMessageObject, client: ImapClientLike): Promise<void> => {
+    if (!msg.uid) return;
+    const location = { mailbox: folder, uid: msg.uid };
+    const locationKey = `${folder}\u0000${msg.uid}`;
+    if (seenLocations.has(locationKey)) return;
+    seenLocations.add(locationKey);
+
+    const messageId = msg.envelope?.messageId ? normalizeMessageId(msg.envelope.messageId) : undefined;
+    const key = messageId ?? locationKey;
+    const existing = collected.get(key);
+    if (existing) {
+      existing.copies.push(location);
+      return;
+    }
+    if (collected.size >= limit) {
+      truncated = true;
+      return;
+    }
+    const envelope = await envelopeWithOptionalSnippet(msg, false, 0, {
+      path: client.mailbox?.path ?? folder,
+      uidValidity: client.mailbox?.uidValidity?.toString(),
+    });
+    const input = threadInputFor(msg, key, messageId);
+    collected.set(key, { envelope, location, copies: [], input });
+    for (const id of [messageId, ...input.references]) {
+      if (id && !knownIds.has(id)) {
+        knownIds.add(id);
+        frontier.push(id);
+      }
+    }
+  };
+
+  const fetchInto = async (client: ImapClientLike, folder: string, uids: number[]): Promise<void> => {
+    const fresh = uids.filter((u) => !seenLocations.has(`${folder}\u0000${u}`));
+    if (fresh.length === 0) return;
+    for await (const msg of client.fetch(
+      fresh,
+      { uid: true, envelope: true, headers: ["references"] },
+      { uid: true }
+    )) {
+      await addMessage(folder, msg, client);
+    }
+  };
+
+  const anchorFound = await withMailbox(config, anchor, async (client) => {
+    await fetchInto(client, anchor, [uid]);
+    return seenLocations.size > 0;
+  });
+  if (!anchorFound) return null;
+
+  for (let round = 0; round < MAX_ROUNDS && frontier.length > 0 && !truncated; round += 1) {
+    const ids = frontier;
+    frontier = [];
+    for (const folder of folders) {
+      await withMailbox(config, folder, async (client) => {
+        const found = new Set<number>();
+        for (let i = 0; i < ids.length; i += IDS_PER_SEARCH) {
+          const matched = await client.search(searchQueryForIds(ids.slice(i, i + IDS_PER_SEARCH)), { uid: true });
+          for (const u of Array.isArray(matched) ? matched : []) found.add(u);
+        }
+        if (found.size > 0) {
+          if (!threadCache.has(folder)) threadCache.set(folder, await serverThreads(client));
+          const groups = threadCache.get(folder);
+          if (groups) {
+            serverThreaded.add(folder);
+            for (const group of groups) {
+              if (group.some((u) => found.has(u))) group.forEach((u) => found.add(u));
+            }
+          }
+        }
+        await fetchInto(client, folder, Array.from(found).sort((a, b) => a - b));
+      });
+    }
+  }
+
+  const roots = threadMessages(Array.from(collected.values()).map((m) => m.input));
+
+  const messages: ConversationMessage[] = [];
+  const toConversationTree = (node: ThreadTreeNode, parentId?: string): ConversationTreeNode => {
+    const entry = node.missing ? undefined : collected.get(node.key);
+    const children = node.children.map((c) => toConversationTree(c, entry ? entry.input.messageId : node.key));
+    if (!entry) return { messageId: node.key, missing: true, depth: node.depth, children };
+    messages.push({
+      ...entry.envelope,
+      mailbox: entry.location.mailbox,
+      depth: node.depth,
+      parentMessageId: parentId,
+      copies: entry.copies.length > 0 ? entry.copies : undefined,
+    });
+    return {
+      messageId: entry.input.messageId,
+      mailbox: entry.location.mailbox,
+      uid: entry.location.uid,
+      subject: entry.envelope.subject,
+      date: entry.envelope.date,
+      depth: node.depth,
+      children,
+    };
+  };
+  const tree = roots.map((r) => toConversationTree(r));
+  messages.sort((a, b) => (Date.parse(a.date) || 0) - (Date.parse(b.date) || 0) || a.uid - b.uid);
+
+  if (options.includeBodies) {
+    for (const m of messages) {
+      m.bodyText = (await getMessage(config, mailConfig, m.mailbox, m.uid))?.bodyText;
+    }
+  }
+
+  return {
+    anchor: { mailbox: anchor, uid },
+    folders,
+    serverThreadedFolders: Array.from(serverThreaded),
+    truncated,
+    messages,
+    tree,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * imap:// resource URIs for folders, messages and attachments.
+ *
+ *   imap://folder/INBOX
+ *   imap://message/INBOX;UIDVALIDITY=385759045/1234
+ *   imap://attachment/INBOX;UIDVALIDITY=385759045/1234/2
+ *
+ * Mailbox paths are percent-encoded as one segment (so "Work/2026" becomes "Work%2F2026").
+ * UIDVALIDITY is optional when reading, so clients can build URIs from templates.
+ */
+
+export type ResourceKind = "folder" | "message" | "attachment";
+
+export interface ParsedResourceUri {
+  kind: ResourceKind;
+  mailbox: string;
+  uidValidity?: string;
+  uid?: number;
+  part?: string;
+}
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "imap://folder/{mailbox}",
+    name: "Mail folder",
+    description: "Folder status and most recent message envelopes",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "imap://message/{mailbox}/{uid}",
+    name: "Mail message",
+    description: "One message (envelope + body text), same content as mail_get_message",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "imap://attachment/{mailbox}/{uid}/{part}",
+    name: "Mail attachment",
+    description: "One attachment part by MIME part ID, as listed by mail_list_attachments",
+  },
+] as const;
+
+function mailboxSegment(mailbox: string, uidValidity?: string): string {
+  const encoded = encodeURIComponent(mailbox);
+  return uidValidity ? `${encoded};UIDVALIDITY=${uidValidity}` : encoded;
+}
+
+export function folderUri(mailbox: string): string {
+  return `imap://folder/${encodeURIComponent(mailbox)}`;
+}
+
+export function messageUri(mailbox: string, uid: number, uidValidity?: string): string {
+  return `imap://message/${mailboxSegment(mailbox, uidValidity)}/${uid}`;
+}
+
+export function attachmentUri(mailbox: string, uid: number, part: string, uidValidity?: string): string {
+  return `imap://attachment/${mailboxSegment(mailbox, uidValidity)}/${uid}/${part}`;
+}
+
+function invalid(uri: string, reason: string): Error {
+  return new Error(`Invalid resource URI: ${uri} (${reason})`);
+}
+
+export function parseResourceUri(uri: string): ParsedResourceUri {
+  const match = /^imap:\/\/(folder|message|attachment)\/(.+)$/.exec(uri.trim());
+  if (!match) throw invalid(uri, "expected imap://folder/..., imap://message/... or imap://attachment/...");
+  const kind = match[1] as ResourceKind;
+  const segments = match[2].split("/");
+
+  const [rawMailbox, ...params] = segments[0].split(";");
+  let mailbox: string;
+  try {
+    mailbox = decodeURIComponent(rawMailbox);
+  } catch {
+    throw invalid(uri, "bad percent-encoding in mailbox");
+  }
+  if (!mailbox) throw invalid(uri, "missing mailbox");
+
+  let uidValidity: string | undefined;
+  for (const param of params) {
+    const m = /^UIDVALIDITY=(\d+)$/i.exec(param);
+    if (!m) throw invalid(uri, `unknown parameter ${param}`);
+    uidValidity = m[1];
+  }
+
+  const expectedSegments = kind === "folder" ? 1 : kind === "message" ? 2 : 3;
+  if (segments.length !== expectedSegments) throw invalid(uri, "wrong number of path segments");
+  if (kind === "folder") {
+    if (uidValidity) throw invalid(uri, "UIDVALIDITY is not used on folder URIs");
+    return { kind, mailbox };
+  }
+
+  const uid = Number(segments[1]);
+  if (!Number.isInteger(uid) || uid <= 0) throw invalid(uri, "UID must be a positive integer");
+  if (kind === "message") return { kind, mailbox, uidValidity, uid };
+
+  const part = segments[2];
+  if (!/^\d+(\.\d+)*$/.test(part)) throw invalid(uri, "part must look like 2 or 1.2");
+  return { kind, mailbox, uidValidity, uid, part };
+}
@@ -0,0 +1,245 @@
+/**
+ * Background IMAP IDLE watchers for new-mail notifications.
+ * Each watched folder gets a dedicated connection (IDLE would otherwise pin a pooled
+ * lease); EXISTS/EXPUNGE/FETCH FLAGS updates are fanned out to change listeners.
+ */
+
+import type { ImapConfig } from "./config.js";
+import { openDedicatedConnection, safeLogout } from "./connection.js";
+import { resolveMailbox } from "./folders.js";
+import {
+  getMailboxStatus,
+  listMessagesAfterUid,
+  type ImapClientLike,
+  type ListQueryOptions,
+  type MessageEnvelope,
+} from "./imap.js";
+
+export type MailboxChangeType = "exists" | "expunge" | "flags";
+
+export interface MailboxChange {
+  mailbox: string;
+  type: MailboxChangeType;
+  /** New message count (exists). */
+  count?: number;
+  /** Message count before the update (exists). */
+  prevCount?: number;
+  seq?: number;
+  uid?: number;
+  flags?: string[];
+}
+
+export interface WaitForNewMailOptions extends ListQueryOptions {
+  /** Report messages with UID greater than this. Defaults to uidNext - 1 at call time. */
+  sinceUid?: number;
+  timeoutMs?: number;
+  /** How often to re-check uidNext when no watcher event arrives. */
+  pollIntervalMs?: number;
+}
+
+export interface WaitForNewMailResult {
+  mailbox: string;
+  sinceUid: number;
+  items: MessageEnvelope[];
+  nextCursor?: string;
+  /** Pass as sinceUid on the next call. */
+  lastUid: number;
+  timedOut: boolean;
+}
+
+type ChangeListener = (change: MailboxChange) => void;
+
+interface FolderWatch {
+  config: ImapConfig;
+  mailbox: string;
+  client?: ImapClientLike;
+  stopped: boolean;
+  retryDelayMs: number;
+  retryTimer?: NodeJS.Timeout;
+}
+
+const MIN_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+export const MAX_WAIT_TIMEOUT_MS = 5 * 60_000;
+const DEFAULT_WAIT_TIMEOUT_MS = 30_000;
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+
+const watches = new Map<string, FolderWatch>();
+const listeners = new Set<ChangeListener>();
+
+function watchKey(mailbox: string): string {
+  return mailbox.toUpperCase() === "INBOX" ? "INBOX" : mailbox;
+}
+
+function emit(change: MailboxChange): void {
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(change);
+    } catch {
+      // A failing listener must not stop other listeners or the watcher.
+    }
+  }
+}
+
+/**
+ * Register a listener for changes on any watched folder. Returns an unsubscribe function.
+ */
+export function onMailboxChange(listener: ChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isWatching(mailbox: string): boolean {
+  return watches.has(watchKey(mailbox));
+}
+
+export function watchedMailboxes(): string[] {
+  return Array.from(watches.values()).map((w) => w.mailbox);
+}
+
+function scheduleRestart(watch: FolderWatch): void {
+  if (watch.stopped || watch.retryTimer) return;
+  const delay = watch.retryDelayMs;
+  watch.retryDelayMs = Math.min(delay * 2, MAX_RETRY_DELAY_MS);
+  watch.retryTimer = setTimeout(() => {
+    watch.retryTimer = undefined;
+    void startWatch(watch);
+  }, delay);
+  watch.retryTimer.unref?.();
+}
+
+function attachListeners(watch: FolderWatch, client: ImapClientLike): void {
+  const mailbox = watch.mailbox;
+  client.on?.("exists", (data) => {
+    const d = data as { count?: number; prevCount?: number };
+    emit({ mailbox, type: "exists", count: d.count, prevCount: d.prevCount });
+  });
+  client.on?.("expunge", (data) => {
+    const d = data as { seq?: number; uid?: number };
+    emit({ mailbox, type: "expunge", seq: d.seq, uid: d.uid });
+  });
+  client.on?.("flags", (data) => {
+    const d = data as { seq?: number; uid?: number; flags?: Set<string> };
+    emit({ mailbox, type: "flags", seq: d.seq, uid: d.uid, flags: d.flags ? Array.from(d.flags) : undefined });
+  });
+  client.on?.("close", () => {
+    if (watch.client === client) watch.client = undefined;
+    scheduleRestart(watch);
+  });
+}
+
+async function startWatch(watch: FolderWatch): Promise<void> {
+  let client: ImapClientLike | undefined;
+  try {
+    client = await openDedicatedConnection(watch.config);
+    if (watch.stopped) {
+      await safeLogout(client);
+      return;
+    }
+    if (!client.mailboxOpen) throw new Error("IMAP client does not support mailboxOpen");
+    attachListeners(watch, client);
+    await client.mailboxOpen(await resolveMailbox(client, watch.mailbox), { readOnly: true });
+    // imapflow enters IDLE on its own while the selected mailbox is otherwise unused.
+    watch.client = client;
+    watch.retryDelayMs = MIN_RETRY_DELAY_MS;
+  } catch {
+    if (client) await safeLogout(client);
+    scheduleRestart(watch);
+  }
+}
+
+/**
+ * Start an IDLE watcher on a folder (idempotent). Connection failures are retried with backoff.
+ */
+export async function watchMailbox(config: ImapConfig, mailbox: string): Promise<void> {
+  const key = watchKey(mailbox);
+  if (watches.has(key)) return;
+  const watch: FolderWatch = { config, mailbox, stopped: false, retryDelayMs: MIN_RETRY_DELAY_MS };
+  watches.set(key, watch);
+  await startWatch(watch);
+}
+
+export async function unwatchMailbox(mailbox: string): Promise<void> {
+  const key = watchKey(mailbox);
+  const watch = watches.get(key);
+  if (!watch) return;
+  watches.delete(key);
+  watch.stopped = true;
+  if (watch.retryTimer) clearTimeout(watch.retryTimer);
+  const client = watch.client;
+  watch.client = undefined;
+  if (client) await safeLogout(client);
+}
+
+export async function stopAllWatchers(): Promise<void> {
+  await Promise.all(watchedMailboxes().map((mailbox) => unwatchMailbox(mailbox)));
+}
+
+/**
+ * Resolve with the next EXISTS change on `mailbox`, or undefined after `timeoutMs`.
+ */
+export function waitForMailboxChange(mailbox: string, timeoutMs: number): Promise<MailboxChange | undefined> {
+  const key = watchKey(mailbox);
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      off();
+      resolve(undefined);
+    }, Math.max(0, timeoutMs));
+    const off = onMailboxChange((change) => {
+      if (change.type !== "exists" || watchKey(change.mailbox) !== key) return;
+      clearTimeout(timer);
+      off();
+      resolve(change);
+    });
+  });
+}
+
+function clampTimeout(value: number | undefined, fallback: number, max: number): number {
+  if (!Number.isFinite(value)) return fallback;
+  return Math.min(Math.max(0, Math.floor(value as number)), max);
+}
+
+/**
+ * Block until messages with UID > sinceUid exist in `mailbox`, or the timeout elapses.
+ * Wakes up early on watcher EXISTS events; otherwise re-checks uidNext every pollIntervalMs.
+ */
+export async function waitForNewMail(
+  config: ImapConfig,
+  mailbox: string,
+  options: WaitForNewMailOptions = {}
+): Promise<WaitForNewMailResult> {
+  const timeoutMs = clampTimeout(options.timeoutMs, DEFAULT_WAIT_TIMEOUT_MS, MAX_WAIT_TIMEOUT_MS);
+  const pollIntervalMs = clampTimeout(options.pollIntervalMs, DEFAULT_POLL_INTERVAL_MS, MAX_WAIT_TIMEOUT_MS) || 1;
+  const deadline = Date.now() + timeoutMs;
+
+  let uidNext = (await getMailboxStatus(config, mailbox)).uidNext;
+  const sinceUid =
+    options.sinceUid != null && Number.isFinite(options.sinceUid)
+      ? Math.max(0, Math.floor(options.sinceUid))
+      : Math.max(0, (uidNext ?? 1) - 1);
+
+  for (;;) {
+    // Servers that omit UIDNEXT in STATUS get a UID search every round instead.
+    if (uidNext == null || uidNext > sinceUid + 1) {
+      const page = await listMessagesAfterUid(config, mailbox, sinceUid, options);
+      if (page.items.length > 0) {
+        return {
+          mailbox,
+          sinceUid,
+          items: page.items,
+          nextCursor: page.nextCursor,
+          lastUid: page.items[page.items.length - 1].uid,
+          timedOut: false,
+        };
+      }
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return { mailbox, sinceUid, items: [], lastUid: sinceUid, timedOut: true };
+    }
+    await waitForMailboxChange(mailbox, Math.min(remaining, pollIntervalMs));
+    uidNext = (await getMailboxStatus(config, mailbox)).uidNext;
+  }
+}
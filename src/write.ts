@@ -0,0 +1,321 @@
+/**
+ * Opt-in mailbox write operations: flag, move, copy and delete.
+ * Every call goes through the safety policy in WriteConfig (MAIL_ALLOW_WRITE,
+ * target folder allow-list including Trash, MAIL_ALLOW_EXPUNGE for permanent
+ * deletes, per-call message cap) and supports dry-run.
+ */
+
+import type { ImapConfig, WriteConfig } from "./config.js";
+import { withMailbox } from "./connection.js";
+import { findSpecialUseFolder, isFolderAlias, resolveMailbox } from "./folders.js";
+import type { ImapClientLike } from "./imap.js";
+
+export type WriteAction = "set_flags" | "move" | "copy" | "delete";
+
+export interface WriteTarget {
+  uid: number;
+  subject: string;
+  flags: string[];
+  /** Flags after the change (set_flags only). */
+  flagsAfter?: string[];
+}
+
+export interface WriteResult {
+  action: WriteAction;
+  mailbox: string;
+  dryRun: boolean;
+  destination?: string;
+  /** Messages that were (or, in dry-run, would be) changed. */
+  affected: WriteTarget[];
+  /** Requested UIDs that do not exist in the mailbox. */
+  missingUids: number[];
+  /** Source UID -> destination UID, when the server reports it (UIDPLUS). */
+  uidMap?: Record<string, number>;
+}
+
+export interface SetFlagsInput {
+  add?: string[];
+  remove?: string[];
+}
+
+const FLAG_PATTERN = /^\\?[A-Za-z0-9$_.\-]+$/;
+// Deletion has its own tool (and trash semantics); \Recent is server-managed.
+const FORBIDDEN_FLAGS = new Set(["\\deleted", "\\recent"]);
+
+function assertWriteEnabled(writeConfig: WriteConfig): void {
+  if (!writeConfig.allowWrite) {
+    throw new Error("Write tools are disabled. Set MAIL_ALLOW_WRITE=true to enable them.");
+  }
+}
+
+function normalizeWriteUids(uids: unknown, writeConfig: WriteConfig): number[] {
+  if (!Array.isArray(uids)) throw new Error("uids must be an array of message UIDs");
+  const out = Array.from(new Set(uids.map((v) => Number(v))));
+  if (out.length === 0) throw new Error("uids must contain at least one UID");
+  if (out.some((uid) => !Number.isInteger(uid) || uid <= 0)) {
+    throw new Error("uids must be positive integers");
+  }
+  if (out.length > writeConfig.maxMessagesPerCall) {
+    throw new Error(
+      `Too many messages: ${out.length} requested, max ${writeConfig.maxMessagesPerCall} per call (MAIL_WRITE_MAX_MESSAGES).`
+    );
+  }
+  return out.sort((a, b) => a - b);
+}
+
+function isSameFolder(a: string, b: string): boolean {
+  if (a.toUpperCase() === "INBOX" && b.toUpperCase() === "INBOX") return true;
+  return a === b;
+}
+
+function isAllowedTarget(writeConfig: WriteConfig, destination: string): boolean {
+  return writeConfig.allowedTargetFolders.some((f) => isSameFolder(f, destination));
+}
+
+function assertTargetAllowed(writeConfig: WriteConfig, mailbox: string, destination: string): void {
+  if (!destination) throw new Error("destination must be a non-empty folder name");
+  if (isSameFolder(mailbox, destination)) {
+    throw new Error("destination must differ from the source mailbox");
+  }
+  if (!isAllowedTarget(writeConfig, destination)) {
+    throw new Error(
+      `Folder not allowed as a write target: ${destination}. ` +
+        "Add it to MAIL_WRITE_ALLOWED_FOLDERS to permit moves/copies there."
+    );
+  }
+}
+
+function normalizeFlags(name: string, flags: unknown): string[] {
+  if (flags == null) return [];
+  if (!Array.isArray(flags)) throw new Error(`${name} must be an array of flags`);
+  const out = Array.from(new Set(flags.map((f) => String(f).trim()).filter(Boolean)));
+  for (const flag of out) {
+    if (!FLAG_PATTERN.test(flag)) throw new Error(`Invalid flag: ${flag}`);
+    if (FORBIDDEN_FLAGS.has(flag.toLowerCase())) {
+      throw new Error(`Flag ${flag} cannot be set here. Use mail_delete_messages to delete messages.`);
+    }
+  }
+  return out;
+}
+
+function uidMapToRecord(uidMap: Map<number, number> | undefined): Record<string, number> | undefined {
+  if (!uidMap) return undefined;
+  return Object.fromEntries(Array.from(uidMap.entries()).map(([src, dst]) => [String(src), dst]));
+}
+
+function unsupported(method: string): Error {
+  return new Error(`IMAP client does not support ${method}`);
+}
+
+async function fetchTargets(client: ImapClientLike, uids: number[]): Promise<WriteTarget[]> {
+  const out: WriteTarget[] = [];
+  for await (const msg of client.fetch(uids, { uid: true, envelope: true, flags: true }, { uid: true })) {
+    const subj = msg.envelope?.subject;
+    out.push({
+      uid: msg.uid ?? 0,
+      subject: Array.isArray(subj) ? subj.join(" ") : String(subj ?? ""),
+      flags: Array.from(msg.flags ?? []),
+    });
+  }
+  return out.filter((t) => uids.includes(t.uid)).sort((a, b) => a.uid - b.uid);
+}
+
+function missingFrom(uids: number[], targets: WriteTarget[]): number[] {
+  const found = new Set(targets.map((t) => t.uid));
+  return uids.filter((uid) => !found.has(uid));
+}
+
+/**
+ * Add and/or remove flags (e.g. \Seen, \Flagged, custom keywords) on messages.
+ */
+export async function setFlags(
+  config: ImapConfig,
+  writeConfig: WriteConfig,
+  mailbox: string,
+  uids: unknown,
+  input: SetFlagsInput,
+  dryRun: boolean = false
+): Promise<WriteResult> {
+  assertWriteEnabled(writeConfig);
+  const targetUids = normalizeWriteUids(uids, writeConfig);
+  const add = normalizeFlags("add", input.add);
+  const remove = normalizeFlags("remove", input.remove);
+  if (add.length === 0 && remove.length === 0) {
+    throw new Error("provide at least one flag in add or remove");
+  }
+  const conflict = add.find((f) => remove.some((r) => r.toLowerCase() === f.toLowerCase()));
+  if (conflict) throw new Error(`Flag ${conflict} cannot be both added and removed`);
+
+  return withMailbox(
+    config,
+    mailbox,
+    async (client) => {
+      const targets = await fetchTargets(client, targetUids);
+      for (const t of targets) {
+        const removeLower = new Set(remove.map((f) => f.toLowerCase()));
+        const after = t.flags.filter((f) => !removeLower.has(f.toLowerCase()));
+        for (const f of add) {
+          if (!after.some((x) => x.toLowerCase() === f.toLowerCase())) after.push(f);
+        }
+        t.flagsAfter = after;
+      }
+      const found = targets.map((t) => t.uid);
+      if (!dryRun && found.length > 0) {
+        if (!client.messageFlagsAdd || !client.messageFlagsRemove) throw unsupported("STORE");
+        if (add.length > 0) await client.messageFlagsAdd(found, add, { uid: true });
+        if (remove.length > 0) await client.messageFlagsRemove(found, remove, { uid: true });
+      }
+      return {
+        action: "set_flags" as const,
+        mailbox,
+        dryRun,
+        affected: targets,
+        missingUids: missingFrom(targetUids, targets),
+      };
+    },
+    { readOnly: dryRun }
+  );
+}
+
+async function transferMessages(
+  action: "move" | "copy",
+  config: ImapConfig,
+  writeConfig: WriteConfig,
+  mailbox: string,
+  uids: unknown,
+  destination: string,
+  dryRun: boolean
+): Promise<WriteResult> {
+  assertWriteEnabled(writeConfig);
+  const targetUids = normalizeWriteUids(uids, writeConfig);
+  if (!isFolderAlias(destination)) assertTargetAllowed(writeConfig, mailbox, destination);
+
+  return withMailbox(
+    config,
+    mailbox,
+    async (client) => {
+      // Aliases are checked against the allow-list once they name a real folder.
+      if (isFolderAlias(destination)) {
+        destination = await resolveMailbox(client, destination);
+        assertTargetAllowed(writeConfig, client.mailbox?.path ?? mailbox, destination);
+      }
+      const targets = await fetchTargets(client, targetUids);
+      const found = targets.map((t) => t.uid);
+      let uidMap: Record<string, number> | undefined;
+      if (!dryRun && found.length > 0) {
+        const transfer = action === "move" ? client.messageMove : client.messageCopy;
+        if (!transfer) throw unsupported(action.toUpperCase());
+        const res = await transfer.call(client, found, destination, { uid: true });
+        if (res === false) throw new Error(`Failed to ${action} messages to ${destination}`);
+        uidMap = uidMapToRecord(res.uidMap);
+      }
+      return {
+        action,
+        mailbox,
+        dryRun,
+        destination,
+        affected: targets,
+        missingUids: missingFrom(targetUids, targets),
+        uidMap,
+      };
+    },
+    { readOnly: dryRun }
+  );
+}
+
+/**
+ * Move messages to an allow-listed folder.
+ */
+export async function moveMessages(
+  config: ImapConfig,
+  writeConfig: WriteConfig,
+  mailbox: string,
+  uids: unknown,
+  destination: string,
+  dryRun: boolean = false
+): Promise<WriteResult> {
+  return transferMessages("move", config, writeConfig, mailbox, uids, destination, dryRun);
+}
+
+/**
+ * Copy messages to an allow-listed folder.
+ */
+export async function copyMessages(
+  config: ImapConfig,
+  writeConfig: WriteConfig,
+  mailbox: string,
+  uids: unknown,
+  destination: string,
+  dryRun: boolean = false
+): Promise<WriteResult> {
+  return transferMessages("copy", config, writeConfig, mailbox, uids, destination, dryRun);
+}
+
+/**
+ * Delete messages. By default they are moved to the Trash folder (RFC 6154 \Trash,
+ * then common names), which must be allow-listed like any move target;
+ * `permanent: true` expunges them instead and needs MAIL_ALLOW_EXPUNGE.
+ */
+export async function deleteMessages(
+  config: ImapConfig,
+  writeConfig: WriteConfig,
+  mailbox: string,
+  uids: unknown,
+  options: { permanent?: boolean; dryRun?: boolean } = {}
+): Promise<WriteResult> {
+  assertWriteEnabled(writeConfig);
+  const targetUids = normalizeWriteUids(uids, writeConfig);
+  const dryRun = options.dryRun === true;
+  const permanent = options.permanent === true;
+  if (permanent && !writeConfig.allowExpunge) {
+    throw new Error("Permanent deletion is disabled. Set MAIL_ALLOW_EXPUNGE=true to allow permanent: true.");
+  }
+
+  return withMailbox(
+    config,
+    mailbox,
+    async (client) => {
+      let destination: string | undefined;
+      if (!permanent) {
+        destination = await findSpecialUseFolder(client, "\\Trash");
+        if (!destination) {
+          throw new Error("No Trash folder found. Pass permanent: true to expunge instead.");
+        }
+        if (isSameFolder(destination, client.mailbox?.path ?? mailbox)) {
+          throw new Error("Messages are already in Trash. Pass permanent: true to expunge them.");
+        }
+        if (!isAllowedTarget(writeConfig, destination)) {
+          throw new Error(
+            `Trash folder not allowed as a write target: ${destination}. ` +
+              "Add it to MAIL_WRITE_ALLOWED_FOLDERS to permit deleting messages."
+          );
+        }
+      }
+
+      const targets = await fetchTargets(client, targetUids);
+      const found = targets.map((t) => t.uid);
+      let uidMap: Record<string, number> | undefined;
+      if (!dryRun && found.length > 0) {
+        if (destination) {
+          if (!client.messageMove) throw unsupported("MOVE");
+          const res = await client.messageMove(found, destination, { uid: true });
+          if (res === false) throw new Error(`Failed to move messages to ${destination}`);
+          uidMap = uidMapToRecord(res.uidMap);
+        } else {
+          if (!client.messageDelete) throw unsupported("EXPUNGE");
+          await client.messageDelete(found, { uid: true });
+        }
+      }
+      return {
+        action: "delete" as const,
+        mailbox,
+        dryRun,
+        destination,
+        affected: targets,
+        missingUids: missingFrom(targetUids, targets),
+        uidMap,
+      };
+    },
+    { readOnly: dryRun }
+  );
+}
@@ -0,0 +1,94 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { cleanBodyText } from "../dist/body-clean.js";
+import { renderBody } from "../dist/message-format.js";
+
+test("cleanBodyText drops a wrapped Gmail attribution, quoted history and the signature", () => {
+  const body = [
+    "Sounds good, see you Friday.",
+    "",
+    "-- ",
+    "Ann Example | Example Corp",
+    "",
+    "On Tue, Jan 2, 2024 at 10:00 AM Bob Example <bob@example.com>",
+    "wrote:",
+    "> Are we still on for Friday?",
+    ">",
+    "> Bob",
+  ].join("\n");
+
+  const cleaned = cleanBodyText(body);
+  assert.equal(cleaned.text, "Sounds good, see you Friday.");
+  assert.equal(cleaned.removedChars, body.length - cleaned.text.length);
+});
+
+test("cleanBodyText cuts Outlook reply headers, mobile footers and disclaimers", () => {
+  const outlook = [
+    "Approved.",
+    "",
+    "Sent from my iPhone",
+    "",
+    "________________________________",
+    "From: Bob Example <bob@example.com>",
+    "Sent: Tuesday, January 2, 2024 10:00 AM",
+    "To: Ann Example <ann@example.com>",
+    "Subject: Budget",
+    "",
+    "Please approve the budget.",
+  ].join("\r\n");
+  assert.equal(cleanBodyText(outlook).text, "Approved.");
+
+  const disclaimer = [
+    "Invoice attached.",
+    "",
+    "CONFIDENTIALITY NOTICE: This e-mail is intended only for the named recipient.",
+  ].join("\n");
+  assert.equal(cleanBodyText(disclaimer).text, "Invoice attached.");
+});
+
+test("cleanBodyText keeps interleaved answers and forwarded content", () => {
+  const interleaved = [
+    "On Mon, Ann wrote:",
+    "> Can you do Monday?",
+    "Yes, after 2pm.",
+    "> And bring the slides?",
+    "Will do.",
+  ].join("\n");
+  assert.equal(cleanBodyText(interleaved).text, "Yes, after 2pm.\nWill do.");
+
+  const forward = [
+    "FYI",
+    "",
+    "---------- Forwarded message ---------",
+    "From: Bob Example <bob@example.com>",
+    "Date: Tue, Jan 2, 2024 at 10:00 AM",
+    "Subject: Outage",
+    "To: Ann <ann@example.com>",
+    "",
+    "The site is down.",
+  ].join("\n");
+  assert.equal(cleanBodyText(forward).text, forward);
+
+  const onlyQuote = "> just a quote";
+  assert.deepEqual(cleanBodyText(onlyQuote), { text: onlyQuote, removedChars: 0 });
+});
+
+test("renderBody strips Gmail quote containers from HTML-only messages", () => {
+  const parsed = {
+    html: [
+      "<div>Thanks, merged.</div>",
+      '<div class="gmail_quote"><div class="gmail_attr">On Mon, Bob wrote:</div>',
+      '<blockquote class="gmail_quote">Please merge <b>PR 12</b>.</blockquote></div>',
+    ].join(""),
+  };
+
+  const full = renderBody(parsed, "full");
+  assert.match(full.text, /Please merge PR 12/);
+  const cleaned = renderBody(parsed, "new-content");
+  assert.equal(cleaned.text, "Thanks, merged.");
+  assert.equal(cleaned.removedChars, full.text.length - cleaned.text.length);
+
+  const markdown = renderBody(parsed, "new-content", true);
+  assert.equal(markdown.text, "Thanks, merged.");
+});
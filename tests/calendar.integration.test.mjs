@@ -0,0 +1,89 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import * as imap from "../dist/imap.js";
+import { getUpcomingInvites } from "../dist/calendar.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+const MAIL_CONFIG = { maxBodyLength: 50000, maxResults: 200, snippetLength: 400, maxAttachmentBytes: 100000, maxTokens: 0 };
+
+function ics(method, uid, sequence, start, summary) {
+  return [
+    "BEGIN:VCALENDAR",
+    `METHOD:${method}`,
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `SEQUENCE:${sequence}`,
+    `SUMMARY:${summary}`,
+    `DTSTART:${start}`,
+    "DURATION:PT1H",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+/** Message UID -> calendar part (UID 5 has none). */
+const CALENDARS = {
+  1: ics("REQUEST", "late@x", 0, "20240620T090000Z", "Late meeting"),
+  2: ics("REQUEST", "early@x", 0, "20240610T090000Z", "Early meeting"),
+  3: ics("REQUEST", "past@x", 0, "20240501T090000Z", "Past meeting"),
+  4: ics("CANCEL", "late@x", 1, "20240620T090000Z", "Late meeting"),
+  6: ics("REPLY", "early@x", 0, "20240610T090000Z", "Early meeting"),
+};
+
+function mockStore() {
+  const mock = createMockClient({
+    searchImpl: () => [1, 2, 3, 4, 5, 6],
+    fetchImpl: (range) =>
+      (async function* () {
+        for (const uid of range) {
+          const bodyStructure = CALENDARS[uid]
+            ? {
+                type: "multipart/alternative",
+                childNodes: [
+                  { part: "1", type: "text/plain" },
+                  { part: "2", type: "text/calendar", parameters: { method: "REQUEST" } },
+                ],
+              }
+            : { part: "1", type: "text/plain" };
+          yield makeEnvelope(uid, { bodyStructure });
+        }
+      })(),
+    downloadImpl: async (uid, part) => ({
+      meta: { contentType: "text/calendar" },
+      content: (async function* () {
+        assert.equal(part, "2");
+        yield Buffer.from(CALENDARS[uid]);
+      })(),
+    }),
+  });
+  imap.__setClientFactoryForTests(() => mock.client);
+  return mock;
+}
+
+test.afterEach(() => {
+  imap.__setClientFactoryForTests();
+});
+
+test("getUpcomingInvites orders by event date and keeps the latest version", async () => {
+  const mock = mockStore();
+  const result = await getUpcomingInvites(IMAP_CONFIG, MAIL_CONFIG, "INBOX", { from: "2024-06-01T00:00:00Z" });
+
+  assert.deepEqual(mock.calls.search[0].query, { since: new Date("2024-03-03T00:00:00Z") });
+  assert.deepEqual(mock.calls.download.map((d) => d.range).sort(), ["1", "2", "3", "4", "6"]);
+  assert.equal(result.scannedMessages, 6);
+  assert.deepEqual(
+    result.invites.map((i) => [i.event.summary, i.method, i.message.uid, i.startsAt.date]),
+    [
+      ["Early meeting", "REQUEST", 2, "2024-06-10T09:00:00.000Z"],
+      ["Late meeting", "CANCEL", 4, "2024-06-20T09:00:00.000Z"],
+    ]
+  );
+  assert.match(result.invites[0].message.uri, /^imap:\/\/message\/INBOX/);
+
+  const bounded = await getUpcomingInvites(IMAP_CONFIG, MAIL_CONFIG, "INBOX", {
+    from: "2024-06-01T00:00:00Z",
+    until: "2024-06-15T00:00:00Z",
+  });
+  assert.deepEqual(bounded.invites.map((i) => i.event.uid), ["early@x"]);
+});
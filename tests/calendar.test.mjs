@@ -0,0 +1,163 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { simpleParser } from "mailparser";
+
+import { inviteFromParsed, parseCalendar } from "../dist/calendar.js";
+
+const OUTLOOK_INVITE = [
+  "BEGIN:VCALENDAR",
+  "METHOD:REQUEST",
+  "PRODID:Microsoft Exchange Server 2010",
+  "BEGIN:VTIMEZONE",
+  "TZID:W. Europe Standard Time",
+  "BEGIN:STANDARD",
+  "DTSTART:16010101T030000",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0100",
+  "RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=10",
+  "END:STANDARD",
+  "BEGIN:DAYLIGHT",
+  "DTSTART:16010101T020000",
+  "TZOFFSETFROM:+0100",
+  "TZOFFSETTO:+0200",
+  "RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=3",
+  "END:DAYLIGHT",
+  "END:VTIMEZONE",
+  "BEGIN:VEVENT",
+  "UID:040000008200E00074C5B7101A82E008",
+  "SEQUENCE:2",
+  "SUMMARY:Quarterly review\\, Q2",
+  "ORGANIZER;CN=\"Doe, Jane\":mailto:jane@example.com",
+  "ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=TRUE;CN=Bob:mailto:bo",
+  " b@example.com",
+  "ATTENDEE;ROLE=OPT-PARTICIPANT;PARTSTAT=NEEDS-ACTION:mailto:carol@example.com",
+  "DTSTART;TZID=W. Europe Standard Time:20240415T100000",
+  "DTEND;TZID=W. Europe Standard Time:20240415T113000",
+  "LOCATION:Room 4 / Microsoft Teams",
+  "DESCRIPTION:Join: https://teams.microsoft.com/l/meetup-join/19%3ameeting_abc\\nAgenda follows",
+  "STATUS:CONFIRMED",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+const WEEKLY_INVITE = [
+  "BEGIN:VCALENDAR",
+  "METHOD:REQUEST",
+  "BEGIN:VEVENT",
+  "UID:standup@example.com",
+  "SUMMARY:Standup",
+  "DTSTART;TZID=America/New_York:20240101T093000",
+  "DURATION:PT15M",
+  "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20241231T235959Z",
+  "EXDATE;TZID=America/New_York:20240311T093000",
+  "X-GOOGLE-CONFERENCE:https://meet.google.com/abc-defg-hij",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+test("parseCalendar reads an Outlook request with a VTIMEZONE-defined zone", () => {
+  const invite = parseCalendar(OUTLOOK_INVITE);
+  assert.equal(invite.method, "REQUEST");
+  const [event] = invite.events;
+  assert.equal(event.summary, "Quarterly review, Q2");
+  assert.equal(event.sequence, 2);
+  assert.equal(event.status, "CONFIRMED");
+  assert.deepEqual(event.organizer, { email: "jane@example.com", name: "Doe, Jane" });
+  assert.deepEqual(event.attendees, [
+    { email: "bob@example.com", name: "Bob", partstat: "ACCEPTED", role: "REQ-PARTICIPANT", rsvp: true },
+    { email: "carol@example.com", name: undefined, partstat: "NEEDS-ACTION", role: "OPT-PARTICIPANT", rsvp: undefined },
+  ]);
+  // Mid-April is summer time (+02:00) in the zone's DAYLIGHT rule.
+  assert.deepEqual(event.start, {
+    date: "2024-04-15T08:00:00.000Z",
+    timezone: "W. Europe Standard Time",
+    local: "2024-04-15T10:00:00",
+  });
+  assert.equal(event.end.date, "2024-04-15T09:30:00.000Z");
+  assert.deepEqual(event.conferenceLinks, ["https://teams.microsoft.com/l/meetup-join/19%3ameeting_abc"]);
+  assert.match(event.description, /\nAgenda follows$/);
+});
+
+test("parseCalendar resolves IANA zones, durations and the next recurrence", () => {
+  const invite = parseCalendar(WEEKLY_INVITE, { upcomingFrom: new Date("2024-03-09T00:00:00Z") });
+  const [event] = invite.events;
+  assert.equal(event.start.date, "2024-01-01T14:30:00.000Z");
+  assert.equal(event.end.date, "2024-01-01T14:45:00.000Z");
+  assert.deepEqual(event.recurrence, {
+    rule: "FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20241231T235959Z",
+    exdates: ["2024-03-11T13:30:00.000Z"],
+  });
+  // Monday 11 March is excluded; New York is on daylight time (-04:00) by then.
+  assert.equal(event.nextOccurrence.date, "2024-03-13T13:30:00.000Z");
+  assert.equal(event.nextOccurrence.local, "2024-03-13T09:30:00");
+  assert.deepEqual(event.conferenceLinks, ["https://meet.google.com/abc-defg-hij"]);
+
+  const over = parseCalendar(WEEKLY_INVITE, { upcomingFrom: new Date("2025-02-01T00:00:00Z") });
+  assert.equal(over.events[0].nextOccurrence, undefined);
+});
+
+test("parseCalendar finds the next occurrence of long-running and monthly weekday/last-day series", () => {
+  const event = (rrule) =>
+    [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "SUMMARY:Series",
+      "DTSTART:20150105T090000Z",
+      "DURATION:PT30M",
+      `RRULE:${rrule}`,
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+  const next = (rrule, from) =>
+    parseCalendar(event(rrule), { upcomingFrom: new Date(from) }).events[0].nextOccurrence?.date;
+
+  // Thousands of days after DTSTART.
+  assert.equal(next("FREQ=DAILY", "2024-03-09T12:00:00Z"), "2024-03-10T09:00:00.000Z");
+  assert.equal(next("FREQ=DAILY", "2024-03-09T09:10:00Z"), "2024-03-09T09:00:00.000Z");
+  assert.equal(next("FREQ=DAILY;COUNT=3", "2024-03-09T12:00:00Z"), undefined);
+  // Every Monday of the month, not only the first one.
+  assert.equal(next("FREQ=MONTHLY;BYDAY=MO", "2024-03-05T00:00:00Z"), "2024-03-11T09:00:00.000Z");
+  assert.equal(next("FREQ=MONTHLY;BYDAY=1MO", "2024-03-05T00:00:00Z"), "2024-04-01T09:00:00.000Z");
+  // Last day of the month.
+  assert.equal(next("FREQ=MONTHLY;BYMONTHDAY=-1", "2024-02-10T00:00:00Z"), "2024-02-29T09:00:00.000Z");
+  assert.equal(next("FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13", "2024-01-01T00:00:00Z"), "2024-09-13T09:00:00.000Z");
+});
+
+test("parseCalendar handles all-day and floating times", () => {
+  const invite = parseCalendar(
+    "BEGIN:VCALENDAR\nMETHOD:CANCEL\nBEGIN:VEVENT\nSUMMARY:Offsite\nDTSTART;VALUE=DATE:20240501\n" +
+      "DTEND;VALUE=DATE:20240503\nEND:VEVENT\nBEGIN:VEVENT\nSUMMARY:Call\n" +
+      "DTSTART;TZID=Nowhere/Special:20240501T090000\nEND:VEVENT\nEND:VCALENDAR"
+  );
+  assert.equal(invite.method, "CANCEL");
+  assert.deepEqual(invite.events[0].start, { date: "2024-05-01", allDay: true });
+  assert.deepEqual(invite.events[0].end, { date: "2024-05-03", allDay: true });
+  assert.deepEqual(invite.events[1].start, { date: "2024-05-01T09:00:00", timezone: "Nowhere/Special", floating: true });
+});
+
+test("inviteFromParsed reads text/calendar parts of a message", async () => {
+  const source = [
+    "From: jane@example.com",
+    "To: bob@example.com",
+    "Subject: Invitation: Quarterly review",
+    "MIME-Version: 1.0",
+    'Content-Type: multipart/alternative; boundary="b"',
+    "",
+    "--b",
+    "Content-Type: text/plain",
+    "",
+    "You are invited.",
+    "--b",
+    'Content-Type: text/calendar; method=REQUEST; charset="utf-8"',
+    "",
+    OUTLOOK_INVITE,
+    "--b--",
+    "",
+  ].join("\r\n");
+  const invite = inviteFromParsed(await simpleParser(source));
+  assert.equal(invite.method, "REQUEST");
+  assert.equal(invite.events.length, 1);
+  assert.equal(invite.events[0].summary, "Quarterly review, Q2");
+
+  assert.equal(inviteFromParsed(await simpleParser("Subject: hi\r\n\r\nplain")), undefined);
+});
@@ -0,0 +1,78 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { loadAccountsConfig, resolveAccount } from "../dist/config.js";
+
+const dir = mkdtempSync(join(tmpdir(), "imap-mail-accounts-"));
+
+test.after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function writeAccounts(name, content) {
+  const path = join(dir, name);
+  writeFileSync(path, content);
+  return path;
+}
+
+test("loadAccountsConfig reads YAML accounts with per-account limits", () => {
+  process.env.TEST_WORK_PASS = "secret";
+  const path = writeAccounts(
+    "accounts.yaml",
+    [
+      "defaultAccount: work",
+      "accounts:",
+      "  - name: home",
+      "    user: me@home.example",
+      "    pass: home-pass",
+      "  - name: work",
+      "    host: imap.work.example",
+      "    port: 993",
+      "    secure: true",
+      "    user: me@work.example",
+      "    passEnv: TEST_WORK_PASS",
+      "    maxResults: 25",
+    ].join("\n")
+  );
+
+  const config = loadAccountsConfig(path);
+  assert.equal(config.defaultAccount, "work");
+  assert.deepEqual(config.accounts.map((a) => a.name), ["home", "work"]);
+
+  const work = resolveAccount(config);
+  assert.equal(work.imap.pass, "secret");
+  assert.equal(work.imap.port, 993);
+  assert.equal(work.imap.secure, true);
+  assert.equal(work.mail.maxResults, 25);
+  assert.equal(resolveAccount(config, "home").imap.host, "127.0.0.1");
+  assert.throws(() => resolveAccount(config, "nope"), /Unknown account: nope\. Configured accounts: home, work/);
+});
+
+test("loadAccountsConfig names every misconfigured account", () => {
+  const path = writeAccounts(
+    "accounts.json",
+    JSON.stringify({
+      accounts: [
+        { name: "ok", user: "me@example.com", pass: "x" },
+        { name: "bad-user", host: "imap.example.com", user: "imap.example.com", pass: "x" },
+        { name: "no-pass", user: "me@example.com", passEnv: "TEST_UNSET_PASS", port: "abc" },
+        { name: "ok", user: "other@example.com", pass: "x" },
+      ],
+    })
+  );
+
+  assert.throws(
+    () => loadAccountsConfig(path),
+    (err) => {
+      assert.match(err.message, /account "bad-user": user must be the IMAP username\/email/);
+      assert.match(err.message, /account "no-pass": password env TEST_UNSET_PASS is not set/);
+      assert.match(err.message, /account "no-pass": port must be an integer >= 1/);
+      assert.match(err.message, /account "ok": duplicate name/);
+      return true;
+    }
+  );
+  assert.throws(() => loadAccountsConfig(join(dir, "missing.json")), /Cannot read MAIL_ACCOUNTS_FILE/);
+});
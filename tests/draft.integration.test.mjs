@@ -0,0 +1,98 @@
+import test, { afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { simpleParser } from "mailparser";
+import { __setClientFactoryForTests } from "../dist/imap.js";
+import { createDraft } from "../dist/draft.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+const WRITE_CONFIG = {
+  allowWrite: false,
+  allowedTargetFolders: [],
+  maxMessagesPerCall: 50,
+  allowDrafts: true,
+  draftFrom: "",
+};
+
+const ORIGINAL = Buffer.from(
+  [
+    "Message-ID: <orig@example.com>",
+    "References: <root@example.com>",
+    "Subject: Project Update",
+    "From: Alice <alice@example.com>",
+    "To: tester@example.com, bob@example.com",
+    "Cc: carol@example.com",
+    "Date: Mon, 01 Jan 2024 00:00:00 +0000",
+    "",
+    "Status is green.",
+  ].join("\r\n"),
+  "utf8"
+);
+
+function draftsClient() {
+  return createMockClient({
+    listImpl: () => [
+      { path: "INBOX", name: "INBOX" },
+      { path: "Entwuerfe", name: "Entwuerfe", specialUse: "\\Drafts" },
+    ],
+    fetchOneImpl: () => makeEnvelope(5, { source: ORIGINAL, messageId: "<orig@example.com>" }),
+  });
+}
+
+afterEach(() => {
+  __setClientFactoryForTests(undefined);
+});
+
+test("draft creation is disabled without MAIL_ALLOW_DRAFTS", async () => {
+  await assert.rejects(
+    () => createDraft(IMAP_CONFIG, { ...WRITE_CONFIG, allowDrafts: false }, { to: ["a@example.com"], text: "hi" }),
+    /MAIL_ALLOW_DRAFTS/
+  );
+});
+
+test("draft is appended to the special-use Drafts folder with \\Draft", async () => {
+  const { client, calls } = draftsClient();
+  __setClientFactoryForTests(() => client);
+
+  const result = await createDraft(IMAP_CONFIG, WRITE_CONFIG, {
+    to: ["dave@example.com"],
+    bcc: ["boss@example.com"],
+    subject: "Hello",
+    text: "Plain body",
+    html: "<p>HTML body</p>",
+  });
+  assert.equal(result.mailbox, "Entwuerfe");
+  assert.equal(result.uid, 77);
+
+  const append = calls.write.find((w) => w.op === "append");
+  assert.equal(append.path, "Entwuerfe");
+  assert.deepEqual(append.flags, ["\\Draft", "\\Seen"]);
+  const parsed = await simpleParser(append.content);
+  assert.equal(parsed.subject, "Hello");
+  assert.equal(parsed.from.text, "tester@example.com");
+  assert.equal(parsed.bcc.text, "boss@example.com");
+  assert.match(parsed.text, /Plain body/);
+  assert.match(parsed.html, /HTML body/);
+});
+
+test("reply draft derives headers, recipients and quotes the original", async () => {
+  const { client, calls } = draftsClient();
+  __setClientFactoryForTests(() => client);
+
+  const result = await createDraft(IMAP_CONFIG, WRITE_CONFIG, {
+    text: "Thanks!",
+    replyMailbox: "INBOX",
+    replyUid: 5,
+    replyAll: true,
+  });
+  assert.deepEqual(result.to, ["alice@example.com"]);
+  assert.deepEqual(result.cc, ["bob@example.com", "carol@example.com"]);
+  assert.equal(result.subject, "Re: Project Update");
+  assert.equal(result.inReplyTo, "<orig@example.com>");
+  assert.deepEqual(result.references, ["<root@example.com>", "<orig@example.com>"]);
+
+  const append = calls.write.find((w) => w.op === "append");
+  const parsed = await simpleParser(append.content);
+  assert.equal(parsed.inReplyTo, "<orig@example.com>");
+  assert.match(parsed.text, /Thanks!/);
+  assert.match(parsed.text, /wrote:\n> Status is green\./);
+});
@@ -0,0 +1,148 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, readdir, realpath, rm, symlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import * as imap from "../dist/imap.js";
+import { exportEml, exportMessages, mboxrdEscaper, resolveExportPath } from "../dist/export.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+const MAIL_CONFIG = { maxBodyLength: 50000, maxResults: 200, snippetLength: 400, maxAttachmentBytes: 100000, maxTokens: 0 };
+
+const SOURCES = {
+  1: "From: a@example.com\r\nSubject: One\r\n\r\nHello\r\nFrom the team\r\n>From quoted\r\n",
+  2: "From: b@example.com\r\nSubject: Two\r\n\r\nNo trailing newline",
+  3: "From: c@example.com\r\nSubject: Three\r\n\r\nGone",
+};
+
+function mockStore({ expunged = [] } = {}) {
+  const mock = createMockClient({
+    searchImpl: () => [3, 1, 2],
+    fetchOneImpl: (range) => {
+      const source = SOURCES[Number(range)];
+      return source ? makeEnvelope(Number(range), { source: Buffer.from(source) }) : false;
+    },
+    fetchImpl: (range) =>
+      (async function* () {
+        for (const uid of range) {
+          if (expunged.includes(uid)) continue;
+          const msg = makeEnvelope(uid, { flags: new Set(uid === 1 ? ["\\Seen", "\\Flagged"] : []) });
+          msg.internalDate = new Date(`2024-05-0${uid}T08:09:10Z`);
+          yield msg;
+        }
+      })(),
+    downloadImpl: async (range, part) => {
+      assert.equal(part, undefined);
+      const source = SOURCES[Number(range)];
+      return {
+        content: (async function* () {
+          // Split mid-line so escaping has to work across chunks.
+          yield Buffer.from(source.slice(0, 40));
+          yield Buffer.from(source.slice(40));
+        })(),
+      };
+    },
+  });
+  imap.__setClientFactoryForTests(() => mock.client);
+  return mock;
+}
+
+async function exportRoot(t) {
+  const dir = await mkdtemp(join(tmpdir(), "mail-export-"));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  return { enabled: true, dir };
+}
+
+test.afterEach(() => {
+  imap.__setClientFactoryForTests();
+});
+
+test("exportEml returns the source as text or base64 and enforces the size cap", async () => {
+  mockStore();
+  const eml = await exportEml(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 1);
+  assert.equal(eml.encoding, "text");
+  assert.equal(eml.text, SOURCES[1]);
+  assert.equal(eml.size, Buffer.byteLength(SOURCES[1]));
+  assert.equal(eml.filename, "Subject_1-1.eml");
+
+  const b64 = await exportEml(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 1, "base64");
+  assert.equal(Buffer.from(b64.base64, "base64").toString(), SOURCES[1]);
+  assert.equal(await exportEml(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 9), null);
+  await assert.rejects(exportEml(IMAP_CONFIG, { ...MAIL_CONFIG, maxAttachmentBytes: 10 }, "INBOX", 1), /over the 10-byte limit/);
+});
+
+test("exportMessages writes mboxrd oldest first and never overwrites", async (t) => {
+  const mock = mockStore({ expunged: [3] });
+  const root = await exportRoot(t);
+  const result = await exportMessages(IMAP_CONFIG, root, "INBOX", { format: "mbox", target: "backup/inbox.mbox" });
+
+  assert.deepEqual(mock.calls.search[0].query, { all: true });
+  assert.deepEqual(mock.calls.fetch[0].range, [1, 2, 3]);
+  const { bytes, ...summary } = result;
+  assert.deepEqual(summary, {
+    mailbox: "INBOX",
+    format: "mbox",
+    path: join("backup", "inbox.mbox"),
+    matched: 3,
+    exported: 2,
+    skipped: 1,
+    truncated: false,
+  });
+  const mbox = await readFile(join(root.dir, "backup", "inbox.mbox"), "utf8");
+  assert.equal(bytes, Buffer.byteLength(mbox));
+  assert.equal(
+    mbox,
+    "From from1@example.com Wed May  1 08:09:10 2024\n" +
+      "From: a@example.com\nSubject: One\n\nHello\n>From the team\n>>From quoted\n\n" +
+      "From from2@example.com Thu May  2 08:09:10 2024\n" +
+      "From: b@example.com\nSubject: Two\n\nNo trailing newline\n\n"
+  );
+
+  await assert.rejects(
+    exportMessages(IMAP_CONFIG, root, "INBOX", { format: "mbox", target: "backup/inbox.mbox" }),
+    /already exists/
+  );
+});
+
+test("exportMessages writes a Maildir for a search result with flags", async (t) => {
+  const mock = mockStore();
+  const root = await exportRoot(t);
+  const result = await exportMessages(IMAP_CONFIG, root, "INBOX", {
+    format: "maildir",
+    target: "inbox",
+    criteria: { subject: "One" },
+    maxMessages: 2,
+  });
+
+  assert.deepEqual(mock.calls.search[0].query, { subject: "One" });
+  assert.equal(result.exported, 2);
+  assert.equal(result.truncated, true);
+  const cur = (await readdir(join(root.dir, "inbox", "cur"))).sort();
+  assert.equal(cur.length, 2);
+  assert.match(cur[0], /^1714550950\.U1V0\..+:2,FS$/);
+  assert.match(cur[1], /:2,$/);
+  assert.equal(await readFile(join(root.dir, "inbox", "cur", cur[0]), "utf8"), SOURCES[1]);
+  assert.deepEqual(await readdir(join(root.dir, "inbox", "tmp")), []);
+
+  await assert.rejects(
+    exportMessages(IMAP_CONFIG, { enabled: false, dir: "" }, "INBOX", { format: "maildir", target: "x" }),
+    /MAIL_EXPORT_DIR/
+  );
+});
+
+test("resolveExportPath keeps targets inside the export root", async (t) => {
+  const root = await exportRoot(t);
+  assert.equal(await resolveExportPath(root.dir, "a/b.mbox"), join(await realpath(root.dir), "a", "b.mbox"));
+  await assert.rejects(resolveExportPath(root.dir, "../escape.mbox"), /inside MAIL_EXPORT_DIR/);
+  await assert.rejects(resolveExportPath(root.dir, "a/../../escape"), /inside MAIL_EXPORT_DIR/);
+  await assert.rejects(resolveExportPath(root.dir, "/etc/passwd"), /relative path/);
+  await assert.rejects(resolveExportPath(root.dir, "."), /inside MAIL_EXPORT_DIR/);
+  await symlink(tmpdir(), join(root.dir, "link"));
+  await assert.rejects(resolveExportPath(root.dir, "link/out.mbox"), /inside MAIL_EXPORT_DIR/);
+
+  const escaper = mboxrdEscaper();
+  assert.equal(escaper.push(Buffer.from("a\r\nFro")).toString(), "a\n");
+  assert.equal(escaper.push(Buffer.from("m x\r\n")).toString(), ">From x\n");
+  assert.equal(escaper.end().toString(), "");
+});
@@ -0,0 +1,105 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import * as imap from "../dist/imap.js";
+import { resolveMailboxInList } from "../dist/folders.js";
+import { searchAllMailboxes } from "../dist/search-all.js";
+import { IMAP_CONFIG, createMockClient } from "./helpers.mjs";
+
+const GMAIL = [
+  { path: "INBOX", name: "INBOX", delimiter: "/", flags: new Set(), subscribed: true, status: { messages: 4, unseen: 1 } },
+  { path: "[Gmail]", name: "[Gmail]", delimiter: "/", flags: new Set(["\\Noselect", "\\HasChildren"]), subscribed: true },
+  { path: "[Gmail]/Sent Mail", name: "Sent Mail", delimiter: "/", parentPath: "[Gmail]", specialUse: "\\Sent", flags: new Set(["\\Sent"]), subscribed: true },
+  { path: "[Gmail]/Spam", name: "Spam", delimiter: "/", parentPath: "[Gmail]", specialUse: "\\Junk", flags: new Set(["\\Junk"]), subscribed: false },
+  { path: "[Gmail]/All Mail", name: "All Mail", delimiter: "/", parentPath: "[Gmail]", specialUse: "\\All", flags: new Set(["\\All"]), subscribed: true },
+];
+
+/** A server without SPECIAL-USE: only folder names to go by. */
+const PLAIN = [
+  { path: "INBOX", name: "INBOX", delimiter: ".", flags: new Set() },
+  { path: "INBOX.Sent Messages", name: "Sent Messages", delimiter: ".", parentPath: "INBOX", flags: new Set() },
+  { path: "INBOX.Junk E-mail", name: "Junk E-mail", delimiter: ".", parentPath: "INBOX", flags: new Set() },
+  { path: "Archives", name: "Archives", delimiter: ".", flags: new Set() },
+];
+
+function mockFolders(folders) {
+  const mock = createMockClient({ listImpl: () => folders, searchImpl: () => [] });
+  imap.__setClientFactoryForTests(() => mock.client);
+  return mock;
+}
+
+test.afterEach(() => {
+  imap.__setClientFactoryForTests();
+});
+
+test("listFolders reports special use, hierarchy and subscription state", async () => {
+  mockFolders(GMAIL);
+  const folders = await imap.listFolders(IMAP_CONFIG);
+  assert.deepEqual(folders[0], {
+    path: "INBOX",
+    name: "INBOX",
+    delimiter: "/",
+    parent: undefined,
+    specialUse: undefined,
+    specialUseInferred: undefined,
+    flags: [],
+    subscribed: true,
+    messages: 4,
+    unseen: 1,
+  });
+  assert.deepEqual(
+    folders.map((f) => [f.path, f.parent, f.specialUse, f.subscribed]),
+    [
+      ["INBOX", undefined, undefined, true],
+      ["[Gmail]", undefined, undefined, true],
+      ["[Gmail]/Sent Mail", "[Gmail]", "\\Sent", true],
+      ["[Gmail]/Spam", "[Gmail]", "\\Junk", false],
+      ["[Gmail]/All Mail", "[Gmail]", "\\All", true],
+    ]
+  );
+
+  const tree = await imap.listFolderTree(IMAP_CONFIG);
+  assert.deepEqual(tree.map((f) => f.path), ["INBOX", "[Gmail]"]);
+  assert.deepEqual(tree[1].children.map((f) => f.name), ["Sent Mail", "Spam", "All Mail"]);
+  assert.deepEqual(tree[1].children[0].children, []);
+});
+
+test("listFolders infers special use from names when the server advertises none", async () => {
+  mockFolders(PLAIN);
+  const folders = await imap.listFolders(IMAP_CONFIG);
+  assert.deepEqual(
+    folders.map((f) => [f.path, f.specialUse, f.specialUseInferred]),
+    [
+      ["INBOX", undefined, undefined],
+      ["INBOX.Sent Messages", "\\Sent", true],
+      ["INBOX.Junk E-mail", "\\Junk", true],
+      ["Archives", "\\Archive", true],
+    ]
+  );
+  assert.deepEqual((await imap.listFolderTree(IMAP_CONFIG))[0].children.map((f) => f.name), ["Sent Messages", "Junk E-mail"]);
+});
+
+test("mailbox aliases resolve before the folder is selected", async () => {
+  const { calls } = mockFolders(GMAIL);
+  await imap.searchMailPage(IMAP_CONFIG, "@sent", { subject: "x" });
+  await imap.searchMailPage(IMAP_CONFIG, "@SPAM", { subject: "x" });
+  await imap.searchMailPage(IMAP_CONFIG, "@inbox", { subject: "x" });
+  assert.deepEqual(calls.lock.map((l) => l.mailbox), ["[Gmail]/Sent Mail", "[Gmail]/Spam", "INBOX"]);
+
+  await assert.rejects(imap.searchMailPage(IMAP_CONFIG, "@archive", { subject: "x" }), /No folder found for @archive/);
+  await assert.rejects(imap.searchMailPage(IMAP_CONFIG, "@outbox", { subject: "x" }), /Unknown folder alias: @outbox/);
+
+  assert.equal(resolveMailboxInList(PLAIN, "@archive"), "Archives");
+  assert.equal(resolveMailboxInList(PLAIN, "@junk"), "INBOX.Junk E-mail");
+  assert.equal(resolveMailboxInList(PLAIN, "Plain/Name"), "Plain/Name");
+});
+
+test("cross-folder search accepts aliases in includeFolders and excludeFolders", async () => {
+  mockFolders(GMAIL);
+  const included = await searchAllMailboxes(IMAP_CONFIG, { keyword: "x" }, { includeFolders: ["@inbox", "@all"] });
+  assert.deepEqual(included.folders, ["INBOX", "[Gmail]/All Mail"]);
+
+  const excluded = await searchAllMailboxes(IMAP_CONFIG, { keyword: "x" }, { excludeFolders: ["@all", "@sent"] });
+  // Spam is skipped by default, like Trash.
+  assert.deepEqual(excluded.folders, ["INBOX"]);
+});
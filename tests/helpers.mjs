@@ -0,0 +1,146 @@
+/**
+ * Shared mock IMAP client for deterministic tests (no live mailbox).
+ */
+
+export const IMAP_CONFIG = {
+  host: "127.0.0.1",
+  port: 1143,
+  secure: false,
+  tlsRejectUnauthorized: false,
+  user: "tester@example.com",
+  pass: "test-password",
+};
+
+export function makeEnvelope(uid, overrides = {}) {
+  return {
+    uid,
+    envelope: {
+      subject: overrides.subject ?? `Subject ${uid}`,
+      from: [{ address: `from${uid}@example.com` }],
+      to: [{ address: `to${uid}@example.com` }],
+      date: overrides.date ?? new Date(`2024-01-${String((uid % 28) + 1).padStart(2, "0")}T00:00:00.000Z`),
+      messageId: overrides.messageId ?? `<m${uid}@example.com>`,
+      inReplyTo: overrides.inReplyTo,
+    },
+    source: overrides.source,
+    headers: overrides.headers,
+    bodyStructure: overrides.bodyStructure,
+    flags: overrides.flags ?? new Set(),
+  };
+}
+
+export function createMockClient(options = {}) {
+  const mailboxExists = options.mailboxExists ?? 0;
+  const calls = {
+    connect: 0,
+    logout: 0,
+    release: 0,
+    search: [],
+    fetch: [],
+    fetchOne: [],
+    lock: [],
+    write: [],
+    mailboxOpen: [],
+  };
+  const handlers = new Map();
+
+  const client = {
+    mailbox: { exists: mailboxExists },
+    async connect() {
+      calls.connect += 1;
+    },
+    async logout() {
+      calls.logout += 1;
+    },
+    async list() {
+      if (options.listImpl) return options.listImpl();
+      return [];
+    },
+    async getMailboxLock(mailbox, lockOptions) {
+      calls.lock.push({ mailbox, options: lockOptions });
+      return {
+        release() {
+          calls.release += 1;
+        },
+      };
+    },
+    async search(query, fetchOptions) {
+      calls.search.push({ query, fetchOptions });
+      if (options.searchImpl) return options.searchImpl(query, fetchOptions);
+      return [];
+    },
+    fetch(range, query, fetchOptions) {
+      calls.fetch.push({ range, query, fetchOptions });
+      if (options.fetchImpl) return options.fetchImpl(range, query, fetchOptions);
+      return (async function* () {
+        if (Array.isArray(range)) {
+          for (const uid of [...range].reverse()) {
+            yield makeEnvelope(uid);
+          }
+          return;
+        }
+        if (typeof range === "string") {
+          const match = /^(\d+):\*$/.exec(range);
+          if (!match) return;
+          const start = Number(match[1]);
+          for (let uid = start; uid <= mailboxExists; uid += 1) {
+            yield makeEnvelope(uid);
+          }
+        }
+      })();
+    },
+    async fetchOne(range, query, fetchOptions) {
+      calls.fetchOne.push({ range, query, fetchOptions });
+      if (options.fetchOneImpl) return options.fetchOneImpl(range, query, fetchOptions);
+      return false;
+    },
+    async status(path, query) {
+      if (options.statusImpl) return options.statusImpl(path, query);
+      return {};
+    },
+    on(event, handler) {
+      if (!handlers.has(event)) handlers.set(event, []);
+      handlers.get(event).push(handler);
+    },
+    /** Test-only: fire an imapflow-style event. */
+    emit(event, data) {
+      for (const handler of handlers.get(event) ?? []) handler(data);
+    },
+    async mailboxOpen(path, openOptions) {
+      calls.mailboxOpen.push({ path, options: openOptions });
+      return { path };
+    },
+    async messageFlagsAdd(range, flags, storeOptions) {
+      calls.write.push({ op: "flagsAdd", range, flags, options: storeOptions });
+      return true;
+    },
+    async messageFlagsRemove(range, flags, storeOptions) {
+      calls.write.push({ op: "flagsRemove", range, flags, options: storeOptions });
+      return true;
+    },
+    async messageMove(range, destination, moveOptions) {
+      calls.write.push({ op: "move", range, destination, options: moveOptions });
+      return { destination, uidMap: new Map(range.map((uid, i) => [uid, 100 + i])) };
+    },
+    async messageCopy(range, destination, copyOptions) {
+      calls.write.push({ op: "copy", range, destination, options: copyOptions });
+      return { destination, uidMap: new Map(range.map((uid, i) => [uid, 100 + i])) };
+    },
+    async download(range, part, downloadOptions) {
+      calls.download = calls.download ?? [];
+      calls.download.push({ range, part, options: downloadOptions });
+      if (options.downloadImpl) return options.downloadImpl(range, part, downloadOptions);
+      return {};
+    },
+    async append(path, content, flags, idate) {
+      calls.write.push({ op: "append", path, content, flags, idate });
+      return { destination: path, uid: 77 };
+    },
+    async messageDelete(range, deleteOptions) {
+      calls.write.push({ op: "delete", range, options: deleteOptions });
+      return true;
+    },
+  };
+
+  return { client, calls };
+}
@@ -0,0 +1,119 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { MCP_HTTP_PATH, startHttpServer } from "../dist/http.js";
+
+const TOKEN = "test-token-0123456789abcdef";
+
+function makeServer(closed) {
+  const server = new Server({ name: "test", version: "1.0.0" }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  server.onclose = () => closed.push(true);
+  return server;
+}
+
+function post(port, body, headers = {}) {
+  return fetch(`http://127.0.0.1:${port}${MCP_HTTP_PATH}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      Authorization: `Bearer ${TOKEN}`,
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+/** Streamable HTTP answers POSTs as SSE by default; pull out the JSON-RPC message. */
+async function rpcResult(res) {
+  const text = await res.text();
+  const data = text.split("\n").find((line) => line.startsWith("data: "));
+  return JSON.parse(data ? data.slice(6) : text);
+}
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "t", version: "1" } },
+};
+
+test("HTTP transport requires the bearer token and a session", async () => {
+  const closed = [];
+  const http = await startHttpServer({ transport: "http", host: "127.0.0.1", port: 0, token: TOKEN }, () =>
+    makeServer(closed)
+  );
+  try {
+    const unauthorized = await post(http.port, INITIALIZE, { Authorization: "Bearer wrong" });
+    assert.equal(unauthorized.status, 401);
+    assert.match(unauthorized.headers.get("www-authenticate"), /^Bearer/);
+
+    const wrongPath = await fetch(`http://127.0.0.1:${http.port}/other`, {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    });
+    assert.equal(wrongPath.status, 404);
+
+    const noSession = await post(http.port, { jsonrpc: "2.0", id: 2, method: "tools/list" });
+    assert.equal(noSession.status, 400);
+
+    const unknownSession = await post(http.port, { jsonrpc: "2.0", id: 2, method: "tools/list" }, { "Mcp-Session-Id": "nope" });
+    assert.equal(unknownSession.status, 404);
+  } finally {
+    await http.close();
+  }
+});
+
+test("HTTP transport keeps one server per session and closes them on shutdown", async () => {
+  const closed = [];
+  const http = await startHttpServer({ transport: "http", host: "127.0.0.1", port: 0, token: TOKEN }, () =>
+    makeServer(closed)
+  );
+
+  const init = await post(http.port, INITIALIZE);
+  assert.equal(init.status, 200);
+  const sessionId = init.headers.get("mcp-session-id");
+  assert.ok(sessionId);
+  assert.equal((await rpcResult(init)).result.serverInfo.name, "test");
+
+  const second = await post(http.port, INITIALIZE);
+  assert.notEqual(second.headers.get("mcp-session-id"), sessionId);
+  await second.text();
+  assert.equal(http.sessionCount(), 2);
+
+  const headers = { "Mcp-Session-Id": sessionId, "Mcp-Protocol-Version": "2025-03-26" };
+  await (await post(http.port, { jsonrpc: "2.0", method: "notifications/initialized" }, headers)).text();
+  const list = await post(http.port, { jsonrpc: "2.0", id: 2, method: "tools/list" }, headers);
+  assert.deepEqual((await rpcResult(list)).result.tools, []);
+
+  await http.close();
+  assert.equal(http.sessionCount(), 0);
+  assert.equal(closed.length, 2);
+});
+
+test("HTTP transport closes idle sessions and servers whose initialize failed", async () => {
+  const closed = [];
+  const http = await startHttpServer(
+    { transport: "http", host: "127.0.0.1", port: 0, token: TOKEN, sessionIdleMs: 50 },
+    () => makeServer(closed)
+  );
+  try {
+    // Rejected by the transport (no text/event-stream in Accept) before a session exists.
+    const rejected = await post(http.port, INITIALIZE, { Accept: "application/json" });
+    assert.equal(rejected.status, 406);
+    await rejected.text();
+    assert.equal(http.sessionCount(), 0);
+    assert.equal(closed.length, 1);
+
+    const init = await post(http.port, INITIALIZE);
+    await init.text();
+    assert.equal(http.sessionCount(), 1);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.equal(http.sessionCount(), 0);
+    assert.equal(closed.length, 2);
+  } finally {
+    await http.close();
+  }
+});
@@ -2,12 +2,19 @@ import test, { afterEach } from "node:test";
 import assert from "node:assert/strict";
 import {
   __setClientFactoryForTests,
+  closeAllConnections,
+  getAttachment,
+  getMailboxStatus,
+  getMessage,
+  getMessages,
   getThreadContext,
   listAttachments,
   listMessagesPage,
   searchMailAdvancedPage,
   searchMailPage,
 } from "../dist/imap.js";
+import { estimateTokens, shapeOutput } from "../dist/output-shape.js";
+import { createMockClient, makeEnvelope } from "./helpers.mjs";
 
 const IMAP_CONFIG = {
   host: "127.0.0.1",
@@ -18,22 +25,6 @@ const IMAP_CONFIG = {
   pass: "test-password",
 };
 
-function makeEnvelope(uid, overrides = {}) {
-  return {
-    uid,
-    envelope: {
-      subject: overrides.subject ?? `Subject ${uid}`,
-      from: [{ address: `from${uid}@example.com` }],
-      to: [{ address: `to${uid}@example.com` }],
-      date: overrides.date ?? new Date(`2024-01-${String((uid % 28) + 1).padStart(2, "0")}T00:00:00.000Z`),
-      messageId: overrides.messageId ?? `<m${uid}@example.com>`,
-      inReplyTo: overrides.inReplyTo,
-    },
-    source: overrides.source,
-    bodyStructure: overrides.bodyStructure,
-  };
-}
-
 function extractThreadQueryId(query) {
   if (!query || typeof query !== "object") return undefined;
   const orList = query.or;
@@ -46,73 +37,6 @@ function extractThreadQueryId(query) {
   return typeof id === "string" ? id : undefined;
 }
 
-function createMockClient(options = {}) {
-  const mailboxExists = options.mailboxExists ?? 0;
-  const calls = {
-    connect: 0,
-    logout: 0,
-    release: 0,
-    search: [],
-    fetch: [],
-    fetchOne: [],
-  };
-
-  const client = {
-    mailbox: { exists: mailboxExists },
-    async connect() {
-      calls.connect += 1;
-    },
-    async logout() {
-      calls.logout += 1;
-    },
-    async list() {
-      return [];
-    },
-    async getMailboxLock() {
-      return {
-        release() {
-          calls.release += 1;
-        },
-      };
-    },
-    async search(query, fetchOptions) {
-      calls.search.push({ query, fetchOptions });
-      if (options.searchImpl) return options.searchImpl(query, fetchOptions);
-      return [];
-    },
-    fetch(range, query, fetchOptions) {
-      calls.fetch.push({ range, query, fetchOptions });
-      if (options.fetchImpl) return options.fetchImpl(range, query, fetchOptions);
-      return (async function* () {
-        if (Array.isArray(range)) {
-          for (const uid of [...range].reverse()) {
-            yield makeEnvelope(uid);
-          }
-          return;
-        }
-        if (typeof range === "string") {
-          const match = /^(\d+):\*$/.exec(range);
-          if (!match) return;
-          const start = Number(match[1]);
-          for (let uid = start; uid <= mailboxExists; uid += 1) {
-            yield makeEnvelope(uid);
-          }
-        }
-      })();
-    },
-    async fetchOne(range, query, fetchOptions) {
-      calls.fetchOne.push({ range, query, fetchOptions });
-      if (options.fetchOneImpl) return options.fetchOneImpl(range, query, fetchOptions);
-      return false;
-    },
-    async status() {
-      return {};
-    },
-  };
-
-  return { client, calls };
-}
-
 afterEach(() => {
   __setClientFactoryForTests(undefined);
 });
@@ -134,7 +58,7 @@ test("advanced search rejects invalid date input", async () => {
 
   assert.equal(calls.search.length, 0);
   assert.equal(calls.release, 1);
-  assert.equal(calls.logout, 1);
+  assert.equal(calls.logout, 0);
 });
 
 test("advanced search rejects seen/unseen conflict", async () => {
@@ -154,7 +78,29 @@ test("advanced search rejects seen/unseen conflict", async () => {
 
   assert.equal(calls.search.length, 0);
   assert.equal(calls.release, 1);
-  assert.equal(calls.logout, 1);
+  assert.equal(calls.logout, 0);
+});
+
+test("advanced search ANDs the q query string with field filters", async () => {
+  const { client, calls } = createMockClient({ searchImpl: () => [] });
+  __setClientFactoryForTests(() => client);
+
+  await searchMailAdvancedPage(
+    IMAP_CONFIG,
+    "INBOX",
+    { subject: "invoice", q: "from:alice OR from:bob -is:read" },
+    { limit: 10, maxResults: 200 }
+  );
+
+  assert.deepEqual(calls.search[0].query, {
+    subject: "invoice",
+    or: [{ from: "alice" }, { from: "bob" }],
+    not: { seen: true },
+  });
+  await assert.rejects(
+    () => searchMailAdvancedPage(IMAP_CONFIG, "INBOX", { q: "from:alice OR" }, { limit: 10 }),
+    /Query syntax error at column 12/
+  );
 });
 
 test("search pagination returns stable desc order with no duplicates", async () => {
@@ -275,6 +221,7 @@ test("attachment listing prefers bodyStructure metadata path", async () => {
             childNodes: [
               {
                 type: "application/pdf",
+                part: "2",
                 disposition: "attachment",
                 dispositionParameters: { filename: "invoice.pdf" },
                 size: 12345,
@@ -296,6 +243,7 @@ test("attachment listing prefers bodyStructure metadata path", async () => {
   assert.equal(attachments.length, 1);
   assert.equal(attachments[0].filename, "invoice.pdf");
   assert.equal(attachments[0].contentType, "application/pdf");
+  assert.equal(attachments[0].part, "2");
   assert.equal(calls.fetchOne.length, 1);
   assert.equal(Boolean(calls.fetchOne[0].query.bodyStructure), true);
 });
@@ -364,3 +312,235 @@ test("thread context returns related envelopes with pagination", async () => {
   );
   assert.equal(page2.nextCursor, undefined);
 });
+
+test("pooled connection is reused across calls and logged out on shutdown", async () => {
+  const { client, calls } = createMockClient({ mailboxExists: 3 });
+  let created = 0;
+  __setClientFactoryForTests(() => {
+    created += 1;
+    return client;
+  });
+
+  await listMessagesPage(IMAP_CONFIG, "INBOX", { limit: 2, maxResults: 200 });
+  await searchMailPage(IMAP_CONFIG, "INBOX", { subject: "invoice" }, { limit: 2, maxResults: 200 });
+  await getMailboxStatus(IMAP_CONFIG, "INBOX");
+
+  assert.equal(created, 1);
+  assert.equal(calls.connect, 1);
+  assert.equal(calls.logout, 0);
+  assert.equal(calls.release, 2);
+
+  await closeAllConnections();
+  assert.equal(calls.logout, 1);
+});
+
+test("dropped connection is replaced and the call retried once", async () => {
+  const broken = createMockClient({
+    searchImpl: () => {
+      const err = new Error("Connection not available");
+      err.code = "NoConnection";
+      throw err;
+    },
+  });
+  const healthy = createMockClient({ searchImpl: () => [3, 1, 2] });
+  const clients = [broken.client, healthy.client];
+  __setClientFactoryForTests(() => clients.shift());
+
+  const page = await searchMailPage(IMAP_CONFIG, "INBOX", { subject: "x" }, { limit: 10, maxResults: 200 });
+  assert.deepEqual(
+    page.items.map((item) => item.uid),
+    [3, 2, 1]
+  );
+  assert.equal(broken.calls.logout, 1);
+  assert.equal(healthy.calls.connect, 1);
+  assert.equal(healthy.calls.logout, 0);
+});
+
+test("unusable pooled connection is not reused", async () => {
+  const first = createMockClient();
+  const second = createMockClient();
+  const clients = [first.client, second.client];
+  __setClientFactoryForTests(() => clients.shift());
+
+  await getMailboxStatus(IMAP_CONFIG, "INBOX");
+  first.client.usable = false;
+  await getMailboxStatus(IMAP_CONFIG, "INBOX");
+
+  assert.equal(first.calls.connect, 1);
+  assert.equal(second.calls.connect, 1);
+});
+
+const ATTACHMENT_STRUCTURE = {
+  type: "multipart/mixed",
+  childNodes: [
+    { part: "1", type: "text/plain", size: 20 },
+    {
+      part: "2",
+      type: "text/csv",
+      parameters: { charset: "iso-8859-1" },
+      disposition: "attachment",
+      dispositionParameters: { filename: "report.csv" },
+      encoding: "base64",
+      size: 40,
+    },
+    {
+      part: "3",
+      type: "image/png",
+      disposition: "attachment",
+      dispositionParameters: { filename: "logo.png" },
+      encoding: "base64",
+      size: 4000,
+    },
+  ],
+};
+
+function attachmentClient(contentByPart) {
+  return createMockClient({
+    fetchOneImpl: () => makeEnvelope(42, { bodyStructure: ATTACHMENT_STRUCTURE }),
+    downloadImpl: async (_range, part) => ({
+      meta: {},
+      content: (async function* () {
+        yield contentByPart[part];
+      })(),
+    }),
+  });
+}
+
+const MAIL_CONFIG = { maxBodyLength: 50000, maxResults: 200, snippetLength: 400, maxAttachmentBytes: 1000 };
+
+test("attachment download decodes text-like parts using their charset", async () => {
+  const { client, calls } = attachmentClient({ 2: Buffer.from("name,city\nJos\xe9,M\xfcnchen\n", "latin1") });
+  __setClientFactoryForTests(() => client);
+
+  const attachment = await getAttachment(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 42, "2");
+  assert.equal(attachment.kind, "text");
+  assert.equal(attachment.text, "name,city\nJosé,München\n");
+  assert.equal(attachment.info.filename, "report.csv");
+  assert.equal(attachment.info.part, "2");
+  assert.equal(attachment.info.uri, "imap://attachment/INBOX/42/2");
+  assert.equal(calls.download[0].options.uid, true);
+});
+
+test("attachment download returns images as base64 and enforces the size cap", async () => {
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+  const { client } = attachmentClient({ 3: png });
+  __setClientFactoryForTests(() => client);
+
+  await assert.rejects(
+    () => getAttachment(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 42, "3"),
+    /MAIL_MAX_ATTACHMENT_BYTES/
+  );
+
+  const image = await getAttachment(IMAP_CONFIG, { ...MAIL_CONFIG, maxAttachmentBytes: 0 }, "INBOX", 42, "3");
+  assert.equal(image.kind, "image");
+  assert.equal(image.base64, png.toString("base64"));
+});
+
+test("attachment download rejects unknown and malformed part IDs", async () => {
+  const { client } = attachmentClient({});
+  __setClientFactoryForTests(() => client);
+
+  await assert.rejects(() => getAttachment(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 42, "9"), /Part 9 not found/);
+  await assert.rejects(() => getAttachment(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 42, "../x"), /Invalid part/);
+});
+
+test("getMessage new-content strips Gmail quote containers from an HTML-only reply", async () => {
+  const source = Buffer.from(
+    [
+      "Subject: Re: PR 12",
+      "Content-Type: text/html; charset=UTF-8",
+      "",
+      '<div dir="ltr">Thanks, merged.</div><br><div class="gmail_quote">',
+      // Localized attribution and no blockquote: only the HTML container marks the quote.
+      '<div dir="ltr" class="gmail_attr">Bob &lt;bob@example.com&gt; schrieb am Mo., 1. Jan. 2024:<br></div>',
+      "<div>Please merge <b>PR 12</b> today.</div></div>",
+    ].join("\r\n")
+  );
+  const { client } = createMockClient({ fetchOneImpl: () => makeEnvelope(12, { source }) });
+  __setClientFactoryForTests(() => client);
+
+  const full = await getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 12);
+  assert.match(full.bodyText, /Please merge PR 12 today/);
+  const cleaned = await getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 12, "new-content");
+  assert.equal(cleaned.bodyText, "Thanks, merged.");
+  assert.ok(cleaned.removedChars > 0);
+  assert.equal(cleaned.removedChars, full.bodyText.length - cleaned.bodyText.length);
+});
+
+function batchClient(bodies) {
+  return createMockClient({
+    searchImpl: () => Object.keys(bodies).map(Number),
+    fetchImpl: (range, query) =>
+      (async function* () {
+        for (const uid of range) {
+          if (!bodies[uid]) continue;
+          const source = Buffer.from(`Subject: Batch ${uid}\r\n\r\n${bodies[uid]}`);
+          yield makeEnvelope(uid, { source: query.source ? source : undefined, flags: new Set(uid === 1 ? ["\\Seen"] : []) });
+        }
+      })(),
+  });
+}
+
+test("getMessages fetches all UIDs at once and splits the body budget fairly", async () => {
+  const bodies = { 1: "short body", 2: "a".repeat(500), 3: "b".repeat(500) };
+  const { client, calls } = batchClient(bodies);
+  __setClientFactoryForTests(() => client);
+
+  const result = await getMessages(IMAP_CONFIG, { ...MAIL_CONFIG, maxBodyLength: 300 }, "INBOX", { uids: [3, 1, 9, 2] });
+  assert.equal(calls.fetch.length, 1);
+  assert.deepEqual(calls.fetch[0].range, [3, 1, 9, 2]);
+  assert.equal(calls.fetch[0].query.source, true);
+  assert.deepEqual(result.missingUids, [9]);
+  assert.equal(result.bodyBudget, 300);
+  assert.deepEqual(result.messages.map((m) => m.envelope.uid), [3, 1, 2]);
+  // The short body is kept whole; the two long ones share what is left.
+  assert.equal(result.messages[1].bodyText, "short body");
+  assert.deepEqual(result.messages[1].flags, ["\\Seen"]);
+  assert.equal(result.messages[0].bodyText, "b".repeat(145) + "\n[... truncated]");
+  assert.equal(result.messages[2].bodyText, "a".repeat(145) + "\n[... truncated]");
+
+  // A larger requested budget is still capped by maxBodyLength.
+  const rich = await getMessages(IMAP_CONFIG, { ...MAIL_CONFIG, maxBodyLength: 300 }, "INBOX", {
+    uids: [1],
+    format: "rich",
+    bodyBudget: 10_000,
+  });
+  assert.equal(rich.bodyBudget, 300);
+  assert.equal(rich.messages[0].body, "short body");
+  assert.equal(rich.messages[0].subject, "Subject 1");
+});
+
+test("getMessages output over maxTokens keeps every message with a truncated body", async () => {
+  const prose = (uid) => Array.from({ length: 300 }, (_, i) => `message ${uid} line ${i}`).join(" ");
+  const { client } = batchClient({ 1: prose(1), 2: prose(2), 3: prose(3) });
+  __setClientFactoryForTests(() => client);
+
+  const result = await getMessages(IMAP_CONFIG, MAIL_CONFIG, "INBOX", { uids: [1, 2, 3] });
+  const out = shapeOutput(result, { maxTokens: 900 });
+  const shaped = JSON.parse(out.text);
+  assert.ok(estimateTokens(out.text) <= 900);
+  assert.equal(shaped.shaped.overBudget, undefined);
+  assert.ok(shaped.shaped.steps.some((s) => s.startsWith("body-budget:")));
+  assert.deepEqual(shaped.messages.map((m) => m.envelope.uid), [1, 2, 3]);
+  for (const message of shaped.messages) {
+    assert.match(message.bodyText, new RegExp(`^message ${message.envelope.uid} line 0 `));
+    assert.match(message.bodyText, /\[\.\.\. truncated\]$/);
+  }
+  assert.ok(shaped.bodyBudget < result.bodyBudget);
+});
+
+test("getMessages in search mode returns the newest matches up to limit", async () => {
+  const { client, calls } = batchClient({ 1: "one", 2: "two", 3: "three" });
+  __setClientFactoryForTests(() => client);
+
+  const result = await getMessages(IMAP_CONFIG, MAIL_CONFIG, "INBOX", { criteria: { subject: "Batch" }, limit: 2 });
+  assert.deepEqual(calls.search[0].query, { subject: "Batch" });
+  assert.deepEqual(result.messages.map((m) => m.envelope.uid), [3, 2]);
+  assert.equal(result.moreMatches, 1);
+  assert.deepEqual(result.missingUids, []);
+
+  await assert.rejects(
+    () => getMessages(IMAP_CONFIG, MAIL_CONFIG, "INBOX", { uids: Array.from({ length: 51 }, (_, i) => i + 1) }),
+    /At most 50 uids/
+  );
+});
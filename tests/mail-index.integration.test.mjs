@@ -0,0 +1,107 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import * as imap from "../dist/imap.js";
+import { searchRanked, syncFolderIndex, tokenize } from "../dist/mail-index.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+function source(subject, body) {
+  return Buffer.from(`Subject: ${subject}\r\nFrom: a@example.com\r\n\r\n${body}\r\n`, "utf8");
+}
+
+const MESSAGES = {
+  1: { subject: "Lunch on Friday", body: "Shall we get lunch near the office?" },
+  2: { subject: "Invoice 2026-03", body: "Please find the Acme invoice attached. Invoice total is due in March." },
+  3: { subject: "Re: project", body: "The Acme project kickoff is next week." },
+};
+
+function mockServer(state) {
+  const mock = createMockClient({
+    statusImpl: async () => ({
+      path: "INBOX",
+      messages: state.uids.length,
+      uidNext: Math.max(0, ...state.uids) + 1,
+      uidValidity: state.uidValidity,
+    }),
+    searchImpl: async () => state.uids,
+    fetchImpl: (range) =>
+      (async function* () {
+        for (const uid of range) {
+          const m = MESSAGES[uid];
+          yield makeEnvelope(uid, { subject: m.subject, source: source(m.subject, m.body) });
+        }
+      })(),
+  });
+  imap.__setClientFactoryForTests(() => mock.client);
+  return mock;
+}
+
+async function withIndexDir(fn) {
+  const dir = await mkdtemp(join(tmpdir(), "mail-index-"));
+  try {
+    await fn({ enabled: true, dir, folders: ["INBOX"], maxBodyChars: 4000, syncBatchSize: 500 });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+test.afterEach(() => {
+  imap.__setClientFactoryForTests();
+});
+
+test("tokenize lowercases, strips diacritics and drops 1-char tokens", () => {
+  assert.deepEqual(tokenize("Café INVOICE a 2026-03"), ["cafe", "invoice", "2026", "03"]);
+});
+
+test("searchRanked indexes a folder and ranks by BM25 with highlighted snippets", async () => {
+  await withIndexDir(async (indexConfig) => {
+    const state = { uids: [1, 2, 3], uidValidity: 100n };
+    const { calls } = mockServer(state);
+
+    const result = await searchRanked(IMAP_CONFIG, indexConfig, "acme invoice");
+    assert.deepEqual(result.folders, [{ mailbox: "INBOX", indexed: 3, pending: 0, added: 3, pruned: 0, rebuilt: false }]);
+    assert.deepEqual(result.items.map((m) => m.uid), [2, 3]);
+    assert.ok(result.items[0].score > result.items[1].score);
+    assert.match(result.items[0].snippet, /\*\*Acme\*\* \*\*invoice\*\*/);
+    assert.equal(result.items[0].mailbox, "INBOX");
+    assert.equal(result.items[0].uri, "imap://message/INBOX;UIDVALIDITY=100/2");
+    assert.equal((await readdir(indexConfig.dir)).length, 1);
+
+    // Nothing changed on the server: no UID SEARCH or FETCH on the second call.
+    const searches = calls.search.length;
+    const fetches = calls.fetch.length;
+    await searchRanked(IMAP_CONFIG, indexConfig, "lunch");
+    assert.equal(calls.search.length, searches);
+    assert.equal(calls.fetch.length, fetches);
+  });
+});
+
+test("sync prunes expunged messages and rebuilds on UIDVALIDITY change", async () => {
+  await withIndexDir(async (indexConfig) => {
+    const state = { uids: [1, 2, 3], uidValidity: 100n };
+    mockServer(state);
+    await syncFolderIndex(IMAP_CONFIG, indexConfig, "INBOX");
+
+    state.uids = [1, 3];
+    const pruned = await syncFolderIndex(IMAP_CONFIG, indexConfig, "INBOX");
+    assert.equal(pruned.pruned, 1);
+    assert.equal(pruned.indexed, 2);
+    const afterPrune = await searchRanked(IMAP_CONFIG, indexConfig, "invoice");
+    assert.deepEqual(afterPrune.items, []);
+
+    state.uidValidity = 200n;
+    const rebuilt = await syncFolderIndex(IMAP_CONFIG, indexConfig, "INBOX");
+    assert.equal(rebuilt.rebuilt, true);
+    assert.equal(rebuilt.added, 2);
+  });
+});
+
+test("searchRanked is rejected when the index is disabled", async () => {
+  await assert.rejects(
+    () => searchRanked(IMAP_CONFIG, { enabled: false, dir: "", folders: ["INBOX"], maxBodyChars: 1, syncBatchSize: 1 }, "x"),
+    /MAIL_INDEX_DIR/
+  );
+});
@@ -0,0 +1,108 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import * as imap from "../dist/imap.js";
+import { getMailboxStats } from "../dist/mailbox-stats.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+const MESSAGES = {
+  1: { from: "ann@a.example", date: "2024-03-01T09:00:00Z", size: 2000, seen: true },
+  2: { from: "bob@b.example", date: "2024-03-04T09:00:00Z", size: 90000, seen: false, attachment: 60000 },
+  3: { from: "ann@a.example", date: "2024-03-09T09:00:00Z", size: 3000, seen: false },
+  4: { from: "Carl@a.example", date: "2024-03-10T08:00:00Z", size: 1000, seen: false },
+  5: { from: "ann@a.example", date: "2024-03-10T09:00:00Z", size: 5000, seen: true, attachment: 1200 },
+};
+
+function mockStore() {
+  const mock = createMockClient({
+    searchImpl: () => Object.keys(MESSAGES).map(Number),
+    fetchImpl: (range) =>
+      (async function* () {
+        for (const uid of range) {
+          const m = MESSAGES[uid];
+          const msg = makeEnvelope(uid, {
+            date: new Date(m.date),
+            flags: new Set(m.seen ? ["\\Seen"] : []),
+            bodyStructure: m.attachment
+              ? {
+                  type: "multipart/mixed",
+                  childNodes: [
+                    { part: "1", type: "text/plain", size: 100 },
+                    { part: "2", type: "application/pdf", disposition: "attachment", dispositionParameters: { filename: "a.pdf" }, size: m.attachment },
+                  ],
+                }
+              : { part: "1", type: "text/plain", size: 100 },
+          });
+          msg.envelope.from = [{ address: m.from }];
+          msg.size = m.size;
+          yield msg;
+        }
+      })(),
+  });
+  imap.__setClientFactoryForTests(() => mock.client);
+  return mock;
+}
+
+test.afterEach(() => {
+  imap.__setClientFactoryForTests();
+});
+
+test("getMailboxStats aggregates senders, volume, unread age and sizes", async () => {
+  const mock = mockStore();
+  const stats = await getMailboxStats(IMAP_CONFIG, "INBOX", { now: new Date("2024-03-10T12:00:00Z"), top: 2 });
+
+  const { query } = mock.calls.fetch[0];
+  assert.deepEqual([query.size, query.flags, query.bodyStructure, query.source], [true, true, true, undefined]);
+  assert.deepEqual(mock.calls.search[0].query, { all: true });
+
+  assert.equal(stats.messages, 5);
+  assert.equal(stats.unread, 3);
+  assert.equal(stats.totalBytes, 101000);
+  assert.equal(stats.truncated, false);
+  assert.deepEqual(stats.topSenders, [
+    { address: "ann@a.example", count: 3, unread: 1 },
+    { address: "bob@b.example", count: 1, unread: 1 },
+  ]);
+  assert.deepEqual(stats.topDomains, [
+    { domain: "a.example", count: 4 },
+    { domain: "b.example", count: 1 },
+  ]);
+  assert.deepEqual(stats.perDay.map((d) => [d.date, d.count]), [
+    ["2024-03-01", 1],
+    ["2024-03-04", 1],
+    ["2024-03-09", 1],
+    ["2024-03-10", 2],
+  ]);
+  assert.deepEqual(stats.perWeek, [
+    { week: "2024-02-26", count: 1 },
+    { week: "2024-03-04", count: 4 },
+  ]);
+  assert.deepEqual(stats.unreadByAge, [
+    { bucket: "<1d", count: 1 },
+    { bucket: "1-7d", count: 2 },
+    { bucket: "7-30d", count: 0 },
+    { bucket: "30-90d", count: 0 },
+    { bucket: ">90d", count: 0 },
+  ]);
+  assert.deepEqual(stats.largestMessages.map((m) => [m.uid, m.size]), [
+    [2, 90000],
+    [5, 5000],
+  ]);
+  assert.deepEqual(stats.attachmentHeavySenders, [
+    { address: "bob@b.example", messages: 1, attachments: 1, attachmentBytes: 60000 },
+    { address: "ann@a.example", messages: 1, attachments: 1, attachmentBytes: 1200 },
+  ]);
+});
+
+test("getMailboxStats searches the date range and caps analyzed messages", async () => {
+  const mock = mockStore();
+  const stats = await getMailboxStats(IMAP_CONFIG, "INBOX", { since: "2024-03-05", before: "2024-03-11", maxMessages: 2 });
+
+  assert.deepEqual(mock.calls.search[0].query, { since: new Date("2024-03-05"), before: new Date("2024-03-11") });
+  assert.deepEqual(mock.calls.fetch[0].range, [5, 4]);
+  assert.equal(stats.messages, 2);
+  assert.equal(stats.matched, 5);
+  assert.equal(stats.truncated, true);
+
+  await assert.rejects(getMailboxStats(IMAP_CONFIG, "INBOX", { since: "not-a-date" }), /Invalid since/);
+});
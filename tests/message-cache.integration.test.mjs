@@ -0,0 +1,156 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import * as imap from "../dist/imap.js";
+import { configureMessageCache, getCacheStats } from "../dist/message-cache.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+const MAIL_CONFIG = { maxBodyLength: 50000, maxResults: 200, snippetLength: 400, maxAttachmentBytes: 100000, maxTokens: 0 };
+
+const source = (uid) => Buffer.from(`Subject: Message ${uid}\r\n\r\nBody of message ${uid}, padded ${"x".repeat(200)}`);
+
+function mockServer({ uidValidity = 7n, highestModseq = 100n } = {}) {
+  const server = { uids: new Set([1, 2, 3, 5]), flags: new Map(), changed: [] };
+  const mock = createMockClient({
+    fetchOneImpl: (range, query) => {
+      const uid = Number(range);
+      if (!server.uids.has(uid)) return false;
+      return makeEnvelope(uid, { source: query.source ? source(uid) : undefined, flags: new Set(server.flags.get(uid) ?? []) });
+    },
+    fetchImpl: (range, query, options) =>
+      (async function* () {
+        const uids = Array.isArray(range) ? range : [...server.uids];
+        for (const uid of uids) {
+          if (!server.uids.has(uid)) continue;
+          if (options?.changedSince != null && !server.changed.includes(uid)) continue;
+          yield makeEnvelope(uid, { source: query.source ? source(uid) : undefined, flags: new Set(server.flags.get(uid) ?? []) });
+        }
+      })(),
+    searchImpl: (query) => {
+      if (typeof query.uid === "string") {
+        return query.uid.split(",").flatMap((part) => {
+          const [a, b] = part.split(":").map(Number);
+          return [...server.uids].filter((u) => u >= a && u <= (b ?? a));
+        });
+      }
+      return [...server.uids];
+    },
+  });
+  mock.client.mailbox = { exists: 4, path: "INBOX", uidValidity, highestModseq };
+  imap.__setClientFactoryForTests(() => mock.client);
+  return { mock, server };
+}
+
+test.beforeEach(() => {
+  configureMessageCache({ memoryBytes: 1 << 20, dir: "", maxDiskBytes: 1 << 20 });
+});
+
+test.afterEach(() => {
+  imap.__setClientFactoryForTests();
+});
+
+test("getMessage serves repeat reads from memory and refreshes flags with CHANGEDSINCE", async () => {
+  const { mock, server } = mockServer();
+  const first = await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 5);
+  const second = await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 5);
+  assert.deepEqual(second, first);
+  assert.match(second.bodyText, /Body of message 5/);
+  assert.equal(mock.calls.fetchOne.length, 1);
+  assert.deepEqual([getCacheStats().hits, getCacheStats().misses], [1, 1]);
+
+  // Someone marked it read: HIGHESTMODSEQ moves and only changed messages come back.
+  server.flags.set(5, ["\\Seen"]);
+  server.changed = [5];
+  mock.client.mailbox.highestModseq = 101n;
+  const third = await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 5);
+  assert.deepEqual(third.flags, ["\\Seen"]);
+  assert.equal(mock.calls.fetchOne.length, 1);
+  const delta = mock.calls.fetch.at(-1);
+  assert.equal(delta.range, "5");
+  assert.deepEqual(delta.query, { uid: true, flags: true });
+  assert.equal(delta.fetchOptions.changedSince, 100n);
+  assert.equal(getCacheStats().flagRefreshes, 1);
+
+  // Expunged while cached: the next modseq bump prunes it.
+  server.uids.delete(5);
+  server.changed = [];
+  mock.client.mailbox.highestModseq = 102n;
+  assert.equal(await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 5), null);
+  assert.equal(getCacheStats().entries, 0);
+});
+
+test("a UIDVALIDITY change drops the folder's cached messages", async () => {
+  const { mock } = mockServer();
+  await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 1);
+  mock.client.mailbox.uidValidity = 8n;
+  await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 1);
+  assert.equal(mock.calls.fetchOne.length, 2);
+  assert.deepEqual([getCacheStats().hits, getCacheStats().misses, getCacheStats().invalidations], [0, 2, 1]);
+});
+
+test("without CONDSTORE a hit costs only a flags fetch", async () => {
+  const { mock } = mockServer({ highestModseq: null });
+  await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 2);
+  await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 2);
+  assert.deepEqual(
+    mock.calls.fetchOne.map((c) => c.query),
+    [
+      { uid: true, envelope: true, flags: true, source: true },
+      { uid: true, flags: true },
+    ]
+  );
+  assert.equal(getCacheStats().hits, 1);
+});
+
+test("snippets fetch only sources that are not cached", async () => {
+  const { mock } = mockServer();
+  await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 3);
+  const page = await imap.searchMailPage(IMAP_CONFIG, "INBOX", { subject: "x" }, { includeSnippet: true });
+  assert.ok(page.items.every((e) => e.snippet?.startsWith("Body of message")));
+  const [envelopes, sources] = mock.calls.fetch;
+  assert.equal(envelopes.query.source, undefined);
+  assert.deepEqual(sources.range.sort(), [1, 2, 5]);
+
+  await imap.searchMailPage(IMAP_CONFIG, "INBOX", { subject: "x" }, { includeSnippet: true });
+  assert.equal(mock.calls.fetch.length, 3);
+  assert.deepEqual([getCacheStats().hits, getCacheStats().misses], [5, 4]);
+});
+
+test("the disk store survives a restart and stays under its size limit", async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), "mail-cache-"));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  const size = source(1).length;
+  configureMessageCache({ memoryBytes: 0, dir, maxDiskBytes: size * 2 });
+  const { mock } = mockServer();
+  for (const uid of [1, 2, 3]) await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", uid);
+  let stats = getCacheStats();
+  assert.equal(stats.evictions, 1);
+  assert.equal(stats.disk.bytes, size * 2);
+  assert.equal(stats.disk.sources, 2);
+
+  configureMessageCache({ memoryBytes: 0, dir, maxDiskBytes: size * 2 });
+  const again = await imap.getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 3);
+  assert.match(again.bodyText, /message 3/);
+  stats = getCacheStats();
+  assert.deepEqual([stats.hits, stats.diskHits, stats.misses], [1, 1, 0]);
+  assert.equal(mock.calls.fetchOne.length, 3);
+});
+
+test("a batch of snippet sources is persisted once and survives a restart", async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), "mail-cache-"));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  configureMessageCache({ memoryBytes: 0, dir, maxDiskBytes: 1 << 20 });
+  const { mock } = mockServer();
+  await imap.searchMailPage(IMAP_CONFIG, "INBOX", { subject: "x" }, { includeSnippet: true });
+  const index = JSON.parse(await readFile(join(dir, "index.json"), "utf8"));
+  assert.equal(Object.keys(index.entries).length, 4);
+
+  configureMessageCache({ memoryBytes: 0, dir, maxDiskBytes: 1 << 20 });
+  const fetches = mock.calls.fetch.length;
+  await imap.searchMailPage(IMAP_CONFIG, "INBOX", { subject: "x" }, { includeSnippet: true });
+  assert.equal(mock.calls.fetch.length, fetches + 1);
+  assert.deepEqual([getCacheStats().diskHits, getCacheStats().misses], [4, 0]);
+});
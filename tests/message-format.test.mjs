@@ -0,0 +1,125 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { simpleParser } from "mailparser";
+
+import { htmlToMarkdown, htmlToPlainText, renderBody, splitBodyBudget, toRichMessage } from "../dist/message-format.js";
+
+const HTML = [
+  "<html><head><style>p { color: red }</style><title>Newsletter</title></head><body>",
+  "<script>alert(1)</script>",
+  "<h2>Hi &amp; welcome</h2>",
+  '<p>See <a href="https://example.com/docs">the docs</a>.</p>',
+  "<ul><li>One</li><li>Two</li></ul>",
+  "<table><tr><th>Item</th><th>Price</th></tr><tr><td>Tea</td><td>&euro;3</td></tr></table>",
+  "<table><tr><td><table><tr><td>Layout cell</td></tr></table></td></tr></table>",
+  "</body></html>",
+].join("");
+
+test("htmlToMarkdown keeps links, lists and data tables and drops script/style", () => {
+  const md = htmlToMarkdown(HTML);
+  assert.ok(md.startsWith("## Hi & welcome"));
+  assert.match(md, /See \[the docs\]\(https:\/\/example\.com\/docs\)\./);
+  assert.match(md, /^-\s+One$/m);
+  assert.match(md, /\| Item \| Price \|\n\| --- \| --- \|\n\| Tea \| €3 \|/);
+  assert.match(md, /^Layout cell$/m);
+  assert.doesNotMatch(md, /alert|color: red|Newsletter/);
+});
+
+test("htmlToPlainText decodes entities and keeps link targets", () => {
+  const text = htmlToPlainText(HTML);
+  assert.match(text, /^Hi & welcome/);
+  assert.match(text, /See the docs \[https:\/\/example\.com\/docs\]\./);
+  assert.match(text, /Tea\s+€3/);
+  assert.doesNotMatch(text, /alert|<|&amp;/);
+});
+
+test("renderBody converts HTML-only mail with htmlToPlainText and keeps real text/plain parts", async () => {
+  const htmlOnly = await simpleParser(Buffer.from(["Subject: News", "Content-Type: text/html; charset=utf-8", "", HTML].join("\r\n")));
+  assert.equal(renderBody(htmlOnly, "full").text, htmlToPlainText(HTML));
+
+  const withAttachment = await simpleParser(
+    Buffer.from(
+      [
+        "Subject: News",
+        'Content-Type: multipart/mixed; boundary="b"',
+        "",
+        "--b",
+        "Content-Type: text/html; charset=utf-8",
+        "",
+        HTML,
+        "--b",
+        "Content-Type: application/pdf; name=a.pdf",
+        "Content-Disposition: attachment; filename=a.pdf",
+        "Content-Transfer-Encoding: base64",
+        "",
+        "JVBERg==",
+        "--b--",
+      ].join("\r\n")
+    )
+  );
+  const text = renderBody(withAttachment, "full").text;
+  assert.match(text, /^Hi & welcome/);
+  assert.match(text, /Tea\s+€3/);
+
+  const alternative = await simpleParser(
+    Buffer.from(
+      [
+        "Subject: News",
+        'Content-Type: multipart/alternative; boundary="b"',
+        "",
+        "--b",
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        "Plain version of the news.",
+        "--b",
+        "Content-Type: text/html; charset=utf-8",
+        "",
+        HTML,
+        "--b--",
+      ].join("\r\n")
+    )
+  );
+  assert.equal(renderBody(alternative, "full").text, "Plain version of the news.");
+});
+
+test("toRichMessage returns structured addresses, selected headers and a Markdown body", async () => {
+  const source = [
+    "Message-ID: <m1@example.com>",
+    "Subject: Weekly update",
+    'From: "Ann Example" <ann@example.com>',
+    "To: bob@example.com, Team: carol@example.com, dan@example.com;",
+    "Cc: Eve <eve@example.com>",
+    "Reply-To: replies@example.com",
+    "List-Id: Weekly <weekly.example.com>",
+    "List-Unsubscribe: <https://example.com/unsub>",
+    "Authentication-Results: mx.example.com; spf=pass",
+    "Authentication-Results: mx.example.com; dkim=pass",
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    '<p>Read <a href="https://example.com/post">this</a></p>',
+  ].join("\r\n");
+  const parsed = await simpleParser(Buffer.from(source));
+  const envelope = { uid: 7, subject: "Weekly update", from: "", to: "", date: "2024-01-01T00:00:00.000Z" };
+
+  const rich = toRichMessage(envelope, parsed, 1000);
+  assert.deepEqual(rich.from, [{ name: "Ann Example", address: "ann@example.com" }]);
+  assert.deepEqual(
+    rich.to.map((a) => a.address),
+    ["bob@example.com", "carol@example.com", "dan@example.com"]
+  );
+  assert.deepEqual(rich.cc, [{ name: "Eve", address: "eve@example.com" }]);
+  assert.deepEqual(rich.replyTo, [{ name: undefined, address: "replies@example.com" }]);
+  assert.equal(rich.headers["list-id"], "Weekly <weekly.example.com>");
+  assert.equal(rich.headers["authentication-results"], "mx.example.com; spf=pass\nmx.example.com; dkim=pass");
+  assert.equal(rich.bodyFormat, "markdown");
+  assert.equal(rich.body, "Read [this](https://example.com/post)");
+
+  assert.equal(toRichMessage(envelope, parsed, 5).body, "Read \n[... truncated]");
+});
+
+test("splitBodyBudget keeps short bodies whole and shares the rest evenly", () => {
+  assert.deepEqual(splitBodyBudget([100, 5000, 20, 5000], 1000), [100, 440, 20, 440]);
+  assert.deepEqual(splitBodyBudget([10, 20], 1000), [10, 20]);
+  assert.deepEqual(splitBodyBudget([10, 20], 0), [10, 20]);
+  assert.deepEqual(splitBodyBudget([], 1000), []);
+});
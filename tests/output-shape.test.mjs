@@ -0,0 +1,121 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { estimateTokens, shapeOutput } from "../dist/output-shape.js";
+import { cursorScope, decodeCursor, decodeFolderCursor, encodeFolderCursor } from "../dist/query.js";
+
+function envelopes(count, extra = {}) {
+  return Array.from({ length: count }, (_, i) => ({
+    uid: 100 - i,
+    subject: `Quarterly planning update number ${i}`,
+    from: "Ann Example <ann@example.com>",
+    to: "team@example.com",
+    date: "2024-03-01T10:00:00.000Z",
+    messageId: `<msg-${i}@example.com>`,
+    uri: `imap://message/INBOX/${100 - i}`,
+    snippet: "Lorem ipsum dolor sit amet, consectetur adipiscing elit. ".repeat(6),
+    ...extra,
+  }));
+}
+
+test("estimateTokens counts words by length and punctuation individually", () => {
+  assert.equal(estimateTokens(""), 0);
+  assert.equal(estimateTokens("hello"), 2);
+  assert.equal(estimateTokens('{"a":1}'), 7);
+  assert.ok(estimateTokens("x".repeat(400)) === 100);
+});
+
+test("shapeOutput leaves output within budget as pretty JSON", () => {
+  const value = { items: envelopes(2) };
+  assert.deepEqual(shapeOutput(value, { maxTokens: 0 }), { text: JSON.stringify(value, null, 2) });
+  assert.deepEqual(shapeOutput(value, { maxTokens: 100000 }), { text: JSON.stringify(value, null, 2) });
+});
+
+test("shapeOutput trims snippets before dropping anything else", () => {
+  const value = { items: envelopes(5), nextCursor: "abc" };
+  const full = estimateTokens(JSON.stringify(value));
+  const out = shapeOutput(value, { maxTokens: full - 150 });
+  const parsed = JSON.parse(out.text);
+  assert.equal(parsed.items.length, 5);
+  assert.equal(parsed.nextCursor, "abc");
+  assert.ok(parsed.items[0].uri);
+  assert.ok(parsed.items[0].snippet.length <= 163);
+  assert.equal(parsed.shaped.steps[0], "compact-json");
+  assert.match(parsed.shaped.steps[1], /^snippets:/);
+  assert.ok(estimateTokens(out.text) <= full - 150);
+});
+
+test("shapeOutput switches to terse lines and drops items with a uid cursor", () => {
+  const out = shapeOutput(envelopes(40), { maxTokens: 300, continuation: "uid" });
+  assert.ok(estimateTokens(out.text) <= 300);
+  const lines = out.text.split("\n");
+  assert.match(lines[0], /^\[shaped to fit maxTokens=300: .*terse-format, dropped-items:\d+\]$/);
+  const cursorLine = lines.find((l) => l.startsWith("nextCursor: "));
+  const rows = lines.filter((l) => /^\d+ \| /.test(l));
+  assert.ok(rows.length > 0 && rows.length < 40);
+  const lastUid = Number(rows[rows.length - 1].split(" | ")[0]);
+  assert.equal(decodeCursor(cursorLine.slice("nextCursor: ".length)), lastUid);
+  assert.equal(rows[0], "100 | 2024-03-01 10:00 | Ann Example <ann@example.com> | Quarterly planning update number 0");
+});
+
+test("shapeOutput reports when items are dropped without a way to continue", () => {
+  const out = shapeOutput({ query: "x", items: envelopes(40) }, { maxTokens: 300 });
+  assert.match(out.text, /dropped-items:\d+ \(no cursor: narrow the query\)/);
+  assert.ok(!out.text.includes("nextCursor"));
+});
+
+test("shapeOutput terse lines read nested envelopes and address lists", () => {
+  const items = envelopes(40).map(({ uid, date, subject }) => ({
+    envelope: { uid, date, subject, from: [{ name: "Ann", address: "ann@example.com" }, { address: "bob@example.com" }] },
+    flags: ["\\Seen"],
+  }));
+  const out = shapeOutput({ items }, { maxTokens: 300 });
+  const lines = out.text.split("\n");
+  assert.equal(lines[2], "100 | 2024-03-01 10:00 | Ann <ann@example.com>, bob@example.com | Quarterly planning update number 0");
+});
+
+test("shapeOutput binds new cursors to the page's query scope", () => {
+  const scope = cursorScope("INBOX", "7", { kind: "list", sort: "desc" });
+  const out = shapeOutput(envelopes(40), { maxTokens: 300, continuation: "uid", scope });
+  const cursor = /nextCursor: (\S+)/.exec(out.text)[1];
+  assert.ok(decodeCursor(cursor, scope) > 0);
+  assert.throws(() => decodeCursor(cursor, cursorScope("INBOX", "8", { kind: "list", sort: "desc" })), /mailbox was reset/);
+});
+
+test("shapeOutput rebuilds cross-folder cursors from the kept items", () => {
+  const items = [
+    ...envelopes(20, { mailbox: "INBOX" }),
+    ...envelopes(20, { mailbox: "Archive" }).map((e) => ({ ...e, uid: e.uid - 50 })),
+  ];
+  const cursor = encodeFolderCursor({
+    positions: { Sent: { uid: 7, date: 0 } },
+    done: ["Drafts"],
+    uidValidity: { Sent: "5" },
+  });
+  const value = {
+    items,
+    nextCursor: encodeFolderCursor({
+      positions: { INBOX: { uid: 81, date: 0 }, Archive: { uid: 31, date: 0 } },
+      done: ["Drafts", "Sent"],
+      uidValidity: { INBOX: "1", Archive: "2", Sent: "5" },
+    }),
+  };
+  const out = shapeOutput(value, { maxTokens: 300, continuation: "folder", cursor });
+  const next = decodeFolderCursor(/nextCursor: (\S+)/.exec(out.text)[1]);
+  assert.deepEqual(next.positions.Sent, { uid: 7, date: 0 });
+  assert.ok(next.positions.INBOX.uid > 81);
+  assert.equal(next.positions.INBOX.date, Date.parse("2024-03-01T10:00:00.000Z"));
+  assert.equal(next.positions.Archive, undefined);
+  assert.deepEqual(next.done, ["Drafts", "Sent"]);
+  assert.deepEqual(next.uidValidity, { Sent: "5", INBOX: "1", Archive: "2" });
+});
+
+test("shapeOutput truncates the longest string of a single result", () => {
+  const value = { envelope: envelopes(1)[0], bodyText: "word ".repeat(4000) };
+  const out = shapeOutput(value, { maxTokens: 500 });
+  const parsed = JSON.parse(out.text);
+  assert.ok(estimateTokens(out.text) <= 500);
+  assert.match(parsed.bodyText, /\[\.\.\. truncated to fit maxTokens\]$/);
+  assert.deepEqual(parsed.shaped.steps, ["compact-json", "truncated:bodyText"]);
+  assert.equal(parsed.envelope.uid, 100);
+});
@@ -2,8 +2,14 @@ import test from 'node:test';
 import assert from 'node:assert/strict';
 import {
   clampLimit,
+  configureCursorSigning,
+  cursorScope,
   decodeCursor,
+  decodeFolderCursor,
   encodeCursor,
+  encodeFolderCursor,
+  encodeSortCursor,
+  decodeSortCursor,
   paginateUids,
   normalizeSort,
 } from '../dist/query.js';
@@ -49,3 +55,69 @@ test('paginateUids returns stable desc order and nextCursor', () => {
 
   assert.deepEqual(page2.pageUids, [3, 2]);
 });
+
+test('folder cursor encode/decode roundtrip and validation', () => {
+  const cursor = {
+    positions: { INBOX: { uid: 42, date: 1709287200000 }, 'Work/2026': { uid: 7, date: 0 } },
+    done: ['Archive'],
+    uidValidity: { INBOX: '3', 'Work/2026': '9' },
+  };
+  assert.deepEqual(decodeFolderCursor(encodeFolderCursor(cursor)), cursor);
+  assert.equal(decodeFolderCursor(undefined), undefined);
+  assert.throws(() => decodeFolderCursor(encodeCursor(42)), /Invalid cursor value/);
+  const bad = Buffer.from(JSON.stringify({ p: { INBOX: -1 }, d: [] })).toString('base64url');
+  assert.throws(() => decodeFolderCursor(bad), /Invalid cursor value/);
+});
+
+test('bound cursors reject a different mailbox or query', () => {
+  const scope = cursorScope('INBOX', '42', { kind: 'search', criteria: { from: 'ann' }, sort: 'desc' });
+  const cursor = encodeCursor(77, scope);
+  assert.equal(decodeCursor(cursor, scope), 77);
+  // Equivalent criteria (key order, whitespace, empty values) hash the same.
+  const same = cursorScope('INBOX', '42', { sort: 'desc', kind: 'search', criteria: { to: '', from: ' ann ' } });
+  assert.equal(decodeCursor(cursor, same), 77);
+
+  const otherMailbox = cursorScope('Archive', '42', { kind: 'search', criteria: { from: 'ann' }, sort: 'desc' });
+  assert.throws(() => decodeCursor(cursor, otherMailbox), /cursor belongs to a different query/);
+  const otherCriteria = cursorScope('INBOX', '42', { kind: 'search', criteria: { from: 'bob' }, sort: 'desc' });
+  assert.throws(() => decodeCursor(cursor, otherCriteria), /cursor belongs to a different query/);
+  const otherSort = cursorScope('INBOX', '42', { kind: 'search', criteria: { from: 'ann' }, sort: 'asc' });
+  assert.throws(() => decodeCursor(cursor, otherSort), /cursor belongs to a different query/);
+  // Unbound cursors are not accepted where a binding is expected.
+  assert.throws(() => decodeCursor(encodeCursor(77), scope), /cursor belongs to a different query/);
+  assert.throws(() => paginateUids([1, 2, 3], { cursor, scope: otherCriteria }), /different query/);
+});
+
+test('bound cursors reject a mailbox whose UIDVALIDITY changed', () => {
+  const query = { kind: 'list', sort: 'desc' };
+  const scope = cursorScope('INBOX', '42', query);
+  const reset = cursorScope('INBOX', '43', query);
+  assert.throws(() => decodeCursor(encodeCursor(77, scope), reset), /mailbox was reset, restart pagination/);
+
+  const folderCursor = encodeFolderCursor({ positions: { INBOX: { uid: 5, date: 1 } }, done: [], uidValidity: {} }, scope);
+  assert.throws(() => decodeFolderCursor(folderCursor, reset), /mailbox was reset/);
+  const sortCursor = encodeSortCursor({ sortBy: 'date', key: 1, uid: 5 }, scope);
+  assert.throws(() => decodeSortCursor(sortCursor, 'date', reset), /mailbox was reset/);
+  assert.deepEqual(decodeSortCursor(sortCursor, 'date', scope), { sortBy: 'date', key: 1, uid: 5 });
+});
+
+test('signed cursors reject tampering and unsigned cursors', () => {
+  const scope = cursorScope('INBOX', '42', { kind: 'list' });
+  const unsigned = encodeCursor(10, scope);
+  configureCursorSigning(Buffer.from('test-secret'));
+  try {
+    const cursor = encodeCursor(10, scope);
+    assert.equal(decodeCursor(cursor, scope), 10);
+
+    const [body, signature] = cursor.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(body, 'base64url').toString()), p: 9999 }))
+      .toString('base64url');
+    assert.throws(() => decodeCursor(`${forged}.${signature}`, scope), /Invalid cursor signature/);
+    assert.throws(() => decodeCursor(unsigned, scope), /Invalid cursor signature/);
+
+    configureCursorSigning(Buffer.from('after-restart'));
+    assert.throws(() => decodeCursor(cursor, scope), /restart pagination/);
+  } finally {
+    configureCursorSigning();
+  }
+});
@@ -0,0 +1,65 @@
+import test, { afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { __setClientFactoryForTests, getMessage, searchMailPage } from "../dist/imap.js";
+import { listResources, readResource } from "../dist/resources.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+const MAIL_CONFIG = { maxBodyLength: 50000, maxResults: 200, snippetLength: 400, maxAttachmentBytes: 1000 };
+
+const SOURCE = Buffer.from(
+  ["Message-ID: <m5@example.com>", "Subject: Hello", "From: a@example.com", "", "Body five"].join("\r\n"),
+  "utf8"
+);
+
+function mailboxClient(uidValidity) {
+  const mock = createMockClient({
+    searchImpl: () => [5],
+    fetchOneImpl: () => makeEnvelope(5, { source: SOURCE }),
+    listImpl: () => [{ path: "INBOX", name: "INBOX", status: { messages: 3, unseen: 1 } }],
+  });
+  mock.client.mailbox.path = "INBOX";
+  mock.client.mailbox.uidValidity = uidValidity;
+  return mock;
+}
+
+afterEach(() => {
+  __setClientFactoryForTests(undefined);
+});
+
+test("list/search envelopes carry message resource URIs with UIDVALIDITY", async () => {
+  const { client } = mailboxClient(99n);
+  __setClientFactoryForTests(() => client);
+
+  const page = await searchMailPage(IMAP_CONFIG, "INBOX", { subject: "x" }, { limit: 5, maxResults: 200 });
+  assert.equal(page.items[0].uri, "imap://message/INBOX;UIDVALIDITY=99/5");
+});
+
+test("folders are listed as resources", async () => {
+  const { client } = mailboxClient(99n);
+  __setClientFactoryForTests(() => client);
+
+  const resources = await listResources(IMAP_CONFIG);
+  assert.deepEqual(resources, [
+    { uri: "imap://folder/INBOX", name: "INBOX", description: "3 messages, 1 unseen", mimeType: "application/json" },
+  ]);
+});
+
+test("reading a message resource returns the same content as getMessage", async () => {
+  const { client } = mailboxClient(99n);
+  __setClientFactoryForTests(() => client);
+
+  const [contents] = await readResource(IMAP_CONFIG, MAIL_CONFIG, "imap://message/INBOX;UIDVALIDITY=99/5");
+  const direct = await getMessage(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 5);
+  assert.equal(contents.mimeType, "application/json");
+  assert.deepEqual(JSON.parse(contents.text), JSON.parse(JSON.stringify(direct)));
+});
+
+test("reading a message resource after a UIDVALIDITY reset fails clearly", async () => {
+  const { client } = mailboxClient(100n);
+  __setClientFactoryForTests(() => client);
+
+  await assert.rejects(
+    () => readResource(IMAP_CONFIG, MAIL_CONFIG, "imap://message/INBOX;UIDVALIDITY=99/5"),
+    /UIDVALIDITY changed \(99 -> 100\)/
+  );
+});
@@ -0,0 +1,125 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import * as imap from "../dist/imap.js";
+import { searchAllAccounts, searchAllMailboxes } from "../dist/search-all.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+const FOLDERS = [
+  { path: "INBOX", name: "INBOX", flags: new Set() },
+  { path: "Archive", name: "Archive", specialUse: "\\Archive", flags: new Set() },
+  { path: "Trash", name: "Trash", specialUse: "\\Trash", flags: new Set() },
+  { path: "[Gmail]", name: "[Gmail]", flags: new Set(["\\Noselect"]) },
+];
+
+const MATCHES = { INBOX: [1, 5, 9], Archive: [3, 7], Trash: [8] };
+
+function mockAccount() {
+  const mock = createMockClient({
+    listImpl: () => FOLDERS,
+    searchImpl: () => MATCHES[mock.calls.lock.at(-1).mailbox] ?? [],
+  });
+  imap.__setClientFactoryForTests(() => mock.client);
+  return mock;
+}
+
+test.afterEach(() => {
+  imap.__setClientFactoryForTests();
+});
+
+test("searchAllMailboxes skips Trash and unselectable folders and merges newest-first", async () => {
+  const { calls } = mockAccount();
+  const criteria = { keyword: "invoice" };
+
+  const first = await searchAllMailboxes(IMAP_CONFIG, criteria, { limit: 2 });
+  assert.deepEqual(first.folders, ["INBOX", "Archive"]);
+  assert.deepEqual(first.items.map((m) => [m.mailbox, m.uid]), [["INBOX", 9], ["Archive", 7]]);
+  assert.ok(first.nextCursor);
+  assert.ok(calls.search.every((s) => s.query.text === "invoice"));
+
+  const second = await searchAllMailboxes(IMAP_CONFIG, criteria, { limit: 2, cursor: first.nextCursor });
+  assert.deepEqual(second.items.map((m) => [m.mailbox, m.uid]), [["INBOX", 5], ["Archive", 3]]);
+
+  const third = await searchAllMailboxes(IMAP_CONFIG, criteria, { limit: 2, cursor: second.nextCursor });
+  assert.deepEqual(third.items.map((m) => [m.mailbox, m.uid]), [["INBOX", 1]]);
+  assert.deepEqual(third.folders, ["INBOX"]);
+  assert.equal(third.nextCursor, undefined);
+});
+
+test("searchAllMailboxes honours includeFolders and excludeFolders", async () => {
+  mockAccount();
+
+  const included = await searchAllMailboxes(IMAP_CONFIG, { keyword: "x" }, { includeFolders: ["inbox", "Trash"] });
+  assert.deepEqual(included.folders, ["INBOX", "Trash"]);
+  assert.deepEqual(included.items.map((m) => m.uid), [9, 8, 5, 1]);
+
+  const excluded = await searchAllMailboxes(IMAP_CONFIG, { keyword: "x" }, { excludeFolders: ["INBOX"] });
+  assert.deepEqual(excluded.folders, ["Archive"]);
+
+  await assert.rejects(
+    () => searchAllMailboxes(IMAP_CONFIG, { keyword: "x" }, { includeFolders: ["Nope"] }),
+    /Folder not found: Nope/
+  );
+});
+
+test("searchAllAccounts merges accounts and reports an account whose folders fail", async () => {
+  const work = createMockClient({
+    listImpl: () => FOLDERS,
+    searchImpl: () => ({ INBOX: [2, 4] })[work.calls.lock.at(-1).mailbox] ?? [],
+  });
+  const home = createMockClient({
+    listImpl: () => [{ path: "INBOX", name: "INBOX", flags: new Set() }],
+    searchImpl: () => [3],
+  });
+  const broken = createMockClient({
+    listImpl: () => {
+      throw new Error("LIST failed");
+    },
+  });
+  const clients = { "work@example.com": work, "home@example.com": home, "broken@example.com": broken };
+  imap.__setClientFactoryForTests((config) => clients[config.user].client);
+
+  const accounts = Object.keys(clients).map((user) => ({
+    name: user.split("@")[0],
+    config: { ...IMAP_CONFIG, user },
+  }));
+  const first = await searchAllAccounts(accounts, { keyword: "x" }, { limit: 2 });
+  assert.deepEqual(first.folders, ["work:INBOX", "work:Archive", "home:INBOX"]);
+  assert.deepEqual(first.items.map((m) => [m.account, m.mailbox, m.uid]), [["work", "INBOX", 4], ["home", "INBOX", 3]]);
+  assert.deepEqual(first.errors, [{ account: "broken", mailbox: "*", error: "LIST failed" }]);
+
+  const second = await searchAllAccounts(accounts, { keyword: "x" }, { limit: 2, cursor: first.nextCursor });
+  assert.deepEqual(second.items.map((m) => [m.account, m.uid]), [["work", 2]]);
+  assert.equal(second.nextCursor, undefined);
+});
+
+test("searchAllMailboxes orders each folder by date, not UID, and detects a reset folder", async () => {
+  // INBOX UID 1 was imported last, so it is the newest message despite its low UID.
+  const dates = { "INBOX:1": 30, "INBOX:5": 10, "INBOX:9": 20, "Archive:3": 25, "Archive:7": 5 };
+  const mock = createMockClient({
+    listImpl: () => FOLDERS,
+    searchImpl: () => MATCHES[mock.calls.lock.at(-1).mailbox] ?? [],
+    fetchImpl: (range) => {
+      const mailbox = mock.calls.lock.at(-1).mailbox;
+      return (async function* () {
+        for (const uid of range) {
+          const day = String(dates[`${mailbox}:${uid}`]).padStart(2, "0");
+          yield makeEnvelope(uid, { date: new Date(`2024-01-${day}T00:00:00.000Z`) });
+        }
+      })();
+    },
+  });
+  mock.client.mailbox.uidValidity = 7n;
+  imap.__setClientFactoryForTests(() => mock.client);
+
+  const first = await searchAllMailboxes(IMAP_CONFIG, { keyword: "x" }, { limit: 3 });
+  assert.deepEqual(first.items.map((m) => [m.mailbox, m.uid]), [["INBOX", 1], ["Archive", 3], ["INBOX", 9]]);
+  const second = await searchAllMailboxes(IMAP_CONFIG, { keyword: "x" }, { limit: 3, cursor: first.nextCursor });
+  assert.deepEqual(second.items.map((m) => [m.mailbox, m.uid]), [["INBOX", 5], ["Archive", 7]]);
+
+  mock.client.mailbox.uidValidity = 8n;
+  await assert.rejects(
+    searchAllMailboxes(IMAP_CONFIG, { keyword: "x" }, { limit: 3, cursor: first.nextCursor }),
+    /mailbox was reset, restart pagination \(INBOX, Archive\)/
+  );
+});
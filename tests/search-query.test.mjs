@@ -0,0 +1,102 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  combineSearchQueries,
+  parseSearchQuery,
+  searchQueryToImap,
+} from '../dist/search-query.js';
+
+test('adjacent terms are ANDed into one top-level object', () => {
+  assert.deepEqual(searchQueryToImap('from:alice subject:report'), { from: 'alice', subject: 'report' });
+});
+
+test('free text and quoted phrases search TEXT', () => {
+  assert.deepEqual(searchQueryToImap('"quarterly report"'), { text: 'quarterly report' });
+  assert.deepEqual(searchQueryToImap('subject:"Q1 \\"final\\""'), { subject: 'Q1 "final"' });
+  assert.deepEqual(searchQueryToImap('e-mail'), { text: 'e-mail' });
+});
+
+test('OR binds tighter than implicit AND', () => {
+  const ast = parseSearchQuery('from:alice OR from:bob is:unread');
+  assert.equal(ast.type, 'and');
+  assert.equal(ast.children[0].type, 'or');
+  assert.deepEqual(searchQueryToImap('from:alice OR from:bob is:unread'), {
+    or: [{ from: 'alice' }, { from: 'bob' }],
+    seen: false,
+  });
+});
+
+test('negation with - and NOT', () => {
+  assert.deepEqual(searchQueryToImap('-subject:newsletter'), { not: { subject: 'newsletter' } });
+  assert.deepEqual(searchQueryToImap('NOT from:spam'), { not: { from: 'spam' } });
+  assert.deepEqual(searchQueryToImap('--from:x'), { from: 'x' });
+});
+
+test('full example compiles to nested or/not', () => {
+  const q = searchQueryToImap(
+    'from:alice OR from:bob -subject:newsletter after:2026-01-01 has:attachment is:unread larger:1M'
+  );
+  assert.deepEqual(q, {
+    or: [{ from: 'alice' }, { from: 'bob' }],
+    not: { subject: 'newsletter' },
+    since: new Date('2026-01-01T00:00:00.000Z'),
+    header: { 'content-type': 'multipart/mixed' },
+    seen: false,
+    larger: 1024 * 1024,
+  });
+});
+
+test('AND groups inside OR become single search keys (De Morgan)', () => {
+  // imapflow emits no parentheses, so (a b) inside OR must be NOT (OR (NOT a) (NOT b)).
+  assert.deepEqual(searchQueryToImap('(from:alice subject:x) OR from:bob'), {
+    or: [{ not: { or: [{ not: { from: 'alice' } }, { not: { subject: 'x' } }] } }, { from: 'bob' }],
+  });
+  assert.deepEqual(searchQueryToImap('-(from:alice -subject:x)'), {
+    or: [{ not: { from: 'alice' } }, { subject: 'x' }],
+  });
+});
+
+test('repeated fields at top level fall back to a single AND key', () => {
+  assert.deepEqual(searchQueryToImap('from:alice from:bob'), {
+    not: { or: [{ not: { from: 'alice' } }, { not: { from: 'bob' } }] },
+  });
+});
+
+test('combineSearchQueries merges disjoint keys', () => {
+  assert.deepEqual(combineSearchQueries([{ from: 'a' }, { seen: false }]), { from: 'a', seen: false });
+  assert.deepEqual(combineSearchQueries([{ from: 'a' }, { from: 'b' }]), {
+    not: { or: [{ not: { from: 'a' } }, { not: { from: 'b' } }] },
+  });
+});
+
+test('sizes, dates, flags and message-id', () => {
+  assert.deepEqual(searchQueryToImap('smaller:500K'), { smaller: 500 * 1024 });
+  assert.deepEqual(searchQueryToImap('larger:2000'), { larger: 2000 });
+  assert.deepEqual(searchQueryToImap('before:2026/02/01'), { before: new Date('2026-02-01T00:00:00.000Z') });
+  assert.deepEqual(searchQueryToImap('is:starred'), { flagged: true });
+  assert.deepEqual(searchQueryToImap('msgid:<a@b>'), { header: { 'message-id': '<a@b>' } });
+  const since = searchQueryToImap('newer_than:7d').since;
+  assert.ok(since instanceof Date);
+  assert.ok(Math.abs(Date.now() - 7 * 86400000 - since.getTime()) < 5000);
+});
+
+test('parse errors point at the offending token', () => {
+  assert.throws(() => searchQueryToImap('from:alice OR form:bob'), (err) => {
+    assert.match(err.message, /column 15: unknown field "form:"/);
+    assert.match(err.message, /\n {2}from:alice OR form:bob\n {16}\^$/);
+    return true;
+  });
+  assert.throws(() => searchQueryToImap('from:alice OR'), /column 12: OR needs a term on its right/);
+  assert.throws(() => searchQueryToImap('OR from:a'), /column 1: OR needs a term on its left/);
+  assert.throws(() => searchQueryToImap('(from:a'), /column 1: unclosed parenthesis/);
+  assert.throws(() => searchQueryToImap('from:a)'), /column 7: unmatched closing parenthesis/);
+  assert.throws(() => searchQueryToImap('()'), /column 1: empty parentheses/);
+  assert.throws(() => searchQueryToImap('subject:"open'), /column 9: unterminated quoted string/);
+  assert.throws(() => searchQueryToImap('after:yesterday'), /column 1: after: expects a date/);
+  assert.throws(() => searchQueryToImap('larger:big'), /larger: expects a size/);
+  assert.throws(() => searchQueryToImap('is:important'), /unknown is: value "important"/);
+  assert.throws(() => searchQueryToImap('has:drive'), /only has:attachment is supported/);
+  assert.throws(() => searchQueryToImap('from:'), /from: is missing a value/);
+  assert.throws(() => searchQueryToImap('NOT'), /"NOT" must be followed by a term/);
+  assert.throws(() => searchQueryToImap('   '), /Query is empty/);
+});
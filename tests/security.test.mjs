@@ -0,0 +1,147 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { simpleParser } from "mailparser";
+
+import { analyzeParsedMessage, checkLookalike, classifyAttachment, extractHtmlLinks } from "../dist/security.js";
+
+const PHISH = [
+  "Authentication-Results: mx.example.net;",
+  " dkim=fail (bad signature) header.d=paypa1.com header.s=k1;",
+  " spf=softfail (domain of transitioning bounce@bulk.example) smtp.mailfrom=bounce@bulk.example;",
+  " dmarc=fail (p=REJECT sp=NONE) header.from=paypa1.com",
+  "Authentication-Results: forged.example; dmarc=pass header.from=paypa1.com",
+  "Return-Path: <bounce@bulk.example>",
+  'From: "PayPal Service" <service@paypa1.com>',
+  "Reply-To: help@collector.example",
+  "To: bob@example.com",
+  "Subject: Your account is limited",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/mixed; boundary="b"',
+  "",
+  "--b",
+  "Content-Type: text/html; charset=utf-8",
+  "",
+  '<p>Sign in at <a href="http://198.51.100.7/login">https://www.paypal.com/signin</a> or',
+  '<a href="https://paypal.com/help">help</a> or <a href="https://xn--pypal-4ve.com/x">pаypal.com</a>.</p>',
+  "--b",
+  'Content-Type: application/octet-stream; name="invoice.pdf.exe"',
+  'Content-Disposition: attachment; filename="invoice.pdf.exe"',
+  "Content-Transfer-Encoding: base64",
+  "",
+  "TVqQAAMAAAAEAAAA",
+  "--b--",
+  "",
+].join("\r\n");
+
+const CLEAN = [
+  "Authentication-Results: mx.example.net; spf=pass smtp.mailfrom=news@mail.example.com;",
+  " dkim=pass header.d=example.com; dmarc=pass header.from=example.com",
+  "Return-Path: <bounces@mail.example.com>",
+  "From: Example News <news@example.com>",
+  "To: bob@example.com",
+  "Subject: Weekly digest",
+  "Content-Type: text/html; charset=utf-8",
+  "",
+  '<a href="https://www.example.com/a?x=1&amp;y=2">www.example.com/a</a> <a href="https://example.com/b">Read more</a>',
+  "",
+].join("\r\n");
+
+test("analyzeParsedMessage scores a phishing message with reasons", async () => {
+  const result = analyzeParsedMessage(await simpleParser(PHISH));
+
+  // Only the topmost results header counts; the forged dmarc=pass below it is ignored.
+  assert.equal(result.authentication.authservId, "mx.example.net");
+  assert.deepEqual(result.authentication.dmarc, { result: "fail", domain: "paypa1.com", policy: "reject" });
+  assert.deepEqual(result.authentication.spf, { result: "softfail", domain: "bulk.example" });
+  assert.deepEqual(result.authentication.dkim, [{ result: "fail", domain: "paypa1.com", selector: "k1" }]);
+  assert.deepEqual(result.sender, {
+    from: "service@paypa1.com",
+    displayName: "PayPal Service",
+    fromDomain: "paypa1.com",
+    replyTo: "help@collector.example",
+    replyToDomain: "collector.example",
+    returnPath: "bounce@bulk.example",
+    returnPathDomain: "bulk.example",
+  });
+
+  const signals = result.reasons.map((r) => r.signal);
+  for (const signal of [
+    "dangerous-attachment",
+    "dmarc-fail",
+    "lookalike-domain",
+    "link-text-mismatch",
+    "brand-impersonation",
+    "reply-to-mismatch",
+    "ip-address-link",
+    "spf-softfail",
+    "dkim-fail",
+    "return-path-mismatch",
+  ]) {
+    assert.ok(signals.includes(signal), signal);
+  }
+  assert.equal(result.riskScore, 100);
+  assert.equal(result.riskLevel, "high");
+  assert.equal(result.reasons[0].signal, "dangerous-attachment");
+
+  assert.equal(result.links.total, 3);
+  // The Cyrillic-a anchor text resolves to the same punycode host, so it is a lookalike, not a mismatch.
+  assert.equal(result.links.mismatched, 1);
+  assert.deepEqual(
+    result.lookalikeDomains.map((d) => [d.domain, d.looksLike]),
+    [
+      ["paypa1.com", "paypal.com"],
+      ["xn--pypal-4ve.com", "paypal.com"],
+    ]
+  );
+  assert.deepEqual(result.attachments.map((a) => [a.filename, a.risk]), [["invoice.pdf.exe", "high"]]);
+  assert.match(result.attachments[0].reason, /double extension/);
+});
+
+test("analyzeParsedMessage keeps aligned mail low risk", async () => {
+  const result = analyzeParsedMessage(await simpleParser(CLEAN));
+  assert.deepEqual(result.reasons, []);
+  assert.equal(result.riskScore, 0);
+  assert.equal(result.riskLevel, "low");
+  assert.equal(result.authentication.dmarc.result, "pass");
+  assert.deepEqual(result.links.items[0], {
+    href: "https://www.example.com/a?x=1&y=2",
+    text: "www.example.com/a",
+    hrefDomain: "www.example.com",
+    textDomain: "www.example.com",
+    mismatch: false,
+  });
+
+  const bare = analyzeParsedMessage(
+    await simpleParser("Received-SPF: Fail (domain of x@spoof.example) envelope-from=x@spoof.example;\r\nFrom: a@spoof.example\r\n\r\nhttp://spoof.example/x")
+  );
+  assert.equal(bare.authentication.source, "received-spf");
+  assert.deepEqual(bare.authentication.spf, { result: "fail", domain: "spoof.example" });
+  assert.equal(bare.links.items[0].href, "http://spoof.example/x");
+  assert.deepEqual(bare.reasons.map((r) => r.signal), ["spf-fail"]);
+});
+
+test("link, domain and attachment helpers", () => {
+  assert.deepEqual(
+    extractHtmlLinks('<a href="https://evil.example/">https://bank.example.co.uk/login</a><a name="x">anchor</a>').map((l) => [
+      l.textDomain,
+      l.mismatch,
+    ]),
+    [["bank.example.co.uk", true]]
+  );
+  assert.equal(extractHtmlLinks('<a href="https://a.example.com">b.example.com</a>')[0].mismatch, false);
+
+  assert.equal(checkLookalike("rnicrosoft.com").looksLike, "microsoft.com");
+  assert.deepEqual(checkLookalike("xn--80ak6aa92e.com"), {
+    domain: "xn--80ak6aa92e.com",
+    unicode: "аррӏе.com",
+    looksLike: "apple.com",
+    reason: "imitates apple with look-alike characters",
+  });
+  assert.equal(checkLookalike("xn--e1afmkfd.com").reason, "internationalized (punycode) domain");
+  assert.equal(checkLookalike("microsoft.com"), undefined);
+  assert.equal(checkLookalike("example.org"), undefined);
+
+  assert.equal(classifyAttachment("report.docm", "application/vnd.ms-word", 10).risk, "medium");
+  assert.match(classifyAttachment("photo\u202egpj.exe", "application/octet-stream", 10).reason, /right-to-left/);
+  assert.equal(classifyAttachment("report.pdf", "application/pdf", 10), undefined);
+});
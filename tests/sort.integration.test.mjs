@@ -0,0 +1,114 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import * as imap from "../dist/imap.js";
+import { baseSubject } from "../dist/sort.js";
+import { IMAP_CONFIG, createMockClient } from "./helpers.mjs";
+
+/** UID order differs from date order, as after a migration. */
+const MESSAGES = {
+  1: { subject: "Re: Budget", from: "carol@example.com", date: "2024-03-05T10:00:00Z", size: 300 },
+  2: { subject: "Agenda", from: "alice@example.com", date: "2024-03-01T10:00:00Z", size: 100 },
+  3: { subject: "[team] Fwd: Zebra", from: "bob@example.com", date: "2024-03-03T10:00:00Z", size: 200 },
+  4: { subject: "Minutes", from: "alice@example.com", date: "2024-03-02T10:00:00Z", size: 200 },
+};
+
+function mockMailbox({ withSort = false } = {}) {
+  const store = { ...MESSAGES };
+  const mock = createMockClient({
+    searchImpl: () => Object.keys(store).map(Number),
+    fetchImpl: (range) =>
+      (async function* () {
+        for (const uid of range) {
+          const m = store[uid];
+          if (!m) continue;
+          yield {
+            uid,
+            size: m.size,
+            internalDate: new Date(m.date),
+            envelope: { subject: m.subject, from: [{ address: m.from }], to: [], date: new Date(m.date) },
+            flags: new Set(),
+          };
+        }
+      })(),
+  });
+  if (withSort) {
+    mock.client.capabilities = new Map([["SORT", true]]);
+    mock.calls.exec = [];
+    mock.client.exec = async (command, attributes, options) => {
+      mock.calls.exec.push({ command, attributes });
+      // Server order for DATE, including a UID outside the requested set.
+      const order = [2, 4, 3, 1, 99].filter((uid) => store[uid] || uid === 99);
+      options.untagged.SORT({ attributes: order.map((uid) => ({ type: "ATOM", value: String(uid) })) });
+      return {};
+    };
+  }
+  imap.__setClientFactoryForTests(() => mock.client);
+  return { mock, store };
+}
+
+const uidsOf = (page) => page.items.map((m) => m.uid);
+
+test.afterEach(() => {
+  imap.__setClientFactoryForTests();
+});
+
+test("sortBy without server SORT fetches only the key fields and sorts client-side", async () => {
+  const { mock } = mockMailbox();
+  const first = await imap.searchMailAdvancedPage(IMAP_CONFIG, "INBOX", { keyword: "x" }, { sortBy: "date", limit: 2 });
+  assert.deepEqual(uidsOf(first), [1, 3]);
+  assert.deepEqual(mock.calls.fetch[0].query, { uid: true, envelope: true, internalDate: true });
+  const second = await imap.searchMailAdvancedPage(IMAP_CONFIG, "INBOX", { keyword: "x" }, {
+    sortBy: "date",
+    limit: 2,
+    cursor: first.nextCursor,
+  });
+  assert.deepEqual(uidsOf(second), [4, 2]);
+  assert.equal(second.nextCursor, undefined);
+
+  // Ties (size 200) are broken by UID.
+  const bySize = await imap.listMessagesPage(IMAP_CONFIG, "INBOX", { sortBy: "size", sort: "asc" });
+  assert.deepEqual(uidsOf(bySize), [2, 3, 4, 1]);
+  const bySender = await imap.listMessagesPage(IMAP_CONFIG, "INBOX", { sortBy: "from", sort: "asc" });
+  assert.deepEqual(uidsOf(bySender), [2, 4, 3, 1]);
+  const bySubject = await imap.searchMailPage(IMAP_CONFIG, "INBOX", { subject: "a" }, { sortBy: "subject", sort: "asc" });
+  assert.deepEqual(uidsOf(bySubject), [2, 1, 4, 3]);
+});
+
+test("sortBy uses UID SORT when advertised and resumes after an expunged cursor message", async () => {
+  const { mock, store } = mockMailbox({ withSort: true });
+  const first = await imap.listMessagesPage(IMAP_CONFIG, "INBOX", { sortBy: "date", sort: "asc", limit: 2 });
+  assert.deepEqual(uidsOf(first), [2, 4]);
+  const [sortCall] = mock.calls.exec;
+  assert.equal(sortCall.command, "UID SORT");
+  assert.deepEqual(sortCall.attributes.slice(1), [
+    { type: "ATOM", value: "UTF-8" },
+    { type: "ATOM", value: "UID" },
+    { type: "SEQUENCE", value: "1:4" },
+  ]);
+  // Only the cursor message's key is fetched.
+  assert.deepEqual(mock.calls.fetch.map((c) => c.range), [[4], [2, 4]]);
+
+  delete store[4];
+  const second = await imap.listMessagesPage(IMAP_CONFIG, "INBOX", {
+    sortBy: "date",
+    sort: "asc",
+    limit: 2,
+    cursor: first.nextCursor,
+  });
+  assert.deepEqual(uidsOf(second), [3, 1]);
+
+  // sortBy is part of the query a cursor is bound to.
+  await assert.rejects(
+    imap.listMessagesPage(IMAP_CONFIG, "INBOX", { sortBy: "size", cursor: first.nextCursor }),
+    /cursor belongs to a different query/
+  );
+  await assert.rejects(imap.listMessagesPage(IMAP_CONFIG, "INBOX", { sortBy: "colour" }), /Invalid sortBy/);
+});
+
+test("baseSubject strips reply and forward decorations", () => {
+  assert.equal(baseSubject("Re: RE: [list] Fwd: Hello World (fwd)"), "hello world");
+  assert.equal(baseSubject("[Fwd: Quarterly report]"), "quarterly report");
+  assert.equal(baseSubject("Request: access"), "request: access");
+  assert.equal(baseSubject("[only-tag]"), "[only-tag]");
+});
@@ -0,0 +1,104 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import * as imap from "../dist/imap.js";
+import { listSubscriptions, parseBulkHeaders, parseUnsubscribe } from "../dist/subscriptions.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+const NEWS_HEADERS =
+  "List-Id: Example News <news.example.com>\r\n" +
+  "List-Unsubscribe: <mailto:unsub@example.com?subject=stop>,\r\n <https://example.com/u/123>\r\n" +
+  "List-Unsubscribe-Post: List-Unsubscribe=One-Click\r\n\r\n";
+
+const MESSAGES = {
+  1: { from: "news@example.com", day: 1, seen: true, headers: NEWS_HEADERS },
+  2: { from: "news@example.com", day: 8, seen: false, headers: NEWS_HEADERS },
+  3: { from: "news@example.com", day: 15, seen: true, headers: NEWS_HEADERS },
+  4: { from: "deals@shop.example", day: 10, seen: false, headers: "Precedence: bulk\r\n\r\n" },
+  5: { from: "friend@example.org", day: 11, seen: false, headers: "\r\n" },
+};
+
+function mockStore() {
+  const mock = createMockClient({
+    searchImpl: () => [1, 2, 3, 4, 5],
+    fetchImpl: (range) =>
+      (async function* () {
+        for (const uid of range) {
+          const m = MESSAGES[uid];
+          const msg = makeEnvelope(uid, {
+            subject: `Issue ${uid}`,
+            date: new Date(`2024-05-${String(m.day).padStart(2, "0")}T08:00:00.000Z`),
+            flags: new Set(m.seen ? ["\\Seen"] : []),
+            headers: Buffer.from(m.headers),
+          });
+          msg.envelope.from = [{ address: m.from, name: "Sender" }];
+          yield msg;
+        }
+      })(),
+  });
+  imap.__setClientFactoryForTests(() => mock.client);
+  return mock;
+}
+
+test.afterEach(() => {
+  imap.__setClientFactoryForTests();
+});
+
+test("parseBulkHeaders and parseUnsubscribe read list markers", () => {
+  const news = parseBulkHeaders(Buffer.from(NEWS_HEADERS));
+  assert.equal(news.isBulk, true);
+  assert.equal(news.listId, "news.example.com");
+  assert.deepEqual(parseUnsubscribe(news.listUnsubscribe, news.listUnsubscribePost), {
+    url: "https://example.com/u/123",
+    mailto: "mailto:unsub@example.com?subject=stop",
+    oneClick: true,
+  });
+  assert.equal(parseBulkHeaders(Buffer.from("Precedence: junk\r\n\r\n")).isBulk, true);
+  assert.equal(parseBulkHeaders(Buffer.from("Subject: hi\r\n\r\n")).isBulk, false);
+  assert.equal(parseBulkHeaders(undefined).isBulk, false);
+  assert.equal(parseUnsubscribe("<mailto:x@example.com>").oneClick, false);
+  assert.equal(parseUnsubscribe("not a target"), undefined);
+});
+
+test("listSubscriptions groups bulk mail by list and sender", async () => {
+  const mock = mockStore();
+  const result = await listSubscriptions(IMAP_CONFIG, "INBOX");
+
+  assert.ok(mock.calls.search[0].query.or.some((q) => q.header?.["list-id"] === true));
+  assert.equal(result.scanned, 5);
+  assert.deepEqual(
+    result.subscriptions.map((s) => s.key),
+    ["news.example.com", "deals@shop.example"]
+  );
+  const [news, deals] = result.subscriptions;
+  assert.equal(news.messages, 3);
+  assert.equal(news.unread, 1);
+  assert.equal(news.readRatio, 0.67);
+  assert.equal(news.messagesPerWeek, 1.5);
+  assert.equal(news.lastReceived, "2024-05-15T08:00:00.000Z");
+  assert.equal(news.lastSubject, "Issue 3");
+  assert.equal(news.unsubscribe.oneClick, true);
+  assert.equal(deals.unsubscribe, undefined);
+  assert.equal(deals.readRatio, 0);
+});
+
+test("envelopes carry isBulk/listId and excludeBulk filters on the server", async () => {
+  const mock = mockStore();
+  const page = await imap.searchMailPage(IMAP_CONFIG, "INBOX", { subject: "Issue" }, { excludeBulk: true });
+
+  assert.deepEqual(mock.calls.search[0].query.subject, "Issue");
+  assert.deepEqual(
+    mock.calls.search[0].query.not.or.map((term) => term.header.precedence).filter(Boolean),
+    ["bulk", "list", "junk"]
+  );
+  assert.ok(mock.calls.fetch[0].query.headers.includes("list-id"));
+  const byUid = Object.fromEntries(page.items.map((e) => [e.uid, e]));
+  assert.equal(byUid[2].isBulk, true);
+  assert.equal(byUid[2].listId, "news.example.com");
+  assert.equal(byUid[4].isBulk, true);
+  assert.equal(byUid[4].listId, undefined);
+  assert.equal("isBulk" in byUid[5], false);
+
+  await imap.listMessagesPage(IMAP_CONFIG, "INBOX", { excludeBulk: true });
+  assert.ok(mock.calls.search[1].query.not);
+});
@@ -0,0 +1,149 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import * as imap from "../dist/imap.js";
+import { getConversation, threadMessages } from "../dist/threading.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+const MAIL_CONFIG = { maxResults: 200, maxBodyLength: 1000, snippetLength: 200 };
+
+const FOLDERS = [
+  { path: "INBOX", name: "INBOX", flags: new Set() },
+  { path: "Sent", name: "Sent", specialUse: "\\Sent", flags: new Set() },
+  { path: "Archive", name: "Archive", specialUse: "\\Archive", flags: new Set() },
+  { path: "Trash", name: "Trash", specialUse: "\\Trash", flags: new Set() },
+];
+
+// root <a> (INBOX 1, copy in Archive 5) -> reply <b> (Sent 10) -> reply <c> (INBOX 2)
+const STORE = {
+  INBOX: {
+    1: { id: "a", refs: [], day: 2 },
+    2: { id: "c", refs: ["a", "b"], day: 4 },
+    3: { id: "x", refs: [], day: 6 },
+    4: { id: "unrelated", refs: [], day: 7 },
+  },
+  Sent: { 10: { id: "b", refs: ["a"], day: 3 } },
+  Archive: { 5: { id: "a", refs: [], day: 2 } },
+  Trash: { 8: { id: "d", refs: ["c"], day: 5 } },
+};
+
+function idsInQuery(query) {
+  return (query.or ?? []).map((q) => Object.values(q.header)[0].replace(/^<|>$/g, ""));
+}
+
+function mockAccount(extra = {}) {
+  const mock = createMockClient({
+    listImpl: () => FOLDERS,
+    searchImpl: (query) => {
+      const ids = idsInQuery(query);
+      const folder = STORE[mock.calls.lock.at(-1).mailbox] ?? {};
+      return Object.entries(folder)
+        .filter(([, m]) => ids.includes(m.id) || m.refs.some((r) => ids.includes(r)))
+        .map(([uid]) => Number(uid));
+    },
+    fetchImpl: (range) => {
+      const folder = STORE[mock.calls.lock.at(-1).mailbox] ?? {};
+      return (async function* () {
+        for (const uid of [].concat(range).map(Number)) {
+          const m = folder[uid];
+          if (!m) continue;
+          yield makeEnvelope(uid, {
+            messageId: `<${m.id}>`,
+            date: new Date(`2024-02-0${m.day}T00:00:00.000Z`),
+            inReplyTo: m.refs.length > 0 ? `<${m.refs.at(-1)}>` : undefined,
+            headers: Buffer.from(m.refs.length > 0 ? `References: ${m.refs.map((r) => `<${r}>`).join("\r\n ")}\r\n\r\n` : "\r\n"),
+          });
+        }
+      })();
+    },
+    ...extra,
+  });
+  imap.__setClientFactoryForTests(() => mock.client);
+  return mock;
+}
+
+test.afterEach(() => {
+  imap.__setClientFactoryForTests();
+});
+
+test("threadMessages builds a JWZ tree with placeholders for missing parents", () => {
+  const roots = threadMessages([
+    { key: "c", messageId: "c", references: ["a", "b"], date: 3 },
+    { key: "a", messageId: "a", references: [], date: 1 },
+    { key: "d", messageId: "d", references: ["a"], date: 2 },
+    { key: "y", messageId: "y", references: ["missing"], date: 5 },
+    { key: "z", messageId: "z", references: ["missing"], date: 4 },
+    { key: "loop", messageId: "loop", references: ["loop"], date: 6 },
+  ]);
+
+  assert.deepEqual(
+    roots.map((r) => [r.key, r.missing === true]),
+    [["a", false], ["missing", true], ["loop", false]]
+  );
+  const [a, missing] = roots;
+  // "b" was never seen and has a single child, so "c" is promoted in its place.
+  assert.deepEqual(a.children.map((c) => [c.key, c.depth]), [["d", 1], ["c", 1]]);
+  assert.deepEqual(missing.children.map((c) => c.key), ["z", "y"]);
+});
+
+test("getConversation walks INBOX, Sent and Archive transitively and dedupes copies", async () => {
+  const { calls } = mockAccount();
+
+  const result = await getConversation(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 2);
+  assert.deepEqual(result.folders, ["INBOX", "Sent", "Archive"]);
+  assert.equal(result.truncated, false);
+  assert.deepEqual(result.serverThreadedFolders, []);
+  assert.deepEqual(
+    result.messages.map((m) => [m.mailbox, m.uid, m.depth, m.parentMessageId ?? null]),
+    [
+      ["INBOX", 1, 0, null],
+      ["Sent", 10, 1, "a"],
+      ["INBOX", 2, 2, "b"],
+    ]
+  );
+  assert.deepEqual(result.messages[0].copies, [{ mailbox: "Archive", uid: 5 }]);
+  assert.equal(result.tree.length, 1);
+  assert.equal(result.tree[0].children[0].children[0].uid, 2);
+  assert.ok(calls.lock.every((l) => l.mailbox !== "Trash"));
+});
+
+test("getConversation resolves an anchor alias once so the anchor is not its own copy", async () => {
+  mockAccount();
+
+  const result = await getConversation(IMAP_CONFIG, MAIL_CONFIG, "@sent", 10);
+  assert.deepEqual(result.anchor, { mailbox: "Sent", uid: 10 });
+  assert.deepEqual(result.folders, ["Sent", "INBOX", "Archive"]);
+  const reply = result.messages.find((m) => m.uid === 10);
+  assert.equal(reply.mailbox, "Sent");
+  assert.equal(reply.copies, undefined);
+});
+
+test("getConversation uses THREAD=REFERENCES when advertised and returns null for unknown UIDs", async () => {
+  const mock = mockAccount();
+  let nextCalled = false;
+  mock.client.capabilities = new Map([["THREAD=REFERENCES", true]]);
+  mock.client.exec = async (command, attributes, options) => {
+    assert.equal(command, "UID THREAD");
+    if (mock.calls.lock.at(-1).mailbox === "INBOX") {
+      // (1 (2)(3))(4): the server also threads 3 with 1 (e.g. via subject).
+      options.untagged.THREAD({
+        attributes: [
+          [{ value: "1" }, [[{ value: "2" }], [{ value: "3" }]]],
+          [{ value: "4" }],
+        ],
+      });
+    }
+    return { next: () => (nextCalled = true) };
+  };
+
+  const result = await getConversation(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 1, { folders: ["Sent"] });
+  assert.deepEqual(result.folders, ["INBOX", "Sent"]);
+  assert.ok(nextCalled);
+  assert.ok(result.serverThreadedFolders.includes("INBOX"));
+  assert.deepEqual(
+    result.messages.map((m) => `${m.mailbox}:${m.uid}`),
+    ["INBOX:1", "Sent:10", "INBOX:2", "INBOX:3"]
+  );
+
+  assert.equal(await getConversation(IMAP_CONFIG, MAIL_CONFIG, "INBOX", 99), null);
+});
@@ -0,0 +1,45 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { attachmentUri, folderUri, messageUri, parseResourceUri } from "../dist/uri.js";
+
+test("folder URIs percent-encode the mailbox path as one segment", () => {
+  const uri = folderUri("Work/2026 Q1");
+  assert.equal(uri, "imap://folder/Work%2F2026%20Q1");
+  assert.deepEqual(parseResourceUri(uri), { kind: "folder", mailbox: "Work/2026 Q1" });
+});
+
+test("message URIs roundtrip with and without UIDVALIDITY", () => {
+  const uri = messageUri("INBOX", 1234, "385759045");
+  assert.equal(uri, "imap://message/INBOX;UIDVALIDITY=385759045/1234");
+  assert.deepEqual(parseResourceUri(uri), {
+    kind: "message",
+    mailbox: "INBOX",
+    uidValidity: "385759045",
+    uid: 1234,
+  });
+  assert.deepEqual(parseResourceUri("imap://message/INBOX/7"), {
+    kind: "message",
+    mailbox: "INBOX",
+    uidValidity: undefined,
+    uid: 7,
+  });
+});
+
+test("attachment URIs carry the MIME part ID", () => {
+  const uri = attachmentUri("Archive", 9, "1.2", "42");
+  assert.deepEqual(parseResourceUri(uri), {
+    kind: "attachment",
+    mailbox: "Archive",
+    uidValidity: "42",
+    uid: 9,
+    part: "1.2",
+  });
+});
+
+test("parseResourceUri rejects malformed URIs", () => {
+  assert.throws(() => parseResourceUri("https://example.com"), /Invalid resource URI/);
+  assert.throws(() => parseResourceUri("imap://message/INBOX/abc"), /positive integer/);
+  assert.throws(() => parseResourceUri("imap://message/INBOX;FOO=1/3"), /unknown parameter/);
+  assert.throws(() => parseResourceUri("imap://attachment/INBOX/3/x"), /part must look like/);
+  assert.throws(() => parseResourceUri("imap://folder/INBOX/3"), /path segments/);
+});
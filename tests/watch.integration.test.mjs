@@ -0,0 +1,78 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import * as imap from "../dist/imap.js";
+import * as watch from "../dist/watch.js";
+import { IMAP_CONFIG, createMockClient } from "./helpers.mjs";
+
+test.afterEach(async () => {
+  await watch.stopAllWatchers();
+  imap.__setClientFactoryForTests();
+});
+
+test("watchMailbox opens a dedicated read-only connection and forwards EXISTS events", async () => {
+  const { client, calls } = createMockClient();
+  imap.__setClientFactoryForTests(() => client);
+
+  const changes = [];
+  const off = watch.onMailboxChange((change) => changes.push(change));
+  await watch.watchMailbox(IMAP_CONFIG, "INBOX");
+
+  assert.equal(watch.isWatching("inbox"), true);
+  assert.deepEqual(calls.mailboxOpen, [{ path: "INBOX", options: { readOnly: true } }]);
+
+  client.emit("exists", { path: "INBOX", count: 5, prevCount: 4 });
+  client.emit("flags", { path: "INBOX", seq: 2, uid: 12, flags: new Set(["\\Seen"]) });
+  off();
+
+  assert.deepEqual(changes, [
+    { mailbox: "INBOX", type: "exists", count: 5, prevCount: 4 },
+    { mailbox: "INBOX", type: "flags", seq: 2, uid: 12, flags: ["\\Seen"] },
+  ]);
+
+  await watch.unwatchMailbox("INBOX");
+  assert.equal(watch.isWatching("INBOX"), false);
+  assert.equal(calls.logout, 1);
+});
+
+test("waitForNewMail returns messages above sinceUid once they arrive", async () => {
+  let uidNext = 11;
+  let searchUids = [10];
+  const { client } = createMockClient({
+    statusImpl: async () => ({ path: "INBOX", uidNext }),
+    searchImpl: async () => searchUids,
+  });
+  imap.__setClientFactoryForTests(() => client);
+
+  const pending = watch.waitForNewMail(IMAP_CONFIG, "INBOX", {
+    sinceUid: 10,
+    timeoutMs: 2000,
+    pollIntervalMs: 20,
+  });
+  setTimeout(() => {
+    uidNext = 13;
+    searchUids = [10, 11, 12];
+  }, 50);
+
+  const result = await pending;
+  assert.equal(result.timedOut, false);
+  assert.equal(result.sinceUid, 10);
+  assert.deepEqual(result.items.map((m) => m.uid), [11, 12]);
+  assert.equal(result.lastUid, 12);
+});
+
+test("waitForNewMail times out with no items when nothing arrives", async () => {
+  const { client, calls } = createMockClient({
+    statusImpl: async () => ({ path: "INBOX", uidNext: 21 }),
+    searchImpl: async () => [20],
+  });
+  imap.__setClientFactoryForTests(() => client);
+
+  const result = await watch.waitForNewMail(IMAP_CONFIG, "INBOX", { timeoutMs: 60, pollIntervalMs: 20 });
+  assert.equal(result.timedOut, true);
+  assert.equal(result.sinceUid, 20);
+  assert.equal(result.lastUid, 20);
+  assert.deepEqual(result.items, []);
+  // uidNext never moved past sinceUid + 1, so no UID SEARCH was needed.
+  assert.equal(calls.search.length, 0);
+});
@@ -0,0 +1,138 @@
+import test, { afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { __setClientFactoryForTests } from "../dist/imap.js";
+import { copyMessages, deleteMessages, moveMessages, setFlags } from "../dist/write.js";
+import { IMAP_CONFIG, createMockClient, makeEnvelope } from "./helpers.mjs";
+
+const WRITE_CONFIG = {
+  allowWrite: true,
+  allowedTargetFolders: ["Archive"],
+  maxMessagesPerCall: 3,
+};
+
+function mockWithMessages(uids, extra = {}) {
+  return createMockClient({
+    ...extra,
+    fetchImpl: (range) =>
+      (async function* () {
+        for (const uid of range) {
+          if (uids.includes(uid)) yield makeEnvelope(uid, { flags: new Set(["\\Seen"]) });
+        }
+      })(),
+  });
+}
+
+afterEach(() => {
+  __setClientFactoryForTests(undefined);
+});
+
+test("write tools refuse to run when MAIL_ALLOW_WRITE is off", async () => {
+  const { client, calls } = mockWithMessages([1]);
+  __setClientFactoryForTests(() => client);
+
+  await assert.rejects(
+    () => setFlags(IMAP_CONFIG, { ...WRITE_CONFIG, allowWrite: false }, "INBOX", [1], { add: ["\\Flagged"] }),
+    /Write tools are disabled/
+  );
+  assert.equal(calls.connect, 0);
+});
+
+test("write tools enforce the per-call message cap", async () => {
+  await assert.rejects(
+    () => moveMessages(IMAP_CONFIG, WRITE_CONFIG, "INBOX", [1, 2, 3, 4], "Archive"),
+    /Too many messages: 4 requested, max 3/
+  );
+});
+
+test("move and copy only target allow-listed folders", async () => {
+  await assert.rejects(
+    () => moveMessages(IMAP_CONFIG, WRITE_CONFIG, "INBOX", [1], "Spam"),
+    /not allowed as a write target: Spam/
+  );
+  await assert.rejects(
+    () => copyMessages(IMAP_CONFIG, WRITE_CONFIG, "Archive", [1], "Archive"),
+    /must differ from the source mailbox/
+  );
+});
+
+test("set flags dry-run reports changes without touching the mailbox", async () => {
+  const { client, calls } = mockWithMessages([1, 2]);
+  __setClientFactoryForTests(() => client);
+
+  const result = await setFlags(
+    IMAP_CONFIG,
+    WRITE_CONFIG,
+    "INBOX",
+    [2, 1, 9],
+    { add: ["\\Flagged"], remove: ["\\Seen"] },
+    true
+  );
+  assert.equal(result.dryRun, true);
+  assert.deepEqual(
+    result.affected.map((t) => [t.uid, t.flagsAfter]),
+    [
+      [1, ["\\Flagged"]],
+      [2, ["\\Flagged"]],
+    ]
+  );
+  assert.deepEqual(result.missingUids, [9]);
+  assert.equal(calls.write.length, 0);
+  assert.equal(calls.lock[0].options.readOnly, true);
+});
+
+test("set flags rejects \\Deleted", async () => {
+  await assert.rejects(
+    () => setFlags(IMAP_CONFIG, WRITE_CONFIG, "INBOX", [1], { add: ["\\Deleted"] }),
+    /mail_delete_messages/
+  );
+});
+
+test("move applies to existing UIDs only with a writable lock", async () => {
+  const { client, calls } = mockWithMessages([1, 2]);
+  __setClientFactoryForTests(() => client);
+
+  const result = await moveMessages(IMAP_CONFIG, WRITE_CONFIG, "INBOX", [1, 2, 3], "Archive");
+  assert.equal(calls.lock[0].options.readOnly, false);
+  assert.deepEqual(calls.write, [{ op: "move", range: [1, 2], destination: "Archive", options: { uid: true } }]);
+  assert.deepEqual(result.missingUids, [3]);
+  assert.deepEqual(result.uidMap, { 1: 100, 2: 101 });
+});
+
+test("delete moves to the special-use Trash folder unless permanent", async () => {
+  const { client, calls } = mockWithMessages([5], {
+    listImpl: () => [
+      { path: "INBOX", name: "INBOX" },
+      { path: "Deleted", name: "Deleted", specialUse: "\\Trash" },
+    ],
+  });
+  __setClientFactoryForTests(() => client);
+
+  const config = { ...WRITE_CONFIG, allowedTargetFolders: ["Archive", "Deleted"], allowExpunge: true };
+  const moved = await deleteMessages(IMAP_CONFIG, config, "INBOX", [5]);
+  assert.equal(moved.destination, "Deleted");
+  assert.equal(calls.write[0].op, "move");
+
+  const expunged = await deleteMessages(IMAP_CONFIG, config, "INBOX", [5], { permanent: true });
+  assert.equal(expunged.destination, undefined);
+  assert.equal(calls.write[1].op, "delete");
+});
+
+test("delete refuses a Trash folder outside the allow-list and expunge without its opt-in", async () => {
+  const { client, calls } = mockWithMessages([5], {
+    listImpl: () => [
+      { path: "INBOX", name: "INBOX" },
+      { path: "Deleted", name: "Deleted", specialUse: "\\Trash" },
+    ],
+  });
+  __setClientFactoryForTests(() => client);
+
+  await assert.rejects(
+    () => deleteMessages(IMAP_CONFIG, WRITE_CONFIG, "INBOX", [5]),
+    /Trash folder not allowed as a write target: Deleted/
+  );
+  await assert.rejects(
+    () => deleteMessages(IMAP_CONFIG, { ...WRITE_CONFIG, allowedTargetFolders: ["Deleted"] }, "INBOX", [5], { permanent: true }),
+    /MAIL_ALLOW_EXPUNGE=true/
+  );
+  assert.equal(calls.write.length, 0);
+});